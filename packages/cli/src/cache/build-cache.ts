@@ -0,0 +1,250 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import type { ProjectPaths } from "@tsonic/host";
+import type { TargetArtifact, TargetArtifactKind, TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import type { BuildOutputTarget } from "../output-publication.js";
+import {
+  createOutputManifestArtifact,
+  createOutputManifestTarget,
+  formatOutputManifest,
+  outputManifestFileName,
+} from "../publication/output-manifest.js";
+import type {
+  BuildOutputPluginVersion,
+  BuildOutputProvenance,
+  OutputManifestArtifact,
+  OutputManifestTarget,
+} from "../publication/output-manifest.js";
+
+export interface BuildCacheEntry {
+  readonly fingerprint: string;
+  readonly targets: readonly BuildOutputTarget[];
+  readonly diagnostics: readonly TargetDiagnostic[];
+}
+
+const buildCacheSchemaVersion = 3;
+
+const targetArtifactKinds: ReadonlySet<string> = new Set<TargetArtifactKind>(["source", "project", "configuration", "asset"]);
+
+export function getBuildCachePath(paths: ProjectPaths): string | undefined {
+  const cachePath = resolve(paths.projectDirectory, ".tsonic", "cache", "build.json");
+  const outputRelative = relative(paths.outputRoot, cachePath);
+  return outputRelative.startsWith("..") || isAbsolute(outputRelative) ? cachePath : undefined;
+}
+
+export async function readBuildCache(cachePath: string, fingerprint: string): Promise<BuildCacheEntry | undefined> {
+  let document: unknown;
+  try {
+    document = JSON.parse(await readFile(cachePath, "utf8"));
+  } catch (error: unknown) {
+    if (isBuildCacheMiss(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+  if (!isRecord(document) ||
+    document.schemaVersion !== buildCacheSchemaVersion ||
+    document.fingerprint !== fingerprint ||
+    !Array.isArray(document.targets) ||
+    !Array.isArray(document.diagnostics)) {
+    return undefined;
+  }
+  const targets = document.targets.map(readCachedTarget);
+  if (targets.some((target) => target === undefined)) {
+    return undefined;
+  }
+  const cachedTargets = targets.filter((target) => target !== undefined);
+  if (!await copiedSourcesAreCurrent(cachedTargets)) {
+    return undefined;
+  }
+  return Object.freeze({
+    fingerprint,
+    targets: cachedTargets,
+    diagnostics: document.diagnostics as readonly TargetDiagnostic[],
+  });
+}
+
+export async function writeBuildCache(cachePath: string, entry: BuildCacheEntry): Promise<void> {
+  await mkdir(dirname(cachePath), { recursive: true });
+  const temporaryPath = `${cachePath}.${randomUUID()}.tmp`;
+  const document = {
+    schemaVersion: buildCacheSchemaVersion,
+    fingerprint: entry.fingerprint,
+    targets: entry.targets.map((target) => ({
+      targetId: target.targetId,
+      artifacts: target.artifacts.map(writeCachedArtifact),
+      ...(target.provenance === undefined ? {} : { provenance: target.provenance }),
+    })),
+    diagnostics: entry.diagnostics.map(({ sourceNode: _sourceNode, ...diagnostic }) => diagnostic),
+  };
+  try {
+    await writeFile(temporaryPath, `${JSON.stringify(document)}\n`, "utf8");
+    await rename(temporaryPath, cachePath);
+  } finally {
+    await rm(temporaryPath, { force: true });
+  }
+}
+
+export async function isPublishedOutputCurrent(
+  outputRoot: string,
+  targets: readonly BuildOutputTarget[],
+): Promise<boolean> {
+  try {
+    const targetIds = (await readdir(outputRoot)).filter((entry) => entry !== outputManifestFileName).sort();
+    const expectedIds = targets.map((target) => target.targetId).sort();
+    if (JSON.stringify(targetIds) !== JSON.stringify(expectedIds)) {
+      return false;
+    }
+    const manifestTargets: OutputManifestTarget[] = [];
+    for (const target of targets) {
+      const targetRoot = resolve(outputRoot, target.targetId);
+      const files = await listFiles(targetRoot);
+      const expected = new Map(target.artifacts.map((artifact) => [resolve(targetRoot, artifact.path), artifact]));
+      if (files.length !== expected.size) {
+        return false;
+      }
+      const manifestArtifacts: OutputManifestArtifact[] = [];
+      for (const file of files) {
+        const artifact = expected.get(file);
+        const content = await readFile(file);
+        if (artifact === undefined || !publishedContentMatches(artifact, content)) {
+          return false;
+        }
+        manifestArtifacts.push(createOutputManifestArtifact(relative(targetRoot, file), artifact, content));
+      }
+      manifestTargets.push(createOutputManifestTarget(target.targetId, target.provenance, manifestArtifacts));
+    }
+    return await readFile(resolve(outputRoot, outputManifestFileName), "utf8") === formatOutputManifest(manifestTargets);
+  } catch (error: unknown) {
+    if (isFileSystemError(error, "ENOENT") || isFileSystemError(error, "ENOTDIR") || isFileSystemError(error, "EISDIR")) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export function isBuildCacheMiss(error: unknown): boolean {
+  return error instanceof SyntaxError || isFileSystemError(error, "ENOENT");
+}
+
+async function listFiles(directory: string): Promise<readonly string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const fullPath = resolve(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath));
+    } else {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+async function copiedSourcesAreCurrent(targets: readonly BuildOutputTarget[]): Promise<boolean> {
+  for (const artifact of targets.flatMap((target) => target.artifacts)) {
+    if (!("sourcePath" in artifact)) {
+      continue;
+    }
+    let content: Buffer;
+    try {
+      content = await readFile(artifact.sourcePath);
+    } catch (error: unknown) {
+      if (isFileSystemError(error, "ENOENT")) {
+        return false;
+      }
+      throw error;
+    }
+    if (createHash("sha256").update(content).digest("hex") !== artifact.sha256) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function publishedContentMatches(artifact: TargetArtifact, content: Buffer): boolean {
+  if ("text" in artifact) {
+    return content.equals(Buffer.from(artifact.text, "utf8"));
+  }
+  if ("bytes" in artifact) {
+    return content.equals(artifact.bytes);
+  }
+  return createHash("sha256").update(content).digest("hex") === artifact.sha256;
+}
+
+function writeCachedArtifact(artifact: TargetArtifact): Readonly<Record<string, unknown>> {
+  if ("bytes" in artifact) {
+    const { bytes, ...rest } = artifact;
+    return { ...rest, bytesBase64: Buffer.from(bytes).toString("base64") };
+  }
+  return { ...artifact };
+}
+
+function readCachedTarget(value: unknown): BuildOutputTarget | undefined {
+  if (!isRecord(value) || typeof value.targetId !== "string" || !Array.isArray(value.artifacts)) {
+    return undefined;
+  }
+  const artifacts = value.artifacts.map(readCachedArtifact);
+  const provenance = readCachedProvenance(value.provenance);
+  return artifacts.every((artifact) => artifact !== undefined)
+    ? { targetId: value.targetId, artifacts, ...(provenance === undefined ? {} : { provenance }) }
+    : undefined;
+}
+
+function readCachedProvenance(value: unknown): BuildOutputProvenance | undefined {
+  if (
+    !isRecord(value) ||
+    !Array.isArray(value.plugins) ||
+    typeof value.sourceDeclarationFingerprint !== "string" ||
+    typeof value.sourcePackageGraphFingerprint !== "string"
+  ) {
+    return undefined;
+  }
+  const plugins = value.plugins.map(readCachedPluginVersion);
+  return plugins.every((plugin) => plugin !== undefined)
+    ? {
+        plugins,
+        sourceDeclarationFingerprint: value.sourceDeclarationFingerprint,
+        sourcePackageGraphFingerprint: value.sourcePackageGraphFingerprint,
+      }
+    : undefined;
+}
+
+function readCachedPluginVersion(value: unknown): BuildOutputPluginVersion | undefined {
+  return isRecord(value) && typeof value.name === "string" && typeof value.version === "string"
+    ? { name: value.name, version: value.version }
+    : undefined;
+}
+
+function readCachedArtifact(value: unknown): TargetArtifact | undefined {
+  if (!isRecord(value) || !isTargetArtifactKind(value.kind) || typeof value.path !== "string") {
+    return undefined;
+  }
+  const artifact = {
+    kind: value.kind,
+    path: value.path,
+    ...(typeof value.language === "string" ? { language: value.language } : {}),
+  };
+  if (typeof value.text === "string") {
+    return { ...artifact, text: value.text };
+  }
+  if (typeof value.bytesBase64 === "string") {
+    return { ...artifact, bytes: new Uint8Array(Buffer.from(value.bytesBase64, "base64")) };
+  }
+  if (typeof value.sourcePath === "string" && typeof value.sha256 === "string") {
+    return { ...artifact, sourcePath: value.sourcePath, sha256: value.sha256 };
+  }
+  return undefined;
+}
+
+function isTargetArtifactKind(value: unknown): value is TargetArtifactKind {
+  return typeof value === "string" && targetArtifactKinds.has(value);
+}
+
+function isRecord(value: unknown): value is Readonly<Record<string, unknown>> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFileSystemError(error: unknown, code: string): boolean {
+  return error instanceof Error && "code" in error && error.code === code;
+}
@@ -0,0 +1,144 @@
+import type { TargetCompilationBudget } from "@tsonic/target-api/artifacts";
+import { diagnosticsFormats, isDiagnosticsFormat } from "../diagnostics/output-format.js";
+import type { DiagnosticsFormat } from "../diagnostics/output-format.js";
+import type { TextDiagnosticsStyle } from "../diagnostics/text-format.js";
+import type { BuildProfileOption } from "../profile/build-profile.js";
+
+export interface DryRunOption {
+  readonly diff: boolean;
+  readonly checkClean: boolean;
+}
+
+export interface DiagnosticsTerminal {
+  readonly isTTY?: boolean;
+  hasColors?(): boolean;
+}
+
+export function readProjectPath(args: readonly string[]): string {
+  for (let index = 0; index < args.length; index += 1) {
+    const value = args[index];
+    if (value === "--project" || value === "-p") {
+      const path = args[index + 1];
+      if (path === undefined || path.startsWith("-")) {
+        throw new Error("Expected a path after --project.");
+      }
+      return path;
+    }
+  }
+  return "tsonic.json";
+}
+
+export function readOutputPath(args: readonly string[]): string | undefined {
+  for (let index = 0; index < args.length; index += 1) {
+    if (args[index] === "--output" || args[index] === "-o") {
+      const path = args[index + 1];
+      if (path === undefined || path.startsWith("-")) {
+        throw new Error("Expected a path after --output.");
+      }
+      return path;
+    }
+  }
+  return undefined;
+}
+
+export function readTargetIds(args: readonly string[]): readonly string[] | undefined {
+  const targetIds: string[] = [];
+  for (let index = 0; index < args.length; index += 1) {
+    const value = args[index];
+    if (value === "--target" || value === "-t") {
+      const targetId = args[index + 1];
+      if (targetId === undefined || targetId.startsWith("-")) {
+        throw new Error("Expected a target id after --target.");
+      }
+      targetIds.push(targetId);
+      index += 1;
+    }
+  }
+  return targetIds.length === 0 ? undefined : targetIds;
+}
+
+export function readProfileOption(args: readonly string[]): BuildProfileOption | undefined {
+  const prefix = "--profile=";
+  for (const value of args) {
+    if (value === "--profile") {
+      return {};
+    }
+    if (value.startsWith(prefix)) {
+      const tracePath = value.slice(prefix.length);
+      if (tracePath.length === 0) {
+        throw new Error("Expected a trace file path after --profile=.");
+      }
+      return { tracePath };
+    }
+  }
+  return undefined;
+}
+
+export function readDryRunOption(args: readonly string[]): DryRunOption | undefined {
+  const diff = args.includes("--diff");
+  const checkClean = args.includes("--check-clean");
+  if (!args.includes("--dry-run")) {
+    if (diff || checkClean) {
+      throw new Error(`${diff ? "--diff" : "--check-clean"} requires --dry-run.`);
+    }
+    return undefined;
+  }
+  if (args.includes("--publish-partial")) {
+    throw new Error("--publish-partial cannot be combined with --dry-run.");
+  }
+  return { diff, checkClean };
+}
+
+export function readCompilationBudget(args: readonly string[]): TargetCompilationBudget | undefined {
+  const wallClockMilliseconds = readPositiveIntegerOption(args, "--time-budget");
+  const heapMegabytes = readPositiveIntegerOption(args, "--heap-budget");
+  if (wallClockMilliseconds === undefined && heapMegabytes === undefined) {
+    return undefined;
+  }
+  return {
+    ...(wallClockMilliseconds === undefined ? {} : { wallClockMilliseconds }),
+    ...(heapMegabytes === undefined ? {} : { heapBytes: heapMegabytes * 1024 * 1024 }),
+  };
+}
+
+export function readDiagnosticsFormat(args: readonly string[]): DiagnosticsFormat {
+  const prefix = "--diagnostics-format=";
+  for (let index = 0; index < args.length; index += 1) {
+    const value = args[index];
+    if (value === "--diagnostics-format" || value?.startsWith(prefix) === true) {
+      const format = value === "--diagnostics-format" ? args[index + 1] : value.slice(prefix.length);
+      if (format === undefined || !isDiagnosticsFormat(format)) {
+        throw new Error(`Expected one of ${diagnosticsFormats.join(", ")} after --diagnostics-format.`);
+      }
+      return format;
+    }
+  }
+  return "text";
+}
+
+function readPositiveIntegerOption(args: readonly string[], name: string): number | undefined {
+  const prefix = `${name}=`;
+  for (let index = 0; index < args.length; index += 1) {
+    const value = args[index];
+    if (value === name || value?.startsWith(prefix) === true) {
+      const text = value === name ? args[index + 1] : value.slice(prefix.length);
+      const parsed = Number(text);
+      if (text === undefined || !/^\d+$/u.test(text) || !Number.isSafeInteger(parsed) || parsed <= 0) {
+        throw new Error(`Expected a positive integer after ${name}.`);
+      }
+      return parsed;
+    }
+  }
+  return undefined;
+}
+
+export function readTextDiagnosticsStyle(
+  args: readonly string[],
+  terminal: DiagnosticsTerminal = process.stderr,
+): TextDiagnosticsStyle {
+  const pretty = !args.includes("--plain") && terminal.isTTY === true;
+  return {
+    pretty,
+    color: pretty && !args.includes("--no-color") && terminal.hasColors?.() === true,
+  };
+}
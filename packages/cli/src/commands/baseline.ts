@@ -0,0 +1,62 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import {
+  compileProject,
+  createDiagnosticBaseline,
+  discoverInstalledTsonicPlugins,
+  isBlockingTypeScriptDiagnostic,
+  resolveDiagnosticBaselinePath,
+} from "@tsonic/host";
+import { formatDiagnostics } from "../diagnostics/text-format.js";
+import { readProjectPath, readTextDiagnosticsStyle } from "./arguments.js";
+import { loadCliProject } from "./build.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runBaseline(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  if (args[0] !== "update") {
+    return {
+      exitCode: 2,
+      stderr: `Unknown baseline command '${args[0] ?? ""}'. Use 'tsonic baseline update'.\n`,
+    };
+  }
+  const project = await loadCliProject(resolve(currentDirectory, readProjectPath(args)));
+  const baselinePath = resolveDiagnosticBaselinePath(project.config, project.projectPath);
+  if (baselinePath === undefined) {
+    return {
+      exitCode: 1,
+      stderr: "Project config diagnostics.baseline must name the baseline file before running 'tsonic baseline update'.\n",
+    };
+  }
+  const plugins = await discoverInstalledTsonicPlugins(project.projectPath);
+  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return {
+      exitCode: 1,
+      stderr: formatDiagnostics(plugins.diagnostics),
+    };
+  }
+  const buildResult = compileProject({
+    project: project.config,
+    projectFilePath: project.projectPath,
+    registry: plugins.createTargetRegistry(),
+    installedCapabilities: plugins.capabilities,
+    prepareToolchain: false,
+    ignoreDiagnosticsBaseline: true,
+  });
+  const errors = buildResult.diagnostics.filter((diagnostic) => diagnostic.category === "error");
+  const unaccepted = errors.filter(isBlockingTypeScriptDiagnostic);
+  const baseline = createDiagnosticBaseline(errors.filter((diagnostic) => !isBlockingTypeScriptDiagnostic(diagnostic)));
+  await mkdir(dirname(baselinePath), { recursive: true });
+  await writeFile(baselinePath, `${JSON.stringify(baseline, null, 2)}\n`, "utf8");
+  return {
+    exitCode: unaccepted.length === 0 ? 0 : 1,
+    stdout: [
+      `Wrote ${relative(currentDirectory, baselinePath)}`,
+      `Accepted: ${baseline.diagnostics.length}`,
+      ...unaccepted.length === 0 ? [] : [`Not accepted: ${unaccepted.length} TypeScript error(s) always block the build.`],
+      "",
+    ].join("\n"),
+    ...(unaccepted.length > 0
+      ? { stderr: formatDiagnostics(unaccepted, readTextDiagnosticsStyle(args), project.paths.projectRoot) }
+      : {}),
+  };
+}
@@ -0,0 +1,417 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  compileProject,
+  compileProjectInParallel,
+  createBuildProfiler,
+  createProjectBuildFingerprint,
+  discoverInstalledTsonicPlugins,
+  invokeProjectToolchains,
+  parseTsonicProjectConfig,
+  resolveProjectPaths,
+} from "@tsonic/host";
+import type {
+  BuildProfiler,
+  InstalledTsonicPluginPackage,
+  InstalledTsonicPluginRegistry,
+  ProjectBuildResult,
+  ProjectPaths,
+  ProjectToolchainInvocationResult,
+  TargetBuildProvenance,
+  TargetBuildResult,
+} from "@tsonic/host";
+import type { TsonicProjectConfig } from "@tsonic/target-api";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import {
+  getBuildCachePath,
+  isBuildCacheMiss,
+  isPublishedOutputCurrent,
+  readBuildCache,
+  writeBuildCache,
+} from "../cache/build-cache.js";
+import { diagnosticsResult } from "../diagnostics/output-format.js";
+import type { DiagnosticsFormat } from "../diagnostics/output-format.js";
+import type { TextDiagnosticsStyle } from "../diagnostics/text-format.js";
+import { compareBuildOutput, publishBuildOutput, recoverBuildOutput } from "../output-publication.js";
+import type { BuildOutputChange, BuildOutputRecoveryOptions, BuildOutputTarget } from "../output-publication.js";
+import { reportBuildProfile } from "../profile/build-profile.js";
+import type { BuildOutputProvenance } from "../publication/output-manifest.js";
+import { formatUnifiedDiff } from "../publication/unified-diff.js";
+import {
+  readCompilationBudget,
+  readDiagnosticsFormat,
+  readDryRunOption,
+  readProfileOption,
+  readProjectPath,
+  readTextDiagnosticsStyle,
+} from "./arguments.js";
+import type { DryRunOption } from "./arguments.js";
+import type { CliResult } from "./cli-result.js";
+
+export interface CliProject {
+  readonly projectPath: string;
+  readonly config: TsonicProjectConfig;
+  readonly paths: ProjectPaths;
+  readonly outputOptions: BuildOutputRecoveryOptions;
+}
+
+export async function runBuild(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const profile = readProfileOption(args);
+  if (profile === undefined) {
+    return buildProject(args, currentDirectory);
+  }
+  const profiler = createBuildProfiler();
+  const result = await profiler.spanAsync("build", () => buildProject(args, currentDirectory, profiler));
+  return reportBuildProfile(
+    result,
+    readDiagnosticsFormat(args),
+    profiler.spans(),
+    profile.tracePath === undefined ? {} : { tracePath: resolve(currentDirectory, profile.tracePath) },
+    currentDirectory,
+  );
+}
+
+async function buildProject(
+  args: readonly string[],
+  currentDirectory: string,
+  profiler?: BuildProfiler,
+): Promise<CliResult> {
+  const format = readDiagnosticsFormat(args);
+  const style = readTextDiagnosticsStyle(args);
+  const dryRun = readDryRunOption(args);
+  const project = await loadCliProject(resolve(currentDirectory, readProjectPath(args)));
+  if (dryRun === undefined) {
+    await recoverBuildOutput(project.outputOptions);
+  }
+  const plugins = await profileAsync(profiler, "plugins", () => discoverInstalledTsonicPlugins(project.projectPath));
+  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return diagnosticsResult(format, {
+      command: "build",
+      exitCode: 1,
+      sourceRoot: project.paths.projectRoot,
+      diagnostics: plugins.diagnostics,
+    }, "", style);
+  }
+  if (dryRun !== undefined) {
+    return dryRunProject(args, format, style, project, plugins, dryRun, profiler);
+  }
+  const cache = args.includes("--no-cache") ? undefined : openProjectBuildCache(project, plugins.packages);
+  const cached = cache === undefined ? undefined : await readBuildCache(cache.path, cache.fingerprint);
+  if (cached !== undefined) {
+    const current = await isPublishedOutputCurrent(project.paths.outputRoot, cached.targets);
+    if (!current) {
+      await profileAsync(profiler, "publish", () => publishOutputTargets(project, cached.targets));
+    }
+    const invocation = args.includes("--toolchain")
+      ? await profileAsync(profiler, "toolchain", () => invokeToolchains(format, project, plugins))
+      : undefined;
+    return buildSummaryResult(
+      format,
+      style,
+      project,
+      0,
+      cached.diagnostics,
+      cached.targets,
+      current ? "up to date" : "republished",
+      invocation,
+    );
+  }
+  const buildResult = await compileCliProject(args, project, plugins, profiler, true);
+  const diagnostics = buildResult.diagnostics.filter((diagnostic) => diagnostic.category === "error");
+  const resolvedTargets = buildResult.targets.filter((target) => target.compileResult.kind === "resolved");
+  const retainedTargetIds = buildResult.targets
+    .filter((target) => target.compileResult.kind !== "resolved")
+    .map((target) => target.target.id);
+  if (
+    diagnostics.length > 0 &&
+    args.includes("--publish-partial") &&
+    resolvedTargets.length > 0 &&
+    retainedTargetIds.length > 0
+  ) {
+    await profileAsync(profiler, "publish", () => publishProjectBuild(project, plugins, resolvedTargets, retainedTargetIds));
+    return buildSummaryResult(
+      format,
+      style,
+      project,
+      3,
+      buildResult.diagnostics,
+      buildTargetArtifacts(buildResult.targets),
+      cache === undefined ? "disabled" : "miss",
+      undefined,
+      [
+        `Published: ${resolvedTargets.map((target) => target.target.id).join(", ")}`,
+        `Retained: ${retainedTargetIds.join(", ")}`,
+      ],
+    );
+  }
+  let invocation: ProjectToolchainInvocationResult | undefined;
+  if (diagnostics.length === 0) {
+    const published = await profileAsync(profiler, "publish", () => publishProjectBuild(project, plugins, buildResult.targets));
+    if (cache !== undefined) {
+      await writeBuildCache(cache.path, {
+        fingerprint: cache.fingerprint,
+        targets: published,
+        diagnostics: buildResult.diagnostics,
+      });
+    }
+    if (args.includes("--toolchain")) {
+      invocation = await profileAsync(profiler, "toolchain", () => invokeToolchains(format, project, plugins));
+    }
+  }
+  return buildSummaryResult(
+    format,
+    style,
+    project,
+    diagnostics.length === 0 ? 0 : 1,
+    buildResult.diagnostics,
+    buildTargetArtifacts(buildResult.targets),
+    cache === undefined ? "disabled" : "miss",
+    invocation,
+  );
+}
+
+async function dryRunProject(
+  args: readonly string[],
+  format: DiagnosticsFormat,
+  style: TextDiagnosticsStyle,
+  project: CliProject,
+  plugins: InstalledTsonicPluginRegistry,
+  dryRun: DryRunOption,
+  profiler: BuildProfiler | undefined,
+): Promise<CliResult> {
+  const buildResult = await compileCliProject(args, project, plugins, profiler, false);
+  const targets = buildTargetArtifacts(buildResult.targets);
+  if (buildResult.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return buildSummaryResult(format, style, project, 1, buildResult.diagnostics, targets, "skipped");
+  }
+  const differences = await profileAsync(profiler, "compare", () => compareBuildOutput({
+    ...project.outputOptions,
+    expectedTargetIds: project.config.targets.map((target) => target.id),
+    targets,
+  }));
+  const cleanDiagnostics: readonly TargetDiagnostic[] = dryRun.checkClean && differences.length > 0
+    ? [{
+        code: "TSONIC_OUTPUT_NOT_CLEAN",
+        category: "error",
+        source: "tsonic-cli",
+        message: `Published output differs from the build in ${differences.length} file${differences.length === 1 ? "" : "s"}.`,
+      }]
+    : [];
+  const counts = (change: BuildOutputChange): number =>
+    differences.filter((difference) => difference.change === change).length;
+  return buildSummaryResult(
+    format,
+    style,
+    project,
+    cleanDiagnostics.length > 0 ? 1 : 0,
+    [...buildResult.diagnostics, ...cleanDiagnostics],
+    targets,
+    "skipped",
+    undefined,
+    [
+      `Dry run: ${counts("added")} added, ${counts("removed")} removed, ${counts("changed")} changed`,
+      ...differences.map((difference) => `  ${dryRunChangeMarkers[difference.change]} ${difference.path}`),
+      ...dryRun.diff
+        ? differences.map((difference) => formatUnifiedDiff(difference.path, difference.previous, difference.next).trimEnd())
+        : [],
+    ],
+  );
+}
+
+const dryRunChangeMarkers: Readonly<Record<BuildOutputChange, string>> = {
+  added: "A",
+  removed: "D",
+  changed: "M",
+};
+
+async function compileCliProject(
+  args: readonly string[],
+  project: CliProject,
+  plugins: InstalledTsonicPluginRegistry,
+  profiler: BuildProfiler | undefined,
+  prepareToolchain: boolean,
+): Promise<ProjectBuildResult> {
+  const budget = readCompilationBudget(args);
+  const parallel = args.includes("--parallel");
+  return parallel || budget !== undefined
+    ? compileProjectInParallel({
+        project: project.config,
+        projectFilePath: project.projectPath,
+        prepareToolchain,
+        ...(parallel ? {} : { maxWorkers: 1 }),
+        ...(profiler === undefined ? {} : { profiler }),
+        ...(budget === undefined ? {} : { budget }),
+      })
+    : compileProject({
+        project: project.config,
+        projectFilePath: project.projectPath,
+        registry: plugins.createTargetRegistry(),
+        installedCapabilities: plugins.capabilities,
+        prepareToolchain,
+        ...(profiler === undefined ? {} : { profiler }),
+        ...(budget === undefined ? {} : { budget }),
+      });
+}
+
+function buildTargetArtifacts(targets: readonly TargetBuildResult[]): readonly BuildOutputTarget[] {
+  return targets.map((target): BuildOutputTarget => ({
+    targetId: target.target.id,
+    artifacts: target.compileResult.kind === "resolved" ? target.compileResult.value.artifacts : [],
+  }));
+}
+
+export async function loadCliProject(projectPath: string): Promise<CliProject> {
+  const text = await readFile(projectPath, "utf8");
+  const config = parseTsonicProjectConfig(JSON.parse(text));
+  const paths = resolveProjectPaths({ project: config, projectFilePath: projectPath });
+  return {
+    projectPath,
+    config,
+    paths,
+    outputOptions: {
+      outputRoot: paths.outputRoot,
+      protectedPaths: [paths.projectDirectory],
+    },
+  };
+}
+
+export async function publishProjectBuild(
+  project: CliProject,
+  plugins: InstalledTsonicPluginRegistry,
+  targets: readonly TargetBuildResult[],
+  retainedTargetIds: readonly string[] = [],
+): Promise<readonly BuildOutputTarget[]> {
+  const artifacts = targets.map((target): BuildOutputTarget => {
+    if (target.compileResult.kind !== "resolved") {
+      throw new Error(`Target '${target.target.id}' rejected without an error diagnostic.`);
+    }
+    const provenance = target.provenance === undefined
+      ? undefined
+      : createBuildOutputProvenance(plugins, target.target.id, target.provenance);
+    return {
+      targetId: target.target.id,
+      artifacts: target.compileResult.value.artifacts,
+      ...(provenance === undefined ? {} : { provenance }),
+    };
+  });
+  await publishOutputTargets(project, artifacts, retainedTargetIds);
+  return artifacts;
+}
+
+export function countBuildArtifacts(targets: readonly TargetBuildResult[]): number {
+  return targets.reduce(
+    (count, target) => count + (target.compileResult.kind === "resolved" ? target.compileResult.value.artifacts.length : 0),
+    0,
+  );
+}
+
+async function publishOutputTargets(
+  project: CliProject,
+  targets: readonly BuildOutputTarget[],
+  retainedTargetIds: readonly string[] = [],
+): Promise<void> {
+  await publishBuildOutput({
+    ...project.outputOptions,
+    expectedTargetIds: project.config.targets.map((target) => target.id),
+    targets,
+    retainedTargetIds,
+    mode: "incremental",
+  });
+}
+
+function createBuildOutputProvenance(
+  plugins: InstalledTsonicPluginRegistry,
+  targetId: string,
+  provenance: TargetBuildProvenance,
+): BuildOutputProvenance {
+  const pluginIds = [
+    ...plugins.targets.filter((target) => target.targetId === targetId).map((target) => target.id),
+    ...provenance.capabilityIds,
+  ];
+  return {
+    plugins: pluginIds.map((pluginId) => ({
+      name: pluginId,
+      version: plugins.packages.find((installed) => installed.name === pluginId)?.version ?? "0.0.0",
+    })),
+    sourceDeclarationFingerprint: provenance.sourceDeclarationFingerprint,
+    sourcePackageGraphFingerprint: provenance.sourcePackageGraphFingerprint,
+  };
+}
+
+function openProjectBuildCache(
+  project: CliProject,
+  packages: readonly InstalledTsonicPluginPackage[],
+): { readonly path: string; readonly fingerprint: string } | undefined {
+  const path = getBuildCachePath(project.paths);
+  if (path === undefined) {
+    return undefined;
+  }
+  try {
+    return {
+      path,
+      fingerprint: createProjectBuildFingerprint({
+        project: project.config,
+        projectFilePath: project.projectPath,
+        plugins: packages,
+      }).fingerprint,
+    };
+  } catch (error: unknown) {
+    if (isBuildCacheMiss(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function invokeToolchains(
+  format: DiagnosticsFormat,
+  project: CliProject,
+  plugins: InstalledTsonicPluginRegistry,
+): Promise<ProjectToolchainInvocationResult> {
+  return invokeProjectToolchains({
+    project: project.config,
+    projectFilePath: project.projectPath,
+    registry: plugins.createTargetRegistry(),
+    installedCapabilities: plugins.capabilities,
+    output: {
+      write(stream, text) {
+        (stream === "stdout" && format === "text" ? process.stdout : process.stderr).write(text);
+      },
+    },
+  });
+}
+
+function profileAsync<T>(profiler: BuildProfiler | undefined, name: string, run: () => Promise<T>): Promise<T> {
+  return profiler === undefined ? run() : profiler.spanAsync(name, run);
+}
+
+function buildSummaryResult(
+  format: DiagnosticsFormat,
+  style: TextDiagnosticsStyle,
+  project: CliProject,
+  exitCode: number,
+  diagnostics: readonly TargetDiagnostic[],
+  targets: readonly BuildOutputTarget[],
+  cacheStatus: string,
+  invocation?: ProjectToolchainInvocationResult,
+  details: readonly string[] = [],
+): CliResult {
+  const toolchainFailed = invocation?.diagnostics.some((diagnostic) => diagnostic.category === "error") === true;
+  return diagnosticsResult(format, {
+    command: "build",
+    exitCode: toolchainFailed ? 1 : exitCode,
+    sourceRoot: project.paths.projectRoot,
+    diagnostics: [...diagnostics, ...invocation?.diagnostics ?? []],
+  }, [
+    `Project: ${project.projectPath}`,
+    `Entry: ${project.config.entryPoint}`,
+    `Targets: ${targets.map((target) => target.targetId).join(", ")}`,
+    `Artifacts: ${targets.reduce((count, target) => count + target.artifacts.length, 0)}`,
+    `Cache: ${cacheStatus}`,
+    ...invocation === undefined
+      ? []
+      : [`Toolchain: ${invocation.invokedTargetIds.length === 0 ? "none" : invocation.invokedTargetIds.join(", ")}`],
+    ...details,
+    "",
+  ].join("\n"), style);
+}
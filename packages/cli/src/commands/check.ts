@@ -0,0 +1,51 @@
+import { resolve } from "node:path";
+import { compileProject, compileProjectInParallel, discoverInstalledTsonicPlugins } from "@tsonic/host";
+import { formatDiagnostics } from "../diagnostics/text-format.js";
+import { readCompilationBudget, readProjectPath, readTargetIds, readTextDiagnosticsStyle } from "./arguments.js";
+import { loadCliProject } from "./build.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runCheck(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const project = await loadCliProject(resolve(currentDirectory, readProjectPath(args)));
+  const plugins = await discoverInstalledTsonicPlugins(project.projectPath);
+  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return {
+      exitCode: 1,
+      stdout: "",
+      stderr: formatDiagnostics(plugins.diagnostics),
+    };
+  }
+  const targetIds = readTargetIds(args);
+  const budget = readCompilationBudget(args);
+  const buildResult = budget === undefined
+    ? compileProject({
+        project: project.config,
+        projectFilePath: project.projectPath,
+        registry: plugins.createTargetRegistry(),
+        installedCapabilities: plugins.capabilities,
+        prepareToolchain: false,
+        ...(targetIds === undefined ? {} : { targetIds }),
+      })
+    : await compileProjectInParallel({
+        project: project.config,
+        projectFilePath: project.projectPath,
+        prepareToolchain: false,
+        maxWorkers: 1,
+        ...(targetIds === undefined ? {} : { targetIds }),
+        budget,
+      });
+  const diagnostics = buildResult.diagnostics.filter((diagnostic) => diagnostic.category === "error");
+  return {
+    exitCode: diagnostics.length === 0 ? 0 : 1,
+    stdout: [
+      `Project: ${project.projectPath}`,
+      `Entry: ${project.config.entryPoint}`,
+      `Targets: ${buildResult.targets.map((target) => target.target.id).join(", ")}`,
+      `Errors: ${diagnostics.length}`,
+      "",
+    ].join("\n"),
+    ...(buildResult.diagnostics.length > 0
+      ? { stderr: formatDiagnostics(buildResult.diagnostics, readTextDiagnosticsStyle(args), project.paths.projectRoot) }
+      : {}),
+  };
+}
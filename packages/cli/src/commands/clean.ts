@@ -0,0 +1,28 @@
+import { existsSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import { getBuildCachePath } from "../cache/build-cache.js";
+import { cleanBuildOutput } from "../output-publication.js";
+import { readProjectPath } from "./arguments.js";
+import { loadCliProject } from "./build.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runClean(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const project = await loadCliProject(resolve(currentDirectory, readProjectPath(args)));
+  const result = await cleanBuildOutput(project.outputOptions);
+  const removed = [
+    ...result.removedOutput ? [project.paths.outputRoot] : [],
+    ...result.removedScratch,
+  ];
+  const cachePath = args.includes("--all") ? getBuildCachePath(project.paths) : undefined;
+  if (cachePath !== undefined && existsSync(dirname(cachePath))) {
+    await rm(dirname(cachePath), { recursive: true, force: true });
+    removed.push(dirname(cachePath));
+  }
+  return {
+    exitCode: 0,
+    stdout: removed.length === 0
+      ? "Nothing to clean.\n"
+      : removed.map((path) => `Removed ${relative(currentDirectory, path)}\n`).join(""),
+  };
+}
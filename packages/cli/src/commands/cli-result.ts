@@ -0,0 +1,5 @@
+export interface CliResult {
+  readonly exitCode: number;
+  readonly stdout?: string;
+  readonly stderr?: string;
+}
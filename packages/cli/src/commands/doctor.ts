@@ -0,0 +1,47 @@
+import { relative, resolve } from "node:path";
+import { diagnoseTsonicProject } from "@tsonic/host";
+import type { TsonicDoctorDependency, TsonicDoctorReport } from "@tsonic/host";
+import { formatDiagnostics } from "../diagnostics/text-format.js";
+import { readProjectPath } from "./arguments.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runDoctor(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const projectPath = resolve(currentDirectory, readProjectPath(args));
+  const report = await diagnoseTsonicProject({ projectFilePath: projectPath });
+  const errors = report.diagnostics.filter((diagnostic) => diagnostic.category === "error");
+  return {
+    exitCode: errors.length > 0 ? 1 : 0,
+    stdout: formatDoctorReport(report, currentDirectory),
+    ...(report.diagnostics.length > 0 ? { stderr: formatDiagnostics(report.diagnostics) } : {}),
+  };
+}
+
+function formatDoctorReport(report: TsonicDoctorReport, currentDirectory: string): string {
+  const problems = report.diagnostics.length;
+  return [
+    `Node.js: ${report.nodeVersion} (requires >=${report.requiredNodeVersion})`,
+    `Package: ${report.packageJsonPath === undefined ? "not found" : relative(currentDirectory, report.packageJsonPath)}`,
+    "Dependencies:",
+    ...report.dependencies.length === 0
+      ? ["  (none)"]
+      : report.dependencies.map((dependency) =>
+        `  ${dependency.name}${dependency.version === undefined ? "" : `@${dependency.version}`}\t${dependencyStatus(dependency)}`),
+    problems === 0 ? "No problems found." : `${problems} problem${problems === 1 ? "" : "s"} found.`,
+    "",
+  ].join("\n");
+}
+
+function dependencyStatus(dependency: TsonicDoctorDependency): string {
+  switch (dependency.status) {
+    case "target-plugin":
+      return `target plugin for '${dependency.targetId ?? ""}'`;
+    case "capability-plugin":
+      return `capability plugin for '${dependency.targetId ?? ""}'`;
+    case "package":
+      return "no Tsonic manifest";
+    case "not-installed":
+      return "not installed";
+    case "invalid":
+      return "invalid Tsonic plugin";
+  }
+}
@@ -0,0 +1,54 @@
+import { existsSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { createTsonicDiagnosticCodeRegistry, discoverInstalledTsonicPlugins } from "@tsonic/host";
+import type { TargetDiagnosticCodeDescriptor, TargetDiagnosticCodeRegistry } from "@tsonic/target-api";
+import { formatDiagnostics } from "../diagnostics/text-format.js";
+import { readProjectPath } from "./arguments.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runExplain(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const code = args[0] === undefined || args[0].startsWith("-") ? undefined : args[0];
+  const projectPath = resolve(currentDirectory, readProjectPath(args));
+  let registry: TargetDiagnosticCodeRegistry = createTsonicDiagnosticCodeRegistry();
+  if (existsSync(projectPath) && existsSync(resolve(dirname(projectPath), "package.json"))) {
+    const plugins = await discoverInstalledTsonicPlugins(projectPath);
+    if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+      return {
+        exitCode: 1,
+        stderr: formatDiagnostics(plugins.diagnostics),
+      };
+    }
+    registry = createTsonicDiagnosticCodeRegistry(plugins);
+  }
+  if (code === undefined) {
+    return {
+      exitCode: 0,
+      stdout: registry.codes.map((descriptor) => `${descriptor.code}\t${descriptor.title}\n`).join(""),
+    };
+  }
+  const descriptor = registry.get(code);
+  if (descriptor === undefined) {
+    return {
+      exitCode: 1,
+      stderr: `Unknown diagnostic code '${code}'. Run 'tsonic explain' to list the registered codes.\n`,
+    };
+  }
+  return { exitCode: 0, stdout: formatExplanation(descriptor) };
+}
+
+function formatExplanation(descriptor: TargetDiagnosticCodeDescriptor): string {
+  const aliases = [
+    ...descriptor.numericCode === undefined ? [] : [`TS${descriptor.numericCode}`],
+    ...descriptor.aliases ?? [],
+  ];
+  return [
+    `${descriptor.code}: ${descriptor.title}`,
+    ...aliases.length === 0 ? [] : [`Also reported as: ${aliases.join(", ")}`],
+    "",
+    descriptor.explanation,
+    ...descriptor.examples === undefined || descriptor.examples.length === 0
+      ? []
+      : ["", "Examples:", ...descriptor.examples.flatMap((example) => example.split(/\r?\n/u).map((line) => `  ${line}`))],
+    "",
+  ].join("\n");
+}
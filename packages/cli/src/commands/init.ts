@@ -0,0 +1,243 @@
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, dirname, relative, resolve } from "node:path";
+import { createInterface } from "node:readline";
+import type { Interface } from "node:readline";
+import {
+  collectTargetOptionDescriptors,
+  discoverInstalledTsonicPlugins,
+  parseTsonicProjectConfig,
+  selectTargetSurfaceImplementations,
+} from "@tsonic/host";
+import type { InstalledTsonicPluginRegistry } from "@tsonic/host";
+import type { TargetOptionDescriptor, TargetSelection, TsonicProjectConfig } from "@tsonic/target-api";
+import { formatDiagnostics } from "../diagnostics/text-format.js";
+import { readProjectPath, readTargetIds } from "./arguments.js";
+import type { CliResult } from "./cli-result.js";
+
+interface InitFile {
+  readonly path: string;
+  readonly text: string;
+}
+
+interface LinePrompt {
+  ask(question: string): Promise<string | undefined>;
+  close(): void;
+}
+
+const starterSource = "export function greet(name: string): string {\n  return `Hello, ${name}!`;\n}\n";
+
+export async function runInit(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const projectPath = resolve(currentDirectory, readProjectPath(args));
+  const projectDirectory = dirname(projectPath);
+  const packageJsonPath = resolve(projectDirectory, "package.json");
+  const discoveryDirectory = findPackageDirectory(projectDirectory);
+  if (discoveryDirectory === undefined) {
+    throw new Error(
+      `tsonic init requires a package.json with installed Tsonic target plugins in '${projectDirectory}' or one of its parent directories. Install a target plugin first.`,
+    );
+  }
+  const plugins = await discoverInstalledTsonicPlugins(resolve(discoveryDirectory, "tsonic.json"));
+  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return {
+      exitCode: 1,
+      stderr: formatDiagnostics(plugins.diagnostics),
+    };
+  }
+  if (plugins.targets.length === 0) {
+    throw new Error(`No installed Tsonic target plugins were found through '${resolve(discoveryDirectory, "package.json")}'.`);
+  }
+  const sourcePath = resolve(projectDirectory, "src/index.ts");
+  const existing = [projectPath, sourcePath].filter((path) => existsSync(path));
+  if (existing.length > 0) {
+    return {
+      exitCode: 1,
+      stderr: `tsonic init will not overwrite existing files: ${existing.map((path) => relative(currentDirectory, path)).join(", ")}.\n`,
+    };
+  }
+  const prompt = createLazyLinePrompt();
+  let config: TsonicProjectConfig;
+  try {
+    const targetIds = readTargetIds(args) ?? await selectTargetIds(plugins, prompt);
+    const targets: TargetSelection[] = [];
+    for (const targetId of targetIds) {
+      targets.push(await createTargetSelection(plugins, targetId, prompt));
+    }
+    config = parseTsonicProjectConfig({
+      entryPoint: "index.ts",
+      rootDir: "src",
+      outDir: "out",
+      targets,
+    });
+  } finally {
+    prompt.close();
+  }
+  const files: InitFile[] = [
+    { path: projectPath, text: `${JSON.stringify(config, null, 2)}\n` },
+    { path: sourcePath, text: starterSource },
+  ];
+  if (!existsSync(packageJsonPath)) {
+    files.push({ path: packageJsonPath, text: createPackageJson(projectDirectory, plugins, config) });
+  }
+  for (const file of files) {
+    await mkdir(dirname(file.path), { recursive: true });
+    await writeFile(file.path, file.text, { encoding: "utf8", flag: "wx" });
+  }
+  return {
+    exitCode: 0,
+    stdout: [
+      "Installed targets:",
+      ...plugins.targets.map((target) => `  ${target.targetId}\t${target.id}`),
+      ...files.map((file) => `Created ${relative(currentDirectory, file.path)}`),
+      `Next: tsonic build --project ${relative(currentDirectory, projectPath)}`,
+      "",
+    ].join("\n"),
+  };
+}
+
+async function selectTargetIds(plugins: InstalledTsonicPluginRegistry, prompt: LinePrompt): Promise<readonly string[]> {
+  const installed = plugins.targets.map((target) => target.targetId);
+  if (installed.length === 1) {
+    return installed;
+  }
+  const answer = await prompt.ask(`Target (${installed.join(", ")}): `);
+  if (answer === undefined || answer.length === 0) {
+    throw new Error(`Select a target with --target; installed targets: ${installed.join(", ")}.`);
+  }
+  return [answer];
+}
+
+async function createTargetSelection(
+  plugins: InstalledTsonicPluginRegistry,
+  targetId: string,
+  prompt: LinePrompt,
+): Promise<TargetSelection> {
+  const pack = plugins.createTargetRegistry().get(targetId);
+  if (pack === undefined) {
+    throw new Error(
+      `Target '${targetId}' is not installed; installed targets: ${plugins.targets.map((target) => target.targetId).join(", ")}.`,
+    );
+  }
+  const surfaceIds = await selectSurfaceIds(pack.surfaces.map((surface) => surface.id), targetId, prompt);
+  const surfaces = selectTargetSurfaceImplementations(pack, { id: targetId, surfaces: surfaceIds });
+  if ("error" in surfaces) {
+    throw new Error(`Invalid surface selection: ${surfaces.error}.`);
+  }
+  const descriptors = collectTargetOptionDescriptors(
+    pack,
+    surfaces.selectedSurfaces,
+    plugins.capabilities.filter((capability) => capability.targetId === targetId),
+  );
+  if ("error" in descriptors) {
+    throw new Error(descriptors.error);
+  }
+  const options: Record<string, unknown> = {};
+  for (const option of descriptors.descriptors.filter((candidate) => candidate.required === true && candidate.default === undefined)) {
+    const answer = await prompt.ask(`${targetId} ${option.name} (${option.description}): `);
+    if (answer === undefined || answer.length === 0) {
+      throw new Error(`Target '${targetId}' requires option '${option.name}'.`);
+    }
+    options[option.name] = readOptionAnswer(targetId, option, answer);
+  }
+  return {
+    id: targetId,
+    ...(surfaceIds.length === 0 ? {} : { surfaces: surfaceIds }),
+    ...(Object.keys(options).length === 0 ? {} : { options }),
+  };
+}
+
+async function selectSurfaceIds(
+  implemented: readonly string[],
+  targetId: string,
+  prompt: LinePrompt,
+): Promise<readonly string[]> {
+  if (implemented.length === 0) {
+    return [];
+  }
+  const answer = await prompt.ask(`${targetId} surfaces (${implemented.join(", ")}; comma-separated, empty for none): `);
+  return (answer ?? "").split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+function readOptionAnswer(targetId: string, option: TargetOptionDescriptor, answer: string): unknown {
+  switch (option.type) {
+    case "boolean":
+      if (answer !== "true" && answer !== "false") {
+        throw new Error(`Target '${targetId}' option '${option.name}' must be true or false.`);
+      }
+      return answer === "true";
+    case "number": {
+      const value = Number(answer);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Target '${targetId}' option '${option.name}' must be a number.`);
+      }
+      return value;
+    }
+    case "string-list":
+      return answer.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+    case "string-map":
+      return Object.fromEntries(answer.split(",").map((entry) => {
+        const separator = entry.indexOf("=");
+        if (separator <= 0) {
+          throw new Error(`Target '${targetId}' option '${option.name}' must be a comma-separated list of key=value pairs.`);
+        }
+        return [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+      }));
+    default:
+      return answer;
+  }
+}
+
+function createPackageJson(
+  projectDirectory: string,
+  plugins: InstalledTsonicPluginRegistry,
+  config: TsonicProjectConfig,
+): string {
+  const selectedPlugins = plugins.targets.filter((target) =>
+    config.targets.some((selection) => selection.id === target.targetId)
+  );
+  const devDependencies = Object.fromEntries(selectedPlugins.map((target) => {
+    const installed = plugins.packages.find((candidate) => candidate.name === target.id);
+    return [target.id, installed === undefined ? "*" : `^${installed.version}`];
+  }));
+  return `${JSON.stringify({
+    name: packageNameFor(projectDirectory),
+    private: true,
+    type: "module",
+    devDependencies,
+  }, null, 2)}\n`;
+}
+
+function packageNameFor(projectDirectory: string): string {
+  const name = basename(projectDirectory).toLowerCase().replace(/[^a-z0-9._-]+/gu, "-").replace(/^[._-]+/u, "");
+  return name.length === 0 ? "tsonic-project" : name;
+}
+
+function findPackageDirectory(directory: string): string | undefined {
+  for (let current = directory; ; current = dirname(current)) {
+    if (existsSync(resolve(current, "package.json"))) {
+      return current;
+    }
+    if (dirname(current) === current) {
+      return undefined;
+    }
+  }
+}
+
+function createLazyLinePrompt(): LinePrompt {
+  let lines: AsyncIterator<string> | undefined;
+  let readline: Interface | undefined;
+  return {
+    async ask(question: string): Promise<string | undefined> {
+      process.stdout.write(question);
+      if (lines === undefined) {
+        readline = createInterface({ input: process.stdin, terminal: false });
+        lines = readline[Symbol.asyncIterator]();
+      }
+      const line = await lines.next();
+      return line.done === true ? undefined : line.value.trim();
+    },
+    close(): void {
+      readline?.close();
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import { createTsonicProjectSchema, discoverInstalledTsonicPlugins } from "@tsonic/host";
+import type { TargetPack } from "@tsonic/target-api";
+import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
+import { formatDiagnostics } from "../diagnostics/text-format.js";
+import { readOutputPath, readProjectPath } from "./arguments.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runSchema(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const projectPath = resolve(currentDirectory, readProjectPath(args));
+  let packs: readonly TargetPack[] = [];
+  let capabilities: readonly TargetCapabilityImplementation[] = [];
+  if (existsSync(resolve(dirname(projectPath), "package.json"))) {
+    const plugins = await discoverInstalledTsonicPlugins(projectPath);
+    if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+      return {
+        exitCode: 1,
+        stderr: formatDiagnostics(plugins.diagnostics),
+      };
+    }
+    packs = plugins.createTargetRegistry().packs;
+    capabilities = plugins.capabilities;
+  }
+  const text = `${JSON.stringify(createTsonicProjectSchema(packs, capabilities), null, 2)}\n`;
+  const outputPath = readOutputPath(args);
+  if (outputPath === undefined) {
+    return { exitCode: 0, stdout: text };
+  }
+  const schemaPath = resolve(currentDirectory, outputPath);
+  await mkdir(dirname(schemaPath), { recursive: true });
+  await writeFile(schemaPath, text, "utf8");
+  return {
+    exitCode: 0,
+    stdout: `Wrote ${relative(currentDirectory, schemaPath)}\n`,
+  };
+}
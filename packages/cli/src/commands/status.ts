@@ -0,0 +1,34 @@
+import { relative, resolve } from "node:path";
+import { inspectBuildOutput } from "../output-publication.js";
+import type { BuildOutputLockStatus } from "../output-publication.js";
+import { readProjectPath } from "./arguments.js";
+import { loadCliProject } from "./build.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runStatus(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const project = await loadCliProject(resolve(currentDirectory, readProjectPath(args)));
+  const status = await inspectBuildOutput(project.outputOptions);
+  return {
+    exitCode: 0,
+    stdout: [
+      `Output: ${relative(currentDirectory, status.outputRoot)}`,
+      `Published: ${status.lastPublishedAt === undefined ? "never" : status.lastPublishedAt.toISOString()}`,
+      `Lock: ${status.lock === undefined ? "none" : formatLockStatus(status.lock)}`,
+      `Backup: ${status.backup === undefined ? "none" : relative(currentDirectory, status.backup)}`,
+      `Leftovers: ${status.leftovers.length === 0 ? "none" : status.leftovers.length}`,
+      ...status.leftovers.map((path) => `  ${relative(currentDirectory, path)}`),
+      "",
+    ].join("\n"),
+  };
+}
+
+function formatLockStatus(lock: BuildOutputLockStatus): string {
+  const state = lock.active ? "active" : "stale";
+  if (lock.pid === undefined) {
+    return `${state}, no owner recorded`;
+  }
+  return [
+    `${state}, held by pid ${lock.pid} (${lock.active ? "running" : "not running"})`,
+    ...lock.acquiredAt === undefined ? [] : [`since ${lock.acquiredAt.toISOString()}`],
+  ].join(" ");
+}
@@ -0,0 +1,115 @@
+import { resolve } from "node:path";
+import { collectTargetSourceFingerprints, discoverInstalledTsonicPlugins } from "@tsonic/host";
+import type { InstalledTsonicPluginRegistry, TargetSourceFingerprints } from "@tsonic/host";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import { diagnosticsResult } from "../diagnostics/output-format.js";
+import { verifyBuildOutput } from "../publication/output-manifest.js";
+import type { OutputManifest } from "../publication/output-manifest.js";
+import { readDiagnosticsFormat, readProjectPath, readTextDiagnosticsStyle } from "./arguments.js";
+import { loadCliProject } from "./build.js";
+import type { CliProject } from "./build.js";
+import type { CliResult } from "./cli-result.js";
+
+export async function runVerifyOutput(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const format = readDiagnosticsFormat(args);
+  const project = await loadCliProject(resolve(currentDirectory, readProjectPath(args)));
+  const verification = await verifyBuildOutput(project.paths.outputRoot);
+  const manifest = verification.manifest;
+  const plugins = manifest === undefined ? undefined : await discoverInstalledTsonicPlugins(project.projectPath);
+  const diagnostics = manifest === undefined || plugins === undefined
+    ? verification.diagnostics
+    : [
+        ...verification.diagnostics,
+        ...staleOutputDiagnostics(project, manifest, plugins, currentSourceFingerprints(project, plugins)),
+      ];
+  return diagnosticsResult(format, {
+    command: "verify-output",
+    exitCode: diagnostics.some((diagnostic) => diagnostic.category === "error") ? 1 : 0,
+    sourceRoot: project.paths.projectRoot,
+    diagnostics,
+  }, [
+    `Output: ${project.paths.outputRoot}`,
+    ...manifest === undefined
+      ? []
+      : [
+          `Targets: ${manifest.targets.map((target) => target.targetId).join(", ")}`,
+          `Artifacts: ${manifest.targets.reduce((count, target) => count + target.artifacts.length, 0)}`,
+        ],
+    diagnostics.length === 0 ? "Output matches tsonic-manifest.json." : "Output does not match tsonic-manifest.json.",
+    "",
+  ].join("\n"), readTextDiagnosticsStyle(args));
+}
+
+function staleOutputDiagnostics(
+  project: CliProject,
+  manifest: OutputManifest,
+  plugins: InstalledTsonicPluginRegistry,
+  sourceFingerprints: ReadonlyMap<string, TargetSourceFingerprints>,
+): readonly TargetDiagnostic[] {
+  const diagnostics: TargetDiagnostic[] = [];
+  const publishedIds = manifest.targets.map((target) => target.targetId);
+  const configuredIds = project.config.targets.map((target) => target.id);
+  if (JSON.stringify([...publishedIds].sort()) !== JSON.stringify([...configuredIds].sort())) {
+    diagnostics.push(staleDiagnostic(
+      `Published targets (${publishedIds.join(", ")}) do not match the configured targets (${configuredIds.join(", ")}).`,
+    ));
+  }
+  for (const target of manifest.targets) {
+    if (target.status === "retained") {
+      diagnostics.push(staleDiagnostic(
+        `Target '${target.targetId}' failed its last build and keeps the output of an earlier build.`,
+      ));
+    }
+    for (const plugin of target.plugins ?? []) {
+      const installed = plugins.packages.find((candidate) => candidate.name === plugin.name);
+      if (installed === undefined) {
+        diagnostics.push(staleDiagnostic(
+          `Target '${target.targetId}' was built with '${plugin.name}' ${plugin.version}, which is no longer installed.`,
+        ));
+      } else if (installed.version !== plugin.version) {
+        diagnostics.push(staleDiagnostic(
+          `Target '${target.targetId}' was built with '${plugin.name}' ${plugin.version}, but ${installed.version} is installed.`,
+        ));
+      }
+    }
+    const current = sourceFingerprints.get(target.targetId);
+    if (
+      current !== undefined &&
+      target.sourceDeclarationFingerprint !== undefined &&
+      target.sourceDeclarationFingerprint !== current.sourceDeclarationFingerprint
+    ) {
+      diagnostics.push(staleDiagnostic(
+        `Target '${target.targetId}' was built against declaration inputs that no longer match the project.`,
+      ));
+    }
+    if (
+      current !== undefined &&
+      target.sourcePackageGraphFingerprint !== undefined &&
+      target.sourcePackageGraphFingerprint !== current.sourcePackageGraphFingerprint
+    ) {
+      diagnostics.push(staleDiagnostic(
+        `Target '${target.targetId}' was built against a source package graph that no longer matches the project.`,
+      ));
+    }
+  }
+  return diagnostics;
+}
+
+function currentSourceFingerprints(
+  project: CliProject,
+  plugins: InstalledTsonicPluginRegistry,
+): ReadonlyMap<string, TargetSourceFingerprints> {
+  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return new Map();
+  }
+  return collectTargetSourceFingerprints({
+    project: project.config,
+    projectFilePath: project.projectPath,
+    registry: plugins.createTargetRegistry(),
+    installedCapabilities: plugins.capabilities,
+  });
+}
+
+function staleDiagnostic(message: string): TargetDiagnostic {
+  return Object.freeze({ code: "TSONIC_OUTPUT_STALE", category: "error", source: "tsonic-cli", message });
+}
@@ -0,0 +1,257 @@
+import { relative, resolve } from "node:path";
+import { collectInstalledDependencyRoots, compileProjectInParallel, discoverInstalledTsonicPlugins } from "@tsonic/host";
+import type { InstalledTsonicPluginRegistry, TargetBuildResult } from "@tsonic/host";
+import type { TsonicProjectConfig } from "@tsonic/target-api";
+import { formatDiagnostics } from "../diagnostics/text-format.js";
+import type { TextDiagnosticsStyle } from "../diagnostics/text-format.js";
+import { recoverBuildOutput } from "../output-publication.js";
+import { watchProjectInputs } from "../watch/project-inputs.js";
+import type { ProjectInputChange, ProjectInputWatcher } from "../watch/project-inputs.js";
+import { readProjectPath, readTextDiagnosticsStyle } from "./arguments.js";
+import { countBuildArtifacts, loadCliProject, publishProjectBuild } from "./build.js";
+import type { CliProject } from "./build.js";
+import type { CliResult } from "./cli-result.js";
+
+interface WatchState {
+  project: CliProject;
+  plugins: InstalledTsonicPluginRegistry;
+  readonly results: Map<string, TargetBuildResult>;
+  readonly cancelledTargetIds: Set<string>;
+  readonly style: TextDiagnosticsStyle;
+  readonly onWatchError: (error: Error) => void;
+  watcher?: ProjectInputWatcher;
+  rebuildController?: AbortController;
+}
+
+interface RebuildRequest {
+  readonly targetIds: ReadonlySet<string>;
+  readonly republish: boolean;
+  readonly reason: string;
+}
+
+export async function runWatch(args: readonly string[], currentDirectory: string): Promise<CliResult> {
+  const projectPath = resolve(currentDirectory, readProjectPath(args));
+  const project = await loadCliProject(projectPath);
+  await recoverBuildOutput(project.outputOptions);
+  const plugins = await discoverInstalledTsonicPlugins(projectPath);
+  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return {
+      exitCode: 1,
+      stderr: formatDiagnostics(plugins.diagnostics),
+    };
+  }
+  let watchError: Error | undefined;
+  let stopWatching: (() => void) | undefined;
+  const watchFailed = new Promise<void>((resolveFailure) => {
+    stopWatching = resolveFailure;
+  });
+  const state: WatchState = {
+    project,
+    plugins,
+    results: new Map(),
+    cancelledTargetIds: new Set(),
+    style: readTextDiagnosticsStyle(args),
+    onWatchError(error: Error): void {
+      watchError ??= error;
+      stopWatching?.();
+    },
+  };
+  await rebuild(state, {
+    targetIds: new Set(project.config.targets.map((target) => target.id)),
+    republish: true,
+    reason: "initial build",
+  });
+  let pending: readonly ProjectInputChange[] = [];
+  let running: Promise<void> | undefined;
+  const schedule = (changes: readonly ProjectInputChange[]): void => {
+    pending = [...pending, ...changes];
+    state.rebuildController?.abort();
+    running ??= (async () => {
+      while (pending.length > 0) {
+        const batch = pending;
+        pending = [];
+        await applyChanges(state, batch, schedule).catch((error: unknown) => {
+          writeError(`${error instanceof Error ? error.message : String(error)}\n`);
+        });
+      }
+      running = undefined;
+      writeStatus("Waiting for changes...");
+    })();
+  };
+  startWatching(state, schedule);
+  writeStatus("Waiting for changes...");
+  await waitForInterrupt(watchFailed);
+  state.watcher?.close();
+  state.rebuildController?.abort();
+  await running;
+  return watchError === undefined
+    ? { exitCode: 0 }
+    : { exitCode: 1, stderr: `${watchError.message}\n` };
+}
+
+async function applyChanges(
+  state: WatchState,
+  changes: readonly ProjectInputChange[],
+  schedule: (changes: readonly ProjectInputChange[]) => void,
+): Promise<void> {
+  const previous = state.project;
+  const configuredIds = (config: TsonicProjectConfig): readonly string[] => config.targets.map((target) => target.id);
+  const targetIds = new Set<string>();
+  let republish = false;
+  let restartWatcher = false;
+  if (changes.some((change) => change.kind === "project-config")) {
+    let next: CliProject;
+    try {
+      next = await loadCliProject(previous.projectPath);
+    } catch (error: unknown) {
+      writeError(`Project config is invalid; keeping the previous configuration. ${error instanceof Error ? error.message : String(error)}\n`);
+      return;
+    }
+    state.project = next;
+    restartWatcher = true;
+    if (projectLayoutChanged(previous, next)) {
+      configuredIds(next.config).forEach((targetId) => targetIds.add(targetId));
+      await recoverBuildOutput(next.outputOptions);
+    } else {
+      for (const target of next.config.targets) {
+        const before = previous.config.targets.find((candidate) => candidate.id === target.id);
+        if (before === undefined || JSON.stringify(before) !== JSON.stringify(target)) {
+          targetIds.add(target.id);
+        }
+      }
+    }
+    for (const targetId of [...state.results.keys()]) {
+      if (!configuredIds(next.config).includes(targetId)) {
+        state.results.delete(targetId);
+        republish = true;
+      }
+    }
+  }
+  const dependencyChanges = changes.filter((change) => change.kind === "dependency");
+  if (changes.some((change) => change.kind === "project-package") || dependencyChanges.length > 0) {
+    const plugins = await discoverInstalledTsonicPlugins(state.project.projectPath);
+    if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+      writeError(formatDiagnostics(plugins.diagnostics));
+      writeError("Installed Tsonic plugins are invalid; keeping the last published output.\n");
+      return;
+    }
+    state.plugins = plugins;
+    restartWatcher ||= changes.some((change) => change.kind === "project-package");
+  }
+  const pluginTargetIds = new Map([
+    ...state.plugins.targets.map((plugin) => [plugin.id, plugin.targetId] as const),
+    ...state.plugins.capabilities.map((plugin) => [plugin.id, plugin.targetId] as const),
+  ]);
+  for (const change of changes) {
+    if (change.kind === "dependency" && pluginTargetIds.has(change.packageName)) {
+      targetIds.add(pluginTargetIds.get(change.packageName)!);
+    } else if (change.kind !== "project-config") {
+      configuredIds(state.project.config).forEach((targetId) => targetIds.add(targetId));
+    }
+  }
+  if (restartWatcher) {
+    state.watcher?.close();
+    startWatching(state, schedule);
+  }
+  await rebuild(state, {
+    targetIds: new Set([...targetIds].filter((targetId) => configuredIds(state.project.config).includes(targetId))),
+    republish,
+    reason: describeChanges(state.project, changes),
+  });
+}
+
+async function rebuild(state: WatchState, request: RebuildRequest): Promise<void> {
+  const project = state.project;
+  const targetIds = [...new Set([...request.targetIds, ...state.cancelledTargetIds])]
+    .filter((targetId) => project.config.targets.some((target) => target.id === targetId))
+    .sort();
+  state.cancelledTargetIds.clear();
+  if (targetIds.length === 0 && !request.republish) {
+    return;
+  }
+  writeStatus(targetIds.length === 0
+    ? `Republishing (${request.reason})`
+    : `Building ${targetIds.join(", ")} (${request.reason})`);
+  if (targetIds.length > 0) {
+    const controller = new AbortController();
+    state.rebuildController = controller;
+    const buildResult = await compileProjectInParallel({
+      project: project.config,
+      projectFilePath: project.projectPath,
+      targetIds,
+      signal: controller.signal,
+    }).finally(() => {
+      if (state.rebuildController === controller) {
+        state.rebuildController = undefined;
+      }
+    });
+    if (controller.signal.aborted) {
+      targetIds.forEach((targetId) => state.cancelledTargetIds.add(targetId));
+      writeStatus(`Cancelled building ${targetIds.join(", ")}; newer changes are pending.`);
+      return;
+    }
+    if (buildResult.diagnostics.length > 0) {
+      writeError(formatDiagnostics(buildResult.diagnostics, state.style, project.paths.projectRoot));
+    }
+    for (const target of buildResult.targets) {
+      state.results.set(target.target.id, target);
+    }
+  }
+  const targets = project.config.targets.map((target) => state.results.get(target.id));
+  const failedTargetIds = project.config.targets
+    .filter((target, index) => targets[index]?.compileResult.kind !== "resolved")
+    .map((target) => target.id);
+  if (failedTargetIds.length > 0) {
+    writeStatus(`Build failed for ${failedTargetIds.join(", ")}; kept the last published output.`);
+    return;
+  }
+  const resolvedTargets = targets.filter((target): target is TargetBuildResult => target !== undefined);
+  await publishProjectBuild(project, state.plugins, resolvedTargets);
+  writeStatus(`Published ${countBuildArtifacts(resolvedTargets)} artifacts to ${project.paths.outputRoot}.`);
+}
+
+function startWatching(
+  state: WatchState,
+  schedule: (changes: readonly ProjectInputChange[]) => void,
+): void {
+  state.watcher = watchProjectInputs({
+    projectFilePath: state.project.paths.projectFilePath,
+    projectRoot: state.project.paths.projectRoot,
+    outputRoot: state.project.paths.outputRoot,
+    dependencies: collectInstalledDependencyRoots(state.project.paths.projectDirectory, state.plugins.packages),
+  }, schedule, state.onWatchError);
+}
+
+function projectLayoutChanged(previous: CliProject, next: CliProject): boolean {
+  const { targets: _previousTargets, ...previousLayout } = previous.config;
+  const { targets: _nextTargets, ...nextLayout } = next.config;
+  return JSON.stringify(previousLayout) !== JSON.stringify(nextLayout);
+}
+
+function describeChanges(project: CliProject, changes: readonly ProjectInputChange[]): string {
+  const paths = changes.map((change) => relative(project.paths.projectDirectory, change.path).split("\\").join("/"));
+  return paths.length <= 3
+    ? `changed: ${paths.join(", ")}`
+    : `changed: ${paths.slice(0, 3).join(", ")} and ${paths.length - 3} more`;
+}
+
+function waitForInterrupt(watchFailed: Promise<void>): Promise<void> {
+  return new Promise((resolveInterrupt) => {
+    const stop = (): void => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      resolveInterrupt();
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+    void watchFailed.then(stop);
+  });
+}
+
+function writeStatus(message: string): void {
+  process.stdout.write(`[watch] ${message}\n`);
+}
+
+function writeError(text: string): void {
+  process.stderr.write(text);
+}
@@ -0,0 +1,105 @@
+import type {
+  TargetDiagnostic,
+  TargetDiagnosticNote,
+  TargetDiagnosticSourceSpan,
+} from "@tsonic/target-api/artifacts";
+
+export const diagnosticsJsonSchemaVersion = 1;
+
+export interface DiagnosticsReport {
+  readonly command: string;
+  readonly exitCode: number;
+  readonly sourceRoot?: string;
+  readonly diagnostics: readonly TargetDiagnostic[];
+  readonly targets?: readonly DiagnosticsReportTarget[];
+}
+
+export interface DiagnosticsReportTarget {
+  readonly targetId: string;
+  readonly plugin: string;
+}
+
+export interface DiagnosticsJsonDocument {
+  readonly schemaVersion: typeof diagnosticsJsonSchemaVersion;
+  readonly tool: "tsonic";
+  readonly command: string;
+  readonly exitCode: number;
+  readonly sourceRoot: string | null;
+  readonly diagnostics: readonly DiagnosticsJsonEntry[];
+  readonly targets?: readonly DiagnosticsReportTarget[];
+}
+
+export interface DiagnosticsJsonEntry {
+  readonly code: string;
+  readonly category: TargetDiagnostic["category"];
+  readonly source: string;
+  readonly message: string;
+  readonly sourceSpan: TargetDiagnosticSourceSpan | null;
+  readonly evidence: readonly string[];
+  readonly jsonPath?: string;
+  readonly related?: readonly DiagnosticsJsonRelatedLocation[];
+  readonly notes?: readonly TargetDiagnosticNote[];
+  readonly fixes?: readonly DiagnosticsJsonFix[];
+}
+
+export interface DiagnosticsJsonRelatedLocation {
+  readonly message: string;
+  readonly sourceSpan: TargetDiagnosticSourceSpan | null;
+}
+
+export interface DiagnosticsJsonFix {
+  readonly title: string;
+  readonly edits: readonly { readonly sourceSpan: TargetDiagnosticSourceSpan; readonly newText: string }[];
+}
+
+export function formatDiagnosticsJson(report: DiagnosticsReport): string {
+  const document: DiagnosticsJsonDocument = {
+    schemaVersion: diagnosticsJsonSchemaVersion,
+    tool: "tsonic",
+    command: report.command,
+    exitCode: report.exitCode,
+    sourceRoot: report.sourceRoot ?? null,
+    diagnostics: report.diagnostics.map((diagnostic) => ({
+      code: diagnostic.code,
+      category: diagnostic.category,
+      source: diagnostic.source ?? "tsonic",
+      message: diagnostic.message,
+      sourceSpan: diagnostic.sourceSpan === undefined ? null : jsonSourceSpan(diagnostic.sourceSpan),
+      evidence: [...(diagnostic.evidence ?? [])],
+      ...(diagnostic.jsonPath === undefined ? {} : { jsonPath: diagnostic.jsonPath }),
+      ...(diagnostic.related === undefined || diagnostic.related.length === 0
+        ? {}
+        : {
+            related: diagnostic.related.map((location) => ({
+              message: location.message,
+              sourceSpan: location.sourceSpan === undefined ? null : jsonSourceSpan(location.sourceSpan),
+            })),
+          }),
+      ...(diagnostic.notes === undefined || diagnostic.notes.length === 0
+        ? {}
+        : { notes: diagnostic.notes.map((note) => ({ label: note.label, message: note.message })) }),
+      ...(diagnostic.fixes === undefined || diagnostic.fixes.length === 0
+        ? {}
+        : {
+            fixes: diagnostic.fixes.map((fix) => ({
+              title: fix.title,
+              edits: fix.edits.flatMap((edit) => edit.sourceSpan === undefined
+                ? []
+                : [{ sourceSpan: jsonSourceSpan(edit.sourceSpan), newText: edit.newText }]),
+            })),
+          }),
+    })),
+    ...(report.targets === undefined ? {} : { targets: report.targets }),
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+function jsonSourceSpan(span: TargetDiagnosticSourceSpan): TargetDiagnosticSourceSpan {
+  return {
+    fileName: span.fileName,
+    line: span.line,
+    column: span.column,
+    endLine: span.endLine,
+    endColumn: span.endColumn,
+  };
+}
@@ -0,0 +1,35 @@
+import type { CliResult } from "../commands/cli-result.js";
+import { formatDiagnosticsJson } from "./json-format.js";
+import type { DiagnosticsReport } from "./json-format.js";
+import { formatDiagnosticsSarif } from "./sarif-format.js";
+import { formatDiagnostics } from "./text-format.js";
+import type { TextDiagnosticsStyle } from "./text-format.js";
+
+export type DiagnosticsFormat = "text" | "json" | "sarif";
+
+export const diagnosticsFormats: readonly DiagnosticsFormat[] = ["text", "json", "sarif"];
+
+export function isDiagnosticsFormat(value: string): value is DiagnosticsFormat {
+  return (diagnosticsFormats as readonly string[]).includes(value);
+}
+
+export function diagnosticsResult(
+  format: DiagnosticsFormat,
+  report: DiagnosticsReport,
+  stdout?: string,
+  style?: TextDiagnosticsStyle,
+): CliResult {
+  if (format === "json") {
+    return { exitCode: report.exitCode, stdout: formatDiagnosticsJson(report) };
+  }
+  if (format === "sarif") {
+    return { exitCode: report.exitCode, stdout: formatDiagnosticsSarif(report) };
+  }
+  return {
+    exitCode: report.exitCode,
+    ...(stdout === undefined ? {} : { stdout }),
+    ...(report.diagnostics.length > 0
+      ? { stderr: formatDiagnostics(report.diagnostics, style, report.sourceRoot) }
+      : {}),
+  };
+}
@@ -0,0 +1,123 @@
+import { readFileSync } from "node:fs";
+import { isAbsolute, resolve } from "node:path";
+import type { TargetDiagnostic, TargetDiagnosticSourceSpan } from "@tsonic/target-api/artifacts";
+
+export interface PrettyDiagnosticsOptions {
+  readonly color: boolean;
+  readonly sourceRoot?: string;
+}
+
+const maxExcerptLines = 6;
+
+const categoryColors: Readonly<Record<TargetDiagnostic["category"], string>> = Object.freeze({
+  error: "31",
+  warning: "33",
+  suggestion: "36",
+});
+
+export function formatDiagnosticsPretty(
+  diagnostics: readonly TargetDiagnostic[],
+  options: PrettyDiagnosticsOptions,
+): string {
+  const paint = (code: string, text: string): string => options.color ? `\u001b[${code}m${text}\u001b[0m` : text;
+  const groups = new Map<string | undefined, TargetDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    const fileName = diagnostic.sourceSpan?.fileName;
+    groups.set(fileName, [...groups.get(fileName) ?? [], diagnostic]);
+  }
+  const sources = new Map<string, readonly string[] | undefined>();
+  const readLines = (fileName: string): readonly string[] | undefined => {
+    if (!sources.has(fileName)) {
+      sources.set(fileName, readSourceLines(fileName, options.sourceRoot));
+    }
+    return sources.get(fileName);
+  };
+  const blocks = [...groups].map(([fileName, entries]) => [
+    ...fileName === undefined ? [] : [paint("1;4", fileName)],
+    ...entries.map((diagnostic) => formatPrettyDiagnostic(diagnostic, paint, readLines)),
+  ].join("\n"));
+  return `${blocks.join("\n\n")}\n`;
+}
+
+function formatPrettyDiagnostic(
+  diagnostic: TargetDiagnostic,
+  paint: (code: string, text: string) => string,
+  readLines: (fileName: string) => readonly string[] | undefined,
+): string {
+  const color = categoryColors[diagnostic.category];
+  const [summary = "", ...details] = diagnostic.message.split(/\r?\n/u);
+  const span = diagnostic.sourceSpan;
+  const excerpt = span === undefined ? [] : formatExcerpt(span, readLines(span.fileName), color, paint);
+  const gutter = " ".repeat(excerpt.length === 0 ? 4 : gutterWidth(span) + 3);
+  const annotation = (label: string, text: string): string => `${gutter}${paint("2", "=")} ${paint("1", label)}: ${text}`;
+  return [
+    `  ${paint(`1;${color}`, diagnostic.category)} ${paint("1", `${diagnostic.source ?? "tsonic"}:${diagnostic.code}`)}: ${summary}`,
+    ...details.map((line) => `    ${line}`),
+    ...span === undefined ? [] : [`    ${paint("34", "-->")} ${formatSpanStart(span)}${diagnostic.jsonPath === undefined ? "" : ` ${diagnostic.jsonPath}`}`],
+    ...span === undefined && diagnostic.jsonPath !== undefined ? [`    ${paint("34", "-->")} ${diagnostic.jsonPath}`] : [],
+    ...excerpt,
+    ...(diagnostic.evidence ?? []).map((entry) => annotation("evidence", entry)),
+    ...(diagnostic.related ?? []).map((location) => annotation(
+      "related",
+      location.sourceSpan === undefined ? location.message : `${formatSpanStart(location.sourceSpan)} ${location.message}`,
+    )),
+    ...(diagnostic.notes ?? []).map((note) => annotation(note.label, note.message)),
+    ...(diagnostic.fixes ?? []).flatMap((fix) => [
+      annotation("fix", fix.title),
+      ...fix.edits.flatMap((edit) => edit.sourceSpan === undefined
+        ? []
+        : [`${gutter}    ${formatSpanStart(edit.sourceSpan)}-${edit.sourceSpan.endLine}:${edit.sourceSpan.endColumn}: replace with ${JSON.stringify(edit.newText)}`]),
+    ]),
+  ].join("\n");
+}
+
+function formatExcerpt(
+  span: TargetDiagnosticSourceSpan,
+  lines: readonly string[] | undefined,
+  color: string,
+  paint: (code: string, text: string) => string,
+): readonly string[] {
+  if (lines === undefined || span.line < 1 || span.line > lines.length) {
+    return [];
+  }
+  const width = gutterWidth(span);
+  const bar = paint("34", "|");
+  const lastLine = Math.min(span.endLine, lines.length, span.line + maxExcerptLines - 1);
+  const excerpt = [`  ${" ".repeat(width)} ${bar}`];
+  for (let lineNumber = span.line; lineNumber <= lastLine; lineNumber += 1) {
+    const text = lines[lineNumber - 1] ?? "";
+    const start = lineNumber === span.line ? span.column : firstNonWhitespaceColumn(text);
+    const end = lineNumber === span.endLine ? span.endColumn : text.length + 1;
+    const indent = text.slice(0, Math.max(0, start - 1)).replace(/[^\t]/gu, " ");
+    excerpt.push(`  ${paint("34", String(lineNumber).padStart(width))} ${bar} ${text}`);
+    excerpt.push(`  ${" ".repeat(width)} ${bar} ${indent}${paint(`1;${color}`, "^".repeat(Math.max(1, end - start)))}`);
+  }
+  if (lastLine < span.endLine && lastLine < lines.length) {
+    excerpt.push(`  ${" ".repeat(width)} ${bar} ...`);
+  }
+  return excerpt;
+}
+
+function readSourceLines(fileName: string, sourceRoot: string | undefined): readonly string[] | undefined {
+  if (!isAbsolute(fileName) && sourceRoot === undefined) {
+    return undefined;
+  }
+  try {
+    return readFileSync(isAbsolute(fileName) ? fileName : resolve(sourceRoot ?? ".", fileName), "utf8").split(/\r?\n/u);
+  } catch {
+    return undefined;
+  }
+}
+
+function gutterWidth(span: TargetDiagnosticSourceSpan | undefined): number {
+  return span === undefined ? 0 : String(Math.min(span.endLine, span.line + maxExcerptLines - 1)).length;
+}
+
+function firstNonWhitespaceColumn(text: string): number {
+  const match = /\S/u.exec(text);
+  return match === null ? 1 : match.index + 1;
+}
+
+function formatSpanStart(span: TargetDiagnosticSourceSpan): string {
+  return `${span.fileName}:${span.line}:${span.column}`;
+}
@@ -0,0 +1,185 @@
+import { isAbsolute } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { TargetDiagnostic, TargetDiagnosticFix, TargetDiagnosticSourceSpan } from "@tsonic/target-api/artifacts";
+import type { DiagnosticsReport } from "./json-format.js";
+
+const sourceRootBaseId = "SRCROOT";
+
+interface SarifRegion {
+  readonly startLine: number;
+  readonly startColumn: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+}
+
+interface SarifPhysicalLocation {
+  readonly artifactLocation: { readonly uri: string; readonly uriBaseId?: string };
+  readonly region: SarifRegion;
+}
+
+interface SarifFix {
+  readonly description: { readonly text: string };
+  readonly artifactChanges: readonly {
+    readonly artifactLocation: SarifPhysicalLocation["artifactLocation"];
+    readonly replacements: readonly SarifReplacement[];
+  }[];
+}
+
+interface SarifReplacement {
+  readonly deletedRegion: SarifRegion;
+  readonly insertedContent: { readonly text: string };
+}
+
+interface SarifToolComponent {
+  readonly name: string;
+  readonly rules: readonly { readonly id: string }[];
+}
+
+export function formatDiagnosticsSarif(report: DiagnosticsReport): string {
+  const components = collectToolComponents(report.diagnostics);
+  const componentIndex = new Map(components.map((component, index) => [component.name, index]));
+  const document = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "tsonic",
+          rules: [],
+        },
+        extensions: components,
+      },
+      ...(report.sourceRoot === undefined
+        ? {}
+        : { originalUriBaseIds: { [sourceRootBaseId]: { uri: directoryUri(report.sourceRoot) } } }),
+      invocations: [{
+        commandLine: `tsonic ${report.command}`,
+        executionSuccessful: true,
+        exitCode: report.exitCode,
+      }],
+      results: report.diagnostics.map((diagnostic) => {
+        const component = diagnosticSource(diagnostic);
+        const extensionIndex = componentIndex.get(component)!;
+        return {
+          ruleId: diagnostic.code,
+          rule: {
+            id: diagnostic.code,
+            index: components[extensionIndex]!.rules.findIndex((rule) => rule.id === diagnostic.code),
+            toolComponent: { index: extensionIndex },
+          },
+          level: sarifLevel(diagnostic.category),
+          message: { text: diagnostic.message },
+          ...(diagnostic.sourceSpan === undefined
+            ? {}
+            : { locations: [{ physicalLocation: physicalLocation(diagnostic.sourceSpan, report.sourceRoot) }] }),
+          ...(diagnostic.jsonPath === undefined
+            ? {}
+            : { logicalLocations: [{ fullyQualifiedName: diagnostic.jsonPath, kind: "member" }] }),
+          ...(diagnostic.related === undefined || diagnostic.related.length === 0
+            ? {}
+            : {
+                relatedLocations: diagnostic.related.map((location, index) => ({
+                  id: index,
+                  message: { text: location.message },
+                  ...(location.sourceSpan === undefined
+                    ? {}
+                    : { physicalLocation: physicalLocation(location.sourceSpan, report.sourceRoot) }),
+                })),
+              }),
+          ...(diagnostic.fixes === undefined || diagnostic.fixes.length === 0
+            ? {}
+            : { fixes: diagnostic.fixes.map((fix) => sarifFix(fix, report.sourceRoot)) }),
+          ...(diagnostic.evidence === undefined || diagnostic.evidence.length === 0) &&
+              (diagnostic.notes === undefined || diagnostic.notes.length === 0)
+            ? {}
+            : {
+                properties: {
+                  ...(diagnostic.evidence === undefined || diagnostic.evidence.length === 0
+                    ? {}
+                    : { evidence: [...diagnostic.evidence] }),
+                  ...(diagnostic.notes === undefined || diagnostic.notes.length === 0
+                    ? {}
+                    : { notes: diagnostic.notes.map((note) => ({ label: note.label, message: note.message })) }),
+                },
+              },
+        };
+      }),
+    }],
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+function physicalLocation(span: TargetDiagnosticSourceSpan, sourceRoot: string | undefined): SarifPhysicalLocation {
+  return {
+    artifactLocation: artifactLocation(span.fileName, sourceRoot),
+    region: sarifRegion(span),
+  };
+}
+
+function sarifRegion(span: TargetDiagnosticSourceSpan): SarifRegion {
+  return {
+    startLine: span.line,
+    startColumn: span.column,
+    endLine: span.endLine,
+    endColumn: span.endColumn,
+  };
+}
+
+function sarifFix(fix: TargetDiagnosticFix, sourceRoot: string | undefined): SarifFix {
+  const changes = new Map<string, SarifReplacement[]>();
+  for (const edit of fix.edits) {
+    if (edit.sourceSpan !== undefined) {
+      changes.set(edit.sourceSpan.fileName, [
+        ...changes.get(edit.sourceSpan.fileName) ?? [],
+        { deletedRegion: sarifRegion(edit.sourceSpan), insertedContent: { text: edit.newText } },
+      ]);
+    }
+  }
+  return {
+    description: { text: fix.title },
+    artifactChanges: [...changes].map(([fileName, replacements]) => ({
+      artifactLocation: artifactLocation(fileName, sourceRoot),
+      replacements,
+    })),
+  };
+}
+
+function collectToolComponents(diagnostics: readonly TargetDiagnostic[]): readonly SarifToolComponent[] {
+  const rulesBySource = new Map<string, Set<string>>();
+  for (const diagnostic of diagnostics) {
+    const source = diagnosticSource(diagnostic);
+    const rules = rulesBySource.get(source) ?? new Set<string>();
+    rules.add(diagnostic.code);
+    rulesBySource.set(source, rules);
+  }
+  return [...rulesBySource.entries()]
+    .sort(([left], [right]) => left.localeCompare(right))
+    .map(([name, rules]) => ({
+      name,
+      rules: [...rules].sort((left, right) => left.localeCompare(right)).map((id) => ({ id })),
+    }));
+}
+
+function diagnosticSource(diagnostic: TargetDiagnostic): string {
+  return diagnostic.source ?? "tsonic";
+}
+
+function sarifLevel(category: TargetDiagnostic["category"]): "error" | "warning" | "note" {
+  return category === "suggestion" ? "note" : category;
+}
+
+function artifactLocation(
+  fileName: string,
+  sourceRoot: string | undefined,
+): { readonly uri: string; readonly uriBaseId?: string } {
+  if (isAbsolute(fileName)) {
+    return { uri: pathToFileURL(fileName).href };
+  }
+  const uri = fileName.split(/[\\/]/u).map(encodeURIComponent).join("/");
+  return sourceRoot === undefined ? { uri } : { uri, uriBaseId: sourceRootBaseId };
+}
+
+function directoryUri(directory: string): string {
+  const uri = pathToFileURL(directory).href;
+  return uri.endsWith("/") ? uri : `${uri}/`;
+}
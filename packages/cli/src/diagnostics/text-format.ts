@@ -0,0 +1,49 @@
+import type { TargetDiagnostic, TargetDiagnosticSourceSpan } from "@tsonic/target-api/artifacts";
+import { formatDiagnosticsPretty } from "./pretty-format.js";
+
+export interface TextDiagnosticsStyle {
+  readonly pretty: boolean;
+  readonly color: boolean;
+}
+
+export function formatDiagnostic(diagnostic: TargetDiagnostic): string {
+  const evidence = diagnostic.evidence === undefined || diagnostic.evidence.length === 0
+    ? ""
+    : diagnostic.evidence.map((entry) => `\n  evidence: ${entry}`).join("");
+  const sourceSpan = diagnostic.sourceSpan === undefined
+    ? ""
+    : ` ${formatSourceSpanStart(diagnostic.sourceSpan)}`;
+  const jsonPath = diagnostic.jsonPath === undefined ? "" : ` ${diagnostic.jsonPath}`;
+  const related = (diagnostic.related ?? []).map((location) =>
+    `\n  related:${location.sourceSpan === undefined ? "" : ` ${formatSourceSpanStart(location.sourceSpan)}`} ${location.message}`).join("");
+  const notes = (diagnostic.notes ?? []).map((note) => `\n  ${note.label}: ${note.message}`).join("");
+  const fixes = (diagnostic.fixes ?? []).map((fix) => [
+    `\n  fix: ${fix.title}`,
+    ...fix.edits.map((edit) => edit.sourceSpan === undefined
+      ? ""
+      : `\n    ${formatSourceSpanRange(edit.sourceSpan)}: replace with ${JSON.stringify(edit.newText)}`),
+  ].join("")).join("");
+  return `${diagnostic.category.toUpperCase()} ${diagnostic.source ?? "tsonic"}:${diagnostic.code}${sourceSpan}${jsonPath}: ${diagnostic.message}${evidence}${related}${notes}${fixes}`;
+}
+
+export function formatDiagnostics(
+  diagnostics: readonly TargetDiagnostic[],
+  style?: TextDiagnosticsStyle,
+  sourceRoot?: string,
+): string {
+  if (style?.pretty === true) {
+    return formatDiagnosticsPretty(diagnostics, {
+      color: style.color,
+      ...(sourceRoot === undefined ? {} : { sourceRoot }),
+    });
+  }
+  return diagnostics.map(formatDiagnostic).join("\n") + "\n";
+}
+
+function formatSourceSpanStart(span: TargetDiagnosticSourceSpan): string {
+  return `${span.fileName}:${span.line}:${span.column}`;
+}
+
+function formatSourceSpanRange(span: TargetDiagnosticSourceSpan): string {
+  return `${formatSourceSpanStart(span)}-${span.endLine}:${span.endColumn}`;
+}
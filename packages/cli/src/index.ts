@@ -1,20 +1,24 @@
 #!/usr/bin/env node
-import { readFile } from "node:fs/promises";
 import { resolve } from "node:path";
-import { compileProject, discoverInstalledTsonicPlugins, parseTsonicProjectConfig, resolveProjectPaths } from "@tsonic/host";
-import type { ProjectBuildResult } from "@tsonic/host";
-import { publishBuildOutput, recoverBuildOutput } from "./output-publication.js";
+import { discoverInstalledTsonicPlugins } from "@tsonic/host";
+import { readDiagnosticsFormat, readProjectPath } from "./commands/arguments.js";
+import { runBaseline } from "./commands/baseline.js";
+import { runBuild } from "./commands/build.js";
+import { runCheck } from "./commands/check.js";
+import { runClean } from "./commands/clean.js";
+import type { CliResult } from "./commands/cli-result.js";
+import { runDoctor } from "./commands/doctor.js";
+import { runExplain } from "./commands/explain.js";
+import { runInit } from "./commands/init.js";
+import { runSchema } from "./commands/schema.js";
+import { runStatus } from "./commands/status.js";
+import { runVerifyOutput } from "./commands/verify-output.js";
+import { runWatch } from "./commands/watch.js";
+import { diagnosticsResult } from "./diagnostics/output-format.js";
+import type { DiagnosticsFormat } from "./diagnostics/output-format.js";
 
-interface CliResult {
-  readonly exitCode: number;
-  readonly stdout?: string;
-  readonly stderr?: string;
-}
-
-const result = await run(process.argv.slice(2), process.cwd()).catch((error: unknown): CliResult => ({
-  exitCode: 1,
-  stderr: `${error instanceof Error ? error.message : String(error)}\n`,
-}));
+const commandArgs = process.argv.slice(2);
+const result = await run(commandArgs, process.cwd()).catch((error: unknown): CliResult => failedCommandResult(commandArgs, error));
 if (result.stdout !== undefined && result.stdout.length > 0) {
   process.stdout.write(result.stdout);
 }
@@ -32,19 +36,54 @@ export async function run(args: readonly string[], currentDirectory: string): Pr
     };
   }
   if (command === "targets") {
-    const projectPath = resolve(currentDirectory, readProjectPath(args.slice(1)));
+    const targetArgs = args.slice(1);
+    const format = readDiagnosticsFormat(targetArgs);
+    const projectPath = resolve(currentDirectory, readProjectPath(targetArgs));
     const plugins = await discoverInstalledTsonicPlugins(projectPath);
     const errors = plugins.diagnostics.filter((diagnostic) => diagnostic.category === "error");
     if (errors.length > 0) {
-      return {
+      return diagnosticsResult(format, {
+        command: "targets",
         exitCode: 1,
-        stderr: errors.map(formatDiagnostic).join("\n") + "\n",
-      };
+        diagnostics: errors,
+      });
     }
-    return {
+    return diagnosticsResult(format, {
+      command: "targets",
       exitCode: 0,
-      stdout: plugins.targets.map((target) => `${target.targetId}\t${target.id}`).join("\n") + "\n",
-    };
+      diagnostics: [],
+      targets: plugins.targets.map((target) => ({ targetId: target.targetId, plugin: target.id })),
+    }, plugins.targets.map((target) => `${target.targetId}\t${target.id}`).join("\n") + "\n");
+  }
+  if (command === "init") {
+    return runInit(args.slice(1), currentDirectory);
+  }
+  if (command === "schema") {
+    return runSchema(args.slice(1), currentDirectory);
+  }
+  if (command === "check") {
+    return runCheck(args.slice(1), currentDirectory);
+  }
+  if (command === "watch") {
+    return runWatch(args.slice(1), currentDirectory);
+  }
+  if (command === "baseline") {
+    return runBaseline(args.slice(1), currentDirectory);
+  }
+  if (command === "explain") {
+    return runExplain(args.slice(1), currentDirectory);
+  }
+  if (command === "doctor") {
+    return runDoctor(args.slice(1), currentDirectory);
+  }
+  if (command === "verify-output") {
+    return runVerifyOutput(args.slice(1), currentDirectory);
+  }
+  if (command === "status") {
+    return runStatus(args.slice(1), currentDirectory);
+  }
+  if (command === "clean") {
+    return runClean(args.slice(1), currentDirectory);
   }
   if (command !== "build") {
     return {
@@ -55,98 +94,42 @@ export async function run(args: readonly string[], currentDirectory: string): Pr
   return runBuild(args.slice(1), currentDirectory);
 }
 
-async function runBuild(args: readonly string[], currentDirectory: string): Promise<CliResult> {
-  const projectPath = resolve(currentDirectory, readProjectPath(args));
-  const text = await readFile(projectPath, "utf8");
-  const config = parseTsonicProjectConfig(JSON.parse(text));
-  const paths = resolveProjectPaths({ project: config, projectFilePath: projectPath });
-  const outputOptions = {
-    outputRoot: paths.outputRoot,
-    protectedPaths: [paths.projectDirectory],
-  } as const;
-  await recoverBuildOutput(outputOptions);
-  const plugins = await discoverInstalledTsonicPlugins(projectPath);
-  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
-    return {
-      exitCode: 1,
-      stdout: "",
-      stderr: plugins.diagnostics.map(formatDiagnostic).join("\n") + "\n",
-    };
+function failedCommandResult(args: readonly string[], error: unknown): CliResult {
+  const message = error instanceof Error ? error.message : String(error);
+  const format = failedCommandFormat(args);
+  if (format === "text") {
+    return { exitCode: 1, stderr: `${message}\n` };
   }
-  const buildResult = compileProject({
-    project: config,
-    projectFilePath: projectPath,
-    registry: plugins.createTargetRegistry(),
-    installedCapabilities: plugins.capabilities,
+  return diagnosticsResult(format, {
+    command: args[0] ?? "help",
+    exitCode: 1,
+    diagnostics: [{ code: "TSONIC_COMMAND_FAILED", category: "error", source: "tsonic-cli", message }],
   });
-  const diagnostics = buildResult.diagnostics.filter((diagnostic) => diagnostic.category === "error");
-  if (diagnostics.length === 0) {
-    const targets = buildResult.targets.map((target) => {
-      if (target.compileResult.kind !== "resolved") {
-        throw new Error(`Target '${target.target.id}' rejected without an error diagnostic.`);
-      }
-      return {
-        targetId: target.target.id,
-        artifacts: target.compileResult.value.artifacts,
-      };
-    });
-    await publishBuildOutput({
-      ...outputOptions,
-      expectedTargetIds: config.targets.map((target) => target.id),
-      targets,
-    });
-  }
-  return {
-    exitCode: diagnostics.length === 0 ? 0 : 1,
-    stdout: [
-      `Project: ${projectPath}`,
-      `Entry: ${config.entryPoint}`,
-      `Targets: ${buildResult.targets.map((target) => target.target.id).join(", ")}`,
-      `Artifacts: ${buildResult.targets.reduce(
-        (count, target) => count + (target.compileResult.kind === "resolved" ? target.compileResult.value.artifacts.length : 0),
-        0,
-      )}`,
-      "",
-    ].join("\n"),
-    ...(buildResult.diagnostics.length > 0
-      ? {
-          stderr: buildResult.diagnostics
-            .map(formatDiagnostic)
-            .join("\n") + "\n",
-        }
-      : {}),
-  };
 }
 
-function formatDiagnostic(diagnostic: ProjectBuildResult["diagnostics"][number]): string {
-  const evidence = diagnostic.evidence === undefined || diagnostic.evidence.length === 0
-    ? ""
-    : diagnostic.evidence.map((entry) => `\n  evidence: ${entry}`).join("");
-  const sourceSpan = diagnostic.sourceSpan === undefined
-    ? ""
-    : ` ${diagnostic.sourceSpan.fileName}:${diagnostic.sourceSpan.line}:${diagnostic.sourceSpan.column}`;
-  return `${diagnostic.category.toUpperCase()} ${diagnostic.source ?? "tsonic"}:${diagnostic.code}${sourceSpan}: ${diagnostic.message}${evidence}`;
-}
-
-function readProjectPath(args: readonly string[]): string {
-  for (let index = 0; index < args.length; index += 1) {
-    const value = args[index];
-    if (value === "--project" || value === "-p") {
-      const path = args[index + 1];
-      if (path === undefined || path.startsWith("-")) {
-        throw new Error("Expected a path after --project.");
-      }
-      return path;
-    }
+function failedCommandFormat(args: readonly string[]): DiagnosticsFormat {
+  try {
+    return readDiagnosticsFormat(args);
+  } catch {
+    return "text";
   }
-  return "tsonic.json";
 }
 
 function helpText(): string {
   return [
     "Usage:",
-    "  tsonic build --project <tsonic.json>",
-    "  tsonic targets",
+    "  tsonic build --project <tsonic.json> [--parallel] [--no-cache] [--toolchain] [--profile[=<trace.json>]] [--time-budget <ms>] [--heap-budget <MB>] [--publish-partial] [--dry-run [--diff] [--check-clean]] [--diagnostics-format text|json|sarif] [--plain] [--no-color]",
+    "  tsonic check --project <tsonic.json> [--target <id>]... [--time-budget <ms>] [--heap-budget <MB>] [--plain] [--no-color]",
+    "  tsonic watch --project <tsonic.json> [--plain] [--no-color]",
+    "  tsonic init [--project <tsonic.json>] [--target <id>]...",
+    "  tsonic schema [--project <tsonic.json>] [--output <file>]",
+    "  tsonic targets [--diagnostics-format text|json|sarif]",
+    "  tsonic baseline update [--project <tsonic.json>]",
+    "  tsonic explain [<code>] [--project <tsonic.json>]",
+    "  tsonic doctor [--project <tsonic.json>]",
+    "  tsonic verify-output [--project <tsonic.json>] [--diagnostics-format text|json|sarif]",
+    "  tsonic status [--project <tsonic.json>]",
+    "  tsonic clean [--project <tsonic.json>] [--all]",
     "",
     "Architecture:",
     "  TSTS owns TypeScript parse/bind/check/flow/narrowing and extension facts.",
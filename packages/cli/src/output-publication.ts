@@ -1,17 +1,37 @@
 import { createHash, randomUUID } from "node:crypto";
+import { constants } from "node:fs";
+import type { Stats } from "node:fs";
 import {
+  copyFile,
+  link,
   lstat,
   mkdir,
   mkdtemp,
   readFile,
   readdir,
+  realpath,
   rename,
   rm,
+  utimes,
   writeFile,
 } from "node:fs/promises";
-import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { basename, dirname, isAbsolute, relative, resolve, sep } from "node:path";
 import { isValidTargetId } from "@tsonic/target-api";
 import type { TargetArtifact } from "@tsonic/target-api/artifacts";
+import {
+  createOutputManifestArtifact,
+  createOutputManifestTarget,
+  formatOutputManifest,
+  listOutputFiles,
+  outputManifestFileName,
+  readPublishedOutputManifest,
+} from "./publication/output-manifest.js";
+import type {
+  BuildOutputProvenance,
+  OutputManifest,
+  OutputManifestArtifact,
+  OutputManifestTarget,
+} from "./publication/output-manifest.js";
 
 export interface BuildOutputRecoveryOptions {
   readonly outputRoot: string;
@@ -21,23 +41,74 @@ export interface BuildOutputRecoveryOptions {
 export interface BuildOutputTarget {
   readonly targetId: string;
   readonly artifacts: readonly TargetArtifact[];
+  readonly provenance?: BuildOutputProvenance;
 }
 
+export type BuildOutputPublicationMode = "replace" | "incremental";
+
 export interface BuildOutputPublicationOptions extends BuildOutputRecoveryOptions {
   readonly expectedTargetIds: readonly string[];
   readonly targets: readonly BuildOutputTarget[];
+  readonly retainedTargetIds?: readonly string[];
+  readonly mode?: BuildOutputPublicationMode;
+}
+
+export interface BuildOutputLockStatus {
+  readonly active: boolean;
+  readonly pid?: number;
+  readonly acquiredAt?: Date;
 }
 
+export interface BuildOutputStatus {
+  readonly outputRoot: string;
+  readonly lastPublishedAt?: Date;
+  readonly lock?: BuildOutputLockStatus;
+  readonly backup?: string;
+  readonly leftovers: readonly string[];
+}
+
+export interface BuildOutputCleanResult {
+  readonly removedOutput: boolean;
+  readonly removedScratch: readonly string[];
+}
+
+export interface BuildOutputPublicationResult {
+  readonly written: number;
+  readonly reused: number;
+}
+
+export type BuildOutputChange = "added" | "removed" | "changed";
+
+export interface BuildOutputDifference {
+  readonly path: string;
+  readonly change: BuildOutputChange;
+  readonly previous?: Uint8Array;
+  readonly next?: Uint8Array;
+}
+
+type ValidatedArtifactContent =
+  | { readonly kind: "text"; readonly text: string }
+  | { readonly kind: "bytes"; readonly bytes: Uint8Array }
+  | { readonly kind: "copy"; readonly sourcePath: string; readonly sha256: string };
+
 interface ValidatedArtifact {
   readonly relativePath: string;
-  readonly text: string;
+  readonly artifact: TargetArtifact;
+  readonly content: ValidatedArtifactContent;
 }
 
 interface ValidatedTarget {
   readonly targetId: string;
+  readonly provenance?: BuildOutputProvenance;
   readonly artifacts: readonly ValidatedArtifact[];
 }
 
+interface ValidatedPublication {
+  readonly targetIds: readonly string[];
+  readonly targets: readonly ValidatedTarget[];
+  readonly retainedTargetIds: ReadonlySet<string>;
+}
+
 interface OutputScratchPaths {
   readonly outputRoot: string;
   readonly parent: string;
@@ -68,16 +139,59 @@ export async function recoverBuildOutput(options: BuildOutputRecoveryOptions): P
   });
 }
 
-export async function publishBuildOutput(options: BuildOutputPublicationOptions): Promise<void> {
+export async function inspectBuildOutput(options: BuildOutputRecoveryOptions): Promise<BuildOutputStatus> {
+  const scratch = getOutputScratchPaths(options);
+  const scratchEntries = await listScratchEntries(scratch);
+  const manifestPath = resolve(scratch.outputRoot, outputManifestFileName);
+  const publishedPath = await pathExists(manifestPath) ? manifestPath : scratch.outputRoot;
+  const lastPublishedAt = await pathExists(publishedPath) ? (await lstat(publishedPath)).mtime : undefined;
+  let lock: BuildOutputLockStatus | undefined;
+  const active = await readOutputLockActivity(scratch);
+  if (active !== undefined) {
+    const owner = await readOutputLockOwner(scratch.lockOwner);
+    lock = {
+      active,
+      ...(owner === undefined ? {} : { pid: owner.pid, acquiredAt: new Date(owner.createdAt) }),
+    };
+  }
+  return {
+    outputRoot: scratch.outputRoot,
+    ...(lastPublishedAt === undefined ? {} : { lastPublishedAt }),
+    ...(lock === undefined ? {} : { lock }),
+    ...(scratchEntries.includes(scratch.backup) ? { backup: scratch.backup } : {}),
+    leftovers: scratchEntries.filter((path) => path !== scratch.backup),
+  };
+}
+
+export async function cleanBuildOutput(options: BuildOutputRecoveryOptions): Promise<BuildOutputCleanResult> {
+  const scratch = getOutputScratchPaths(options);
+  if (!await pathExists(scratch.parent)) {
+    return { removedOutput: false, removedScratch: [] };
+  }
+  return withOutputLock(scratch, async () => {
+    const removedScratch = await listScratchEntries(scratch);
+    await recoverBuildOutputWithoutLock(scratch);
+    const removedOutput = await pathExists(scratch.outputRoot);
+    await rm(scratch.outputRoot, { recursive: true, force: true });
+    return { removedOutput, removedScratch };
+  });
+}
+
+export async function publishBuildOutput(
+  options: BuildOutputPublicationOptions,
+): Promise<BuildOutputPublicationResult> {
   const scratch = getOutputScratchPaths(options);
-  const targets = validatePublication(options, scratch.outputRoot);
+  const publication = validatePublication(options, scratch.outputRoot);
   await mkdir(scratch.parent, { recursive: true });
-  await withOutputLock(scratch, async () => {
+  return withOutputLock(scratch, async () => {
     await recoverBuildOutputWithoutLock(scratch);
+    const previousRoot = options.mode === "incremental" && await pathExists(scratch.outputRoot)
+      ? await realpath(scratch.outputRoot)
+      : undefined;
     const stageRoot = await mkdtemp(scratch.stagePrefix);
     let stageExists = true;
     try {
-      await writeStagedOutput(stageRoot, targets);
+      const result = await writeStagedOutput(stageRoot, publication, previousRoot, scratch.outputRoot);
       const previousOutputExists = await pathExists(scratch.outputRoot);
       let previousOutputMoved = false;
       try {
@@ -107,6 +221,7 @@ export async function publishBuildOutput(options: BuildOutputPublicationOptions)
       if (await pathExists(scratch.backup)) {
         await rm(scratch.backup, { recursive: true, force: true });
       }
+      return result;
     } finally {
       if (stageExists) {
         await rm(stageRoot, { recursive: true, force: true });
@@ -115,6 +230,42 @@ export async function publishBuildOutput(options: BuildOutputPublicationOptions)
   });
 }
 
+export async function compareBuildOutput(
+  options: BuildOutputPublicationOptions,
+): Promise<readonly BuildOutputDifference[]> {
+  const outputRoot = getOutputScratchPaths(options).outputRoot;
+  const { targets } = validatePublication(options, outputRoot);
+  const expected = new Map<string, Uint8Array>();
+  for (const target of targets) {
+    for (const artifact of target.artifacts) {
+      const content = await readArtifactContent(target.targetId, artifact);
+      expected.set(
+        [target.targetId, ...artifact.relativePath.split(sep)].join("/"),
+        typeof content === "string" ? Buffer.from(content, "utf8") : content,
+      );
+    }
+  }
+  const published = await pathExists(outputRoot) ? await listOutputFiles(outputRoot) : new Map<string, string>();
+  const differences: BuildOutputDifference[] = [];
+  for (const [path, next] of expected) {
+    const publishedPath = published.get(path);
+    if (publishedPath === undefined) {
+      differences.push({ path, change: "added", next });
+      continue;
+    }
+    const previous = await readFile(publishedPath);
+    if (!previous.equals(next)) {
+      differences.push({ path, change: "changed", previous, next });
+    }
+  }
+  for (const [path, publishedPath] of published) {
+    if (!expected.has(path)) {
+      differences.push({ path, change: "removed", previous: await readFile(publishedPath) });
+    }
+  }
+  return differences.sort((left, right) => left.path < right.path ? -1 : left.path > right.path ? 1 : 0);
+}
+
 function getOutputScratchPaths(options: BuildOutputRecoveryOptions): OutputScratchPaths {
   const outputRoot = resolve(options.outputRoot);
   const parent = dirname(outputRoot);
@@ -145,14 +296,25 @@ function getOutputScratchPaths(options: BuildOutputRecoveryOptions): OutputScrat
 function validatePublication(
   options: BuildOutputPublicationOptions,
   outputRoot: string,
-): readonly ValidatedTarget[] {
+): ValidatedPublication {
   if (options.expectedTargetIds.length === 0) {
     throw new Error("Target output publication requires at least one expected target.");
   }
   const expectedIds = validateTargetIds(options.expectedTargetIds, "expected target");
   const suppliedIds = validateTargetIds(options.targets.map((target) => target.targetId), "target result");
-  const missingIds = [...expectedIds].filter((targetId) => !suppliedIds.has(targetId)).sort();
-  const unexpectedIds = [...suppliedIds].filter((targetId) => !expectedIds.has(targetId)).sort();
+  const retainedIds = validateTargetIds(options.retainedTargetIds ?? [], "retained target");
+  for (const targetId of retainedIds) {
+    if (suppliedIds.has(targetId)) {
+      throw new Error(`Target output publication cannot both publish and retain target '${targetId}'.`);
+    }
+  }
+  if (retainedIds.size > 0 && suppliedIds.size === 0) {
+    throw new Error("Target output publication requires at least one published target.");
+  }
+  const missingIds = [...expectedIds]
+    .filter((targetId) => !suppliedIds.has(targetId) && !retainedIds.has(targetId))
+    .sort();
+  const unexpectedIds = [...suppliedIds, ...retainedIds].filter((targetId) => !expectedIds.has(targetId)).sort();
   if (missingIds.length > 0 || unexpectedIds.length > 0) {
     throw new Error([
       "Target output publication received an incomplete target set.",
@@ -161,16 +323,23 @@ function validatePublication(
     ].join(" "));
   }
   const targetsById = new Map(options.targets.map((target) => [target.targetId, target]));
-  return options.expectedTargetIds.map((targetId): ValidatedTarget => {
-    const target = targetsById.get(targetId);
-    if (target === undefined) {
-      throw new Error(`Target output publication is missing target '${targetId}'.`);
-    }
-    return {
-      targetId,
-      artifacts: validateArtifacts(outputRoot, target),
-    };
-  });
+  return {
+    targetIds: options.expectedTargetIds,
+    targets: options.expectedTargetIds
+      .filter((targetId) => !retainedIds.has(targetId))
+      .map((targetId): ValidatedTarget => {
+        const target = targetsById.get(targetId);
+        if (target === undefined) {
+          throw new Error(`Target output publication is missing target '${targetId}'.`);
+        }
+        return {
+          targetId,
+          ...(target.provenance === undefined ? {} : { provenance: target.provenance }),
+          artifacts: validateArtifacts(outputRoot, target),
+        };
+      }),
+    retainedTargetIds: retainedIds,
+  };
 }
 
 function validateTargetIds(targetIds: readonly string[], subject: string): ReadonlySet<string> {
@@ -195,9 +364,7 @@ function validateArtifacts(outputRoot: string, target: BuildOutputTarget): reado
     if (typeof artifact.path !== "string" || artifact.path.length === 0 || artifact.path.includes("\0")) {
       throw new Error(`Target '${target.targetId}' produced an invalid empty or NUL-containing artifact path.`);
     }
-    if (typeof artifact.text !== "string") {
-      throw new Error(`Target '${target.targetId}' artifact '${artifact.path}' has non-text content.`);
-    }
+    const content = validateArtifactContent(outputRoot, target.targetId, artifact);
     if (isAbsolute(artifact.path)) {
       throw new Error(`Target artifact path '${artifact.path}' must be project-relative inside the target output root.`);
     }
@@ -210,7 +377,7 @@ function validateArtifacts(outputRoot: string, target: BuildOutputTarget): reado
     if (artifactsByPath.has(relativePath)) {
       throw new Error(`Target '${target.targetId}' produced duplicate artifact path '${relativePath}'.`);
     }
-    artifactsByPath.set(relativePath, { relativePath, text: artifact.text });
+    artifactsByPath.set(relativePath, { relativePath, artifact, content });
   }
   for (const relativePath of artifactsByPath.keys()) {
     let parentPath = dirname(relativePath);
@@ -226,15 +393,181 @@ function validateArtifacts(outputRoot: string, target: BuildOutputTarget): reado
   return [...artifactsByPath.values()];
 }
 
-async function writeStagedOutput(stageRoot: string, targets: readonly ValidatedTarget[]): Promise<void> {
-  for (const target of targets) {
+function validateArtifactContent(
+  outputRoot: string,
+  targetId: string,
+  artifact: TargetArtifact,
+): ValidatedArtifactContent {
+  const fields = ["text", "bytes", "sourcePath"].filter((field) => field in artifact);
+  if (fields.length !== 1) {
+    throw new Error(
+      `Target '${targetId}' artifact '${artifact.path}' must declare exactly one of text, bytes, or sourcePath content.`,
+    );
+  }
+  if ("text" in artifact) {
+    if (typeof artifact.text !== "string") {
+      throw new Error(`Target '${targetId}' artifact '${artifact.path}' text content must be a string.`);
+    }
+    return { kind: "text", text: artifact.text };
+  }
+  if ("bytes" in artifact) {
+    if (!(artifact.bytes instanceof Uint8Array)) {
+      throw new Error(`Target '${targetId}' artifact '${artifact.path}' bytes content must be a Uint8Array.`);
+    }
+    return { kind: "bytes", bytes: artifact.bytes };
+  }
+  if (typeof artifact.sourcePath !== "string" || !isAbsolute(artifact.sourcePath) || artifact.sourcePath.includes("\0")) {
+    throw new Error(`Target '${targetId}' artifact '${artifact.path}' sourcePath must be an absolute file path.`);
+  }
+  if (typeof artifact.sha256 !== "string" || !/^[0-9a-f]{64}$/u.test(artifact.sha256)) {
+    throw new Error(`Target '${targetId}' artifact '${artifact.path}' must declare the lowercase hex sha256 of its source file.`);
+  }
+  const sourcePath = resolve(artifact.sourcePath);
+  if (pathContainsOrEquals(outputRoot, sourcePath)) {
+    throw new Error(
+      `Target '${targetId}' artifact '${artifact.path}' cannot copy from '${sourcePath}' inside the output root '${outputRoot}'.`,
+    );
+  }
+  return { kind: "copy", sourcePath, sha256: artifact.sha256 };
+}
+
+async function readArtifactContent(targetId: string, artifact: ValidatedArtifact): Promise<string | Uint8Array> {
+  if (artifact.content.kind === "text") {
+    return artifact.content.text;
+  }
+  if (artifact.content.kind === "bytes") {
+    return artifact.content.bytes;
+  }
+  const bytes = await readFile(artifact.content.sourcePath);
+  const sha256 = createHash("sha256").update(bytes).digest("hex");
+  if (sha256 !== artifact.content.sha256) {
+    throw new Error(
+      `Target '${targetId}' artifact '${artifact.relativePath}' source '${artifact.content.sourcePath}' has sha256 ${sha256}, expected ${artifact.content.sha256}.`,
+    );
+  }
+  return bytes;
+}
+
+async function writeStagedOutput(
+  stageRoot: string,
+  publication: ValidatedPublication,
+  previousRoot: string | undefined,
+  outputRoot: string,
+): Promise<BuildOutputPublicationResult> {
+  const targetsById = new Map(publication.targets.map((target) => [target.targetId, target]));
+  const previousManifest = publication.retainedTargetIds.size > 0 ? await readPublishedOutputManifest(outputRoot) : undefined;
+  const manifestTargets: OutputManifestTarget[] = [];
+  let written = 0;
+  let reused = 0;
+  for (const targetId of publication.targetIds) {
+    const target = targetsById.get(targetId);
+    if (target === undefined) {
+      const retained = await stageRetainedTarget(stageRoot, outputRoot, targetId, previousManifest);
+      manifestTargets.push(retained.manifestTarget);
+      reused += retained.files;
+      continue;
+    }
     const targetRoot = resolve(stageRoot, target.targetId);
     await mkdir(targetRoot, { recursive: true });
+    const manifestArtifacts: OutputManifestArtifact[] = [];
     for (const artifact of target.artifacts) {
       const outputPath = resolve(targetRoot, artifact.relativePath);
       await mkdir(dirname(outputPath), { recursive: true });
-      await writeFile(outputPath, artifact.text, { encoding: "utf8", flag: "wx" });
+      const content = await readArtifactContent(target.targetId, artifact);
+      if (
+        previousRoot !== undefined &&
+        await reusePublishedFile(previousRoot, resolve(previousRoot, target.targetId, artifact.relativePath), outputPath, content)
+      ) {
+        reused += 1;
+      } else {
+        await writeFile(outputPath, content, typeof content === "string" ? { encoding: "utf8", flag: "wx" } : { flag: "wx" });
+        written += 1;
+      }
+      manifestArtifacts.push(createOutputManifestArtifact(artifact.relativePath, artifact.artifact, content));
+    }
+    manifestTargets.push(createOutputManifestTarget(target.targetId, target.provenance, manifestArtifacts));
+  }
+  await writeFile(resolve(stageRoot, outputManifestFileName), formatOutputManifest(manifestTargets), {
+    encoding: "utf8",
+    flag: "wx",
+  });
+  return { written, reused };
+}
+
+async function stageRetainedTarget(
+  stageRoot: string,
+  outputRoot: string,
+  targetId: string,
+  previousManifest: OutputManifest | undefined,
+): Promise<{ readonly manifestTarget: OutputManifestTarget; readonly files: number }> {
+  const previousFiles = await pathExists(outputRoot)
+    ? [...await listOutputFiles(outputRoot)].filter(([path]) => path.startsWith(`${targetId}/`))
+    : [];
+  const manifestArtifacts: OutputManifestArtifact[] = [];
+  for (const [path, previousPath] of previousFiles) {
+    const outputPath = resolve(stageRoot, ...path.split("/"));
+    await mkdir(dirname(outputPath), { recursive: true });
+    await linkOrCopyFile(previousPath, outputPath, await lstat(previousPath));
+    manifestArtifacts.push(createOutputManifestArtifact(
+      path.slice(targetId.length + 1),
+      { kind: "unknown" },
+      await readFile(previousPath),
+    ));
+  }
+  const previousTarget = previousManifest?.targets.find((target) => target.targetId === targetId);
+  return {
+    manifestTarget: Object.freeze({
+      ...previousTarget ?? createOutputManifestTarget(targetId, undefined, manifestArtifacts),
+      status: "retained",
+    }),
+    files: previousFiles.length,
+  };
+}
+
+async function reusePublishedFile(
+  previousRoot: string,
+  previousPath: string,
+  outputPath: string,
+  content: string | Uint8Array,
+): Promise<boolean> {
+  let previousStatus: Awaited<ReturnType<typeof lstat>>;
+  try {
+    previousStatus = await lstat(previousPath);
+  } catch (error: unknown) {
+    if (isFileSystemError(error, "ENOENT") || isFileSystemError(error, "ENOTDIR")) {
+      return false;
+    }
+    throw error;
+  }
+  const byteLength = typeof content === "string" ? Buffer.byteLength(content, "utf8") : content.byteLength;
+  if (
+    !previousStatus.isFile() ||
+    previousStatus.size !== byteLength ||
+    !pathContainsOrEquals(previousRoot, await realpath(previousPath))
+  ) {
+    return false;
+  }
+  const previousHash = createHash("sha256").update(await readFile(previousPath)).digest("hex");
+  if (previousHash !== createHash("sha256").update(content).digest("hex")) {
+    return false;
+  }
+  await linkOrCopyFile(previousPath, outputPath, previousStatus);
+  return true;
+}
+
+async function linkOrCopyFile(
+  previousPath: string,
+  outputPath: string,
+  previousStatus: Awaited<ReturnType<typeof lstat>>,
+): Promise<void> {
+  try {
+    await link(previousPath, outputPath);
+  } catch (error: unknown) {
+    if (!["EXDEV", "EPERM", "ENOTSUP", "EMLINK"].some((code) => isFileSystemError(error, code))) {
+      throw error;
     }
+    await copyFile(previousPath, outputPath, constants.COPYFILE_EXCL);
+    await utimes(outputPath, previousStatus.atime, previousStatus.mtime);
   }
 }
 
@@ -246,18 +579,27 @@ async function recoverBuildOutputWithoutLock(scratch: OutputScratchPaths): Promi
   } else if (backupExists) {
     await rename(scratch.backup, scratch.outputRoot);
   }
-  for (const entry of await readdir(scratch.parent, { withFileTypes: true })) {
-    const path = resolve(scratch.parent, entry.name);
-    if (
-      path.startsWith(scratch.stagePrefix)
-      || entry.name.startsWith(scratch.staleLockPrefix)
-      || entry.name.startsWith(scratch.releasedLockPrefix)
-    ) {
+  for (const path of await listScratchEntries(scratch)) {
+    if (path !== scratch.backup) {
       await rm(path, { recursive: true, force: true });
     }
   }
 }
 
+async function listScratchEntries(scratch: OutputScratchPaths): Promise<readonly string[]> {
+  if (!await pathExists(scratch.parent)) {
+    return [];
+  }
+  return (await readdir(scratch.parent))
+    .sort()
+    .map((name) => resolve(scratch.parent, name))
+    .filter((path) =>
+      path === scratch.backup
+      || path.startsWith(scratch.stagePrefix)
+      || basename(path).startsWith(scratch.staleLockPrefix)
+      || basename(path).startsWith(scratch.releasedLockPrefix));
+}
+
 async function withOutputLock<Result>(
   scratch: OutputScratchPaths,
   action: () => Promise<Result>,
@@ -338,7 +680,19 @@ async function releaseOutputLock(scratch: OutputScratchPaths, owner: OutputLockO
 }
 
 async function outputLockIsActive(scratch: OutputScratchPaths): Promise<boolean> {
-  const lockStatus = await lstat(scratch.lock);
+  return await readOutputLockActivity(scratch) === true;
+}
+
+async function readOutputLockActivity(scratch: OutputScratchPaths): Promise<boolean | undefined> {
+  let lockStatus: Stats;
+  try {
+    lockStatus = await lstat(scratch.lock);
+  } catch (error: unknown) {
+    if (isFileSystemError(error, "ENOENT")) {
+      return undefined;
+    }
+    throw error;
+  }
   const owner = await readOutputLockOwner(scratch.lockOwner);
   if (owner === undefined) {
     return timestampIsRecent(lockStatus.mtimeMs, unownedLockGraceMilliseconds);
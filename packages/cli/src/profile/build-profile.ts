@@ -0,0 +1,109 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, relative } from "node:path";
+import type { BuildProfileSpan } from "@tsonic/host";
+import type { CliResult } from "../commands/cli-result.js";
+import type { DiagnosticsFormat } from "../diagnostics/output-format.js";
+
+export interface BuildProfileOption {
+  readonly tracePath?: string;
+}
+
+export interface ChromeTraceEvent {
+  readonly name: string;
+  readonly cat: string;
+  readonly ph: "X" | "M";
+  readonly pid: number;
+  readonly tid: number;
+  readonly ts: number;
+  readonly dur?: number;
+  readonly args: Readonly<Record<string, string | number>>;
+}
+
+export interface ChromeTrace {
+  readonly traceEvents: readonly ChromeTraceEvent[];
+  readonly displayTimeUnit: "ms";
+}
+
+export async function reportBuildProfile(
+  result: CliResult,
+  format: DiagnosticsFormat,
+  spans: readonly BuildProfileSpan[],
+  option: BuildProfileOption,
+  currentDirectory: string,
+): Promise<CliResult> {
+  if (option.tracePath !== undefined) {
+    await mkdir(dirname(option.tracePath), { recursive: true });
+    await writeFile(option.tracePath, `${JSON.stringify(createChromeTrace(spans), null, 2)}\n`, "utf8");
+  }
+  const report = [
+    formatBuildProfile(spans),
+    ...option.tracePath === undefined ? [] : [`Trace: ${relative(currentDirectory, option.tracePath)}\n`],
+  ].join("");
+  return format === "text"
+    ? { ...result, stdout: `${result.stdout ?? ""}${report}` }
+    : { ...result, stderr: `${result.stderr ?? ""}${report}` };
+}
+
+export function formatBuildProfile(spans: readonly BuildProfileSpan[]): string {
+  const rows = spans.map((span) => ({
+    label: `${"  ".repeat(span.depth + (span.thread === 0 ? 1 : 2))}${spanLabel(span)}`,
+    time: `${span.duration.toFixed(1)} ms`,
+    heap: `heap ${span.heapDelta < 0 ? "-" : "+"}${formatMegabytes(Math.abs(span.heapDelta))}`,
+    counts: Object.entries(span.counts).map(([name, value]) => `${name}=${value}`).join(" "),
+  }));
+  const labelWidth = Math.max(0, ...rows.map((row) => row.label.length));
+  const timeWidth = Math.max(0, ...rows.map((row) => row.time.length));
+  const memory = process.memoryUsage();
+  return [
+    "Profile:",
+    ...rows.map((row) => [
+      row.label.padEnd(labelWidth),
+      row.time.padStart(timeWidth),
+      row.heap,
+      ...row.counts.length === 0 ? [] : [row.counts],
+    ].join("  ").trimEnd()),
+    `Heap: ${formatMegabytes(memory.heapUsed)} used, ${formatMegabytes(memory.rss)} rss`,
+    "",
+  ].join("\n");
+}
+
+export function createChromeTrace(spans: readonly BuildProfileSpan[]): ChromeTrace {
+  const origin = Math.min(...spans.map((span) => span.startTime));
+  const threads = [...new Set(spans.map((span) => span.thread))].sort((left, right) => left - right);
+  return Object.freeze({
+    traceEvents: Object.freeze([
+      ...threads.map((thread): ChromeTraceEvent => ({
+        name: "thread_name",
+        cat: "__metadata",
+        ph: "M",
+        pid: process.pid,
+        tid: thread,
+        ts: 0,
+        args: { name: thread === 0 ? "main" : `worker ${thread}` },
+      })),
+      ...spans.map((span): ChromeTraceEvent => ({
+        name: spanLabel(span),
+        cat: "tsonic",
+        ph: "X",
+        pid: process.pid,
+        tid: span.thread,
+        ts: Math.round((span.startTime - origin) * 1000),
+        dur: Math.round(span.duration * 1000),
+        args: {
+          ...(span.targetId === undefined ? {} : { target: span.targetId }),
+          heapDelta: span.heapDelta,
+          ...span.counts,
+        },
+      })),
+    ]),
+    displayTimeUnit: "ms",
+  });
+}
+
+function spanLabel(span: BuildProfileSpan): string {
+  return span.name === "target" && span.targetId !== undefined ? `target ${span.targetId}` : span.name;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,219 @@
+import { createHash } from "node:crypto";
+import { readFile, readdir } from "node:fs/promises";
+import { relative, resolve, sep } from "node:path";
+import type { TargetArtifact, TargetDiagnostic } from "@tsonic/target-api/artifacts";
+
+export const outputManifestFileName = "tsonic-manifest.json";
+
+export const outputManifestSchemaVersion = 1;
+
+export interface BuildOutputPluginVersion {
+  readonly name: string;
+  readonly version: string;
+}
+
+export interface BuildOutputProvenance {
+  readonly plugins: readonly BuildOutputPluginVersion[];
+  readonly sourceDeclarationFingerprint: string;
+  readonly sourcePackageGraphFingerprint: string;
+}
+
+export type OutputManifestTargetStatus = "published" | "retained";
+
+export interface OutputManifest {
+  readonly schemaVersion: typeof outputManifestSchemaVersion;
+  readonly tool: "tsonic";
+  readonly complete: boolean;
+  readonly targets: readonly OutputManifestTarget[];
+}
+
+export interface OutputManifestTarget {
+  readonly targetId: string;
+  readonly status: OutputManifestTargetStatus;
+  readonly plugins?: readonly BuildOutputPluginVersion[];
+  readonly sourceDeclarationFingerprint?: string;
+  readonly sourcePackageGraphFingerprint?: string;
+  readonly artifacts: readonly OutputManifestArtifact[];
+}
+
+export interface OutputManifestArtifact {
+  readonly path: string;
+  readonly kind: string;
+  readonly language?: string;
+  readonly sha256: string;
+}
+
+export interface OutputVerificationResult {
+  readonly manifest?: OutputManifest;
+  readonly diagnostics: readonly TargetDiagnostic[];
+}
+
+export function createOutputManifestTarget(
+  targetId: string,
+  provenance: BuildOutputProvenance | undefined,
+  artifacts: readonly OutputManifestArtifact[],
+): OutputManifestTarget {
+  return Object.freeze({
+    targetId,
+    status: "published",
+    ...(provenance === undefined
+      ? {}
+      : {
+          plugins: Object.freeze([...provenance.plugins].sort((left, right) => left.name.localeCompare(right.name))),
+          sourceDeclarationFingerprint: provenance.sourceDeclarationFingerprint,
+          sourcePackageGraphFingerprint: provenance.sourcePackageGraphFingerprint,
+        }),
+    artifacts: Object.freeze([...artifacts].sort((left, right) => left.path < right.path ? -1 : left.path > right.path ? 1 : 0)),
+  });
+}
+
+export function createOutputManifestArtifact(
+  relativePath: string,
+  artifact: { readonly kind: TargetArtifact["kind"] | "unknown"; readonly language?: unknown },
+  content: string | Uint8Array,
+): OutputManifestArtifact {
+  return Object.freeze({
+    path: relativePath.split(sep).join("/"),
+    kind: artifact.kind,
+    ...(artifact.kind === "source" && typeof artifact.language === "string" ? { language: artifact.language } : {}),
+    sha256: createHash("sha256").update(content).digest("hex"),
+  });
+}
+
+export function formatOutputManifest(targets: readonly OutputManifestTarget[]): string {
+  const manifest: OutputManifest = {
+    schemaVersion: outputManifestSchemaVersion,
+    tool: "tsonic",
+    complete: targets.every((target) => target.status === "published"),
+    targets,
+  };
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+export async function readPublishedOutputManifest(outputRoot: string): Promise<OutputManifest | undefined> {
+  try {
+    return readOutputManifest(JSON.parse(await readFile(resolve(outputRoot, outputManifestFileName), "utf8")) as unknown);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function verifyBuildOutput(outputRoot: string): Promise<OutputVerificationResult> {
+  const manifestPath = resolve(outputRoot, outputManifestFileName);
+  let manifest: OutputManifest;
+  try {
+    manifest = readOutputManifest(JSON.parse(await readFile(manifestPath, "utf8")) as unknown);
+  } catch (error) {
+    return {
+      diagnostics: [outputDiagnostic(
+        "TSONIC_OUTPUT_MANIFEST",
+        `Output manifest '${manifestPath}' could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      )],
+    };
+  }
+  const diagnostics: TargetDiagnostic[] = [];
+  const expected = new Map<string, OutputManifestArtifact>();
+  for (const target of manifest.targets) {
+    for (const artifact of target.artifacts) {
+      expected.set(`${target.targetId}/${artifact.path}`, artifact);
+    }
+  }
+  const published = new Set((await listOutputFiles(outputRoot)).keys());
+  for (const [path, artifact] of expected) {
+    if (!published.has(path)) {
+      diagnostics.push(outputDiagnostic("TSONIC_OUTPUT_MISMATCH", `Published file '${path}' is missing.`));
+      continue;
+    }
+    const sha256 = createHash("sha256").update(await readFile(resolve(outputRoot, path))).digest("hex");
+    if (sha256 !== artifact.sha256) {
+      diagnostics.push(outputDiagnostic(
+        "TSONIC_OUTPUT_MISMATCH",
+        `Published file '${path}' has sha256 ${sha256}, but the manifest records ${artifact.sha256}.`,
+      ));
+    }
+  }
+  for (const path of [...published].sort()) {
+    if (!expected.has(path)) {
+      diagnostics.push(outputDiagnostic("TSONIC_OUTPUT_MISMATCH", `Published file '${path}' is not listed in the manifest.`));
+    }
+  }
+  return { manifest, diagnostics };
+}
+
+function readOutputManifest(value: unknown): OutputManifest {
+  if (!isRecord(value) || value.schemaVersion !== outputManifestSchemaVersion || value.tool !== "tsonic") {
+    throw new Error(`Expected a tsonic output manifest with schemaVersion ${outputManifestSchemaVersion}.`);
+  }
+  if (!Array.isArray(value.targets)) {
+    throw new Error("Output manifest targets must be an array.");
+  }
+  const targets = value.targets.map((target: unknown, index): OutputManifestTarget => {
+    if (!isRecord(target) || typeof target.targetId !== "string" || !Array.isArray(target.artifacts)) {
+      throw new Error(`Output manifest target ${index} must declare targetId and artifacts.`);
+    }
+    const plugins = Array.isArray(target.plugins)
+      ? target.plugins.filter((plugin): plugin is BuildOutputPluginVersion =>
+          isRecord(plugin) && typeof plugin.name === "string" && typeof plugin.version === "string")
+      : undefined;
+    return {
+      targetId: target.targetId,
+      status: target.status === "retained" ? "retained" : "published",
+      ...(plugins === undefined ? {} : { plugins }),
+      ...(typeof target.sourceDeclarationFingerprint === "string"
+        ? { sourceDeclarationFingerprint: target.sourceDeclarationFingerprint }
+        : {}),
+      ...(typeof target.sourcePackageGraphFingerprint === "string"
+        ? { sourcePackageGraphFingerprint: target.sourcePackageGraphFingerprint }
+        : {}),
+      artifacts: target.artifacts.map((artifact: unknown): OutputManifestArtifact => {
+        if (
+          !isRecord(artifact) ||
+          typeof artifact.path !== "string" ||
+          typeof artifact.kind !== "string" ||
+          typeof artifact.sha256 !== "string"
+        ) {
+          throw new Error(`Output manifest target '${String(target.targetId)}' has an artifact without path, kind and sha256.`);
+        }
+        return {
+          path: artifact.path,
+          kind: artifact.kind,
+          ...(typeof artifact.language === "string" ? { language: artifact.language } : {}),
+          sha256: artifact.sha256,
+        };
+      }),
+    };
+  });
+  return {
+    schemaVersion: outputManifestSchemaVersion,
+    tool: "tsonic",
+    complete: targets.every((target) => target.status === "published"),
+    targets,
+  };
+}
+
+export async function listOutputFiles(outputRoot: string): Promise<ReadonlyMap<string, string>> {
+  return new Map((await listFiles(outputRoot))
+    .map((file): [string, string] => [relative(outputRoot, file).split(sep).join("/"), file])
+    .filter(([path]) => path !== outputManifestFileName));
+}
+
+async function listFiles(directory: string): Promise<readonly string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const fullPath = resolve(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath));
+    } else {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function outputDiagnostic(code: string, message: string): TargetDiagnostic {
+  return Object.freeze({ code, category: "error", source: "tsonic-cli", message });
+}
+
+function isRecord(value: unknown): value is Readonly<Record<string, unknown>> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
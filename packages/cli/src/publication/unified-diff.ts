@@ -0,0 +1,156 @@
+interface DiffOperation {
+  readonly kind: "equal" | "delete" | "insert";
+  readonly line: string;
+}
+
+const contextLines = 3;
+const maximumEditDistance = 2000;
+
+export function formatUnifiedDiff(
+  path: string,
+  previous: Uint8Array | undefined,
+  next: Uint8Array | undefined,
+): string {
+  const previousName = previous === undefined ? "/dev/null" : `a/${path}`;
+  const nextName = next === undefined ? "/dev/null" : `b/${path}`;
+  if (isBinary(previous) || isBinary(next)) {
+    return `Binary files ${previousName} and ${nextName} differ\n`;
+  }
+  const operations = diffLines(splitLines(previous), splitLines(next));
+  return [
+    `--- ${previousName}\n`,
+    `+++ ${nextName}\n`,
+    ...formatHunks(operations),
+  ].join("");
+}
+
+function splitLines(content: Uint8Array | undefined): readonly string[] {
+  if (content === undefined) {
+    return [];
+  }
+  return Buffer.from(content).toString("utf8").match(/[^\n]*\n|[^\n]+$/gu) ?? [];
+}
+
+function isBinary(content: Uint8Array | undefined): boolean {
+  return content?.includes(0) === true;
+}
+
+function diffLines(previous: readonly string[], next: readonly string[]): readonly DiffOperation[] {
+  const max = previous.length + next.length;
+  const offset = max + 1;
+  const frontier = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  for (let distance = 0; distance <= Math.min(max, maximumEditDistance); distance += 1) {
+    trace.push(frontier.slice(offset - distance + 1, offset + distance));
+    const reached = (diagonal: number): number => frontier[offset + diagonal] ?? 0;
+    for (let diagonal = -distance; diagonal <= distance; diagonal += 2) {
+      let x = followsInsertion(reached, diagonal, distance)
+        ? reached(diagonal + 1)
+        : reached(diagonal - 1) + 1;
+      let y = x - diagonal;
+      while (x < previous.length && y < next.length && previous[x] === next[y]) {
+        x += 1;
+        y += 1;
+      }
+      frontier[offset + diagonal] = x;
+      if (x >= previous.length && y >= next.length) {
+        return backtrack(trace, previous, next);
+      }
+    }
+  }
+  return [
+    ...previous.map((line): DiffOperation => ({ kind: "delete", line })),
+    ...next.map((line): DiffOperation => ({ kind: "insert", line })),
+  ];
+}
+
+function backtrack(
+  trace: readonly Int32Array[],
+  previous: readonly string[],
+  next: readonly string[],
+): readonly DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  let x = previous.length;
+  let y = next.length;
+  for (let distance = trace.length - 1; distance >= 0; distance -= 1) {
+    const snapshot = trace[distance] ?? new Int32Array(0);
+    const reached = (diagonal: number): number => snapshot[diagonal + distance - 1] ?? 0;
+    const diagonal = x - y;
+    const previousDiagonal = followsInsertion(reached, diagonal, distance) ? diagonal + 1 : diagonal - 1;
+    const previousX = reached(previousDiagonal);
+    const previousY = previousX - previousDiagonal;
+    while (x > previousX && y > previousY) {
+      operations.push({ kind: "equal", line: previous[x - 1] ?? "" });
+      x -= 1;
+      y -= 1;
+    }
+    if (distance > 0) {
+      operations.push(x === previousX
+        ? { kind: "insert", line: next[y - 1] ?? "" }
+        : { kind: "delete", line: previous[x - 1] ?? "" });
+    }
+    x = previousX;
+    y = previousY;
+  }
+  return operations.reverse();
+}
+
+function followsInsertion(reached: (diagonal: number) => number, diagonal: number, distance: number): boolean {
+  return diagonal === -distance ||
+    (diagonal !== distance && reached(diagonal - 1) < reached(diagonal + 1));
+}
+
+function formatHunks(operations: readonly DiffOperation[]): readonly string[] {
+  const previousLines: number[] = [];
+  const nextLines: number[] = [];
+  let previousLine = 0;
+  let nextLine = 0;
+  for (const operation of operations) {
+    previousLines.push(previousLine);
+    nextLines.push(nextLine);
+    previousLine += operation.kind === "insert" ? 0 : 1;
+    nextLine += operation.kind === "delete" ? 0 : 1;
+  }
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < operations.length) {
+    if (operations[index]?.kind === "equal") {
+      index += 1;
+      continue;
+    }
+    const start = Math.max(0, index - contextLines);
+    let end = index;
+    let cursor = index;
+    while (cursor < operations.length) {
+      if (operations[cursor]?.kind !== "equal") {
+        cursor += 1;
+        end = cursor;
+        continue;
+      }
+      let equalRun = cursor;
+      while (equalRun < operations.length && operations[equalRun]?.kind === "equal") {
+        equalRun += 1;
+      }
+      if (equalRun < operations.length && equalRun - cursor <= 2 * contextLines) {
+        cursor = equalRun;
+        continue;
+      }
+      break;
+    }
+    const stop = Math.min(operations.length, end + contextLines);
+    const hunk = operations.slice(start, stop);
+    const previousCount = hunk.filter((operation) => operation.kind !== "insert").length;
+    const nextCount = hunk.filter((operation) => operation.kind !== "delete").length;
+    const previousStart = (previousLines[start] ?? 0) + (previousCount === 0 ? 0 : 1);
+    const nextStart = (nextLines[start] ?? 0) + (nextCount === 0 ? 0 : 1);
+    hunks.push(`@@ -${previousStart},${previousCount} +${nextStart},${nextCount} @@\n`);
+    for (const operation of hunk) {
+      const marker = operation.kind === "equal" ? " " : operation.kind === "delete" ? "-" : "+";
+      hunks.push(operation.line.endsWith("\n")
+        ? `${marker}${operation.line}`
+        : `${marker}${operation.line}\n\\ No newline at end of file\n`);
+    }
+    index = stop;
+  }
+  return hunks;
+}
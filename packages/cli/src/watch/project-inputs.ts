@@ -0,0 +1,133 @@
+import { watch } from "node:fs";
+import type { FSWatcher } from "node:fs";
+import { basename, dirname, isAbsolute, relative, resolve, sep } from "node:path";
+import type { InstalledDependencyRoot } from "@tsonic/host";
+
+export interface WatchedProjectInputs {
+  readonly projectFilePath: string;
+  readonly projectRoot: string;
+  readonly outputRoot: string;
+  readonly dependencies: readonly InstalledDependencyRoot[];
+}
+
+export type ProjectInputChange =
+  | { readonly kind: "project-config"; readonly path: string }
+  | { readonly kind: "project-package"; readonly path: string }
+  | { readonly kind: "source"; readonly path: string }
+  | { readonly kind: "dependency"; readonly packageName: string; readonly path: string };
+
+export interface ProjectInputWatcher {
+  close(): void;
+}
+
+const changeSettleMilliseconds = 100;
+const skippedSourceDirectoryNames = new Set([".git", ".temp", "bin", "dist", "node_modules", "obj"]);
+
+export function watchProjectInputs(
+  inputs: WatchedProjectInputs,
+  onChanges: (changes: readonly ProjectInputChange[]) => void,
+  onError: (error: Error) => void,
+): ProjectInputWatcher {
+  const watchers: FSWatcher[] = [];
+  const pending = new Map<string, ProjectInputChange>();
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+  const record = (change: ProjectInputChange | undefined): void => {
+    if (change === undefined || closed) {
+      return;
+    }
+    pending.set(change.path, change);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      const changes = [...pending.values()].sort((left, right) => left.path.localeCompare(right.path));
+      pending.clear();
+      onChanges(changes);
+    }, changeSettleMilliseconds);
+  };
+  const close = (): void => {
+    closed = true;
+    if (timer !== undefined) {
+      clearTimeout(timer);
+    }
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  };
+  const fail = (error: Error): void => {
+    if (closed) {
+      return;
+    }
+    close();
+    onError(error);
+  };
+  const projectDirectory = dirname(inputs.projectFilePath);
+  const packageJsonPath = resolve(projectDirectory, "package.json");
+  addWatcher(watchers, projectDirectory, false, (path) =>
+    path === inputs.projectFilePath
+      ? { kind: "project-config", path }
+      : path === packageJsonPath
+        ? { kind: "project-package", path }
+        : undefined, record, fail);
+  addWatcher(watchers, inputs.projectRoot, true, (path) =>
+    path === inputs.projectFilePath || path === packageJsonPath
+      ? undefined
+      : classifySourceChange(inputs, path), record, fail);
+  for (const dependency of inputs.dependencies) {
+    addWatcher(watchers, dependency.root, true, (path) => classifyDependencyChange(dependency, path), record, fail);
+  }
+  return { close };
+}
+
+function addWatcher(
+  watchers: FSWatcher[],
+  directory: string,
+  recursive: boolean,
+  classify: (path: string) => ProjectInputChange | undefined,
+  record: (change: ProjectInputChange | undefined) => void,
+  fail: (error: Error) => void,
+): void {
+  const watcher = watch(directory, { recursive, persistent: true }, (_event, fileName) => {
+    if (fileName === null) {
+      return;
+    }
+    record(classify(resolve(directory, fileName.toString())));
+  });
+  watcher.on("error", (error: Error) => {
+    fail(new Error(`Watching '${directory}' failed: ${error.message}`));
+  });
+  watchers.push(watcher);
+}
+
+function classifySourceChange(inputs: WatchedProjectInputs, path: string): ProjectInputChange | undefined {
+  if (isWithin(inputs.outputRoot, path)) {
+    return undefined;
+  }
+  const segments = relative(inputs.projectRoot, path).split(sep);
+  if (
+    segments.some((segment) => segment.startsWith(".tsonic-output-")) ||
+    segments.slice(0, -1).some((segment) => skippedSourceDirectoryNames.has(segment))
+  ) {
+    return undefined;
+  }
+  return basename(path) === "package.json" || /\.(?:[cm]?ts)$/u.test(path)
+    ? { kind: "source", path }
+    : undefined;
+}
+
+function classifyDependencyChange(dependency: InstalledDependencyRoot, path: string): ProjectInputChange | undefined {
+  if (isWithin(resolve(dependency.root, "node_modules"), path)) {
+    return undefined;
+  }
+  const read = dependency.inputs === "package" ||
+    basename(path) === "package.json" ||
+    (dependency.inputs === "sources" ? /\.(?:[cm]?ts)$/u : /\.d\.(?:[cm]?ts)$/u).test(path);
+  return read ? { kind: "dependency", packageName: dependency.name, path } : undefined;
+}
+
+function isWithin(root: string, candidate: string): boolean {
+  const relation = relative(root, candidate);
+  return relation === "" || (!relation.startsWith("..") && !isAbsolute(relation));
+}
@@ -1,9 +1,8 @@
 import type {
   TargetCompilationSession,
-  TargetPack,
+  TargetDiagnosticCodeRegistry,
   TargetRegistry,
   TargetSelection,
-  TargetSurfaceImplementation,
   TsonicProjectConfig,
 } from "@tsonic/target-api";
 import type {
@@ -12,146 +11,117 @@ import type {
 import {
   rejectedTargetStage,
   resolvedTargetStage,
+  validateTargetCompilationBudget,
 } from "@tsonic/target-api/artifacts";
 import type {
+  TargetCompilationBudget,
   TargetCompileResult,
   TargetCompileOutput,
   TargetDiagnostic,
 } from "@tsonic/target-api/artifacts";
 import { sourceProjectFiles } from "@tsonic/target-api/source";
 import { createTargetSourceProgram } from "@tsonic/target-api/source";
-import { createCompilerSession } from "@tsonic/tsts";
-import type { CheckedSourceProgram } from "@tsonic/tsts";
 import { checkTargetSource } from "./compiler-session.js";
+import { createProjectDiagnosticCodeRegistry } from "./diagnostic-codes/registry.js";
 import { collectTstsDiagnostics } from "./diagnostics.js";
 import { finalizeTargetDiagnostics } from "./diagnostics.js";
 import { createProgramOptionsForProject } from "./program-options.js";
-import { getTargetCompilationPaths, resolveProjectPaths } from "./project-paths.js";
-import {
-  collectImportActivatedTargetCapabilities,
-  collectRuntimeActivatedTargetCapabilities,
-} from "./target/capability-activation.js";
+import type { BuildProfiler, BuildProfileSpanOptions } from "./profile/build-profiler.js";
+import { createProjectDiagnosticsFilter } from "./project-diagnostics/severity.js";
+import type { ProjectDiagnosticsFilter } from "./project-diagnostics/severity.js";
 import {
-  captureTargetCapabilityContributions,
-  selectInstalledTargetCapabilities,
-  selectTargetSurfaceImplementations,
-  validateTargetModuleOwnership,
-} from "./target/extensions.js";
+  collectDiagnosticSuppressions,
+  commonUnusedSuppressionDiagnostics,
+} from "./project-diagnostics/suppressions.js";
+import { getTargetCompilationPaths, resolveProjectPaths } from "./project-paths.js";
+import type { TargetCompilerSessions } from "./session/target-compiler-sessions.js";
+import { createTargetBuildPlans } from "./target/build-plan.js";
+import type { TargetBuildPlan } from "./target/build-plan.js";
+import { collectRuntimeActivatedTargetCapabilities } from "./target/capability-activation.js";
+import { createTargetCancellationToken, targetInterruptionDiagnostic } from "./target/compilation-cancellation.js";
+import { captureTargetCapabilityContributions } from "./target/extensions.js";
 import { collectTargetRuntimeContributions } from "./target/runtime-contributions.js";
 import { collectTargetSourceProfileContributions } from "./target/source-profile.js";
+import { runTargetToolchainStep } from "./target/toolchain-invocation.js";
 
 export interface CompileProjectInput {
   readonly project: TsonicProjectConfig;
   readonly projectFilePath: string;
   readonly registry: TargetRegistry;
   readonly installedCapabilities?: readonly TargetCapabilityImplementation[];
+  readonly targetIds?: readonly string[];
+  readonly prepareToolchain?: boolean;
+  readonly sourceOverlays?: ReadonlyMap<string, string>;
+  readonly ignoreDiagnosticsBaseline?: boolean;
+  readonly profiler?: BuildProfiler;
+  readonly signal?: AbortSignal;
+  readonly budget?: TargetCompilationBudget;
+  readonly compilerSessions?: TargetCompilerSessions;
 }
 
 export interface TargetBuildResult {
   readonly target: TargetSelection;
   readonly compileResult: TargetCompileResult;
   readonly diagnostics: readonly TargetDiagnostic[];
+  readonly provenance?: TargetBuildProvenance;
+  readonly unusedSuppressions?: readonly TargetDiagnostic[];
 }
 
-export interface ProjectBuildResult {
-  readonly targets: readonly TargetBuildResult[];
-  readonly diagnostics: readonly TargetDiagnostic[];
+export interface TargetBuildProvenance {
+  readonly capabilityIds: readonly string[];
+  readonly sourceDeclarationFingerprint: string;
+  readonly sourcePackageGraphFingerprint: string;
 }
 
-interface TargetBuildPlan {
-  readonly target: TargetSelection;
-  readonly targetPack?: TargetPack;
-  readonly selectedCapabilities?: readonly TargetCapabilityImplementation[];
-  readonly selectedSurfaces?: readonly TargetSurfaceImplementation[];
+export interface ProjectBuildResult {
+  readonly targets: readonly TargetBuildResult[];
   readonly diagnostics: readonly TargetDiagnostic[];
 }
 
 export function compileProject(input: CompileProjectInput): ProjectBuildResult {
+  if (input.budget !== undefined) {
+    validateTargetCompilationBudget(input.budget);
+  }
   const paths = resolveProjectPaths(input);
   const targets: TargetBuildResult[] = [];
   const diagnostics: TargetDiagnostic[] = [];
-  const buildPlans = createTargetBuildPlans(input);
-  for (const plan of buildPlans) {
+  const diagnosticCodes = createProjectDiagnosticCodeRegistry(input.registry, input.installedCapabilities);
+  const filterDiagnostics = createProjectDiagnosticsFilter({
+    project: input.project,
+    projectFilePath: input.projectFilePath,
+    diagnosticCodes,
+    ...(input.ignoreDiagnosticsBaseline === undefined ? {} : { ignoreBaseline: input.ignoreDiagnosticsBaseline }),
+  });
+  const buildPlans = profileSpan(input.profiler, "plan", () => createTargetBuildPlans(input), {
+    counts: (plans) => ({ targets: plans.length }),
+  });
+  for (const plannedTarget of buildPlans) {
+    const plan = { ...plannedTarget, diagnostics: filterDiagnostics(plannedTarget.diagnostics) };
     const result = plan.diagnostics.some(isErrorDiagnostic)
       ? diagnosticTargetBuild(plan.target, plan.diagnostics)
-      : compileTargetBuild(input, paths, plan);
+      : profileSpan(input.profiler, "target", () => compileTargetBuild(input, paths, plan, filterDiagnostics, diagnosticCodes), {
+          targetId: plan.target.id,
+          counts: (build) => ({
+            diagnostics: build.diagnostics.length,
+            artifacts: build.compileResult.kind === "resolved" ? build.compileResult.value.artifacts.length : 0,
+          }),
+        });
     targets.push(result);
     diagnostics.push(...result.diagnostics);
   }
+  diagnostics.push(...projectUnusedSuppressionDiagnostics(targets));
   return Object.freeze({
     targets: Object.freeze(targets),
     diagnostics: Object.freeze(diagnostics),
   });
 }
 
-function createTargetBuildPlans(
-  input: CompileProjectInput,
-): readonly TargetBuildPlan[] {
-  const plans: TargetBuildPlan[] = [];
-  let activationContext: CapabilityActivationContext | undefined;
-  for (const target of input.project.targets) {
-    const targetPack = getRequiredTargetPack(input.registry, target);
-    if (isTargetDiagnostic(targetPack)) {
-      plans.push({ target, diagnostics: [targetPack] });
-      continue;
-    }
-    const surfaces = selectTargetSurfaceImplementations(targetPack, target);
-    if ("error" in surfaces) {
-      plans.push({
-        target,
-        targetPack,
-        diagnostics: [targetDiagnostic(targetPack.id, "TARGET_SURFACE_SELECTION", surfaces.error)],
-      });
-      continue;
-    }
-    activationContext ??= createCapabilityActivationContext(input);
-    const importActivatedCapabilities = collectImportActivatedTargetCapabilities(
-      activationContext.ast,
-      activationContext.sourceFiles,
-      input.installedCapabilities ?? [],
-      target,
-    );
-    const capabilities = selectInstalledTargetCapabilities(
-      target,
-      importActivatedCapabilities,
-      surfaces.selectedSurfaces,
-    );
-    if ("error" in capabilities) {
-      plans.push({
-        target,
-        targetPack,
-        selectedSurfaces: surfaces.selectedSurfaces,
-        diagnostics: [targetDiagnostic(targetPack.id, "TARGET_CAPABILITY_SELECTION", capabilities.error)],
-      });
-      continue;
-    }
-    try {
-      validateTargetModuleOwnership(target, targetPack.provider, capabilities.selectedCapabilities);
-    } catch (error) {
-      plans.push({
-        target,
-        targetPack,
-        selectedCapabilities: capabilities.selectedCapabilities,
-        selectedSurfaces: surfaces.selectedSurfaces,
-        diagnostics: [targetDiagnostic(targetPack.id, "TARGET_MODULE_OWNERSHIP", errorMessage(error))],
-      });
-      continue;
-    }
-    plans.push(Object.freeze({
-      target,
-      targetPack,
-      selectedCapabilities: capabilities.selectedCapabilities,
-      selectedSurfaces: surfaces.selectedSurfaces,
-      diagnostics: Object.freeze([]),
-    }));
-  }
-  return Object.freeze(plans);
-}
-
 function compileTargetBuild(
   input: CompileProjectInput,
   paths: ReturnType<typeof resolveProjectPaths>,
   plan: TargetBuildPlan,
+  filterDiagnostics: ProjectDiagnosticsFilter,
+  diagnosticCodes: TargetDiagnosticCodeRegistry,
 ): TargetBuildResult {
   if (
     plan.targetPack === undefined ||
@@ -161,57 +131,90 @@ function compileTargetBuild(
     throw new Error(`Target '${plan.target.id}' build plan is incomplete without a diagnostic.`);
   }
   const targetPack = plan.targetPack;
-  const targetPaths = getTargetCompilationPaths(paths, plan.target);
+  const selectedCapabilities = plan.selectedCapabilities;
+  const selectedSurfaces = plan.selectedSurfaces;
+  const target = plan.resolvedTarget ?? plan.target;
+  const targetPaths = getTargetCompilationPaths(paths, target);
   let session: TargetCompilationSession | undefined;
   let compileResult: TargetCompileResult | undefined;
-  let diagnostics: readonly TargetDiagnostic[] = [];
+  let diagnostics: readonly TargetDiagnostic[] = plan.diagnostics;
+  let provenance: TargetBuildProvenance | undefined;
+  let unusedSuppressions: readonly TargetDiagnostic[] | undefined;
+  const cancellation = createTargetCancellationToken(input);
+  const checkpoint = (): void => {
+    if (cancellation.reason() !== undefined) {
+      throw new Error(`Target '${target.id}' compilation was interrupted.`);
+    }
+  };
   try {
+    checkpoint();
     const capturedCapabilities = captureTargetCapabilityContributions({
       project: input.project,
       projectDirectory: paths.projectDirectory,
-      target: plan.target,
-      selectedCapabilities: plan.selectedCapabilities,
-      selectedSurfaces: plan.selectedSurfaces,
+      target,
+      selectedCapabilities,
+      selectedSurfaces,
     });
-    session = targetPack.createCompilationSession(Object.freeze({
+    const activeSession = targetPack.createCompilationSession(Object.freeze({
       project: input.project,
       projectDirectory: paths.projectDirectory,
-      target: plan.target,
+      target,
       paths: targetPaths,
-      selectedSurfaceIds: Object.freeze(plan.selectedSurfaces.map((surface) => surface.id)),
+      selectedSurfaceIds: Object.freeze(selectedSurfaces.map((surface) => surface.id)),
       capabilities: capturedCapabilities,
     }));
-    const sourceProfile = collectTargetSourceProfileContributions({
+    session = activeSession;
+    const sourceProfile = profileSpan(input.profiler, "source-profile", () => collectTargetSourceProfileContributions({
       project: input.project,
       projectDirectory: paths.projectDirectory,
       projectRoot: paths.projectRoot,
-      target: plan.target,
+      target,
       targetPackId: targetPack.id,
-      selectedCapabilities: plan.selectedCapabilities,
-      selectedSurfaces: plan.selectedSurfaces,
-      targetContributions: session.sourceProfileContributions(),
-    });
-    diagnostics = Object.freeze([...diagnostics, ...sourceProfile.diagnostics]);
-    if (sourceProfile.diagnostics.some(isErrorDiagnostic)) {
+      selectedCapabilities,
+      selectedSurfaces,
+      targetContributions: activeSession.sourceProfileContributions(),
+    }), { counts: (profile) => ({ files: profile.files.length }) });
+    checkpoint();
+    const sourceProfileDiagnostics = filterDiagnostics(sourceProfile.diagnostics);
+    diagnostics = Object.freeze([...diagnostics, ...sourceProfileDiagnostics]);
+    if (sourceProfileDiagnostics.some(isErrorDiagnostic)) {
       compileResult = rejectedTargetStage(diagnostics);
     } else {
-      const created = createProgramOptionsForProject({
+      const created = profileSpan(input.profiler, "program-options", () => createProgramOptionsForProject({
         ...input,
         sourceProfileFiles: sourceProfile.files,
         sourceDeclarationPolicy: sourceProfile.declarationPolicy,
+      }), {
+        counts: ({ sourceDeclarationSnapshot: snapshot }) => ({
+          declarationFiles: snapshot.installedDeclarationFileCount + snapshot.bundledLibraryClosure.length,
+          declarationBytes: snapshot.installedDeclarationByteCount + snapshot.bundledLibraryByteCount,
+        }),
+      });
+      provenance = Object.freeze({
+        capabilityIds: Object.freeze(selectedCapabilities.map((capability) => capability.id)),
+        sourceDeclarationFingerprint: created.sourceDeclarationSnapshot.fingerprint,
+        sourcePackageGraphFingerprint: created.sourcePackages.fingerprint,
       });
-      const checked = checkTargetSource({
+      const checkOptions = {
         programOptions: created.programOptions,
         sourcePackages: created.sourcePackages,
         project: input.project,
         projectDirectory: paths.projectDirectory,
-        target: plan.target,
+        target,
         targetPack,
-        selectedCapabilities: plan.selectedCapabilities,
-        selectedSurfaces: plan.selectedSurfaces,
-        targetContributions: session.sourceCompilerContributions(),
-      });
-      const sourceDiagnostics = collectTstsDiagnostics(checked.source, paths.projectRoot);
+        selectedCapabilities,
+        selectedSurfaces,
+        targetContributions: activeSession.sourceCompilerContributions(),
+      };
+      const checked = profileSpan(input.profiler, "check", () => input.compilerSessions === undefined
+        ? checkTargetSource(checkOptions)
+        : input.compilerSessions.check(checkOptions), { counts: ({ source }) => ({ sourceFiles: sourceProjectFiles(source).length }) });
+      checkpoint();
+      const suppressions = collectDiagnosticSuppressions(checked.source, paths.projectRoot, diagnosticCodes);
+      const sourceDiagnostics = filterDiagnostics([
+        ...suppressions.apply(collectTstsDiagnostics(checked.source, paths.projectRoot)),
+        ...suppressions.diagnostics,
+      ]);
       diagnostics = Object.freeze([...diagnostics, ...sourceDiagnostics]);
       if (sourceDiagnostics.some(isErrorDiagnostic)) {
         compileResult = rejectedTargetStage(diagnostics);
@@ -219,36 +222,48 @@ function compileTargetBuild(
         const runtimeActivatedCapabilities = collectRuntimeActivatedTargetCapabilities(
           checked.source.ast,
           sourceProjectFiles(checked.source),
-          plan.selectedCapabilities,
+          selectedCapabilities,
         );
-        const runtime = collectTargetRuntimeContributions({
+        const runtime = profileSpan(input.profiler, "runtime", () => collectTargetRuntimeContributions({
           project: input.project,
           projectDirectory: paths.projectDirectory,
-          target: plan.target,
+          target,
           targetPackId: targetPack.id,
-          selectedCapabilities: plan.selectedCapabilities,
+          selectedCapabilities,
           runtimeActivatedCapabilities,
-          selectedSurfaces: plan.selectedSurfaces,
+          selectedSurfaces,
           paths: targetPaths,
-          targetContributions: session.runtimeContributions(),
-        });
-        diagnostics = Object.freeze([...diagnostics, ...runtime.diagnostics]);
-        if (runtime.diagnostics.some(isErrorDiagnostic)) {
+          targetContributions: activeSession.runtimeContributions(),
+        }), { counts: (contributions) => ({ artifacts: contributions.artifacts.length }) });
+        checkpoint();
+        const runtimeDiagnostics = filterDiagnostics(runtime.diagnostics);
+        diagnostics = Object.freeze([...diagnostics, ...runtimeDiagnostics]);
+        if (runtimeDiagnostics.some(isErrorDiagnostic)) {
           compileResult = rejectedTargetStage(diagnostics);
         } else {
-          const targetResult = session.compile({
+          const targetResult = profileSpan(input.profiler, "compile", () => activeSession.compile({
             source: createTargetSourceProgram(checked.source),
             sourcePackages: checked.sourcePackages,
             project: input.project,
-            target: plan.target,
+            target,
             runtimeReferences: runtime.references,
             paths: targetPaths,
+            ...(input.profiler === undefined ? {} : { profiler: input.profiler }),
+            cancellation,
+            ...(input.budget === undefined ? {} : { budget: input.budget }),
+          }), {
+            counts: (result) => ({
+              diagnostics: result.diagnostics.length,
+              artifacts: result.kind === "resolved" ? result.value.artifacts.length : 0,
+            }),
           });
-          const targetDiagnostics = finalizeTargetDiagnostics(
+          checkpoint();
+          const targetDiagnostics = filterDiagnostics(suppressions.apply(finalizeTargetDiagnostics(
             checked.source,
             targetResult.diagnostics,
             paths.projectRoot,
-          );
+          )));
+          unusedSuppressions = filterDiagnostics(suppressions.unusedDiagnostics());
           diagnostics = Object.freeze([...diagnostics, ...targetDiagnostics]);
           compileResult = targetResult.kind === "rejected" ||
               targetDiagnostics.some(isErrorDiagnostic)
@@ -263,7 +278,10 @@ function compileTargetBuild(
       }
     }
   } catch (error) {
-    const diagnostic = targetDiagnostic(targetPack.id, "TARGET_COMPILATION", errorMessage(error));
+    const reason = cancellation.reason();
+    const diagnostic = reason === undefined
+      ? targetDiagnostic(targetPack.id, "TARGET_COMPILATION", errorMessage(error))
+      : targetInterruptionDiagnostic(target.id, reason, input.budget);
     diagnostics = Object.freeze([...diagnostics, diagnostic]);
     compileResult = rejectedTargetStage(diagnostics);
   } finally {
@@ -280,60 +298,40 @@ function compileTargetBuild(
   if (compileResult === undefined) {
     throw new Error(`Target '${plan.target.id}' completed without a stage result.`);
   }
-  if (compileResult.kind === "resolved") {
-    const toolchainResult = targetPack.createToolchain({
-      project: input.project,
-      target: plan.target,
-    }).prepare({
-      artifactsRoot: targetPaths.targetOutputRoot,
-      project: input.project,
-      target: plan.target,
-      compileOutput: compileResult.value,
-    });
-    const toolchainDiagnostics = toolchainResult.diagnostics.map((message): TargetDiagnostic => ({
-      code: "TARGET_TOOLCHAIN",
-      category: "suggestion",
-      message,
-      source: targetPack.id,
-    }));
+  if (compileResult.kind === "resolved" && input.prepareToolchain !== false) {
+    const output = compileResult.value;
+    const toolchainDiagnostics = filterDiagnostics(profileSpan(
+      input.profiler,
+      "toolchain-prepare",
+      () => runTargetToolchainStep(targetPack, () => targetPack.createToolchain({
+        project: input.project,
+        target,
+      }).prepare({
+        artifactsRoot: targetPaths.targetOutputRoot,
+        project: input.project,
+        target,
+        compileOutput: output,
+      }).diagnostics),
+    ));
     diagnostics = Object.freeze([...diagnostics, ...toolchainDiagnostics]);
-    compileResult = resolvedTargetStage(compileResult.value, diagnostics);
+    compileResult = toolchainDiagnostics.some(isErrorDiagnostic)
+      ? rejectedTargetStage(diagnostics)
+      : resolvedTargetStage(output, diagnostics);
   }
   return Object.freeze({
     target: plan.target,
     compileResult,
     diagnostics,
+    ...(provenance === undefined ? {} : { provenance }),
+    ...(unusedSuppressions === undefined ? {} : { unusedSuppressions }),
   });
 }
 
-interface CapabilityActivationContext {
-  readonly ast: CheckedSourceProgram["ast"];
-  readonly sourceFiles: ReturnType<typeof sourceProjectFiles>;
-}
-
-function createCapabilityActivationContext(
-  input: CompileProjectInput,
-): CapabilityActivationContext {
-  const activationSession = createCompilerSession({
-    programOptions: createProgramOptionsForProject(input).programOptions,
-  });
-  const source = activationSession.checkSource();
-  return Object.freeze({
-    ast: source.ast,
-    sourceFiles: sourceProjectFiles(source),
-  });
-}
-
-function getRequiredTargetPack(
-  registry: TargetRegistry,
-  target: TargetSelection,
-): TargetPack | TargetDiagnostic {
-  const targetPack = registry.get(target.id);
-  return targetPack ?? targetDiagnostic(
-    "tsonic-host",
-    "TARGET_SELECTION",
-    `Unknown target '${target.id}'.`,
-  );
+export function projectUnusedSuppressionDiagnostics(
+  targets: readonly TargetBuildResult[],
+): readonly TargetDiagnostic[] {
+  return commonUnusedSuppressionDiagnostics(targets.flatMap((target) =>
+    target.unusedSuppressions === undefined ? [] : [target.unusedSuppressions]));
 }
 
 function diagnosticTargetBuild(
@@ -355,9 +353,13 @@ function targetDiagnostic(
   return Object.freeze({ code, category: "error", message, source });
 }
 
-function isTargetDiagnostic(value: unknown): value is TargetDiagnostic {
-  return typeof value === "object" && value !== null &&
-    typeof (value as Readonly<Record<string, unknown>>).code === "string";
+function profileSpan<T>(
+  profiler: BuildProfiler | undefined,
+  name: string,
+  run: () => T,
+  options?: BuildProfileSpanOptions<T>,
+): T {
+  return profiler === undefined ? run() : profiler.span(name, run, options);
 }
 
 function isErrorDiagnostic(diagnostic: TargetDiagnostic): boolean {
@@ -0,0 +1,72 @@
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import type { TsonicProjectConfig } from "@tsonic/target-api";
+import type { InstalledTsonicPluginPackage } from "../plugins/registry.js";
+import { readDiagnosticBaselineText, resolveDiagnosticBaselinePath } from "../project-diagnostics/baseline.js";
+import { createProgramOptionsForProject, fingerprintProjectSources } from "../program-options.js";
+
+export interface ProjectBuildFingerprintInput {
+  readonly project: TsonicProjectConfig;
+  readonly projectFilePath: string;
+  readonly plugins: readonly InstalledTsonicPluginPackage[];
+}
+
+export interface ProjectBuildFingerprint {
+  readonly fingerprint: string;
+  readonly projectFile: string;
+  readonly diagnosticsBaseline: string;
+  readonly plugins: string;
+  readonly targets: string;
+  readonly sources: string;
+  readonly sourceDeclarations: string;
+  readonly sourcePackageGraph: string;
+}
+
+const buildFingerprintVersion = "tsonic-build-fingerprint-v1";
+
+export function createProjectBuildFingerprint(input: ProjectBuildFingerprintInput): ProjectBuildFingerprint {
+  const created = createProgramOptionsForProject({
+    project: input.project,
+    projectFilePath: input.projectFilePath,
+    sourceDeclarationPolicy: { installedDeclarations: "package-contract" },
+  });
+  const baselinePath = resolveDiagnosticBaselinePath(input.project, input.projectFilePath);
+  const parts = {
+    projectFile: hashText(readFileSync(input.projectFilePath, "utf8")),
+    diagnosticsBaseline: hashText((baselinePath === undefined ? undefined : readDiagnosticBaselineText(baselinePath)) ?? ""),
+    plugins: hashText(JSON.stringify([...input.plugins]
+      .sort((left, right) => left.name.localeCompare(right.name))
+      .map((plugin) => [plugin.name, plugin.version, plugin.manifestFingerprint, fingerprintPluginPackageFiles(plugin.packageRoot)]))),
+    targets: hashText(JSON.stringify(input.project.targets)),
+    sources: fingerprintProjectSources({ project: input.project, projectFilePath: input.projectFilePath }),
+    sourceDeclarations: created.sourceDeclarationSnapshot.fingerprint,
+    sourcePackageGraph: created.sourcePackages.fingerprint,
+  };
+  return Object.freeze({
+    fingerprint: hashText(JSON.stringify([buildFingerprintVersion, parts])),
+    ...parts,
+  });
+}
+
+function fingerprintPluginPackageFiles(packageRoot: string): string {
+  const hash = createHash("sha256");
+  const visit = (directory: string): void => {
+    const entries = readdirSync(directory, { withFileTypes: true })
+      .sort((left, right) => left.name.localeCompare(right.name));
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory() && entry.name !== "node_modules") {
+        visit(path);
+      } else if (entry.isFile()) {
+        hash.update(relative(packageRoot, path)).update("\0").update(readFileSync(path)).update("\0");
+      }
+    }
+  };
+  visit(packageRoot);
+  return hash.digest("hex");
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
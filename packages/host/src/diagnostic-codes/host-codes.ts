@@ -0,0 +1,172 @@
+import type { TargetDiagnosticCodeDescriptor } from "@tsonic/target-api";
+
+export const hostDiagnosticCodes: readonly TargetDiagnosticCodeDescriptor[] = Object.freeze([
+  {
+    code: "TSTS_DIAGNOSTIC",
+    title: "TypeScript diagnostic",
+    explanation:
+      "The TSTS checker reported a syntax or type error in the project sources. The message carries the original TypeScript code, for example TS2322, and its evidence line repeats it as tsts.code.",
+    examples: ["ERROR tsts:TSTS_DIAGNOSTIC src/index.ts:1:14: src/index.ts(1,14): error TS2322: Type 'string' is not assignable to type 'number'."],
+  },
+  {
+    code: "TSONIC_PLUGIN_INVALID",
+    title: "Installed Tsonic plugin is invalid",
+    explanation:
+      "A direct dependency declares a tsonic plugin manifest, but the plugin it exports does not satisfy the target or target-capability plugin contract. The message names the package and the first broken requirement.",
+  },
+  {
+    code: "TSONIC_PLUGIN_DUPLICATE_TARGET",
+    title: "Target provided by several plugins",
+    explanation:
+      "Two installed target plugins declare the same target id. Keep exactly one plugin for each target in the project dependencies.",
+  },
+  {
+    code: "TSONIC_NODE_VERSION",
+    title: "Node.js version is not supported",
+    explanation:
+      "tsonic doctor found a Node.js runtime older than the version Tsonic requires. Upgrade Node.js before building.",
+  },
+  {
+    code: "TSONIC_PROJECT_PACKAGE_JSON",
+    title: "Project package.json is missing or invalid",
+    explanation:
+      "Tsonic discovers plugins from the direct dependencies in the package.json beside tsonic.json. The file is missing, is not valid JSON, or has a dependency field that is not an object.",
+  },
+  {
+    code: "TSONIC_DEPENDENCY_NOT_INSTALLED",
+    title: "Project dependency is not installed",
+    explanation:
+      "A direct dependency in the project package.json has no installed package under node_modules, so its Tsonic manifest cannot be read. Run your package manager's install command.",
+  },
+  {
+    code: "TSONIC_SUPPRESSION_INVALID",
+    title: "Suppression comment is invalid",
+    explanation:
+      "A tsonic-ignore-next-line comment must name one or more diagnostic codes and give a reason after a colon. TypeScript diagnostics (TSTS_DIAGNOSTIC) cannot be suppressed.",
+    examples: ["// tsonic-ignore-next-line SOURCE_CORE_SAFETY_ROOT_TARGET_NOT_PROVEN: target is proven by the generated wrapper"],
+  },
+  {
+    code: "TSONIC_SUPPRESSION_UNUSED",
+    title: "Suppression comment is unused",
+    explanation:
+      "A tsonic-ignore-next-line comment names a code that no diagnostic on the next line reported. Remove the suppression once the underlying diagnostic is fixed.",
+  },
+  {
+    code: "TSONIC_OUTPUT_MANIFEST",
+    title: "Output manifest is missing or invalid",
+    explanation:
+      "tsonic verify-output reads tsonic-manifest.json from outDir. The file is missing, is not valid JSON, or does not follow the manifest schema. Rebuild the project to publish a fresh manifest.",
+  },
+  {
+    code: "TSONIC_OUTPUT_MISMATCH",
+    title: "Published output does not match its manifest",
+    explanation:
+      "A file listed in tsonic-manifest.json is missing or has a different SHA-256, or outDir contains a file the manifest does not list. Published output must not be edited by hand; rebuild the project instead.",
+  },
+  {
+    code: "TSONIC_OUTPUT_STALE",
+    title: "Published output is stale",
+    explanation:
+      "The published targets differ from the targets configured in tsonic.json, or a plugin recorded in tsonic-manifest.json is no longer installed at the same version. Rebuild the project.",
+  },
+  {
+    code: "TSONIC_OUTPUT_NOT_CLEAN",
+    title: "Published output is not up to date",
+    explanation:
+      "tsonic build --dry-run --check-clean compiled the project and found added, removed or changed files compared with the published outDir. Run tsonic build to publish the current output, or add --diff to see the changes.",
+    examples: ["tsonic build --project tsonic.json --dry-run --diff --check-clean"],
+  },
+  {
+    code: "TSONIC_COMMAND_FAILED",
+    title: "Command failed before producing diagnostics",
+    explanation:
+      "The command stopped before it could collect diagnostics, for example because tsonic.json could not be read or parsed. The message describes the failure; fix it and rerun the command.",
+  },
+  {
+    code: "TARGET_SELECTION",
+    title: "Unknown target",
+    explanation:
+      "tsonic.json or --target selects a target id that no installed target plugin provides. Run `tsonic targets` to list the installed targets.",
+    examples: ["Unknown target 'web'."],
+  },
+  {
+    code: "TARGET_SURFACE_SELECTION",
+    title: "Target surface selection is invalid",
+    explanation:
+      "The target's surfaces list names a surface the target pack does not implement, or omits a surface that a selected surface requires.",
+  },
+  {
+    code: "TARGET_CAPABILITY_SELECTION",
+    title: "Target capability selection is invalid",
+    explanation:
+      "The target's capabilities list names a capability no installed plugin provides for this target, or a capability whose required surfaces or capabilities are not selected.",
+  },
+  {
+    code: "TARGET_MODULE_OWNERSHIP",
+    title: "Module ownership conflict",
+    explanation:
+      "Two providers among the target pack, its selected surfaces and capabilities claim overlapping module specifier prefixes. Every module specifier must have exactly one owner.",
+  },
+  {
+    code: "TARGET_OPTIONS_INVALID",
+    title: "Target option is invalid",
+    explanation:
+      "A target option in tsonic.json is unknown to the target pack, its selected surfaces and capabilities, has the wrong type, or a required option is missing.",
+    examples: ["\"targets\": [{ \"id\": \"demo\", \"options\": { \"outputKind\": 3 } }]"],
+  },
+  {
+    code: "TARGET_OPTIONS_DEPRECATED",
+    title: "Target option is deprecated",
+    explanation:
+      "A target option in tsonic.json is still accepted but its descriptor marks it deprecated. The message carries the replacement advice from the target pack.",
+  },
+  {
+    code: "TARGET_SOURCE_PROFILE",
+    title: "Target source profile is invalid",
+    explanation:
+      "A target pack, surface or capability contributed source declarations that cannot be composed: an unsupported declaration policy, a non-canonical bundled lib name, a declaration path instead of a file name, or two owners for the same declaration file.",
+  },
+  {
+    code: "TARGET_RUNTIME",
+    title: "Target runtime contributions conflict",
+    explanation:
+      "Two runtime contributions for one target publish different content at the same artifact path or different runtime references with the same identity.",
+  },
+  {
+    code: "TARGET_COMPILATION",
+    title: "Target compilation failed",
+    explanation:
+      "The target pack threw while compiling the checked source program, or a parallel target worker failed. This is reported instead of the target's own diagnostics.",
+  },
+  {
+    code: "TARGET_COMPILATION_CANCELLED",
+    title: "Target compilation was cancelled",
+    explanation:
+      "The build was cancelled while the target was compiling, for example because a newer watch or editor rebuild superseded it. The target output is rejected and the last published output stays in place.",
+  },
+  {
+    code: "TARGET_BUDGET_EXCEEDED",
+    title: "Target compilation exceeded its budget",
+    explanation:
+      "The target ran longer than its wall-clock budget or grew the heap past its heap budget. Raise the budget with --time-budget or --heap-budget, or find the stage that does not converge with --profile.",
+    examples: ["tsonic build --project tsonic.json --parallel --time-budget 60000"],
+  },
+  {
+    code: "TARGET_SESSION_CLOSE",
+    title: "Target compilation session failed to close",
+    explanation:
+      "The target pack's compilation session threw while closing. The target output is rejected because the session could not release its resources cleanly.",
+  },
+  {
+    code: "TARGET_TOOLCHAIN",
+    title: "Target toolchain failed",
+    explanation:
+      "The target pack's toolchain threw while preparing or invoking its native build. Toolchains should report expected failures as structured diagnostics instead of throwing.",
+  },
+  {
+    code: "TARGET_DIAGNOSTIC_FIX_UNRESOLVED",
+    title: "Target diagnostic fix could not be located",
+    explanation:
+      "A target diagnostic offered a fix with an edit that has neither a source span nor a source node inside the checked program. The fix is dropped instead of applying an edit at an unknown position.",
+  },
+]);
@@ -0,0 +1,37 @@
+import { createTargetDiagnosticCodeRegistry } from "@tsonic/target-api";
+import type {
+  TargetDiagnosticCodeDescriptor,
+  TargetDiagnosticCodeRegistry,
+  TargetRegistry,
+} from "@tsonic/target-api";
+import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
+import { targetArtifactDiagnosticCodes } from "@tsonic/target-api/artifacts";
+import { tsonicCoreDiagnosticCodes } from "@tsonic/source-core";
+import type { InstalledTsonicPluginRegistry } from "../plugins/registry.js";
+import { hostDiagnosticCodes } from "./host-codes.js";
+
+export function createTsonicDiagnosticCodeRegistry(
+  plugins?: InstalledTsonicPluginRegistry,
+): TargetDiagnosticCodeRegistry {
+  return plugins === undefined
+    ? createProjectDiagnosticCodeRegistry()
+    : createProjectDiagnosticCodeRegistry(plugins.createTargetRegistry(), plugins.capabilities);
+}
+
+export function createProjectDiagnosticCodeRegistry(
+  registry?: TargetRegistry,
+  capabilities: readonly TargetCapabilityImplementation[] = [],
+): TargetDiagnosticCodeRegistry {
+  const codes: TargetDiagnosticCodeDescriptor[] = [
+    ...hostDiagnosticCodes,
+    ...targetArtifactDiagnosticCodes,
+    ...tsonicCoreDiagnosticCodes,
+  ];
+  for (const targetPack of registry?.packs ?? []) {
+    codes.push(...targetPack.diagnosticCodes ?? []);
+  }
+  for (const capability of capabilities) {
+    codes.push(...capability.diagnosticCodes ?? []);
+  }
+  return createTargetDiagnosticCodeRegistry(codes);
+}
@@ -1,8 +1,12 @@
 import { formatDiagnostics } from "@tsonic/tsts";
-import type { CheckedSourceProgram, SourceFile } from "@tsonic/tsts";
+import type { CheckedSourceProgram, ExtensionDiagnostic, SourceFile } from "@tsonic/tsts";
 import type {
   TargetDiagnostic,
+  TargetDiagnosticFix,
+  TargetDiagnosticNote,
+  TargetDiagnosticRelatedLocation,
   TargetDiagnosticSourceSpan,
+  TargetDiagnosticTextEdit,
 } from "@tsonic/target-api/artifacts";
 import { isAbsolute, relative } from "node:path";
 import { isPathWithinOrEqual } from "./path-relation.js";
@@ -10,48 +14,173 @@ import { isPathWithinOrEqual } from "./path-relation.js";
 export function collectTstsDiagnostics(source: CheckedSourceProgram, currentDirectory: string): readonly TargetDiagnostic[] {
   const diagnostics = source.diagnostics
     .filter((diagnostic): diagnostic is NonNullable<typeof diagnostic> => diagnostic !== undefined);
-  const tstsDiagnostics: TargetDiagnostic[] = diagnostics.map((diagnostic): TargetDiagnostic => ({
-    code: "TSTS_DIAGNOSTIC",
-    category: tstsDiagnosticCategory(diagnostic),
-    message: formatDiagnostics([diagnostic], currentDirectory).trimEnd(),
-    source: "tsts",
-    sourceSpan: getTstsDiagnosticSourceSpan(source, diagnostic, currentDirectory),
-    evidence: tstsDiagnosticEvidence(diagnostic),
-  }));
+  const tstsDiagnostics: TargetDiagnostic[] = diagnostics.map((diagnostic): TargetDiagnostic => {
+    const related = tstsRelatedLocations(source, diagnostic, currentDirectory);
+    return {
+      code: "TSTS_DIAGNOSTIC",
+      category: tstsDiagnosticCategory(diagnostic),
+      message: formatDiagnostics([diagnostic], currentDirectory).trimEnd(),
+      source: "tsts",
+      sourceSpan: getTstsDiagnosticSourceSpan(source, diagnostic, currentDirectory),
+      evidence: tstsDiagnosticEvidence(diagnostic),
+      ...(related.length === 0 ? {} : { related }),
+    };
+  });
   return [
     ...tstsDiagnostics,
-    ...source.extensionDiagnostics.map((diagnostic): TargetDiagnostic => ({
-      code: `TS${diagnostic.numericCode}`,
-      category: diagnostic.category,
-      message: diagnostic.message,
-      source: diagnostic.extensionId,
-      sourceSpan: getExtensionDiagnosticSourceSpan(source, diagnostic.nodeOrSpan, currentDirectory),
-      evidence: diagnostic.evidence?.map((entry) =>
-        entry.details === undefined ? entry.message : `${entry.message}: ${formatDiagnosticEvidenceDetails(entry.details)}`),
-    })),
+    ...source.extensionDiagnostics.map((diagnostic) => collectExtensionDiagnostic(source, diagnostic, currentDirectory)),
   ];
 }
 
+function collectExtensionDiagnostic(
+  source: CheckedSourceProgram,
+  diagnostic: ExtensionDiagnostic,
+  currentDirectory: string,
+): TargetDiagnostic {
+  const sourceFile = getExtensionDiagnosticSourceFile(source, diagnostic.nodeOrSpan);
+  const annotationSpan = (start: unknown, end: unknown): TargetDiagnosticSourceSpan | undefined =>
+    sourceFile === undefined || typeof start !== "number" || typeof end !== "number"
+      ? undefined
+      : createTextSourceSpan(
+        source.ast.getFileName(sourceFile),
+        source.ast.getSourceText(sourceFile),
+        start,
+        end,
+        currentDirectory,
+      );
+  const related: TargetDiagnosticRelatedLocation[] = [];
+  const notes: TargetDiagnosticNote[] = [];
+  const fixes: TargetDiagnosticFix[] = [];
+  const evidence: string[] = [];
+  for (const entry of diagnostic.evidence ?? []) {
+    const details = isObjectRecord(entry.details) ? entry.details : undefined;
+    if (details?.annotation === "related") {
+      const sourceSpan = annotationSpan(details.start, details.end);
+      related.push({ message: entry.message, ...(sourceSpan === undefined ? {} : { sourceSpan }) });
+    } else if (details?.annotation === "note" && typeof details.label === "string") {
+      notes.push({ label: details.label, message: entry.message });
+    } else if (details?.annotation === "fix" && Array.isArray(details.edits)) {
+      fixes.push({
+        title: entry.message,
+        edits: details.edits.filter(isObjectRecord).map((edit): TargetDiagnosticTextEdit => {
+          const sourceSpan = annotationSpan(edit.start, edit.end);
+          return {
+            ...(sourceSpan === undefined ? {} : { sourceSpan }),
+            newText: typeof edit.newText === "string" ? edit.newText : "",
+          };
+        }),
+      });
+    } else {
+      evidence.push(entry.details === undefined
+        ? entry.message
+        : `${entry.message}: ${formatDiagnosticEvidenceDetails(entry.details)}`);
+    }
+  }
+  return {
+    code: `TS${diagnostic.numericCode}`,
+    category: diagnostic.category,
+    message: diagnostic.message,
+    source: diagnostic.extensionId,
+    sourceSpan: getExtensionDiagnosticSourceSpan(source, diagnostic.nodeOrSpan, currentDirectory),
+    ...(evidence.length === 0 ? {} : { evidence }),
+    ...(related.length === 0 ? {} : { related }),
+    ...(notes.length === 0 ? {} : { notes }),
+    ...(fixes.length === 0 ? {} : { fixes }),
+  };
+}
+
 export function finalizeTargetDiagnostics(
   source: CheckedSourceProgram,
   diagnostics: readonly TargetDiagnostic[],
   currentDirectory: string,
 ): readonly TargetDiagnostic[] {
-  return diagnostics.map((diagnostic) => {
+  return diagnostics.flatMap((diagnostic) => {
     const sourceSpan = diagnostic.sourceSpan ??
       getExtensionDiagnosticSourceSpan(
         source,
         diagnostic.sourceNode,
         currentDirectory,
       );
-    const { sourceNode: _sourceNode, ...result } = diagnostic;
-    return {
-      ...result,
-      ...(sourceSpan === undefined ? {} : { sourceSpan }),
-    };
+    const { sourceNode: _sourceNode, related, fixes, ...result } = diagnostic;
+    const finalizedFixes = fixes === undefined ? undefined : finalizeDiagnosticFixes(source, fixes, currentDirectory);
+    return [
+      {
+        ...result,
+        ...(sourceSpan === undefined ? {} : { sourceSpan }),
+        ...(related === undefined
+          ? {}
+          : { related: related.map((location) => finalizeRelatedLocation(source, location, currentDirectory)) }),
+        ...(finalizedFixes === undefined ? {} : { fixes: finalizedFixes.located }),
+      },
+      ...(finalizedFixes?.unresolved ?? []).map((fix): TargetDiagnostic => ({
+        code: "TARGET_DIAGNOSTIC_FIX_UNRESOLVED",
+        category: "warning",
+        message: `Fix '${fix.title}' for ${diagnostic.code} was dropped because one of its edits has no source location.`,
+        source: diagnostic.source,
+        ...(sourceSpan === undefined ? {} : { sourceSpan }),
+      })),
+    ];
   });
 }
 
+function finalizeRelatedLocation(
+  source: CheckedSourceProgram,
+  location: TargetDiagnosticRelatedLocation,
+  currentDirectory: string,
+): TargetDiagnosticRelatedLocation {
+  const sourceSpan = location.sourceSpan ?? getExtensionDiagnosticSourceSpan(source, location.sourceNode, currentDirectory);
+  return {
+    message: location.message,
+    ...(sourceSpan === undefined ? {} : { sourceSpan }),
+  };
+}
+
+function finalizeDiagnosticFixes(
+  source: CheckedSourceProgram,
+  fixes: readonly TargetDiagnosticFix[],
+  currentDirectory: string,
+): { readonly located: readonly TargetDiagnosticFix[]; readonly unresolved: readonly TargetDiagnosticFix[] } {
+  const located: TargetDiagnosticFix[] = [];
+  const unresolved: TargetDiagnosticFix[] = [];
+  for (const fix of fixes) {
+    const edits = fix.edits.map((edit) => ({
+      sourceSpan: edit.sourceSpan ?? getExtensionDiagnosticSourceSpan(source, edit.sourceNode, currentDirectory),
+      newText: edit.newText,
+    }));
+    if (edits.every((edit) => edit.sourceSpan !== undefined)) {
+      located.push({ title: fix.title, edits });
+    } else {
+      unresolved.push(fix);
+    }
+  }
+  return { located, unresolved };
+}
+
+type TstsDiagnostic = NonNullable<CheckedSourceProgram["diagnostics"][number]>;
+
+function tstsRelatedLocations(
+  source: CheckedSourceProgram,
+  diagnostic: TstsDiagnostic,
+  currentDirectory: string,
+): readonly TargetDiagnosticRelatedLocation[] {
+  return (diagnostic.relatedInformation ?? [])
+    .filter((entry): entry is TstsDiagnostic => entry !== undefined)
+    .map((entry) => {
+      const sourceSpan = getTstsDiagnosticSourceSpan(source, entry, currentDirectory);
+      return {
+        message: tstsDiagnosticMessageText(entry),
+        ...(sourceSpan === undefined ? {} : { sourceSpan }),
+      };
+    });
+}
+
+function tstsDiagnosticMessageText(diagnostic: TstsDiagnostic): string {
+  return (diagnostic.message?.text ?? "").replace(
+    /\{(\d+)\}/gu,
+    (placeholder, index: string) => diagnostic.messageArgs?.[Number(index)] ?? placeholder,
+  );
+}
+
 function tstsDiagnosticCategory(diagnostic: unknown): TargetDiagnostic["category"] {
   const category = isObjectRecord(diagnostic) ? diagnostic.category : undefined;
   if (category === 0 || category === "warning") {
@@ -113,10 +242,7 @@ function getExtensionDiagnosticSourceSpan(
       currentDirectory,
     );
   }
-  if (source.ast.kind(nodeOrSpan as SourceFile) === undefined) {
-    return undefined;
-  }
-  const sourceFile = source.ast.getSourceFile(nodeOrSpan as SourceFile);
+  const sourceFile = getExtensionDiagnosticSourceFile(source, nodeOrSpan);
   if (sourceFile === undefined) {
     return undefined;
   }
@@ -129,6 +255,19 @@ function getExtensionDiagnosticSourceSpan(
   );
 }
 
+function getExtensionDiagnosticSourceFile(source: CheckedSourceProgram, nodeOrSpan: unknown): SourceFile | undefined {
+  if (nodeOrSpan === undefined || nodeOrSpan === null || typeof nodeOrSpan !== "object") {
+    return undefined;
+  }
+  if (isExtensionDiagnosticSourceSpan(nodeOrSpan)) {
+    return nodeOrSpan.sourceFile as SourceFile;
+  }
+  if (source.ast.kind(nodeOrSpan as SourceFile) === undefined) {
+    return undefined;
+  }
+  return source.ast.getSourceFile(nodeOrSpan as SourceFile);
+}
+
 function isExtensionDiagnosticSourceSpan(
   value: object,
 ): value is { readonly sourceFile: object; readonly pos: number; readonly end: number } {
@@ -146,7 +285,41 @@ function createSourceSpan(
   end: number,
   currentDirectory: string,
 ): TargetDiagnosticSourceSpan | undefined {
-  const text = source.ast.getSourceText(sourceFile);
+  return createUtf8SourceSpan(
+    source.ast.getFileName(sourceFile),
+    source.ast.getSourceText(sourceFile),
+    pos,
+    end,
+    currentDirectory,
+  );
+}
+
+export function createTextSourceSpan(
+  fileName: string,
+  text: string,
+  start: number,
+  end: number,
+  currentDirectory: string,
+): TargetDiagnosticSourceSpan | undefined {
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start || end > text.length) {
+    return undefined;
+  }
+  return createUtf8SourceSpan(
+    fileName,
+    text,
+    Buffer.byteLength(text.slice(0, start), "utf8"),
+    Buffer.byteLength(text.slice(0, end), "utf8"),
+    currentDirectory,
+  );
+}
+
+function createUtf8SourceSpan(
+  fileName: string,
+  text: string,
+  pos: number,
+  end: number,
+  currentDirectory: string,
+): TargetDiagnosticSourceSpan | undefined {
   if (!Number.isInteger(pos) || !Number.isInteger(end) || pos < 0 || end < pos) {
     return undefined;
   }
@@ -157,7 +330,7 @@ function createSourceSpan(
     return undefined;
   }
   return {
-    fileName: formatSourceFileName(source.ast.getFileName(sourceFile), currentDirectory),
+    fileName: formatSourceFileName(fileName, currentDirectory),
     line: start.line,
     column: start.column,
     endLine: finish.line,
@@ -264,7 +437,7 @@ function utf8ByteLength(codePoint: number): number {
   return 4;
 }
 
-function formatSourceFileName(fileName: string, currentDirectory: string): string {
+export function formatSourceFileName(fileName: string, currentDirectory: string): string {
   if (!isAbsolute(fileName)) {
     return fileName.split("\\").join("/");
   }
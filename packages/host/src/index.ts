@@ -1,12 +1,38 @@
 export { compileProject } from "./build.js";
-export type { CompileProjectInput, ProjectBuildResult, TargetBuildResult } from "./build.js";
+export type { CompileProjectInput, ProjectBuildResult, TargetBuildProvenance, TargetBuildResult } from "./build.js";
+export { compileProjectInParallel } from "./parallel/parallel-build.js";
+export type { ParallelCompileProjectInput } from "./parallel/parallel-build.js";
 export { createProgramOptionsForProject } from "./program-options.js";
 export type { SourceDeclarationSnapshot } from "./program-options.js";
+export { createBuildProfiler } from "./profile/build-profiler.js";
+export type { BuildProfiler, BuildProfileSpan, BuildProfileSpanOptions } from "./profile/build-profiler.js";
 export type { CreatedProgramOptions, CreateProgramOptionsInput } from "./program-options.js";
+export { invokeProjectToolchains } from "./target/toolchain-invocation.js";
+export type { InvokeProjectToolchainsInput, ProjectToolchainInvocationResult } from "./target/toolchain-invocation.js";
 export { collectTargetSourceProfileContributions } from "./target/source-profile.js";
+export { collectTargetSourceFingerprints } from "./target/source-fingerprints.js";
+export type { TargetSourceFingerprints } from "./target/source-fingerprints.js";
 export type { CollectedTargetSourceProfile, CollectTargetSourceProfileOptions, TargetSourceProfileFile } from "./target/source-profile.js";
+export { collectTargetOptionDescriptors } from "./target/target-options.js";
+export { selectTargetSurfaceImplementations } from "./target/extensions.js";
 export { parseTsonicProjectConfig } from "./project-config.js";
+export { createTargetOptionsSchema, createTsonicProjectSchema } from "./schema/project-schema.js";
+export type { JsonSchema } from "./schema/project-schema.js";
 export { getTargetCompilationPaths, resolveProjectPaths } from "./project-paths.js";
 export type { ProjectPathOptions, ProjectPaths } from "./project-paths.js";
+export { createTsonicDiagnosticCodeRegistry } from "./diagnostic-codes/registry.js";
+export { createDiagnosticBaseline, resolveDiagnosticBaselinePath } from "./project-diagnostics/baseline.js";
+export type { DiagnosticBaseline, DiagnosticBaselineEntry } from "./project-diagnostics/baseline.js";
+export { isBlockingTypeScriptDiagnostic } from "./project-diagnostics/severity.js";
 export { discoverInstalledTsonicPlugins } from "./plugins/discovery.js";
-export type { InstalledTsonicPluginRegistry } from "./plugins/registry.js";
+export { diagnoseTsonicProject, requiredNodeVersion } from "./plugins/doctor.js";
+export type { DiagnoseTsonicProjectInput, TsonicDoctorDependency, TsonicDoctorDependencyStatus, TsonicDoctorReport } from "./plugins/doctor.js";
+export type { InstalledTsonicPluginPackage, InstalledTsonicPluginRegistry } from "./plugins/registry.js";
+export { collectInstalledDependencyRoots } from "./plugins/dependency-input-roots.js";
+export type { InstalledDependencyInputs, InstalledDependencyRoot } from "./plugins/dependency-input-roots.js";
+export { createProjectBuildFingerprint } from "./cache/build-fingerprint.js";
+export type { ProjectBuildFingerprint, ProjectBuildFingerprintInput } from "./cache/build-fingerprint.js";
+export { createProjectDiagnosticSession } from "./session/diagnostic-session.js";
+export type { ProjectDiagnosticSession, ProjectDiagnosticSessionInput } from "./session/diagnostic-session.js";
+export { createTargetCompilerSessions } from "./session/target-compiler-sessions.js";
+export type { TargetCompilerSessions } from "./session/target-compiler-sessions.js";
@@ -0,0 +1,136 @@
+import { availableParallelism } from "node:os";
+import type { TargetSelection } from "@tsonic/target-api";
+import { rejectedTargetStage, validateTargetCompilationBudget } from "@tsonic/target-api/artifacts";
+import type { TargetCompileOutput, TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import { projectUnusedSuppressionDiagnostics } from "../build.js";
+import type { CompileProjectInput, ProjectBuildResult, TargetBuildResult } from "../build.js";
+import { selectProjectTargets } from "../target/build-plan.js";
+import { targetInterruptionDiagnostic } from "../target/compilation-cancellation.js";
+import type { TargetWorkerInput, TargetWorkerMessage } from "./target-worker-protocol.js";
+import { runWorkerTask } from "./worker-task.js";
+
+export interface ParallelCompileProjectInput extends Omit<CompileProjectInput, "registry" | "installedCapabilities" | "compilerSessions"> {
+  readonly maxWorkers?: number;
+  readonly onTargetResult?: (result: TargetBuildResult) => void;
+}
+
+const workerBudgetGraceMilliseconds = 1_000;
+
+export async function compileProjectInParallel(input: ParallelCompileProjectInput): Promise<ProjectBuildResult> {
+  if (input.budget !== undefined) {
+    validateTargetCompilationBudget(input.budget);
+  }
+  const targets = selectProjectTargets(input);
+  const results: (TargetBuildResult | undefined)[] = targets.map(() => undefined);
+  const workerCount = Math.max(1, Math.min(input.maxWorkers ?? availableParallelism(), targets.length));
+  let nextTarget = 0;
+  let nextStreamed = 0;
+  const stream = (): void => {
+    while (nextStreamed < results.length) {
+      const result = results[nextStreamed];
+      if (result === undefined) {
+        return;
+      }
+      input.onTargetResult?.(result);
+      nextStreamed += 1;
+    }
+  };
+  const runWorkerSlot = async (): Promise<void> => {
+    while (nextTarget < targets.length) {
+      const index = nextTarget;
+      nextTarget += 1;
+      const target = targets[index];
+      if (target === undefined) {
+        continue;
+      }
+      results[index] = await compileTargetInWorker(input, target);
+      stream();
+    }
+  };
+  await Promise.all(Array.from({ length: workerCount }, runWorkerSlot));
+  const completed = results.map((result, index) => {
+    if (result === undefined) {
+      throw new Error(`Target '${targets[index]?.id ?? index}' completed without a worker result.`);
+    }
+    return result;
+  });
+  return Object.freeze({
+    targets: Object.freeze(completed),
+    diagnostics: Object.freeze([
+      ...completed.flatMap((result) => result.diagnostics),
+      ...projectUnusedSuppressionDiagnostics(completed),
+    ]),
+  });
+}
+
+async function compileTargetInWorker(input: ParallelCompileProjectInput, target: TargetSelection): Promise<TargetBuildResult> {
+  const workerInput: TargetWorkerInput = {
+    project: input.project,
+    projectFilePath: input.projectFilePath,
+    targetId: target.id,
+    ...(input.prepareToolchain === undefined ? {} : { prepareToolchain: input.prepareToolchain }),
+    ...(input.sourceOverlays === undefined ? {} : { sourceOverlays: new Map(input.sourceOverlays) }),
+    ...(input.profiler === undefined ? {} : { profile: true }),
+    ...(input.budget === undefined ? {} : { budget: input.budget }),
+  };
+  const wallClockMilliseconds = input.budget?.wallClockMilliseconds;
+  const outcome = await runWorkerTask<TargetWorkerMessage>(new URL("./target-worker.js", import.meta.url), {
+    workerData: workerInput,
+    ...(input.budget?.heapBytes === undefined ? {} : { heapBytes: input.budget.heapBytes }),
+    ...(wallClockMilliseconds === undefined
+      ? {}
+      : { timeoutMilliseconds: wallClockMilliseconds + workerBudgetGraceMilliseconds }),
+    ...(input.signal === undefined ? {} : { signal: input.signal }),
+  });
+  switch (outcome.kind) {
+    case "message":
+      if (outcome.message.kind === "result" && outcome.message.profile !== undefined) {
+        input.profiler?.record(outcome.message.profile, outcome.threadId);
+      }
+      return outcome.message.kind === "result"
+        ? freezeTargetBuildResult(target, outcome.message.result)
+        : crashedTargetBuild(target, outcome.message.message);
+    case "timeout":
+      return diagnosticTargetBuild(target, [targetInterruptionDiagnostic(target.id, "wall-clock", input.budget)]);
+    case "cancelled":
+      return diagnosticTargetBuild(target, [targetInterruptionDiagnostic(target.id, "cancelled", input.budget)]);
+    case "out-of-memory":
+      return diagnosticTargetBuild(target, [targetInterruptionDiagnostic(target.id, "heap", input.budget)]);
+    case "unreadable":
+      return crashedTargetBuild(target, `Target '${target.id}' worker sent an unreadable result: ${outcome.message}`);
+    case "error":
+      return crashedTargetBuild(target, `Target '${target.id}' worker crashed: ${outcome.message}`);
+    case "exit":
+      return crashedTargetBuild(target, `Target '${target.id}' worker exited with code ${outcome.exitCode} before reporting a result.`);
+  }
+}
+
+function freezeTargetBuildResult(target: TargetSelection, result: TargetBuildResult): TargetBuildResult {
+  return Object.freeze({
+    target,
+    compileResult: Object.freeze({
+      ...result.compileResult,
+      diagnostics: Object.freeze(result.compileResult.diagnostics),
+    }),
+    diagnostics: Object.freeze(result.diagnostics),
+    ...(result.provenance === undefined ? {} : { provenance: Object.freeze(result.provenance) }),
+    ...(result.unusedSuppressions === undefined
+      ? {}
+      : { unusedSuppressions: Object.freeze(result.unusedSuppressions) }),
+  });
+}
+
+function crashedTargetBuild(target: TargetSelection, message: string): TargetBuildResult {
+  return diagnosticTargetBuild(target, [
+    Object.freeze({ code: "TARGET_COMPILATION", category: "error", message, source: "tsonic-host" }),
+  ]);
+}
+
+function diagnosticTargetBuild(target: TargetSelection, targetDiagnostics: readonly TargetDiagnostic[]): TargetBuildResult {
+  const diagnostics = Object.freeze([...targetDiagnostics]);
+  return Object.freeze({
+    target,
+    compileResult: rejectedTargetStage<TargetCompileOutput>(diagnostics),
+    diagnostics,
+  });
+}
@@ -0,0 +1,18 @@
+import type { TsonicProjectConfig } from "@tsonic/target-api";
+import type { TargetCompilationBudget } from "@tsonic/target-api/artifacts";
+import type { TargetBuildResult } from "../build.js";
+import type { BuildProfileSpan } from "../profile/build-profiler.js";
+
+export interface TargetWorkerInput {
+  readonly project: TsonicProjectConfig;
+  readonly projectFilePath: string;
+  readonly targetId: string;
+  readonly prepareToolchain?: boolean;
+  readonly sourceOverlays?: ReadonlyMap<string, string>;
+  readonly profile?: boolean;
+  readonly budget?: TargetCompilationBudget;
+}
+
+export type TargetWorkerMessage =
+  | { readonly kind: "result"; readonly result: TargetBuildResult; readonly profile?: readonly BuildProfileSpan[] }
+  | { readonly kind: "failure"; readonly message: string };
@@ -0,0 +1,56 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { compileProject } from "../build.js";
+import type { TargetBuildResult } from "../build.js";
+import { discoverInstalledTsonicPlugins } from "../plugins/discovery.js";
+import { createBuildProfiler } from "../profile/build-profiler.js";
+import type { TargetWorkerInput, TargetWorkerMessage } from "./target-worker-protocol.js";
+
+if (parentPort === null) {
+  throw new Error("Target worker must run inside a worker thread.");
+}
+parentPort.postMessage(await compileWorkerTarget(workerData as TargetWorkerInput));
+
+async function compileWorkerTarget(input: TargetWorkerInput): Promise<TargetWorkerMessage> {
+  try {
+    const plugins = await discoverInstalledTsonicPlugins(input.projectFilePath);
+    const pluginErrors = plugins.diagnostics.filter((diagnostic) => diagnostic.category === "error");
+    if (pluginErrors.length > 0) {
+      return { kind: "failure", message: pluginErrors.map((diagnostic) => diagnostic.message).join(" ") };
+    }
+    const profiler = input.profile === true ? createBuildProfiler() : undefined;
+    const result = compileProject({
+      project: input.project,
+      projectFilePath: input.projectFilePath,
+      registry: plugins.createTargetRegistry(),
+      installedCapabilities: plugins.capabilities,
+      targetIds: [input.targetId],
+      ...(input.prepareToolchain === undefined ? {} : { prepareToolchain: input.prepareToolchain }),
+      ...(input.sourceOverlays === undefined ? {} : { sourceOverlays: input.sourceOverlays }),
+      ...(profiler === undefined ? {} : { profiler }),
+      ...(input.budget === undefined ? {} : { budget: input.budget }),
+    });
+    const [target] = result.targets;
+    if (target === undefined || result.targets.length !== 1) {
+      return { kind: "failure", message: `Target '${input.targetId}' worker produced ${result.targets.length} target results.` };
+    }
+    return {
+      kind: "result",
+      result: cloneableTargetBuildResult(target),
+      ...(profiler === undefined ? {} : { profile: profiler.spans() }),
+    };
+  } catch (error) {
+    return { kind: "failure", message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function cloneableTargetBuildResult(result: TargetBuildResult): TargetBuildResult {
+  const stripSourceNodes = <T extends { readonly sourceNode?: unknown }>(diagnostics: readonly T[]): readonly T[] =>
+    diagnostics.map(({ sourceNode: _sourceNode, ...diagnostic }) => diagnostic as T);
+  return {
+    target: result.target,
+    compileResult: { ...result.compileResult, diagnostics: stripSourceNodes(result.compileResult.diagnostics) },
+    diagnostics: stripSourceNodes(result.diagnostics),
+    ...(result.provenance === undefined ? {} : { provenance: result.provenance }),
+    ...(result.unusedSuppressions === undefined ? {} : { unusedSuppressions: result.unusedSuppressions }),
+  };
+}
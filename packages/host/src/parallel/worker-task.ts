@@ -0,0 +1,64 @@
+import { Worker } from "node:worker_threads";
+
+export interface WorkerTaskOptions {
+  readonly workerData: unknown;
+  readonly heapBytes?: number;
+  readonly timeoutMilliseconds?: number;
+  readonly signal?: AbortSignal;
+}
+
+export type WorkerTaskOutcome<TMessage> =
+  | { readonly kind: "message"; readonly message: TMessage; readonly threadId: number }
+  | { readonly kind: "timeout" }
+  | { readonly kind: "cancelled" }
+  | { readonly kind: "out-of-memory" }
+  | { readonly kind: "unreadable"; readonly message: string }
+  | { readonly kind: "error"; readonly message: string }
+  | { readonly kind: "exit"; readonly exitCode: number };
+
+export function runWorkerTask<TMessage>(
+  workerUrl: URL,
+  options: WorkerTaskOptions,
+): Promise<WorkerTaskOutcome<TMessage>> {
+  return new Promise((resolveOutcome) => {
+    if (options.signal?.aborted === true) {
+      resolveOutcome({ kind: "cancelled" });
+      return;
+    }
+    let settled = false;
+    let deadline: NodeJS.Timeout | undefined;
+    const worker = new Worker(workerUrl, {
+      workerData: options.workerData,
+      ...(options.heapBytes === undefined
+        ? {}
+        : { resourceLimits: { maxOldGenerationSizeMb: Math.ceil(options.heapBytes / 1024 / 1024) } }),
+    });
+    const settle = (outcome: WorkerTaskOutcome<TMessage>, terminate: boolean): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(deadline);
+      options.signal?.removeEventListener("abort", cancel);
+      resolveOutcome(outcome);
+      if (terminate) {
+        void worker.terminate();
+      }
+    };
+    const cancel = (): void => settle({ kind: "cancelled" }, true);
+    options.signal?.addEventListener("abort", cancel, { once: true });
+    if (options.timeoutMilliseconds !== undefined) {
+      deadline = setTimeout(() => settle({ kind: "timeout" }, true), options.timeoutMilliseconds);
+    }
+    worker.on("message", (message: TMessage) => settle({ kind: "message", message, threadId: worker.threadId }, true));
+    worker.on("messageerror", (error) => settle({ kind: "unreadable", message: error.message }, false));
+    worker.on("error", (error: unknown) => {
+      if (error instanceof Error && "code" in error && error.code === "ERR_WORKER_OUT_OF_MEMORY") {
+        settle({ kind: "out-of-memory" }, true);
+        return;
+      }
+      settle({ kind: "error", message: error instanceof Error ? error.message : String(error) }, false);
+    });
+    worker.on("exit", (exitCode) => settle({ kind: "exit", exitCode }, false));
+  });
+}
@@ -0,0 +1,41 @@
+import { appendInstalledDeclarationPackageFiles } from "../declaration-package-inputs.js";
+import { normalizePackagePath } from "../package-contract.js";
+import { collectTargetSourcePackageGraph } from "../source-package-inputs.js";
+import type { InstalledTsonicPluginPackage } from "./registry.js";
+
+export type InstalledDependencyInputs = "package" | "sources" | "declarations";
+
+export interface InstalledDependencyRoot {
+  readonly name: string;
+  readonly root: string;
+  readonly inputs: InstalledDependencyInputs;
+}
+
+const inputsPrecedence: readonly InstalledDependencyInputs[] = ["package", "sources", "declarations"];
+
+export function collectInstalledDependencyRoots(
+  projectDirectory: string,
+  pluginPackages: readonly InstalledTsonicPluginPackage[],
+): readonly InstalledDependencyRoot[] {
+  const roots = new Map<string, InstalledDependencyRoot>();
+  const add = (name: string, root: string, inputs: InstalledDependencyInputs): void => {
+    const previous = roots.get(root);
+    if (previous === undefined || inputsPrecedence.indexOf(inputs) < inputsPrecedence.indexOf(previous.inputs)) {
+      roots.set(root, Object.freeze({ name, root, inputs }));
+    }
+  };
+  for (const pluginPackage of pluginPackages) {
+    add(pluginPackage.name, normalizePackagePath(pluginPackage.packageRoot), "package");
+  }
+  const sourcePackages = collectTargetSourcePackageGraph(projectDirectory, projectDirectory, new Map());
+  for (const sourcePackage of sourcePackages.packages) {
+    if (sourcePackage.id !== sourcePackages.rootPackageId) {
+      add(sourcePackage.name ?? sourcePackage.id, sourcePackage.packageRoot, "sources");
+    }
+  }
+  for (const declarationPackage of appendInstalledDeclarationPackageFiles(projectDirectory, new Map()).packages) {
+    add(declarationPackage.name, declarationPackage.root, "declarations");
+  }
+  return Object.freeze([...roots.values()].sort((left, right) =>
+    left.name.localeCompare(right.name) || left.root.localeCompare(right.root)));
+}
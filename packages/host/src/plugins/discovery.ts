@@ -1,3 +1,4 @@
+import { createHash } from "node:crypto";
 import { readFile } from "node:fs/promises";
 import { createRequire } from "node:module";
 import { dirname, join, resolve } from "node:path";
@@ -11,11 +12,13 @@ import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
 import {
   getTargetIdValidationMessage,
   isValidTargetId,
+  validateTargetDiagnosticCodeDescriptors,
+  validateTargetOptionDescriptors,
 } from "@tsonic/target-api";
 import { readTsonicPluginManifest } from "./manifest.js";
 import { findInstalledPackageRoot } from "../package-contract.js";
 import { createInstalledTsonicPluginRegistry } from "./registry.js";
-import type { InstalledTsonicPluginRegistry } from "./registry.js";
+import type { InstalledTsonicPluginPackage, InstalledTsonicPluginRegistry } from "./registry.js";
 
 export async function discoverInstalledTsonicPlugins(projectFilePath: string): Promise<InstalledTsonicPluginRegistry> {
   const projectDirectory = dirname(resolve(projectFilePath));
@@ -28,8 +31,9 @@ export async function discoverInstalledTsonicPlugins(projectFilePath: string): P
   const targets: TsonicTargetPlugin[] = [];
   const capabilities: TargetCapabilityImplementation[] = [];
   const diagnostics: TargetDiagnostic[] = [];
+  const packages: InstalledTsonicPluginPackage[] = [];
   for (const dependencyName of dependencyNames) {
-    const packageJson = await readDependencyPackageJson(
+    const { packageRoot, packageJson, packageJsonText } = await readDependencyPackageJson(
       dependencyName,
       projectDirectory,
     );
@@ -37,6 +41,12 @@ export async function discoverInstalledTsonicPlugins(projectFilePath: string): P
     if (manifest === undefined) {
       continue;
     }
+    packages.push(Object.freeze({
+      name: manifest.packageName,
+      version: isRecord(packageJson) && typeof packageJson.version === "string" ? packageJson.version : "0.0.0",
+      packageRoot,
+      manifestFingerprint: createHash("sha256").update(packageJsonText).digest("hex"),
+    }));
     const plugin = await loadPlugin(manifest.packageName, manifest.entry, requireFromProject);
     const validation = validatePlugin(dependencyName, plugin);
     if (validation !== undefined) {
@@ -49,27 +59,28 @@ export async function discoverInstalledTsonicPlugins(projectFilePath: string): P
       capabilities.push(plugin);
     }
   }
-  const registry = createInstalledTsonicPluginRegistry(targets, capabilities);
+  const registry = createInstalledTsonicPluginRegistry(targets, capabilities, packages);
   return {
     ...registry,
     diagnostics: [...diagnostics, ...registry.diagnostics],
   };
 }
 
-async function readDependencyPackageJson(
+export async function readDependencyPackageJson(
   packageName: string,
   projectDirectory: string,
-): Promise<unknown> {
+): Promise<{ readonly packageRoot: string; readonly packageJson: unknown; readonly packageJsonText: string }> {
   const packageRoot = findInstalledPackageRoot(projectDirectory, packageName);
   if (packageRoot === undefined) {
     throw new Error(
       `Project dependency '${packageName}' is not installed for Tsonic plugin discovery.`,
     );
   }
-  return readJsonFile(join(packageRoot, "package.json"));
+  const packageJsonText = await readFile(join(packageRoot, "package.json"), "utf8");
+  return { packageRoot, packageJson: JSON.parse(packageJsonText) as unknown, packageJsonText };
 }
 
-async function loadPlugin(packageName: string, entry: string, requireFromProject: NodeRequire): Promise<TsonicPlugin> {
+export async function loadPlugin(packageName: string, entry: string, requireFromProject: NodeRequire): Promise<TsonicPlugin> {
   let entryPath: string;
   try {
     entryPath = requireFromProject.resolve(entry === "." ? packageName : `${packageName}/${entry}`);
@@ -88,7 +99,7 @@ async function loadPlugin(packageName: string, entry: string, requireFromProject
   }
 }
 
-function validatePlugin(packageName: string, plugin: TsonicPlugin): TargetDiagnostic | undefined {
+export function validatePlugin(packageName: string, plugin: TsonicPlugin): TargetDiagnostic | undefined {
   if (!isRecord(plugin)) {
     return pluginDiagnostic(packageName, "Tsonic plugin factory must return an object.");
   }
@@ -129,6 +140,20 @@ function validatePlugin(packageName: string, plugin: TsonicPlugin): TargetDiagno
     if (plugin.createTargetContributions !== undefined && typeof plugin.createTargetContributions !== "function") {
       return pluginDiagnostic(packageName, "Tsonic target capability plugin createTargetContributions must be a function when provided.");
     }
+    if (plugin.options !== undefined) {
+      try {
+        validateTargetOptionDescriptors("Tsonic target capability plugin", plugin.options);
+      } catch (error) {
+        return pluginDiagnostic(packageName, error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (plugin.diagnosticCodes !== undefined) {
+      try {
+        validateTargetDiagnosticCodeDescriptors("Tsonic target capability plugin", plugin.diagnosticCodes);
+      } catch (error) {
+        return pluginDiagnostic(packageName, error instanceof Error ? error.message : String(error));
+      }
+    }
   }
   return undefined;
 }
@@ -148,6 +173,8 @@ const targetCapabilityPluginProperties = new Set([
   "requiredSurfaces",
   "requiredCapabilities",
   "moduleOwnership",
+  "options",
+  "diagnosticCodes",
   "sourceProfileContributions",
   "sourceCompilerContributions",
   "createTargetContributions",
@@ -167,7 +194,7 @@ function pluginDiagnostic(packageName: string, message: string): TargetDiagnosti
   };
 }
 
-function readDirectDependencyNames(packageJson: unknown): readonly string[] {
+export function readDirectDependencyNames(packageJson: unknown): readonly string[] {
   if (!isRecord(packageJson)) {
     throw new Error("Project package.json must be an object.");
   }
@@ -0,0 +1,34 @@
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+
+export interface DoctorWorkerInput {
+  readonly dependencyName: string;
+  readonly packageName: string;
+  readonly entry: string;
+  readonly packageJsonPath: string;
+}
+
+export interface DoctorTargetPluginSummary {
+  readonly kind: "target";
+  readonly id: string;
+  readonly targetId: string;
+  readonly surfaceIds: readonly string[];
+  readonly provider: DoctorModuleOwnerSummary;
+}
+
+export interface DoctorCapabilityPluginSummary extends DoctorModuleOwnerSummary {
+  readonly kind: "target-capability";
+  readonly targetId: string;
+  readonly requiredSurfaces: readonly string[];
+  readonly requiredCapabilities: readonly string[];
+}
+
+export interface DoctorModuleOwnerSummary {
+  readonly id: string;
+  readonly modulePrefixes: readonly string[];
+}
+
+export type DoctorPluginSummary = DoctorTargetPluginSummary | DoctorCapabilityPluginSummary;
+
+export type DoctorWorkerMessage =
+  | { readonly kind: "plugin"; readonly plugin: DoctorPluginSummary; readonly changedGlobals: readonly string[] }
+  | { readonly kind: "invalid"; readonly diagnostic: TargetDiagnostic; readonly changedGlobals: readonly string[] };
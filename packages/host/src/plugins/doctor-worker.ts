@@ -0,0 +1,100 @@
+import { createRequire } from "node:module";
+import { parentPort, workerData } from "node:worker_threads";
+import { createTargetRegistry } from "@tsonic/target-api";
+import type { TargetPack, TsonicTargetPlugin } from "@tsonic/target-api";
+import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
+import { loadPlugin, validatePlugin } from "./discovery.js";
+import type {
+  DoctorCapabilityPluginSummary,
+  DoctorTargetPluginSummary,
+  DoctorWorkerInput,
+  DoctorWorkerMessage,
+} from "./doctor-worker-protocol.js";
+
+if (parentPort === null) {
+  throw new Error("Doctor worker must run inside a worker thread.");
+}
+parentPort.postMessage(await inspectWorkerPlugin(workerData as DoctorWorkerInput));
+
+async function inspectWorkerPlugin(input: DoctorWorkerInput): Promise<DoctorWorkerMessage> {
+  const globals = snapshotGlobals();
+  const invalid = (message: string): DoctorWorkerMessage => ({
+    kind: "invalid",
+    diagnostic: { code: "TSONIC_PLUGIN_INVALID", category: "error", source: "tsonic-host", message },
+    changedGlobals: changedGlobals(globals),
+  });
+  try {
+    const plugin = await loadPlugin(input.packageName, input.entry, createRequire(input.packageJsonPath));
+    const validation = validatePlugin(input.dependencyName, plugin);
+    if (validation !== undefined) {
+      return { kind: "invalid", diagnostic: validation, changedGlobals: changedGlobals(globals) };
+    }
+    if (plugin.kind === "target-capability") {
+      return { kind: "plugin", plugin: summarizeCapabilityPlugin(plugin), changedGlobals: changedGlobals(globals) };
+    }
+    let pack: TargetPack;
+    try {
+      pack = plugin.createTargetPack();
+      createTargetRegistry([pack]);
+    } catch (error) {
+      return invalid(`Tsonic plugin '${input.dependencyName}' is invalid: createTargetPack() failed: ${errorMessage(error)}`);
+    }
+    return { kind: "plugin", plugin: summarizeTargetPlugin(plugin, pack), changedGlobals: changedGlobals(globals) };
+  } catch (error) {
+    return invalid(errorMessage(error));
+  }
+}
+
+function summarizeTargetPlugin(plugin: TsonicTargetPlugin, pack: TargetPack): DoctorTargetPluginSummary {
+  return {
+    kind: "target",
+    id: plugin.id,
+    targetId: plugin.targetId,
+    surfaceIds: pack.surfaces.map((surface) => surface.id),
+    provider: {
+      id: pack.provider.id,
+      modulePrefixes: pack.provider.moduleOwnership.map((ownership) => ownership.specifierPrefix),
+    },
+  };
+}
+
+function summarizeCapabilityPlugin(capability: TargetCapabilityImplementation): DoctorCapabilityPluginSummary {
+  return {
+    kind: "target-capability",
+    id: capability.id,
+    targetId: capability.targetId,
+    requiredSurfaces: [...capability.requiredSurfaces ?? []],
+    requiredCapabilities: [...capability.requiredCapabilities ?? []],
+    modulePrefixes: capability.moduleOwnership.map((ownership) => ownership.specifierPrefix),
+  };
+}
+
+function snapshotGlobals(): ReadonlyMap<string, PropertyDescriptor> {
+  return new Map(Object.getOwnPropertyNames(globalThis).map((name) => [name, Object.getOwnPropertyDescriptor(globalThis, name) ?? {}]));
+}
+
+function changedGlobals(before: ReadonlyMap<string, PropertyDescriptor>): readonly string[] {
+  const after = snapshotGlobals();
+  const changed = new Set<string>();
+  for (const [key, descriptor] of after) {
+    const previous = before.get(key);
+    if (
+      previous === undefined ||
+      !Object.is(previous.value, descriptor.value) ||
+      previous.get !== descriptor.get ||
+      previous.set !== descriptor.set
+    ) {
+      changed.add(key);
+    }
+  }
+  for (const key of before.keys()) {
+    if (!after.has(key)) {
+      changed.add(key);
+    }
+  }
+  return [...changed].sort();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
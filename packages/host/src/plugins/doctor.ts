@@ -0,0 +1,311 @@
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import { findInstalledPackageRoot } from "../package-contract.js";
+import { runWorkerTask } from "../parallel/worker-task.js";
+import { moduleOwnershipOverlaps } from "../target/extensions.js";
+import { readDependencyPackageJson, readDirectDependencyNames } from "./discovery.js";
+import type {
+  DoctorCapabilityPluginSummary,
+  DoctorPluginSummary,
+  DoctorTargetPluginSummary,
+  DoctorWorkerInput,
+  DoctorWorkerMessage,
+} from "./doctor-worker-protocol.js";
+import { readTsonicPluginManifest } from "./manifest.js";
+import { duplicateTargetPluginDiagnostics } from "./registry.js";
+
+export const requiredNodeVersion = readRequiredNodeVersion();
+
+const defaultPluginTimeoutMilliseconds = 10_000;
+
+export type TsonicDoctorDependencyStatus =
+  | "target-plugin"
+  | "capability-plugin"
+  | "package"
+  | "not-installed"
+  | "invalid";
+
+export interface TsonicDoctorDependency {
+  readonly name: string;
+  readonly status: TsonicDoctorDependencyStatus;
+  readonly version?: string;
+  readonly targetId?: string;
+}
+
+export interface TsonicDoctorReport {
+  readonly nodeVersion: string;
+  readonly requiredNodeVersion: string;
+  readonly packageJsonPath?: string;
+  readonly dependencies: readonly TsonicDoctorDependency[];
+  readonly diagnostics: readonly TargetDiagnostic[];
+}
+
+export interface DiagnoseTsonicProjectInput {
+  readonly projectFilePath: string;
+  readonly nodeVersion?: string;
+  readonly pluginTimeoutMilliseconds?: number;
+}
+
+interface InspectedDependency {
+  readonly dependency: TsonicDoctorDependency;
+  readonly diagnostics: readonly TargetDiagnostic[];
+  readonly plugin?: DoctorPluginSummary;
+}
+
+export async function diagnoseTsonicProject(input: DiagnoseTsonicProjectInput): Promise<TsonicDoctorReport> {
+  const nodeVersion = input.nodeVersion ?? process.versions.node;
+  const diagnostics: TargetDiagnostic[] = [];
+  if (compareVersions(nodeVersion, requiredNodeVersion) < 0) {
+    diagnostics.push(doctorDiagnostic(
+      "TSONIC_NODE_VERSION",
+      `Node.js ${nodeVersion} is not supported; Tsonic requires Node.js ${requiredNodeVersion} or newer.`,
+    ));
+  }
+  const projectDirectory = dirname(resolve(input.projectFilePath));
+  const packageJsonPath = resolve(projectDirectory, "package.json");
+  let dependencyNames: readonly string[];
+  try {
+    dependencyNames = readDirectDependencyNames(JSON.parse(await readFile(packageJsonPath, "utf8")) as unknown);
+  } catch (error) {
+    diagnostics.push(doctorDiagnostic(
+      "TSONIC_PROJECT_PACKAGE_JSON",
+      `Project package.json '${packageJsonPath}' could not be read: ${errorMessage(error)}`,
+    ));
+    return Object.freeze({
+      nodeVersion,
+      requiredNodeVersion,
+      dependencies: Object.freeze([]),
+      diagnostics: Object.freeze(diagnostics),
+    });
+  }
+  const timeoutMilliseconds = input.pluginTimeoutMilliseconds ?? defaultPluginTimeoutMilliseconds;
+  const dependencies: TsonicDoctorDependency[] = [];
+  const targets: DoctorTargetPluginSummary[] = [];
+  const capabilities: DoctorCapabilityPluginSummary[] = [];
+  const targetsById = new Map<string, DoctorTargetPluginSummary>();
+  for (const dependencyName of dependencyNames) {
+    const inspected = await inspectDependency(dependencyName, projectDirectory, packageJsonPath, timeoutMilliseconds);
+    dependencies.push(inspected.dependency);
+    diagnostics.push(...inspected.diagnostics);
+    if (inspected.plugin?.kind === "target") {
+      targets.push(inspected.plugin);
+      if (!targetsById.has(inspected.plugin.targetId)) {
+        targetsById.set(inspected.plugin.targetId, inspected.plugin);
+      }
+    } else if (inspected.plugin?.kind === "target-capability") {
+      capabilities.push(inspected.plugin);
+    }
+  }
+  diagnostics.push(
+    ...duplicateTargetPluginDiagnostics(targets),
+    ...capabilityRequirementDiagnostics(targetsById, capabilities),
+    ...moduleOwnershipDiagnostics(targetsById, capabilities),
+  );
+  return Object.freeze({
+    nodeVersion,
+    requiredNodeVersion,
+    packageJsonPath,
+    dependencies: Object.freeze(dependencies),
+    diagnostics: Object.freeze(diagnostics),
+  });
+}
+
+async function inspectDependency(
+  dependencyName: string,
+  projectDirectory: string,
+  packageJsonPath: string,
+  timeoutMilliseconds: number,
+): Promise<InspectedDependency> {
+  if (findInstalledPackageRoot(projectDirectory, dependencyName) === undefined) {
+    return {
+      dependency: Object.freeze({ name: dependencyName, status: "not-installed" }),
+      diagnostics: [doctorDiagnostic(
+        "TSONIC_DEPENDENCY_NOT_INSTALLED",
+        `Project dependency '${dependencyName}' is not installed.`,
+      )],
+    };
+  }
+  let version: string | undefined;
+  const invalid = (diagnostic: TargetDiagnostic): InspectedDependency => ({
+    dependency: Object.freeze({
+      name: dependencyName,
+      status: "invalid",
+      ...(version === undefined ? {} : { version }),
+    }),
+    diagnostics: [diagnostic],
+  });
+  try {
+    const { packageJson } = await readDependencyPackageJson(dependencyName, projectDirectory);
+    version = isRecord(packageJson) && typeof packageJson.version === "string" ? packageJson.version : undefined;
+    const manifest = readTsonicPluginManifest(dependencyName, packageJson);
+    if (manifest === undefined) {
+      return {
+        dependency: Object.freeze({
+          name: dependencyName,
+          status: "package",
+          ...(version === undefined ? {} : { version }),
+        }),
+        diagnostics: [],
+      };
+    }
+    const workerInput: DoctorWorkerInput = {
+      dependencyName,
+      packageName: manifest.packageName,
+      entry: manifest.entry,
+      packageJsonPath,
+    };
+    const outcome = await runWorkerTask<DoctorWorkerMessage>(new URL("./doctor-worker.js", import.meta.url), {
+      workerData: workerInput,
+      timeoutMilliseconds,
+    });
+    switch (outcome.kind) {
+      case "message":
+        break;
+      case "timeout":
+        return invalid(pluginLoadDiagnostic(dependencyName, `did not finish loading within ${timeoutMilliseconds} ms.`));
+      case "exit":
+        return invalid(pluginLoadDiagnostic(dependencyName, `exited with code ${outcome.exitCode} while loading.`));
+      case "error":
+        return invalid(pluginLoadDiagnostic(dependencyName, `crashed while loading: ${outcome.message}`));
+      case "unreadable":
+        return invalid(pluginLoadDiagnostic(dependencyName, `produced an unreadable inspection result: ${outcome.message}`));
+      case "cancelled":
+      case "out-of-memory":
+        return invalid(pluginLoadDiagnostic(dependencyName, `could not be loaded (${outcome.kind}).`));
+    }
+    const message = outcome.message;
+    if (message.changedGlobals.length > 0) {
+      return invalid(pluginLoadDiagnostic(
+        dependencyName,
+        `modified globals while loading: ${message.changedGlobals.join(", ")}.`,
+      ));
+    }
+    if (message.kind === "invalid") {
+      return invalid(Object.freeze({ ...message.diagnostic }));
+    }
+    return {
+      dependency: Object.freeze({
+        name: dependencyName,
+        status: message.plugin.kind === "target" ? "target-plugin" : "capability-plugin",
+        ...(version === undefined ? {} : { version }),
+        targetId: message.plugin.targetId,
+      }),
+      diagnostics: [],
+      plugin: message.plugin,
+    };
+  } catch (error) {
+    return invalid(doctorDiagnostic("TSONIC_PLUGIN_INVALID", errorMessage(error)));
+  }
+}
+
+function capabilityRequirementDiagnostics(
+  targets: ReadonlyMap<string, DoctorTargetPluginSummary>,
+  capabilities: readonly DoctorCapabilityPluginSummary[],
+): readonly TargetDiagnostic[] {
+  const diagnostics: TargetDiagnostic[] = [];
+  for (const capability of capabilities) {
+    const target = targets.get(capability.targetId);
+    if (target === undefined) {
+      diagnostics.push(doctorDiagnostic(
+        "TARGET_CAPABILITY_SELECTION",
+        `Installed capability '${capability.id}' targets '${capability.targetId}', which no installed target plugin provides.`,
+      ));
+      continue;
+    }
+    for (const requiredSurfaceId of capability.requiredSurfaces) {
+      if (!target.surfaceIds.includes(requiredSurfaceId)) {
+        diagnostics.push(doctorDiagnostic(
+          "TARGET_CAPABILITY_SELECTION",
+          `Installed capability '${capability.id}' for target '${capability.targetId}' requires surface '${requiredSurfaceId}', which target '${capability.targetId}' does not implement.`,
+        ));
+      }
+    }
+    for (const requiredCapabilityId of capability.requiredCapabilities) {
+      if (!capabilities.some((candidate) =>
+        candidate.targetId === capability.targetId && candidate.id === requiredCapabilityId)) {
+        diagnostics.push(doctorDiagnostic(
+          "TARGET_CAPABILITY_SELECTION",
+          `Installed capability '${capability.id}' for target '${capability.targetId}' requires capability '${requiredCapabilityId}', which no installed plugin provides.`,
+        ));
+      }
+    }
+  }
+  return diagnostics;
+}
+
+function moduleOwnershipDiagnostics(
+  targets: ReadonlyMap<string, DoctorTargetPluginSummary>,
+  capabilities: readonly DoctorCapabilityPluginSummary[],
+): readonly TargetDiagnostic[] {
+  const diagnostics: TargetDiagnostic[] = [];
+  const targetIds = [...new Set([...targets.keys(), ...capabilities.map((capability) => capability.targetId)])].sort();
+  for (const targetId of targetIds) {
+    const provider = targets.get(targetId)?.provider;
+    const owners = [
+      ...(provider?.modulePrefixes ?? []).map((specifierPrefix) => ({ ownerId: provider?.id ?? targetId, specifierPrefix })),
+      ...capabilities
+        .filter((capability) => capability.targetId === targetId)
+        .flatMap((capability) => capability.modulePrefixes.map((specifierPrefix) => ({ ownerId: capability.id, specifierPrefix }))),
+    ];
+    for (let leftIndex = 0; leftIndex < owners.length; leftIndex += 1) {
+      for (let rightIndex = leftIndex + 1; rightIndex < owners.length; rightIndex += 1) {
+        const left = owners[leftIndex];
+        const right = owners[rightIndex];
+        if (
+          left === undefined ||
+          right === undefined ||
+          left.ownerId === right.ownerId ||
+          !moduleOwnershipOverlaps(left.specifierPrefix, right.specifierPrefix)
+        ) {
+          continue;
+        }
+        diagnostics.push(doctorDiagnostic(
+          "TARGET_MODULE_OWNERSHIP",
+          `Module prefixes '${left.specifierPrefix}' (${left.ownerId}) and '${right.specifierPrefix}' (${right.ownerId}) overlap for target '${targetId}'.`,
+        ));
+      }
+    }
+  }
+  return diagnostics;
+}
+
+function readRequiredNodeVersion(): string {
+  const packageJson = JSON.parse(readFileSync(new URL("../../package.json", import.meta.url), "utf8")) as unknown;
+  const engines = isRecord(packageJson) ? packageJson.engines : undefined;
+  const range = isRecord(engines) ? engines.node : undefined;
+  const version = typeof range === "string" ? /^>=\s*(\d+\.\d+\.\d+)$/u.exec(range.trim())?.[1] : undefined;
+  if (version === undefined) {
+    throw new Error("@tsonic/host package.json must declare engines.node as '>=<major>.<minor>.<patch>'.");
+  }
+  return version;
+}
+
+function compareVersions(left: string, right: string): number {
+  const leftParts = left.replace(/^v/u, "").split(".").map((part) => Number.parseInt(part, 10) || 0);
+  const rightParts = right.replace(/^v/u, "").split(".").map((part) => Number.parseInt(part, 10) || 0);
+  for (let index = 0; index < 3; index += 1) {
+    const difference = (leftParts[index] ?? 0) - (rightParts[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function pluginLoadDiagnostic(dependencyName: string, problem: string): TargetDiagnostic {
+  return doctorDiagnostic("TSONIC_PLUGIN_INVALID", `Tsonic plugin '${dependencyName}' ${problem}`);
+}
+
+function doctorDiagnostic(code: string, message: string): TargetDiagnostic {
+  return Object.freeze({ code, category: "error", source: "tsonic-host", message });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isRecord(value: unknown): value is Readonly<Record<string, unknown>> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -6,9 +6,17 @@ import type {
 import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
 import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
 
+export interface InstalledTsonicPluginPackage {
+  readonly name: string;
+  readonly version: string;
+  readonly packageRoot: string;
+  readonly manifestFingerprint: string;
+}
+
 export interface InstalledTsonicPluginRegistry {
   readonly targets: readonly TsonicTargetPlugin[];
   readonly capabilities: readonly TargetCapabilityImplementation[];
+  readonly packages: readonly InstalledTsonicPluginPackage[];
   readonly diagnostics: readonly TargetDiagnostic[];
   createTargetRegistry(): TargetRegistry;
 }
@@ -16,9 +24,31 @@ export interface InstalledTsonicPluginRegistry {
 export function createInstalledTsonicPluginRegistry(
   targets: readonly TsonicTargetPlugin[],
   capabilities: readonly TargetCapabilityImplementation[],
+  packages: readonly InstalledTsonicPluginPackage[] = [],
 ): InstalledTsonicPluginRegistry {
-  const diagnostics: TargetDiagnostic[] = [];
+  const diagnostics = duplicateTargetPluginDiagnostics(targets);
   const targetById = new Map<string, TsonicTargetPlugin>();
+  for (const target of targets) {
+    if (!targetById.has(target.targetId)) {
+      targetById.set(target.targetId, target);
+    }
+  }
+  return {
+    targets,
+    capabilities,
+    packages,
+    diagnostics,
+    createTargetRegistry(): TargetRegistry {
+      return createTargetRegistry([...targetById.values()].map((target) => target.createTargetPack()));
+    },
+  };
+}
+
+export function duplicateTargetPluginDiagnostics(
+  targets: readonly Pick<TsonicTargetPlugin, "id" | "targetId">[],
+): readonly TargetDiagnostic[] {
+  const diagnostics: TargetDiagnostic[] = [];
+  const targetById = new Map<string, Pick<TsonicTargetPlugin, "id" | "targetId">>();
   for (const target of targets) {
     const previous = targetById.get(target.targetId);
     if (previous !== undefined) {
@@ -32,12 +62,5 @@ export function createInstalledTsonicPluginRegistry(
     }
     targetById.set(target.targetId, target);
   }
-  return {
-    targets,
-    capabilities,
-    diagnostics,
-    createTargetRegistry(): TargetRegistry {
-      return createTargetRegistry([...targetById.values()].map((target) => target.createTargetPack()));
-    },
-  };
+  return diagnostics;
 }
@@ -0,0 +1,98 @@
+import { performance } from "node:perf_hooks";
+import type { TargetCompilationProfiler } from "@tsonic/target-api/artifacts";
+
+export interface BuildProfileSpan {
+  readonly name: string;
+  readonly targetId?: string;
+  readonly thread: number;
+  readonly depth: number;
+  readonly startTime: number;
+  readonly duration: number;
+  readonly heapDelta: number;
+  readonly counts: Readonly<Record<string, number>>;
+}
+
+export interface BuildProfileSpanOptions<T> {
+  readonly targetId?: string;
+  readonly counts?: (result: T) => Readonly<Record<string, number>>;
+}
+
+export interface BuildProfiler extends TargetCompilationProfiler {
+  span<T>(name: string, run: () => T, options?: BuildProfileSpanOptions<T>): T;
+  spanAsync<T>(name: string, run: () => Promise<T>, options?: BuildProfileSpanOptions<T>): Promise<T>;
+  record(spans: readonly BuildProfileSpan[], thread: number): void;
+  spans(): readonly BuildProfileSpan[];
+}
+
+interface OpenBuildProfileSpan {
+  readonly name: string;
+  readonly targetId?: string;
+  readonly depth: number;
+  readonly startTime: number;
+  readonly heapUsed: number;
+}
+
+export function createBuildProfiler(): BuildProfiler {
+  const stack: OpenBuildProfileSpan[] = [];
+  const completed: BuildProfileSpan[] = [];
+  const open = (name: string, targetId: string | undefined): OpenBuildProfileSpan => {
+    const parentTargetId = targetId ?? stack[stack.length - 1]?.targetId;
+    const span: OpenBuildProfileSpan = {
+      name,
+      ...(parentTargetId === undefined ? {} : { targetId: parentTargetId }),
+      depth: stack.length,
+      startTime: currentTime(),
+      heapUsed: process.memoryUsage().heapUsed,
+    };
+    stack.push(span);
+    return span;
+  };
+  const close = (span: OpenBuildProfileSpan, counts: Readonly<Record<string, number>>): void => {
+    stack.splice(stack.lastIndexOf(span), 1);
+    completed.push(Object.freeze({
+      name: span.name,
+      ...(span.targetId === undefined ? {} : { targetId: span.targetId }),
+      thread: 0,
+      depth: span.depth,
+      startTime: span.startTime,
+      duration: currentTime() - span.startTime,
+      heapDelta: process.memoryUsage().heapUsed - span.heapUsed,
+      counts: Object.freeze({ ...counts }),
+    }));
+  };
+  return Object.freeze({
+    span<T>(name: string, run: () => T, options?: BuildProfileSpanOptions<T>): T {
+      const span = open(name, options?.targetId);
+      let counts: Readonly<Record<string, number>> = {};
+      try {
+        const result = run();
+        counts = options?.counts?.(result) ?? {};
+        return result;
+      } finally {
+        close(span, counts);
+      }
+    },
+    async spanAsync<T>(name: string, run: () => Promise<T>, options?: BuildProfileSpanOptions<T>): Promise<T> {
+      const span = open(name, options?.targetId);
+      let counts: Readonly<Record<string, number>> = {};
+      try {
+        const result = await run();
+        counts = options?.counts?.(result) ?? {};
+        return result;
+      } finally {
+        close(span, counts);
+      }
+    },
+    record(spans: readonly BuildProfileSpan[], thread: number): void {
+      completed.push(...spans.map((span) => Object.freeze({ ...span, thread })));
+    },
+    spans(): readonly BuildProfileSpan[] {
+      return Object.freeze([...completed].sort((left, right) =>
+        left.thread - right.thread || left.startTime - right.startTime || left.depth - right.depth));
+    },
+  });
+}
+
+function currentTime(): number {
+  return performance.timeOrigin + performance.now();
+}
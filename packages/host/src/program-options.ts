@@ -9,7 +9,7 @@ import type { BundledLibrarySource, ProgramOptions } from "@tsonic/tsts";
 import type { TargetSourcePackageGraph, TsonicProjectConfig } from "@tsonic/target-api";
 import type { TargetSourceDeclarationPolicy } from "@tsonic/target-api/provider";
 import { existsSync, readdirSync, readFileSync } from "node:fs";
-import { join } from "node:path";
+import { basename, join } from "node:path";
 import { createHash } from "node:crypto";
 import {
   appendInstalledDeclarationPackageFiles,
@@ -28,6 +28,7 @@ export interface CreateProgramOptionsInput {
     readonly text: string;
   }[];
   readonly sourceDeclarationPolicy?: TargetSourceDeclarationPolicy;
+  readonly sourceOverlays?: ReadonlyMap<string, string>;
 }
 
 export interface SourceDeclarationSnapshot {
@@ -53,6 +54,7 @@ export interface CreatedProgramOptions {
 export function createProgramOptionsForProject(input: CreateProgramOptionsInput): CreatedProgramOptions {
   const paths = resolveProjectPaths(input);
   const projectFiles = collectProjectFiles(paths.projectRoot, paths.outputRoot);
+  applySourceOverlays(projectFiles, paths.projectRoot, paths.outputRoot, input.sourceOverlays);
   appendProjectPackageJson(paths.projectDirectory, projectFiles);
   const sourcePackages = collectTargetSourcePackageGraph(
     paths.projectDirectory,
@@ -123,6 +125,19 @@ export function createProgramOptionsForProject(input: CreateProgramOptionsInput)
   };
 }
 
+export function fingerprintProjectSources(input: CreateProgramOptionsInput): string {
+  const paths = resolveProjectPaths(input);
+  const projectFiles = collectProjectFiles(paths.projectRoot, paths.outputRoot);
+  applySourceOverlays(projectFiles, paths.projectRoot, paths.outputRoot, input.sourceOverlays);
+  appendProjectPackageJson(paths.projectDirectory, projectFiles);
+  const hash = createHash("sha256");
+  for (const [path, text] of [...projectFiles].sort(([left], [right]) => left.localeCompare(right))) {
+    appendHashPart(hash, path);
+    appendHashPart(hash, text);
+  }
+  return hash.digest("hex");
+}
+
 function normalizeSourceDeclarationPolicy(policy: TargetSourceDeclarationPolicy | undefined): {
   readonly bundledLibraries: readonly string[];
   readonly installedDeclarations?: "package-contract";
@@ -223,6 +238,24 @@ function visitDirectory(directory: string, files: Map<string, string>, outputRoo
   }
 }
 
+function applySourceOverlays(
+  files: Map<string, string>,
+  projectRoot: string,
+  outputRoot: string,
+  overlays: ReadonlyMap<string, string> | undefined,
+): void {
+  for (const [path, text] of overlays ?? []) {
+    const normalizedPath = path.split("\\").join("/");
+    if (
+      isPathWithinOrEqual(projectRoot, normalizedPath) &&
+      !isPathWithinOrEqual(outputRoot, normalizedPath) &&
+      isResolverInputFile(basename(normalizedPath))
+    ) {
+      files.set(normalizedPath, text);
+    }
+  }
+}
+
 function shouldSkipEntry(name: string): boolean {
   return name === ".git" ||
     name === ".temp" ||
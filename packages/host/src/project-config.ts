@@ -5,9 +5,23 @@ import {
 } from "@tsonic/target-api";
 import type {
   TargetSelection,
+  TsonicDiagnosticSeverity,
+  TsonicDiagnosticsConfig,
   TsonicProjectConfig,
 } from "@tsonic/target-api";
 
+export const projectConfigKeys = Object.freeze(["$schema", "entryPoint", "rootFiles", "rootDir", "outDir", "targets", "diagnostics"] as const);
+
+export const targetSelectionKeys = Object.freeze(["id", "surfaces", "options"] as const);
+
+export const diagnosticsConfigKeys = Object.freeze(["warningsAsErrors", "severity", "baseline"] as const);
+
+export const diagnosticSeverities: readonly TsonicDiagnosticSeverity[] = Object.freeze(["error", "warning", "suggestion", "off"]);
+
+export const entryPointExtensionPattern = /\.(?:mts|ts)$/u;
+
+export const declarationFileExtensionPattern = /\.d\.(?:mts|ts)$/u;
+
 export function parseTsonicProjectConfig(value: unknown): TsonicProjectConfig {
   if (!isRecord(value)) {
     throw new Error("Project config must be an object.");
@@ -18,15 +32,49 @@ export function parseTsonicProjectConfig(value: unknown): TsonicProjectConfig {
     throw new Error("Project config entryPoint must use a final ESM TypeScript source extension: .ts or .mts.");
   }
   const rootFiles = readOptionalRootFiles(value);
+  const diagnostics = readOptionalDiagnostics(value.diagnostics);
   return {
     entryPoint,
     ...(rootFiles !== undefined ? { rootFiles } : {}),
     ...(readOptionalString(value, "rootDir") !== undefined ? { rootDir: readOptionalString(value, "rootDir") } : {}),
     ...(readOptionalString(value, "outDir") !== undefined ? { outDir: readOptionalString(value, "outDir") } : {}),
     targets: readTargets(value.targets),
+    ...(diagnostics !== undefined ? { diagnostics } : {}),
   };
 }
 
+function readOptionalDiagnostics(value: unknown): TsonicDiagnosticsConfig | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    throw new Error("Project config diagnostics must be an object.");
+  }
+  rejectUnknownKeys(value, new Set(diagnosticsConfigKeys), "Project config diagnostics");
+  const warningsAsErrors = value.warningsAsErrors;
+  if (warningsAsErrors !== undefined && typeof warningsAsErrors !== "boolean") {
+    throw new Error("Project config diagnostics.warningsAsErrors must be a boolean.");
+  }
+  const severity = value.severity;
+  if (severity !== undefined && !isRecord(severity)) {
+    throw new Error("Project config diagnostics.severity must be an object mapping diagnostic codes to severities.");
+  }
+  for (const [code, level] of Object.entries(severity ?? {})) {
+    if (code.length === 0 || !diagnosticSeverities.includes(level as TsonicDiagnosticSeverity)) {
+      throw new Error(`Project config diagnostics.severity '${code}' must be one of ${diagnosticSeverities.join(", ")}.`);
+    }
+  }
+  const baseline = value.baseline;
+  if (baseline !== undefined && (typeof baseline !== "string" || baseline.length === 0)) {
+    throw new Error("Project config diagnostics.baseline must be a non-empty path relative to tsonic.json.");
+  }
+  return Object.freeze({
+    ...(warningsAsErrors !== undefined ? { warningsAsErrors } : {}),
+    ...(severity !== undefined ? { severity: Object.freeze({ ...severity }) as Readonly<Record<string, TsonicDiagnosticSeverity>> } : {}),
+    ...(baseline !== undefined ? { baseline } : {}),
+  });
+}
+
 function readTargets(value: unknown): readonly TargetSelection[] {
   if (!Array.isArray(value) || value.length === 0) {
     throw new Error("Project config requires a non-empty targets array.");
@@ -60,7 +108,7 @@ function readTargets(value: unknown): readonly TargetSelection[] {
 
 function rejectUnknownProjectConfigKeys(value: Readonly<Record<string, unknown>>): void {
   rejectUnsupportedCompilerConfigKeys(value);
-  rejectUnknownKeys(value, new Set(["$schema", "entryPoint", "rootFiles", "rootDir", "outDir", "targets"]), "Project config");
+  rejectUnknownKeys(value, new Set(projectConfigKeys), "Project config");
 }
 
 function rejectUnsupportedCompilerConfigKeys(value: Readonly<Record<string, unknown>>): void {
@@ -75,7 +123,7 @@ function rejectUnknownTargetKeys(value: Readonly<Record<string, unknown>>, index
   if (value.packages !== undefined) {
     throw new Error(`Target at index ${index} has unsupported field 'packages'. Install a Tsonic target capability package instead.`);
   }
-  rejectUnknownKeys(value, new Set(["id", "surfaces", "options"]), `Target at index ${index}`);
+  rejectUnknownKeys(value, new Set(targetSelectionKeys), `Target at index ${index}`);
 }
 
 function rejectUnknownKeys(value: Readonly<Record<string, unknown>>, allowedKeys: ReadonlySet<string>, subject: string): void {
@@ -157,5 +205,5 @@ function isRecord(value: unknown): value is Readonly<Record<string, unknown>> {
 }
 
 function isSupportedEntryPoint(value: string): boolean {
-  return /\.(?:mts|ts)$/.test(value) && !/\.d\.(?:mts|ts)$/.test(value);
+  return entryPointExtensionPattern.test(value) && !declarationFileExtensionPattern.test(value);
 }
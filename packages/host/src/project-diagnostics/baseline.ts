@@ -0,0 +1,90 @@
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { TsonicProjectConfig } from "@tsonic/target-api";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+
+export interface DiagnosticBaselineEntry {
+  readonly code: string;
+  readonly file?: string;
+  readonly message: string;
+}
+
+export interface DiagnosticBaseline {
+  readonly schemaVersion: 1;
+  readonly diagnostics: readonly DiagnosticBaselineEntry[];
+}
+
+export function resolveDiagnosticBaselinePath(project: TsonicProjectConfig, projectFilePath: string): string | undefined {
+  const baseline = project.diagnostics?.baseline;
+  return baseline === undefined ? undefined : resolve(dirname(resolve(projectFilePath)), baseline);
+}
+
+export function readDiagnosticBaselineText(baselinePath: string): string | undefined {
+  try {
+    return readFileSync(baselinePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export function parseDiagnosticBaseline(text: string, baselinePath: string): DiagnosticBaseline {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Diagnostic baseline '${baselinePath}' is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (
+    !isRecord(value) ||
+    value.schemaVersion !== 1 ||
+    !Array.isArray(value.diagnostics) ||
+    !value.diagnostics.every(isDiagnosticBaselineEntry)
+  ) {
+    throw new Error(`Diagnostic baseline '${baselinePath}' must be a schemaVersion 1 document listing code, file and message entries. Run 'tsonic baseline update' to regenerate it.`);
+  }
+  return Object.freeze({ schemaVersion: 1, diagnostics: Object.freeze(value.diagnostics) });
+}
+
+export function createDiagnosticBaseline(diagnostics: readonly TargetDiagnostic[]): DiagnosticBaseline {
+  const entries = new Map<string, DiagnosticBaselineEntry>();
+  for (const diagnostic of diagnostics) {
+    const entry = diagnosticBaselineEntryOf(diagnostic);
+    entries.set(diagnosticBaselineKey(entry), entry);
+  }
+  return Object.freeze({
+    schemaVersion: 1,
+    diagnostics: Object.freeze([...entries.values()].sort(compareBaselineEntries)),
+  });
+}
+
+export function diagnosticBaselineKey(entry: DiagnosticBaselineEntry): string {
+  return JSON.stringify([entry.code, entry.file ?? "", entry.message]);
+}
+
+export function diagnosticBaselineEntryOf(diagnostic: TargetDiagnostic): DiagnosticBaselineEntry {
+  return Object.freeze({
+    code: diagnostic.code,
+    ...(diagnostic.sourceSpan === undefined ? {} : { file: diagnostic.sourceSpan.fileName }),
+    message: diagnostic.message,
+  });
+}
+
+function compareBaselineEntries(left: DiagnosticBaselineEntry, right: DiagnosticBaselineEntry): number {
+  return (left.file ?? "").localeCompare(right.file ?? "") ||
+    left.code.localeCompare(right.code) ||
+    left.message.localeCompare(right.message);
+}
+
+function isDiagnosticBaselineEntry(value: unknown): value is DiagnosticBaselineEntry {
+  return isRecord(value) &&
+    typeof value.code === "string" &&
+    typeof value.message === "string" &&
+    (value.file === undefined || typeof value.file === "string");
+}
+
+function isRecord(value: unknown): value is Readonly<Record<string, unknown>> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
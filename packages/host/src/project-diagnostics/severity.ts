@@ -0,0 +1,58 @@
+import type { TargetDiagnosticCodeRegistry, TsonicDiagnosticSeverity, TsonicProjectConfig } from "@tsonic/target-api";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import {
+  diagnosticBaselineEntryOf,
+  diagnosticBaselineKey,
+  parseDiagnosticBaseline,
+  readDiagnosticBaselineText,
+  resolveDiagnosticBaselinePath,
+} from "./baseline.js";
+
+export interface ProjectDiagnosticsFilterInput {
+  readonly project: TsonicProjectConfig;
+  readonly projectFilePath: string;
+  readonly diagnosticCodes: TargetDiagnosticCodeRegistry;
+  readonly ignoreBaseline?: boolean;
+}
+
+export type ProjectDiagnosticsFilter = (diagnostics: readonly TargetDiagnostic[]) => readonly TargetDiagnostic[];
+
+export function createProjectDiagnosticsFilter(input: ProjectDiagnosticsFilterInput): ProjectDiagnosticsFilter {
+  const config = input.project.diagnostics;
+  if (config === undefined) {
+    return (diagnostics) => diagnostics;
+  }
+  const canonicalCode = (code: string): string => input.diagnosticCodes.get(code)?.code ?? code;
+  const overrides = new Map(Object.entries(config.severity ?? {}).map(([code, severity]) => [canonicalCode(code), { code, severity }]));
+  const baselinePath = input.ignoreBaseline === true ? undefined : resolveDiagnosticBaselinePath(input.project, input.projectFilePath);
+  const baselineText = baselinePath === undefined ? undefined : readDiagnosticBaselineText(baselinePath);
+  const accepted = new Set(baselinePath === undefined || baselineText === undefined
+    ? []
+    : parseDiagnosticBaseline(baselineText, baselinePath).diagnostics.map(diagnosticBaselineKey));
+  return (diagnostics) => Object.freeze(diagnostics.flatMap((diagnostic): readonly TargetDiagnostic[] => {
+    if (isBlockingTypeScriptDiagnostic(diagnostic)) {
+      return [diagnostic];
+    }
+    const override = overrides.get(canonicalCode(diagnostic.code));
+    const severity: TsonicDiagnosticSeverity = override?.severity ??
+      (config.warningsAsErrors === true && diagnostic.category === "warning" ? "error" : diagnostic.category);
+    if (severity === "off" || accepted.has(diagnosticBaselineKey(diagnosticBaselineEntryOf(diagnostic)))) {
+      return [];
+    }
+    if (severity === diagnostic.category) {
+      return [diagnostic];
+    }
+    return [Object.freeze({
+      ...diagnostic,
+      category: severity,
+      evidence: [
+        ...diagnostic.evidence ?? [],
+        override === undefined ? "tsonic.json diagnostics.warningsAsErrors" : `tsonic.json diagnostics.severity.${override.code}=${severity}`,
+      ],
+    })];
+  }));
+}
+
+export function isBlockingTypeScriptDiagnostic(diagnostic: TargetDiagnostic): boolean {
+  return diagnostic.code === "TSTS_DIAGNOSTIC" && diagnostic.category === "error";
+}
@@ -0,0 +1,185 @@
+import type { AstReader, CheckedSourceProgram, Node, SourceFile } from "@tsonic/tsts";
+import type { TargetDiagnosticCodeRegistry } from "@tsonic/target-api";
+import type { TargetDiagnostic, TargetDiagnosticSourceSpan } from "@tsonic/target-api/artifacts";
+import { sourceProjectFiles } from "@tsonic/target-api/source";
+import { formatSourceFileName } from "../diagnostics.js";
+
+export interface DiagnosticSuppressions {
+  readonly diagnostics: readonly TargetDiagnostic[];
+  apply(diagnostics: readonly TargetDiagnostic[]): readonly TargetDiagnostic[];
+  unusedDiagnostics(): readonly TargetDiagnostic[];
+}
+
+interface DiagnosticSuppression {
+  readonly code: string;
+  readonly canonicalCode: string;
+  readonly sourceSpan: TargetDiagnosticSourceSpan;
+  used: boolean;
+}
+
+const suppressionCommentPattern = /^\/\/\s*tsonic-ignore-next-line\b(.*)$/u;
+
+const suppressionBodyPattern = /^\s+([A-Z][A-Z0-9_]*(?:\s*,\s*[A-Z][A-Z0-9_]*)*)\s*:\s*(\S.*)$/u;
+
+export function collectDiagnosticSuppressions(
+  source: CheckedSourceProgram,
+  currentDirectory: string,
+  diagnosticCodes: TargetDiagnosticCodeRegistry,
+): DiagnosticSuppressions {
+  const canonicalCode = (code: string): string => diagnosticCodes.get(code)?.code ?? code;
+  const suppressionsByLine = new Map<string, DiagnosticSuppression[]>();
+  const diagnostics: TargetDiagnostic[] = [];
+  for (const sourceFile of sourceProjectFiles(source)) {
+    const fileName = formatSourceFileName(source.ast.getFileName(sourceFile), currentDirectory);
+    const text = source.ast.getSourceText(sourceFile);
+    for (const comment of collectOwnLineComments(source.ast, sourceFile, text)) {
+      const match = suppressionCommentPattern.exec(comment.text);
+      if (match === null) {
+        continue;
+      }
+      const sourceSpan: TargetDiagnosticSourceSpan = Object.freeze({
+        fileName,
+        line: comment.line,
+        column: comment.column,
+        endLine: comment.line,
+        endColumn: comment.column + comment.text.trimEnd().length,
+      });
+      const body = suppressionBodyPattern.exec(match[1] ?? "");
+      if (body === null) {
+        diagnostics.push(suppressionDiagnostic(
+          "TSONIC_SUPPRESSION_INVALID",
+          "error",
+          "tsonic-ignore-next-line must name one or more diagnostic codes followed by ': <reason>'.",
+          sourceSpan,
+        ));
+        continue;
+      }
+      const suppressions = suppressionsByLine.get(lineKey(fileName, comment.line + 1)) ?? [];
+      for (const code of (body[1] ?? "").split(",").map((entry) => entry.trim())) {
+        if (canonicalCode(code) === "TSTS_DIAGNOSTIC") {
+          diagnostics.push(suppressionDiagnostic(
+            "TSONIC_SUPPRESSION_INVALID",
+            "error",
+            "TypeScript diagnostics cannot be suppressed; fix the type error instead.",
+            sourceSpan,
+          ));
+          continue;
+        }
+        suppressions.push({ code, canonicalCode: canonicalCode(code), sourceSpan, used: false });
+      }
+      suppressionsByLine.set(lineKey(fileName, comment.line + 1), suppressions);
+    }
+  }
+  return Object.freeze({
+    diagnostics: Object.freeze(diagnostics),
+    apply(candidates: readonly TargetDiagnostic[]): readonly TargetDiagnostic[] {
+      return Object.freeze(candidates.filter((diagnostic) => {
+        if (diagnostic.code === "TSTS_DIAGNOSTIC" || diagnostic.sourceSpan === undefined) {
+          return true;
+        }
+        const code = canonicalCode(diagnostic.code);
+        const suppression = suppressionsByLine.get(lineKey(diagnostic.sourceSpan.fileName, diagnostic.sourceSpan.line))
+          ?.find((candidate) => candidate.canonicalCode === code);
+        if (suppression === undefined) {
+          return true;
+        }
+        suppression.used = true;
+        return false;
+      }));
+    },
+    unusedDiagnostics(): readonly TargetDiagnostic[] {
+      return Object.freeze([...suppressionsByLine.values()].flat()
+        .filter((suppression) => !suppression.used)
+        .map((suppression) => suppressionDiagnostic(
+          "TSONIC_SUPPRESSION_UNUSED",
+          "warning",
+          `Suppression for '${suppression.code}' did not match any diagnostic on the next line.`,
+          suppression.sourceSpan,
+        )));
+    },
+  });
+}
+
+export function commonUnusedSuppressionDiagnostics(
+  unusedByTarget: readonly (readonly TargetDiagnostic[])[],
+): readonly TargetDiagnostic[] {
+  const [first = [], ...rest] = unusedByTarget;
+  const unusedElsewhere = rest.map((diagnostics) => new Set(diagnostics.map(unusedSuppressionKey)));
+  return Object.freeze(first.filter((diagnostic) =>
+    unusedElsewhere.every((keys) => keys.has(unusedSuppressionKey(diagnostic)))));
+}
+
+function collectOwnLineComments(
+  ast: AstReader,
+  sourceFile: SourceFile,
+  text: string,
+): readonly { readonly text: string; readonly line: number; readonly column: number }[] {
+  const tokens: { readonly start: number; readonly end: number }[] = [];
+  const pending: Node[] = [sourceFile];
+  while (pending.length > 0) {
+    const node = pending.pop();
+    if (node === undefined) {
+      continue;
+    }
+    const children = ast.children(node).filter((child): child is Node => child !== undefined);
+    const range = ast.authoredRange(node);
+    if (children.length === 0 && range.kind === "authored" && range.end > range.start) {
+      tokens.push({ start: range.start, end: range.end });
+    }
+    pending.push(...children);
+  }
+  tokens.sort((left, right) => left.start - right.start);
+  const commentStarts: number[] = [];
+  let triviaStart = 0;
+  for (const token of [...tokens, { start: text.length, end: text.length }]) {
+    collectLineCommentStarts(text, triviaStart, token.start, commentStarts);
+    triviaStart = Math.max(triviaStart, token.end);
+  }
+  const lineStarts = [0, ...[...text.matchAll(/\n/gu)].map((newline) => (newline.index ?? 0) + 1)];
+  return commentStarts.flatMap((start) => {
+    const lineIndex = lineStarts.filter((lineStart) => lineStart <= start).length - 1;
+    const lineStart = lineStarts[lineIndex] ?? 0;
+    if (text.slice(lineStart, start).trim().length > 0) {
+      return [];
+    }
+    const newline = text.indexOf("\n", start);
+    return [{
+      text: text.slice(start, newline === -1 ? text.length : newline).replace(/\r$/u, ""),
+      line: lineIndex + 1,
+      column: start - lineStart + 1,
+    }];
+  });
+}
+
+function collectLineCommentStarts(text: string, start: number, end: number, commentStarts: number[]): void {
+  let index = start;
+  while (index < end) {
+    if (text.startsWith("//", index)) {
+      commentStarts.push(index);
+      const newline = text.indexOf("\n", index);
+      index = newline === -1 ? text.length : newline;
+    } else if (text.startsWith("/*", index)) {
+      const close = text.indexOf("*/", index + 2);
+      index = close === -1 ? text.length : close + 2;
+    } else {
+      index += 1;
+    }
+  }
+}
+
+function unusedSuppressionKey(diagnostic: TargetDiagnostic): string {
+  return JSON.stringify([diagnostic.code, diagnostic.message, diagnostic.sourceSpan]);
+}
+
+function suppressionDiagnostic(
+  code: string,
+  category: TargetDiagnostic["category"],
+  message: string,
+  sourceSpan: TargetDiagnosticSourceSpan,
+): TargetDiagnostic {
+  return Object.freeze({ code, category, message, source: "tsonic-host", sourceSpan });
+}
+
+function lineKey(fileName: string, line: number): string {
+  return `${fileName}:${line}`;
+}
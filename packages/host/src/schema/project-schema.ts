@@ -0,0 +1,142 @@
+import { getTargetIdPattern } from "@tsonic/target-api";
+import type { TargetOptionDescriptor, TargetOptionType, TargetPack } from "@tsonic/target-api";
+import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
+import {
+  declarationFileExtensionPattern,
+  diagnosticSeverities,
+  entryPointExtensionPattern,
+  projectConfigKeys,
+  targetSelectionKeys,
+} from "../project-config.js";
+import { collectTargetOptionDescriptors, declaresTargetOptions } from "../target/target-options.js";
+
+export type JsonSchema = Readonly<Record<string, unknown>>;
+
+const sourcePathSchema: JsonSchema = Object.freeze({
+  type: "string",
+  pattern: entryPointExtensionPattern.source,
+  not: { pattern: declarationFileExtensionPattern.source },
+});
+
+const projectPropertySchemas: Readonly<Record<typeof projectConfigKeys[number], JsonSchema>> = Object.freeze({
+  $schema: { type: "string" },
+  entryPoint: { ...sourcePathSchema, description: "Entry module relative to rootDir; a final .ts or .mts source." },
+  rootFiles: {
+    type: "array",
+    minItems: 1,
+    uniqueItems: true,
+    items: sourcePathSchema,
+    description: "Additional root modules relative to rootDir.",
+  },
+  rootDir: { type: "string", minLength: 1, description: "Source root directory." },
+  outDir: { type: "string", minLength: 1, description: "Compiler-owned output directory." },
+  targets: { type: "array", minItems: 1, description: "Targets to compile, one entry per target id." },
+  diagnostics: {
+    type: "object",
+    additionalProperties: false,
+    description: "Project diagnostic policy applied before publication.",
+    properties: {
+      warningsAsErrors: { type: "boolean", description: "Treat every warning as a blocking error." },
+      severity: {
+        type: "object",
+        additionalProperties: { enum: diagnosticSeverities },
+        description: "Severity overrides keyed by diagnostic code.",
+      },
+      baseline: { type: "string", minLength: 1, description: "Accepted-diagnostics baseline file relative to tsonic.json." },
+    },
+  },
+});
+
+const targetOptionTypeSchemas: Readonly<Record<TargetOptionType, JsonSchema>> = Object.freeze({
+  "string": { type: "string" },
+  "number": { type: "number" },
+  "boolean": { type: "boolean" },
+  "string-list": { type: "array", items: { type: "string" } },
+  "string-map": { type: "object", additionalProperties: { type: "string" } },
+});
+
+export function createTsonicProjectSchema(
+  packs: readonly TargetPack[],
+  capabilities: readonly TargetCapabilityImplementation[] = [],
+): JsonSchema {
+  return Object.freeze({
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "Tsonic project",
+    type: "object",
+    additionalProperties: false,
+    required: ["entryPoint", "targets"],
+    properties: {
+      ...projectPropertySchemas,
+      targets: { ...projectPropertySchemas.targets, items: createTargetSelectionSchema(packs, capabilities) },
+    },
+  });
+}
+
+export function createTargetOptionsSchema(
+  pack: TargetPack,
+  capabilities: readonly TargetCapabilityImplementation[] = [],
+): JsonSchema | undefined {
+  const targetCapabilities = capabilities.filter((capability) => capability.targetId === pack.id);
+  if (!declaresTargetOptions(pack, pack.surfaces, targetCapabilities)) {
+    return undefined;
+  }
+  const collected = collectTargetOptionDescriptors(pack, pack.surfaces, targetCapabilities);
+  if ("error" in collected) {
+    throw new Error(collected.error);
+  }
+  const options = collected.descriptors;
+  const required = options
+    .filter((option) => option.required === true && option.default === undefined)
+    .map((option) => option.name);
+  return Object.freeze({
+    type: "object",
+    description: `${pack.displayName} options.`,
+    additionalProperties: false,
+    properties: Object.fromEntries(options.map((option) => [option.name, createTargetOptionSchema(option)])),
+    ...(required.length > 0 ? { required } : {}),
+  });
+}
+
+function createTargetSelectionSchema(
+  packs: readonly TargetPack[],
+  capabilities: readonly TargetCapabilityImplementation[],
+): JsonSchema {
+  const targetIdSchema = {
+    type: "string",
+    pattern: getTargetIdPattern(),
+    ...(packs.length > 0 ? { examples: packs.map((pack) => pack.id) } : {}),
+  };
+  const propertySchemas: Readonly<Record<typeof targetSelectionKeys[number], JsonSchema>> = {
+    id: targetIdSchema,
+    surfaces: { type: "array", uniqueItems: true, items: { type: "string", pattern: getTargetIdPattern() } },
+    options: { type: "object" },
+  };
+  const packSchemas = packs.map((pack) => {
+    const options = createTargetOptionsSchema(pack, capabilities);
+    return {
+      if: { properties: { id: { const: pack.id } }, required: ["id"] },
+      then: {
+        properties: {
+          surfaces: { type: "array", items: { enum: pack.surfaces.map((surface) => surface.id) } },
+          ...(options !== undefined ? { options } : {}),
+        },
+      },
+    };
+  });
+  return {
+    type: "object",
+    additionalProperties: false,
+    required: ["id"],
+    properties: propertySchemas,
+    ...(packSchemas.length > 0 ? { allOf: packSchemas } : {}),
+  };
+}
+
+function createTargetOptionSchema(option: TargetOptionDescriptor): JsonSchema {
+  return {
+    ...(option.type !== undefined ? targetOptionTypeSchemas[option.type] : {}),
+    description: option.deprecated === undefined ? option.description : `${option.description} Deprecated: ${option.deprecated}`,
+    ...(option.default !== undefined ? { default: option.default } : {}),
+    ...(option.deprecated !== undefined ? { deprecated: true } : {}),
+  };
+}
@@ -0,0 +1,61 @@
+import { compileProject, projectUnusedSuppressionDiagnostics } from "../build.js";
+import type { CompileProjectInput, ProjectBuildResult, TargetBuildResult } from "../build.js";
+import { fingerprintProjectSources } from "../program-options.js";
+import { selectProjectTargets } from "../target/build-plan.js";
+import { createTargetCompilerSessions } from "./target-compiler-sessions.js";
+
+export type ProjectDiagnosticSessionInput = Omit<CompileProjectInput, "prepareToolchain" | "sourceOverlays" | "signal" | "compilerSessions">;
+
+export interface ProjectDiagnosticSession {
+  check(sourceOverlays?: ReadonlyMap<string, string>, signal?: AbortSignal): Promise<ProjectBuildResult>;
+  invalidate(): void;
+  close(): void;
+}
+
+export function createProjectDiagnosticSession(input: ProjectDiagnosticSessionInput): ProjectDiagnosticSession {
+  let last: { readonly fingerprint: string; readonly result: ProjectBuildResult } | undefined;
+  let closed = false;
+  const compilerSessions = createTargetCompilerSessions();
+  return {
+    async check(sourceOverlays, signal) {
+      if (closed) {
+        throw new Error("Project diagnostic session is closed.");
+      }
+      const checkInput: CompileProjectInput = {
+        ...input,
+        prepareToolchain: false,
+        compilerSessions,
+        ...(sourceOverlays === undefined ? {} : { sourceOverlays }),
+        ...(signal === undefined ? {} : { signal }),
+      };
+      const fingerprint = fingerprintProjectSources(checkInput);
+      if (last?.fingerprint === fingerprint) {
+        return last.result;
+      }
+      const targets: TargetBuildResult[] = [];
+      for (const target of selectProjectTargets(checkInput)) {
+        await new Promise((resolveTurn) => setImmediate(resolveTurn));
+        targets.push(...compileProject({ ...checkInput, targetIds: [target.id] }).targets);
+      }
+      const result: ProjectBuildResult = Object.freeze({
+        targets: Object.freeze(targets),
+        diagnostics: Object.freeze([
+          ...targets.flatMap((target) => target.diagnostics),
+          ...projectUnusedSuppressionDiagnostics(targets),
+        ]),
+      });
+      if (signal?.aborted !== true && !closed) {
+        last = { fingerprint, result };
+      }
+      return result;
+    },
+    invalidate() {
+      last = undefined;
+    },
+    close() {
+      closed = true;
+      last = undefined;
+      compilerSessions.clear();
+    },
+  };
+}
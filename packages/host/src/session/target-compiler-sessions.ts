@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+import type { CompilerHost, SourceFile } from "@tsonic/tsts";
+import { checkTargetSource } from "../compiler-session.js";
+import type { CheckedTargetSource, CheckTargetSourceOptions } from "../compiler-session.js";
+
+export interface TargetCompilerSessions {
+  check(options: CheckTargetSourceOptions): CheckedTargetSource;
+  clear(): void;
+}
+
+interface WarmTargetCompilerSession {
+  readonly key: string;
+  readonly sourceFiles: Map<string, ParsedSourceFile>;
+}
+
+interface ParsedSourceFile {
+  readonly parseKey: string;
+  readonly text: string;
+  readonly sourceFile: SourceFile;
+}
+
+export function createTargetCompilerSessions(): TargetCompilerSessions {
+  const sessions = new Map<string, WarmTargetCompilerSession>();
+  return {
+    check(options) {
+      const key = targetCompilerSessionKey(options);
+      let warm = sessions.get(options.target.id);
+      if (warm?.key !== key) {
+        warm = { key, sourceFiles: new Map() };
+        sessions.set(options.target.id, warm);
+      }
+      return checkTargetSource({
+        ...options,
+        programOptions: {
+          ...options.programOptions,
+          Host: reuseParsedSourceFiles(options.programOptions.Host, warm.sourceFiles),
+        },
+      });
+    },
+    clear() {
+      sessions.clear();
+    },
+  };
+}
+
+function reuseParsedSourceFiles(host: CompilerHost, sourceFiles: Map<string, ParsedSourceFile>): CompilerHost {
+  return {
+    FS: () => host.FS(),
+    DefaultLibraryPath: () => host.DefaultLibraryPath(),
+    GetCurrentDirectory: () => host.GetCurrentDirectory(),
+    Trace: (message, ...args) => host.Trace(message, ...args),
+    GetResolvedProjectReference: (fileName, path) => host.GetResolvedProjectReference(fileName, path),
+    GetSourceFile(options) {
+      const [text, ok] = host.FS().ReadFile(options.FileName);
+      if (!ok) {
+        return host.GetSourceFile(options);
+      }
+      const parseKey = JSON.stringify([options.Path, options.ExternalModuleIndicatorOptions ?? null]);
+      const parsed = sourceFiles.get(options.FileName);
+      if (parsed?.text === text && parsed.parseKey === parseKey) {
+        return parsed.sourceFile;
+      }
+      const sourceFile = host.GetSourceFile(options);
+      if (sourceFile === undefined) {
+        sourceFiles.delete(options.FileName);
+      } else {
+        sourceFiles.set(options.FileName, { parseKey, text, sourceFile });
+      }
+      return sourceFile;
+    },
+  };
+}
+
+function targetCompilerSessionKey(options: CheckTargetSourceOptions): string {
+  return createHash("sha256").update(JSON.stringify([
+    options.projectDirectory,
+    options.project,
+    options.targetPack.id,
+    options.target,
+    options.selectedCapabilities.map((capability) => capability.id),
+    options.selectedSurfaces.map((surface) => surface.id),
+  ])).digest("hex");
+}
@@ -0,0 +1,166 @@
+import type {
+  TargetPack,
+  TargetRegistry,
+  TargetSelection,
+  TargetSurfaceImplementation,
+  TsonicProjectConfig,
+} from "@tsonic/target-api";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
+import { createProgramOptionsForProject } from "../program-options.js";
+import { collectImportActivatedTargetCapabilities } from "./capability-activation.js";
+import {
+  selectInstalledTargetCapabilities,
+  resolveTargetModuleOwnership,
+  selectTargetSurfaceImplementations,
+} from "./extensions.js";
+import type { TargetModuleOwnership } from "./extensions.js";
+import { collectSourceModuleGraph } from "./source-module-graph.js";
+import type { SourceModuleGraph } from "./source-module-graph.js";
+import { resolveTargetOptions } from "./target-options.js";
+
+export interface TargetBuildPlanInput {
+  readonly project: TsonicProjectConfig;
+  readonly projectFilePath: string;
+  readonly registry: TargetRegistry;
+  readonly installedCapabilities?: readonly TargetCapabilityImplementation[];
+  readonly targetIds?: readonly string[];
+  readonly sourceOverlays?: ReadonlyMap<string, string>;
+}
+
+export interface TargetBuildPlan {
+  readonly target: TargetSelection;
+  readonly resolvedTarget?: TargetSelection;
+  readonly targetPack?: TargetPack;
+  readonly selectedCapabilities?: readonly TargetCapabilityImplementation[];
+  readonly selectedSurfaces?: readonly TargetSurfaceImplementation[];
+  readonly diagnostics: readonly TargetDiagnostic[];
+}
+
+export function createTargetBuildPlans(
+  input: TargetBuildPlanInput,
+): readonly TargetBuildPlan[] {
+  const plans: TargetBuildPlan[] = [];
+  let moduleGraph: SourceModuleGraph | undefined;
+  for (const target of selectProjectTargets(input)) {
+    if (!input.project.targets.includes(target)) {
+      plans.push({
+        target,
+        diagnostics: [targetDiagnostic(
+          "tsonic-host",
+          "TARGET_SELECTION",
+          `Target '${target.id}' is not declared in the project config.`,
+        )],
+      });
+      continue;
+    }
+    const targetPack = input.registry.get(target.id);
+    if (targetPack === undefined) {
+      plans.push({ target, diagnostics: [targetDiagnostic("tsonic-host", "TARGET_SELECTION", `Unknown target '${target.id}'.`)] });
+      continue;
+    }
+    const surfaces = selectTargetSurfaceImplementations(targetPack, target);
+    if ("error" in surfaces) {
+      plans.push({
+        target,
+        targetPack,
+        diagnostics: [targetDiagnostic(targetPack.id, "TARGET_SURFACE_SELECTION", surfaces.error)],
+      });
+      continue;
+    }
+    moduleGraph ??= collectSourceModuleGraph(createProgramOptionsForProject(input));
+    const importActivatedCapabilities = collectImportActivatedTargetCapabilities(
+      moduleGraph.specifiers,
+      input.installedCapabilities ?? [],
+      target,
+    );
+    const capabilities = selectInstalledTargetCapabilities(
+      target,
+      importActivatedCapabilities,
+      surfaces.selectedSurfaces,
+    );
+    if ("error" in capabilities) {
+      plans.push({
+        target,
+        targetPack,
+        selectedSurfaces: surfaces.selectedSurfaces,
+        diagnostics: [targetDiagnostic(targetPack.id, "TARGET_CAPABILITY_SELECTION", capabilities.error)],
+      });
+      continue;
+    }
+    const ownership = resolveTargetModuleOwnership(target, targetPack.provider, capabilities.selectedCapabilities);
+    if ("error" in ownership) {
+      plans.push({
+        target,
+        targetPack,
+        selectedCapabilities: capabilities.selectedCapabilities,
+        selectedSurfaces: surfaces.selectedSurfaces,
+        diagnostics: [moduleOwnershipDiagnostic(targetPack.id, ownership.error, ownership.conflict, moduleGraph)],
+      });
+      continue;
+    }
+    const options = resolveTargetOptions({
+      project: input.project,
+      target,
+      targetPack,
+      selectedSurfaces: surfaces.selectedSurfaces,
+      selectedCapabilities: capabilities.selectedCapabilities,
+      installedCapabilities: input.installedCapabilities ?? [],
+    });
+    plans.push(Object.freeze({
+      target,
+      resolvedTarget: options.target,
+      targetPack,
+      selectedCapabilities: capabilities.selectedCapabilities,
+      selectedSurfaces: surfaces.selectedSurfaces,
+      diagnostics: options.diagnostics,
+    }));
+  }
+  return Object.freeze(plans);
+}
+
+export function selectProjectTargets(
+  input: Pick<TargetBuildPlanInput, "project" | "targetIds">,
+): readonly TargetSelection[] {
+  if (input.targetIds === undefined) {
+    return input.project.targets;
+  }
+  const requestedIds = new Set(input.targetIds);
+  return [
+    ...input.project.targets.filter((target) => requestedIds.has(target.id)),
+    ...[...requestedIds]
+      .filter((targetId) => !input.project.targets.some((target) => target.id === targetId))
+      .map((targetId): TargetSelection => ({ id: targetId })),
+  ];
+}
+
+function targetDiagnostic(
+  source: string,
+  code: string,
+  message: string,
+): TargetDiagnostic {
+  return Object.freeze({ code, category: "error", message, source });
+}
+
+function moduleOwnershipDiagnostic(
+  source: string,
+  message: string,
+  conflict: readonly [TargetModuleOwnership, TargetModuleOwnership],
+  moduleGraph: SourceModuleGraph,
+): TargetDiagnostic {
+  const [existing, entry] = conflict;
+  const sourceSpan = moduleGraph.locateImport(entry.ownership.specifierPrefix);
+  const relatedSpan = moduleGraph.locateImport(existing.ownership.specifierPrefix);
+  return Object.freeze({
+    ...targetDiagnostic(source, "TARGET_MODULE_OWNERSHIP", message),
+    ...(sourceSpan === undefined ? {} : { sourceSpan }),
+    related: [{
+      message: `Module prefix '${existing.ownership.specifierPrefix}' is owned by ${existing.ownerKind} '${existing.ownerId}'.`,
+      ...(relatedSpan === undefined ? {} : { sourceSpan: relatedSpan }),
+    }],
+    notes: conflict.map((owner) => ({
+      label: owner.ownerKind,
+      message: `'${owner.ownerId}' owns module prefix '${owner.ownership.specifierPrefix}'.`,
+    })),
+  });
+}
@@ -5,15 +5,13 @@ import { getStaticModuleReference } from "@tsonic/target-api/provider";
 import { moduleSpecifierMatchesOwnership } from "./extensions.js";
 
 export function collectImportActivatedTargetCapabilities(
-  ast: AstReader,
-  sourceFiles: readonly SourceFile[],
+  moduleSpecifiers: readonly string[],
   installedCapabilities: readonly TargetCapabilityImplementation[],
   target: TargetSelection,
 ): readonly TargetCapabilityImplementation[] {
   if (installedCapabilities.length === 0) {
     return [];
   }
-  const moduleSpecifiers = collectStaticModuleSpecifiers(ast, sourceFiles);
   const directlyActivated = installedCapabilities.filter((capability) =>
     capability.targetId === target.id &&
     capability.moduleOwnership.some((ownership) =>
@@ -62,19 +60,7 @@ function closeRequiredCapabilities(
   return available.filter((capability) => selectedIds.has(capability.id));
 }
 
-function collectStaticModuleSpecifiers(ast: AstReader, sourceFiles: readonly SourceFile[]): readonly string[] {
-  return collectModuleSpecifiers(ast, sourceFiles, false);
-}
-
 function collectValueModuleSpecifiers(ast: AstReader, sourceFiles: readonly SourceFile[]): readonly string[] {
-  return collectModuleSpecifiers(ast, sourceFiles, true);
-}
-
-function collectModuleSpecifiers(
-  ast: AstReader,
-  sourceFiles: readonly SourceFile[],
-  runtimeOnly: boolean,
-): readonly string[] {
   const specifiers = new Set<string>();
   for (const sourceFile of sourceFiles) {
     for (const statement of ast.statements(sourceFile)) {
@@ -82,7 +68,7 @@ function collectModuleSpecifiers(
         continue;
       }
       const reference = getStaticModuleReference(ast, statement);
-      if (reference === undefined || (runtimeOnly && !reference.hasRuntimeValue)) {
+      if (reference === undefined || !reference.hasRuntimeValue) {
         continue;
       }
       const moduleSpecifier = readModuleSpecifierText(ast, reference.moduleSpecifier);
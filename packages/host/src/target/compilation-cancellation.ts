@@ -0,0 +1,62 @@
+import { targetCompilationInterruptionCodes } from "@tsonic/target-api/artifacts";
+import type {
+  TargetCancellationToken,
+  TargetCompilationBudget,
+  TargetCompilationInterruption,
+  TargetDiagnostic,
+} from "@tsonic/target-api/artifacts";
+
+export type TargetInterruptionReason = "cancelled" | "wall-clock" | "heap";
+
+export interface TargetCompilationCancellationInput {
+  readonly signal?: AbortSignal;
+  readonly budget?: TargetCompilationBudget;
+}
+
+export interface HostTargetCancellationToken extends TargetCancellationToken {
+  reason(): TargetInterruptionReason | undefined;
+}
+
+export function createTargetCancellationToken(input: TargetCompilationCancellationInput): HostTargetCancellationToken {
+  const startedAt = Date.now();
+  let reason: TargetInterruptionReason | undefined;
+  const check = (): TargetInterruptionReason | undefined => {
+    if (reason !== undefined) {
+      return reason;
+    }
+    if (input.signal?.aborted === true) {
+      reason = "cancelled";
+    } else if (
+      input.budget?.wallClockMilliseconds !== undefined &&
+      Date.now() - startedAt > input.budget.wallClockMilliseconds
+    ) {
+      reason = "wall-clock";
+    }
+    return reason;
+  };
+  return Object.freeze({
+    interruption(): TargetCompilationInterruption | undefined {
+      const current = check();
+      return current === undefined ? undefined : current === "cancelled" ? "cancelled" : "budget-exceeded";
+    },
+    reason: check,
+  });
+}
+
+export function targetInterruptionDiagnostic(
+  targetId: string,
+  reason: TargetInterruptionReason,
+  budget: TargetCompilationBudget | undefined,
+): TargetDiagnostic {
+  const message = reason === "cancelled"
+    ? `Target '${targetId}' compilation was cancelled.`
+    : reason === "wall-clock"
+      ? `Target '${targetId}' compilation exceeded its ${budget?.wallClockMilliseconds ?? 0} ms wall-clock budget.`
+      : `Target '${targetId}' compilation exceeded its ${budget?.heapBytes ?? 0}-byte heap budget.`;
+  return Object.freeze({
+    code: targetCompilationInterruptionCodes[reason === "cancelled" ? "cancelled" : "budget-exceeded"],
+    category: "error",
+    message,
+    source: "tsonic-host",
+  });
+}
@@ -65,6 +65,15 @@ export type TargetCapabilitySelectionResult =
       readonly error: string;
     };
 
+export type TargetModuleOwnershipResult =
+  | {
+      readonly ownership: readonly TargetModuleOwnership[];
+    }
+  | {
+      readonly error: string;
+      readonly conflict: readonly [TargetModuleOwnership, TargetModuleOwnership];
+    };
+
 export function captureTargetCapabilityContributions(
   options: CaptureTargetCapabilityContributionsOptions,
 ): readonly SelectedTargetCapabilityContributions[] {
@@ -143,6 +152,18 @@ export function validateTargetModuleOwnership(
   provider: TargetProviderDescriptor,
   selectedCapabilities: readonly TargetCapabilityImplementation[],
 ): readonly TargetModuleOwnership[] {
+  const result = resolveTargetModuleOwnership(target, provider, selectedCapabilities);
+  if ("error" in result) {
+    throw new Error(result.error);
+  }
+  return result.ownership;
+}
+
+export function resolveTargetModuleOwnership(
+  target: TargetSelection,
+  provider: TargetProviderDescriptor,
+  selectedCapabilities: readonly TargetCapabilityImplementation[],
+): TargetModuleOwnershipResult {
   const declared: TargetModuleOwnership[] = [
     ...provider.moduleOwnership.map((ownership) => ({
       ownerId: provider.id,
@@ -163,20 +184,23 @@ export function validateTargetModuleOwnership(
         continue;
       }
       if (existing.ownerId !== entry.ownerId) {
-        throw new Error(
-          `Ambiguous Tsonic provider ownership for target '${target.id}' and module prefixes '${existing.ownership.specifierPrefix}' (${existing.ownerId}) and '${entry.ownership.specifierPrefix}' (${entry.ownerId}).`,
-        );
+        return {
+          error: `Ambiguous Tsonic provider ownership for target '${target.id}' and module prefixes '${existing.ownership.specifierPrefix}' (${existing.ownerId}) and '${entry.ownership.specifierPrefix}' (${entry.ownerId}).`,
+          conflict: [existing, entry],
+        };
       }
       if (effectiveProviderId(existing) !== effectiveProviderId(entry)) {
-        throw new Error(
-          `Contradictory Tsonic provider ownership for target '${target.id}' and module prefixes '${existing.ownership.specifierPrefix}' and '${entry.ownership.specifierPrefix}' from '${entry.ownerId}'.`,
-        );
+        return {
+          error: `Contradictory Tsonic provider ownership for target '${target.id}' and module prefixes '${existing.ownership.specifierPrefix}' and '${entry.ownership.specifierPrefix}' from '${entry.ownerId}'.`,
+          conflict: [existing, entry],
+        };
       }
       if (existing.ownership.specifierPrefix === entry.ownership.specifierPrefix) {
         if (!sameModuleOwnership(existing.ownership, entry.ownership)) {
-          throw new Error(
-            `Contradictory Tsonic provider ownership metadata for target '${target.id}' and module prefix '${entry.ownership.specifierPrefix}' from '${entry.ownerId}'.`,
-          );
+          return {
+            error: `Contradictory Tsonic provider ownership metadata for target '${target.id}' and module prefix '${entry.ownership.specifierPrefix}' from '${entry.ownerId}'.`,
+            conflict: [existing, entry],
+          };
         }
         duplicate = true;
         break;
@@ -186,7 +210,7 @@ export function validateTargetModuleOwnership(
       canonical.push(entry);
     }
   }
-  return Object.freeze([...canonical].sort(compareTargetModuleOwnership));
+  return { ownership: Object.freeze([...canonical].sort(compareTargetModuleOwnership)) };
 }
 
 export interface TargetModuleOwnership {
@@ -14,6 +14,7 @@ import type {
   TargetRuntimeReference,
   TargetSourceFile,
 } from "@tsonic/target-api/artifacts";
+import { targetArtifactContentEquals } from "@tsonic/target-api/artifacts";
 
 export interface CollectTargetRuntimeContributionsOptions {
   readonly project: TsonicProjectConfig;
@@ -110,7 +111,7 @@ function targetRuntimeArtifactEquals(
 ): boolean {
   return left.kind === right.kind &&
     left.path === right.path &&
-    left.text === right.text &&
+    targetArtifactContentEquals(left, right) &&
     targetSourceLanguage(left) === targetSourceLanguage(right);
 }
 
@@ -0,0 +1,75 @@
+import type { TargetCompilationSession } from "@tsonic/target-api";
+import { createProgramOptionsForProject } from "../program-options.js";
+import { getTargetCompilationPaths, resolveProjectPaths } from "../project-paths.js";
+import { createTargetBuildPlans } from "./build-plan.js";
+import type { TargetBuildPlanInput } from "./build-plan.js";
+import { captureTargetCapabilityContributions } from "./extensions.js";
+import { collectTargetSourceProfileContributions } from "./source-profile.js";
+
+export interface TargetSourceFingerprints {
+  readonly sourceDeclarationFingerprint: string;
+  readonly sourcePackageGraphFingerprint: string;
+}
+
+export function collectTargetSourceFingerprints(
+  input: TargetBuildPlanInput,
+): ReadonlyMap<string, TargetSourceFingerprints> {
+  const paths = resolveProjectPaths(input);
+  const fingerprints = new Map<string, TargetSourceFingerprints>();
+  for (const plan of createTargetBuildPlans(input)) {
+    if (
+      plan.resolvedTarget === undefined ||
+      plan.targetPack === undefined ||
+      plan.selectedCapabilities === undefined ||
+      plan.selectedSurfaces === undefined ||
+      plan.diagnostics.some((diagnostic) => diagnostic.category === "error")
+    ) {
+      continue;
+    }
+    const target = plan.resolvedTarget;
+    const selectedCapabilities = plan.selectedCapabilities;
+    const selectedSurfaces = plan.selectedSurfaces;
+    let session: TargetCompilationSession | undefined;
+    try {
+      session = plan.targetPack.createCompilationSession(Object.freeze({
+        project: input.project,
+        projectDirectory: paths.projectDirectory,
+        target,
+        paths: getTargetCompilationPaths(paths, target),
+        selectedSurfaceIds: Object.freeze(selectedSurfaces.map((surface) => surface.id)),
+        capabilities: captureTargetCapabilityContributions({
+          project: input.project,
+          projectDirectory: paths.projectDirectory,
+          target,
+          selectedCapabilities,
+          selectedSurfaces,
+        }),
+      }));
+      const sourceProfile = collectTargetSourceProfileContributions({
+        project: input.project,
+        projectDirectory: paths.projectDirectory,
+        projectRoot: paths.projectRoot,
+        target,
+        targetPackId: plan.targetPack.id,
+        selectedCapabilities,
+        selectedSurfaces,
+        targetContributions: session.sourceProfileContributions(),
+      });
+      if (sourceProfile.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+        continue;
+      }
+      const created = createProgramOptionsForProject({
+        ...input,
+        sourceProfileFiles: sourceProfile.files,
+        sourceDeclarationPolicy: sourceProfile.declarationPolicy,
+      });
+      fingerprints.set(target.id, Object.freeze({
+        sourceDeclarationFingerprint: created.sourceDeclarationSnapshot.fingerprint,
+        sourcePackageGraphFingerprint: created.sourcePackages.fingerprint,
+      }));
+    } finally {
+      session?.close();
+    }
+  }
+  return fingerprints;
+}
@@ -0,0 +1,78 @@
+import { createCompilerSession, TstsSourceProviderContractVersion } from "@tsonic/tsts";
+import type { CompilerExtension, SourceDeclarationProvider } from "@tsonic/tsts";
+import type { TargetDiagnosticSourceSpan } from "@tsonic/target-api/artifacts";
+import { createTextSourceSpan } from "../diagnostics.js";
+import { isDeclarationFile } from "../package-contract.js";
+import type { CreatedProgramOptions } from "../program-options.js";
+import { moduleSpecifierMatchesOwnership } from "./extensions.js";
+
+export interface SourceModuleGraph {
+  readonly specifiers: readonly string[];
+  locateImport(specifierPrefix: string): TargetDiagnosticSourceSpan | undefined;
+}
+
+export function collectSourceModuleGraph(created: CreatedProgramOptions): SourceModuleGraph {
+  const importers = new Map<string, Set<string>>();
+  const recorder: SourceDeclarationProvider = {
+    identity: {
+      id: "tsonic.source-module-graph",
+      version: "1.0.0",
+      extensionContractVersion: TstsSourceProviderContractVersion,
+    },
+    declarationMaterialization: "complete",
+    ownsModule(specifier, context) {
+      if (
+        context.containingFile !== undefined &&
+        !isDeclarationFile(context.containingFile) &&
+        context.importSlice?.kind !== "synthetic"
+      ) {
+        const containingFiles = importers.get(specifier) ?? new Set<string>();
+        containingFiles.add(context.containingFile);
+        importers.set(specifier, containingFiles);
+      }
+      return { kind: "unowned" };
+    },
+    resolveModule(specifier) {
+      throw new Error(`Source module graph recorder does not own '${specifier}'.`);
+    },
+    getDeclarationModel(resolution) {
+      throw new Error(`Source module graph recorder does not own '${resolution.moduleSpecifier}'.`);
+    },
+  };
+  const extension: CompilerExtension = {
+    identity: { id: "tsonic.source-module-graph", version: "1.0.0" },
+    initialize(context) {
+      context.registerSourceDeclarationProvider(recorder);
+    },
+  };
+  createCompilerSession({
+    programOptions: created.programOptions,
+    extensionHostOptions: { extensions: [extension] },
+  });
+  const specifiers = Object.freeze([...importers.keys()].sort());
+  return Object.freeze({
+    specifiers,
+    locateImport(specifierPrefix: string): TargetDiagnosticSourceSpan | undefined {
+      const candidates = specifiers
+        .filter((specifier) => moduleSpecifierMatchesOwnership(specifier, specifierPrefix))
+        .sort((left, right) => left.length - right.length || left.localeCompare(right));
+      for (const specifier of candidates) {
+        for (const containingFile of [...importers.get(specifier) ?? []].sort()) {
+          const [text, ok] = created.programOptions.Host.FS().ReadFile(containingFile);
+          const start = ok ? quotedSpecifierStart(text, specifier) : undefined;
+          if (start !== undefined) {
+            return createTextSourceSpan(containingFile, text, start, start + specifier.length, created.projectRoot);
+          }
+        }
+      }
+      return undefined;
+    },
+  });
+}
+
+function quotedSpecifierStart(text: string, specifier: string): number | undefined {
+  const starts = ["\"", "'", "`"]
+    .map((quote) => text.indexOf(`${quote}${specifier}${quote}`))
+    .filter((index) => index >= 0);
+  return starts.length === 0 ? undefined : Math.min(...starts) + 1;
+}
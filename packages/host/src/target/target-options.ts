@@ -0,0 +1,166 @@
+import { getTargetOptionTypeLabel, isTargetOptionValue } from "@tsonic/target-api";
+import type {
+  TargetOptionDescriptor,
+  TargetPack,
+  TargetSelection,
+  TargetSurfaceImplementation,
+  TsonicProjectConfig,
+} from "@tsonic/target-api";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
+
+export interface ResolveTargetOptionsInput {
+  readonly project: TsonicProjectConfig;
+  readonly target: TargetSelection;
+  readonly targetPack: TargetPack;
+  readonly selectedSurfaces: readonly TargetSurfaceImplementation[];
+  readonly selectedCapabilities: readonly TargetCapabilityImplementation[];
+  readonly installedCapabilities?: readonly TargetCapabilityImplementation[];
+}
+
+export interface ResolvedTargetOptions {
+  readonly target: TargetSelection;
+  readonly diagnostics: readonly TargetDiagnostic[];
+}
+
+export type TargetOptionDescriptorsResult =
+  | { readonly descriptors: readonly TargetOptionDescriptor[] }
+  | { readonly error: string; readonly optionName: string };
+
+interface TargetOptionContributor {
+  readonly label: string;
+  readonly options?: readonly TargetOptionDescriptor[];
+}
+
+export function collectTargetOptionDescriptors(
+  targetPack: TargetPack,
+  surfaces: readonly TargetSurfaceImplementation[],
+  capabilities: readonly TargetCapabilityImplementation[],
+): TargetOptionDescriptorsResult {
+  const descriptors = new Map<string, { readonly option: TargetOptionDescriptor; readonly contributor: string }>();
+  for (const contributor of targetOptionContributors(targetPack, surfaces, capabilities)) {
+    for (const option of contributor.options ?? []) {
+      const previous = descriptors.get(option.name);
+      if (previous === undefined) {
+        descriptors.set(option.name, { option, contributor: contributor.label });
+      } else if (!sameTargetOptionContract(previous.option, option)) {
+        return {
+          error: `Target '${targetPack.id}' option '${option.name}' is declared differently by ${previous.contributor} and ${contributor.label}.`,
+          optionName: option.name,
+        };
+      }
+    }
+  }
+  return { descriptors: Object.freeze([...descriptors.values()].map((entry) => entry.option)) };
+}
+
+export function declaresTargetOptions(
+  targetPack: TargetPack,
+  surfaces: readonly TargetSurfaceImplementation[],
+  capabilities: readonly TargetCapabilityImplementation[],
+): boolean {
+  return targetOptionContributors(targetPack, surfaces, capabilities).some((contributor) => contributor.options !== undefined);
+}
+
+export function resolveTargetOptions(input: ResolveTargetOptionsInput): ResolvedTargetOptions {
+  const options = input.target.options ?? {};
+  const optionsPath = `$.targets[${input.project.targets.indexOf(input.target)}].options`;
+  const diagnostic = (category: TargetDiagnostic["category"], code: string, name: string, message: string): TargetDiagnostic =>
+    Object.freeze({ code, category, message, source: input.targetPack.id, jsonPath: `${optionsPath}${jsonPathMember(name)}` });
+  const collected = collectTargetOptionDescriptors(input.targetPack, input.selectedSurfaces, input.selectedCapabilities);
+  if ("error" in collected) {
+    return Object.freeze({
+      target: input.target,
+      diagnostics: Object.freeze([diagnostic("error", "TARGET_OPTIONS_INVALID", collected.optionName, collected.error)]),
+    });
+  }
+  const descriptors = collected.descriptors;
+  const acceptingCapabilities = [
+    ...input.selectedCapabilities,
+    ...(input.installedCapabilities ?? []).filter((capability) =>
+      capability.targetId === input.target.id && !input.selectedCapabilities.includes(capability)
+    ),
+  ];
+  const diagnostics: TargetDiagnostic[] = [];
+  if (declaresTargetOptions(input.targetPack, input.selectedSurfaces, acceptingCapabilities)) {
+    const accepted = new Set(targetOptionContributors(input.targetPack, input.selectedSurfaces, acceptingCapabilities)
+      .flatMap((contributor) => (contributor.options ?? []).map((option) => option.name)));
+    for (const name of Object.keys(options).filter((key) => !accepted.has(key))) {
+      diagnostics.push(diagnostic(
+        "error",
+        "TARGET_OPTIONS_INVALID",
+        name,
+        accepted.size === 0
+          ? `Target '${input.target.id}' does not accept option '${name}'; it declares no options.`
+          : `Target '${input.target.id}' does not accept option '${name}'. Accepted options: ${[...accepted].sort().join(", ")}.`,
+      ));
+    }
+  }
+  const defaults = new Map<string, unknown>();
+  for (const option of descriptors) {
+    const value = options[option.name];
+    if (value === undefined) {
+      if (option.default !== undefined) {
+        defaults.set(option.name, option.default);
+      } else if (option.required === true) {
+        diagnostics.push(diagnostic(
+          "error",
+          "TARGET_OPTIONS_INVALID",
+          option.name,
+          `Target '${input.target.id}' requires option '${option.name}': ${option.description}`,
+        ));
+      }
+      continue;
+    }
+    if (option.type !== undefined && !isTargetOptionValue(option.type, value)) {
+      diagnostics.push(diagnostic(
+        "error",
+        "TARGET_OPTIONS_INVALID",
+        option.name,
+        `Target '${input.target.id}' option '${option.name}' must be ${getTargetOptionTypeLabel(option.type)}.`,
+      ));
+    }
+    if (option.deprecated !== undefined) {
+      diagnostics.push(diagnostic(
+        "warning",
+        "TARGET_OPTIONS_DEPRECATED",
+        option.name,
+        `Target '${input.target.id}' option '${option.name}' is deprecated: ${option.deprecated}`,
+      ));
+    }
+  }
+  return Object.freeze({
+    target: defaults.size === 0
+      ? input.target
+      : Object.freeze({ ...input.target, options: Object.freeze({ ...Object.fromEntries(defaults), ...options }) }),
+    diagnostics: Object.freeze(diagnostics),
+  });
+}
+
+function targetOptionContributors(
+  targetPack: TargetPack,
+  surfaces: readonly TargetSurfaceImplementation[],
+  capabilities: readonly TargetCapabilityImplementation[],
+): readonly TargetOptionContributor[] {
+  return [
+    { label: `target pack '${targetPack.id}'`, ...(targetPack.options === undefined ? {} : { options: targetPack.options }) },
+    ...surfaces.map((surface) => ({
+      label: `surface '${surface.id}'`,
+      ...(surface.options === undefined ? {} : { options: surface.options }),
+    })),
+    ...capabilities.map((capability) => ({
+      label: `capability '${capability.id}'`,
+      ...(capability.options === undefined ? {} : { options: capability.options }),
+    })),
+  ];
+}
+
+function sameTargetOptionContract(left: TargetOptionDescriptor, right: TargetOptionDescriptor): boolean {
+  return left.type === right.type &&
+    left.required === right.required &&
+    JSON.stringify(left.default) === JSON.stringify(right.default);
+}
+
+function jsonPathMember(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/u.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+}
@@ -0,0 +1,119 @@
+import type {
+  TargetPack,
+  TargetRegistry,
+  TargetToolchainOutput,
+  TsonicProjectConfig,
+} from "@tsonic/target-api";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+import type { TargetCapabilityImplementation } from "@tsonic/target-api/provider";
+import { createProjectDiagnosticCodeRegistry } from "../diagnostic-codes/registry.js";
+import { createProjectDiagnosticsFilter } from "../project-diagnostics/severity.js";
+import { getTargetCompilationPaths, resolveProjectPaths } from "../project-paths.js";
+import { createTargetBuildPlans } from "./build-plan.js";
+
+export interface InvokeProjectToolchainsInput {
+  readonly project: TsonicProjectConfig;
+  readonly projectFilePath: string;
+  readonly registry: TargetRegistry;
+  readonly installedCapabilities?: readonly TargetCapabilityImplementation[];
+  readonly output: TargetToolchainOutput;
+}
+
+export interface ProjectToolchainInvocationResult {
+  readonly invokedTargetIds: readonly string[];
+  readonly diagnostics: readonly TargetDiagnostic[];
+}
+
+export async function invokeProjectToolchains(
+  input: InvokeProjectToolchainsInput,
+): Promise<ProjectToolchainInvocationResult> {
+  const paths = resolveProjectPaths(input);
+  const invokedTargetIds: string[] = [];
+  const diagnostics: TargetDiagnostic[] = [];
+  for (const plan of createTargetBuildPlans(input)) {
+    const targetPack = plan.targetPack;
+    const target = plan.resolvedTarget;
+    if (targetPack === undefined || target === undefined || plan.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+      diagnostics.push(...plan.diagnostics);
+      continue;
+    }
+    try {
+      const toolchain = targetPack.createToolchain({ project: input.project, target });
+      if (toolchain.invoke === undefined) {
+        continue;
+      }
+      invokedTargetIds.push(target.id);
+      const result = await toolchain.invoke({
+        artifactsRoot: getTargetCompilationPaths(paths, target).targetOutputRoot,
+        project: input.project,
+        target,
+        output: input.output,
+      });
+      diagnostics.push(...attributeToolchainDiagnostics(targetPack, result.diagnostics));
+    } catch (error) {
+      diagnostics.push(toolchainDiagnostic(targetPack.id, "TARGET_TOOLCHAIN", errorMessage(error)));
+    }
+  }
+  return Object.freeze({
+    invokedTargetIds: Object.freeze(invokedTargetIds),
+    diagnostics: createProjectDiagnosticsFilter({
+      ...input,
+      diagnosticCodes: createProjectDiagnosticCodeRegistry(input.registry, input.installedCapabilities),
+    })(diagnostics),
+  });
+}
+
+export function runTargetToolchainStep(
+  targetPack: TargetPack,
+  step: () => readonly TargetDiagnostic[],
+): readonly TargetDiagnostic[] {
+  try {
+    return attributeToolchainDiagnostics(targetPack, step());
+  } catch (error) {
+    return [toolchainDiagnostic(targetPack.id, "TARGET_TOOLCHAIN", errorMessage(error))];
+  }
+}
+
+function attributeToolchainDiagnostics(
+  targetPack: TargetPack,
+  diagnostics: unknown,
+): readonly TargetDiagnostic[] {
+  if (!Array.isArray(diagnostics)) {
+    return [toolchainDiagnostic(targetPack.id, "TARGET_TOOLCHAIN", "Target toolchain returned diagnostics that are not an array.")];
+  }
+  return diagnostics.map((diagnostic: unknown): TargetDiagnostic => {
+    if (typeof diagnostic === "string") {
+      return toolchainDiagnostic(targetPack.id, "TARGET_TOOLCHAIN", diagnostic);
+    }
+    if (!isToolchainDiagnostic(diagnostic)) {
+      return toolchainDiagnostic(
+        targetPack.id,
+        "TARGET_TOOLCHAIN",
+        "Target toolchain returned a diagnostic without a string code, a category of error, warning or suggestion, and a string message.",
+      );
+    }
+    return Object.freeze({
+      ...diagnostic,
+      source: diagnostic.source ?? targetPack.id,
+    });
+  });
+}
+
+function isToolchainDiagnostic(value: unknown): value is TargetDiagnostic {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const diagnostic = value as Readonly<Record<string, unknown>>;
+  return typeof diagnostic.code === "string" &&
+    (diagnostic.category === "error" || diagnostic.category === "warning" || diagnostic.category === "suggestion") &&
+    typeof diagnostic.message === "string" &&
+    (diagnostic.source === undefined || typeof diagnostic.source === "string");
+}
+
+function toolchainDiagnostic(source: string, code: string, message: string): TargetDiagnostic {
+  return Object.freeze({ code, category: "error", message, source });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
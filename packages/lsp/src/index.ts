@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { runLanguageServer } from "./server/language-server.js";
+
+process.exitCode = await runLanguageServer({
+  input: process.stdin,
+  output: process.stdout,
+});
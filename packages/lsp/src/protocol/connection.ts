@@ -0,0 +1,79 @@
+import type { Readable, Writable } from "node:stream";
+import { readMessages, writeMessage } from "./message-stream.js";
+import type { JsonRpcMessage } from "./message-stream.js";
+
+export type RequestHandler = (params: unknown) => unknown;
+export type NotificationHandler = (params: unknown) => void | Promise<void>;
+
+export interface JsonRpcConnection {
+  onRequest(method: string, handler: RequestHandler): void;
+  onNotification(method: string, handler: NotificationHandler): void;
+  sendNotification(method: string, params: unknown): void;
+  listen(): Promise<void>;
+}
+
+export const jsonRpcErrorCodes = Object.freeze({
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  internalError: -32603,
+});
+
+export function createJsonRpcConnection(input: Readable, output: Writable): JsonRpcConnection {
+  const requestHandlers = new Map<string, RequestHandler>();
+  const notificationHandlers = new Map<string, NotificationHandler>();
+  const send = (message: JsonRpcMessage): void => writeMessage(output, { jsonrpc: "2.0", ...message });
+  const respondError = (id: unknown, code: number, message: string): void => {
+    send({ id: id ?? null, error: { code, message } });
+  };
+  const dispatch = async (message: JsonRpcMessage): Promise<void> => {
+    const method = message.method;
+    if (typeof method !== "string") {
+      if (!("result" in message) && !("error" in message)) {
+        respondError(message.id, jsonRpcErrorCodes.invalidRequest, "JSON-RPC message has no method.");
+      }
+      return;
+    }
+    if (!("id" in message)) {
+      await notificationHandlers.get(method)?.(message.params);
+      return;
+    }
+    const handler = requestHandlers.get(method);
+    if (handler === undefined) {
+      respondError(message.id, jsonRpcErrorCodes.methodNotFound, `Unhandled method '${method}'.`);
+      return;
+    }
+    try {
+      send({ id: message.id, result: (await handler(message.params)) ?? null });
+    } catch (error) {
+      respondError(message.id, jsonRpcErrorCodes.internalError, error instanceof Error ? error.message : String(error));
+    }
+  };
+  let pending = Promise.resolve();
+  return {
+    onRequest(method, handler) {
+      requestHandlers.set(method, handler);
+    },
+    onNotification(method, handler) {
+      notificationHandlers.set(method, handler);
+    },
+    sendNotification(method, params) {
+      send({ method, params });
+    },
+    async listen() {
+      await readMessages(
+        input,
+        (message) => {
+          pending = pending.then(() => dispatch(message)).catch((error: unknown) => {
+            send({
+              method: "window/logMessage",
+              params: { type: 1, message: error instanceof Error ? error.message : String(error) },
+            });
+          });
+        },
+        (error) => respondError(null, jsonRpcErrorCodes.parseError, error.message),
+      );
+      await pending;
+    },
+  };
+}
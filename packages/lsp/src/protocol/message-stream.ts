@@ -0,0 +1,65 @@
+import type { Readable, Writable } from "node:stream";
+
+export type JsonRpcMessage = Readonly<Record<string, unknown>>;
+
+const headerSeparator = "\r\n\r\n";
+
+export function readMessages(
+  input: Readable,
+  onMessage: (message: JsonRpcMessage) => void,
+  onError: (error: Error) => void,
+): Promise<void> {
+  let buffer = Buffer.alloc(0);
+  return new Promise((resolveEnd) => {
+    input.on("data", (chunk: Buffer | string) => {
+      buffer = Buffer.concat([buffer, typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk]);
+      for (;;) {
+        const headerEnd = buffer.indexOf(headerSeparator);
+        if (headerEnd < 0) {
+          return;
+        }
+        const contentLength = readContentLength(buffer.subarray(0, headerEnd).toString("ascii"));
+        if (contentLength === undefined) {
+          onError(new Error("LSP message header is missing a valid Content-Length."));
+          buffer = buffer.subarray(headerEnd + headerSeparator.length);
+          continue;
+        }
+        const bodyStart = headerEnd + headerSeparator.length;
+        if (buffer.length < bodyStart + contentLength) {
+          return;
+        }
+        const body = buffer.subarray(bodyStart, bodyStart + contentLength).toString("utf8");
+        buffer = buffer.subarray(bodyStart + contentLength);
+        try {
+          const message: unknown = JSON.parse(body);
+          if (typeof message !== "object" || message === null || Array.isArray(message)) {
+            throw new Error("LSP message body must be a JSON object.");
+          }
+          onMessage(message as JsonRpcMessage);
+        } catch (error) {
+          onError(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    });
+    input.on("end", () => resolveEnd());
+    input.on("close", () => resolveEnd());
+  });
+}
+
+export function writeMessage(output: Writable, message: JsonRpcMessage): void {
+  const body = Buffer.from(JSON.stringify(message), "utf8");
+  output.write(`Content-Length: ${body.length}${headerSeparator}`);
+  output.write(body);
+}
+
+function readContentLength(header: string): number | undefined {
+  for (const line of header.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator < 0 || line.slice(0, separator).trim().toLowerCase() !== "content-length") {
+      continue;
+    }
+    const value = Number(line.slice(separator + 1).trim());
+    return Number.isSafeInteger(value) && value >= 0 ? value : undefined;
+  }
+  return undefined;
+}
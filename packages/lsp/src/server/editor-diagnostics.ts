@@ -0,0 +1,85 @@
+import { readFileSync } from "node:fs";
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+
+export interface EditorDiagnostic {
+  readonly range: {
+    readonly start: { readonly line: number; readonly character: number };
+    readonly end: { readonly line: number; readonly character: number };
+  };
+  readonly severity: 1 | 2 | 3;
+  readonly code: string;
+  readonly source: string;
+  readonly message: string;
+  readonly data?: { readonly evidence: readonly string[] };
+}
+
+export function groupEditorDiagnostics(
+  diagnostics: readonly TargetDiagnostic[],
+  sourceRoot: string,
+  projectFilePath: string,
+  documentTexts: ReadonlyMap<string, string>,
+): ReadonlyMap<string, readonly EditorDiagnostic[]> {
+  const files = new Map<string, EditorDiagnostic[]>();
+  const lines = new Map<string, readonly string[] | undefined>();
+  const seen = new Set<string>();
+  for (const diagnostic of diagnostics) {
+    const filePath = diagnostic.sourceSpan === undefined
+      ? projectFilePath
+      : isAbsolute(diagnostic.sourceSpan.fileName)
+        ? diagnostic.sourceSpan.fileName
+        : resolve(sourceRoot, diagnostic.sourceSpan.fileName);
+    const uri = pathToFileURL(filePath).href;
+    if (!lines.has(filePath)) {
+      lines.set(filePath, readDocumentText(filePath, documentTexts)?.split(/\r?\n/u));
+    }
+    const editorDiagnostic = toEditorDiagnostic(diagnostic, lines.get(filePath));
+    const key = `${uri}\n${JSON.stringify(editorDiagnostic)}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    files.set(uri, [...(files.get(uri) ?? []), editorDiagnostic]);
+  }
+  return files;
+}
+
+function toEditorDiagnostic(diagnostic: TargetDiagnostic, lines: readonly string[] | undefined): EditorDiagnostic {
+  const span = diagnostic.sourceSpan;
+  return {
+    range: span === undefined
+      ? { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }
+      : {
+          start: { line: span.line - 1, character: utf16Character(lines?.[span.line - 1], span.column) },
+          end: { line: span.endLine - 1, character: utf16Character(lines?.[span.endLine - 1], span.endColumn) },
+        },
+    severity: diagnostic.category === "error" ? 1 : diagnostic.category === "warning" ? 2 : 3,
+    code: diagnostic.code,
+    source: diagnostic.source ?? "tsonic",
+    message: diagnostic.message,
+    ...(diagnostic.evidence === undefined || diagnostic.evidence.length === 0
+      ? {}
+      : { data: { evidence: diagnostic.evidence } }),
+  };
+}
+
+function utf16Character(lineText: string | undefined, column: number): number {
+  if (lineText === undefined) {
+    return column - 1;
+  }
+  const codePoints = [...lineText];
+  return codePoints.slice(0, column - 1).join("").length + Math.max(0, column - 1 - codePoints.length);
+}
+
+function readDocumentText(filePath: string, documentTexts: ReadonlyMap<string, string>): string | undefined {
+  const text = documentTexts.get(filePath);
+  if (text !== undefined) {
+    return text;
+  }
+  try {
+    return readFileSync(filePath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,192 @@
+import { basename, resolve } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { Readable, Writable } from "node:stream";
+import { createJsonRpcConnection } from "../protocol/connection.js";
+import { groupEditorDiagnostics } from "./editor-diagnostics.js";
+import type { EditorDiagnostic } from "./editor-diagnostics.js";
+import { loadProjectWorkspace } from "./project-workspace.js";
+import type { ProjectWorkspace } from "./project-workspace.js";
+
+export interface LanguageServerOptions {
+  readonly input: Readable;
+  readonly output: Writable;
+  readonly checkDelayMilliseconds?: number;
+}
+
+interface OpenDocument {
+  readonly filePath: string;
+  readonly text: string;
+}
+
+const defaultCheckDelayMilliseconds = 150;
+
+export async function runLanguageServer(options: LanguageServerOptions): Promise<number> {
+  const connection = createJsonRpcConnection(options.input, options.output);
+  const documents = new Map<string, OpenDocument>();
+  let projectFilePath: string | undefined;
+  let workspace: ProjectWorkspace | undefined;
+  let publishedUris = new Set<string>();
+  let checkTimer: NodeJS.Timeout | undefined;
+  let checkController: AbortController | undefined;
+  let shutdownRequested = false;
+  let exitCode: number | undefined;
+
+  const publish = (files: ReadonlyMap<string, readonly EditorDiagnostic[]>): void => {
+    for (const uri of [...publishedUris].filter((published) => !files.has(published)).sort()) {
+      connection.sendNotification("textDocument/publishDiagnostics", { uri, diagnostics: [] });
+    }
+    for (const [uri, diagnostics] of [...files].sort(([left], [right]) => left.localeCompare(right))) {
+      connection.sendNotification("textDocument/publishDiagnostics", { uri, diagnostics });
+    }
+    publishedUris = new Set(files.keys());
+  };
+  const cancelCheck = (): void => {
+    if (checkTimer !== undefined) {
+      clearTimeout(checkTimer);
+      checkTimer = undefined;
+    }
+    checkController?.abort();
+    checkController = undefined;
+  };
+  const check = async (): Promise<void> => {
+    if (workspace === undefined || projectFilePath === undefined) {
+      return;
+    }
+    const overlays = new Map([...documents.values()].map((document) => [document.filePath, document.text]));
+    if (workspace.kind === "failed") {
+      publish(groupEditorDiagnostics(workspace.diagnostics, resolve(projectFilePath, ".."), projectFilePath, overlays));
+      return;
+    }
+    const { paths, session } = workspace;
+    const controller = new AbortController();
+    checkController = controller;
+    try {
+      const result = await session.check(overlays, controller.signal);
+      if (!controller.signal.aborted) {
+        publish(groupEditorDiagnostics(result.diagnostics, paths.projectRoot, projectFilePath, overlays));
+      }
+    } catch (error) {
+      connection.sendNotification("window/logMessage", {
+        type: 1,
+        message: `Tsonic check failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    } finally {
+      if (checkController === controller) {
+        checkController = undefined;
+      }
+    }
+  };
+  const scheduleCheck = (): void => {
+    cancelCheck();
+    checkTimer = setTimeout(() => {
+      checkTimer = undefined;
+      void check();
+    }, options.checkDelayMilliseconds ?? defaultCheckDelayMilliseconds);
+  };
+  const reloadWorkspace = async (): Promise<void> => {
+    if (projectFilePath === undefined) {
+      return;
+    }
+    cancelCheck();
+    if (workspace?.kind === "ready") {
+      workspace.session.close();
+    }
+    workspace = await loadProjectWorkspace(projectFilePath);
+    scheduleCheck();
+  };
+
+  connection.onRequest("initialize", (params) => {
+    projectFilePath = readProjectFilePath(params);
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: 1,
+          save: { includeText: false },
+        },
+      },
+      serverInfo: { name: "tsonic-lsp", version: "0.0.1" },
+    };
+  });
+  connection.onNotification("initialized", reloadWorkspace);
+  connection.onNotification("textDocument/didOpen", (params) => {
+    const document = readTextDocument(params, "textDocument");
+    if (document !== undefined && typeof document.text === "string") {
+      documents.set(document.uri, { filePath: fileURLToPath(document.uri), text: document.text });
+      scheduleCheck();
+    }
+  });
+  connection.onNotification("textDocument/didChange", (params) => {
+    const document = readTextDocument(params, "textDocument");
+    const changes = isRecord(params) && Array.isArray(params.contentChanges) ? params.contentChanges : [];
+    const text = changes.map((change: unknown) => isRecord(change) ? change.text : undefined).at(-1);
+    if (document !== undefined && typeof text === "string") {
+      documents.set(document.uri, { filePath: fileURLToPath(document.uri), text });
+      scheduleCheck();
+    }
+  });
+  connection.onNotification("textDocument/didClose", (params) => {
+    const document = readTextDocument(params, "textDocument");
+    if (document !== undefined && documents.delete(document.uri)) {
+      scheduleCheck();
+    }
+  });
+  connection.onNotification("textDocument/didSave", scheduleCheck);
+  connection.onNotification("workspace/didChangeWatchedFiles", async (params) => {
+    const changes = isRecord(params) && Array.isArray(params.changes) ? params.changes : [];
+    const fileNames = changes
+      .map((change: unknown) => isRecord(change) && typeof change.uri === "string" ? basename(fileURLToPath(change.uri)) : "")
+      .filter((fileName) => fileName.length > 0);
+    if (fileNames.some((fileName) => fileName === basename(projectFilePath ?? "") || fileName === "package.json")) {
+      await reloadWorkspace();
+      return;
+    }
+    if (workspace?.kind === "ready") {
+      workspace.session.invalidate();
+    }
+    scheduleCheck();
+  });
+  connection.onRequest("shutdown", () => {
+    shutdownRequested = true;
+    cancelCheck();
+    if (workspace?.kind === "ready") {
+      workspace.session.close();
+    }
+    return null;
+  });
+  connection.onNotification("exit", () => {
+    exitCode = shutdownRequested ? 0 : 1;
+    options.input.destroy();
+  });
+
+  await connection.listen();
+  cancelCheck();
+  return exitCode ?? (shutdownRequested ? 0 : 1);
+}
+
+function readProjectFilePath(params: unknown): string {
+  const record = isRecord(params) ? params : {};
+  const options = isRecord(record.initializationOptions) ? record.initializationOptions : {};
+  const folders = Array.isArray(record.workspaceFolders) ? record.workspaceFolders : [];
+  const folderUri = folders.map((folder: unknown) => isRecord(folder) ? folder.uri : undefined)
+    .find((uri): uri is string => typeof uri === "string");
+  const rootDirectory = typeof record.rootUri === "string"
+    ? fileURLToPath(record.rootUri)
+    : folderUri !== undefined
+      ? fileURLToPath(folderUri)
+      : typeof record.rootPath === "string"
+        ? record.rootPath
+        : process.cwd();
+  return resolve(rootDirectory, typeof options.project === "string" ? options.project : "tsonic.json");
+}
+
+function readTextDocument(params: unknown, key: string): { readonly uri: string; readonly text?: unknown } | undefined {
+  const document = isRecord(params) ? params[key] : undefined;
+  return isRecord(document) && typeof document.uri === "string" && document.uri.startsWith("file:")
+    ? { uri: pathToFileURL(fileURLToPath(document.uri)).href, text: document.text }
+    : undefined;
+}
+
+function isRecord(value: unknown): value is Readonly<Record<string, unknown>> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,54 @@
+import { readFile } from "node:fs/promises";
+import {
+  createProjectDiagnosticSession,
+  discoverInstalledTsonicPlugins,
+  parseTsonicProjectConfig,
+  resolveProjectPaths,
+} from "@tsonic/host";
+import type { ProjectDiagnosticSession, ProjectPaths } from "@tsonic/host";
+import type { TargetDiagnostic } from "@tsonic/target-api/artifacts";
+
+export type ProjectWorkspace =
+  | {
+      readonly kind: "ready";
+      readonly projectFilePath: string;
+      readonly paths: ProjectPaths;
+      readonly session: ProjectDiagnosticSession;
+    }
+  | {
+      readonly kind: "failed";
+      readonly projectFilePath: string;
+      readonly diagnostics: readonly TargetDiagnostic[];
+    };
+
+export async function loadProjectWorkspace(projectFilePath: string): Promise<ProjectWorkspace> {
+  let project;
+  try {
+    project = parseTsonicProjectConfig(JSON.parse(await readFile(projectFilePath, "utf8")));
+  } catch (error) {
+    return workspaceFailure(projectFilePath, "PROJECT_CONFIG", error instanceof Error ? error.message : String(error));
+  }
+  const plugins = await discoverInstalledTsonicPlugins(projectFilePath);
+  if (plugins.diagnostics.some((diagnostic) => diagnostic.category === "error")) {
+    return Object.freeze({ kind: "failed", projectFilePath, diagnostics: plugins.diagnostics });
+  }
+  return Object.freeze({
+    kind: "ready",
+    projectFilePath,
+    paths: resolveProjectPaths({ project, projectFilePath }),
+    session: createProjectDiagnosticSession({
+      project,
+      projectFilePath,
+      registry: plugins.createTargetRegistry(),
+      installedCapabilities: plugins.capabilities,
+    }),
+  });
+}
+
+function workspaceFailure(projectFilePath: string, code: string, message: string): ProjectWorkspace {
+  return Object.freeze({
+    kind: "failed",
+    projectFilePath,
+    diagnostics: Object.freeze([{ code, category: "error" as const, message, source: "tsonic-lsp" }]),
+  });
+}
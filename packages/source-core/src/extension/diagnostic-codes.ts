@@ -0,0 +1,214 @@
+export interface TsonicCoreDiagnosticCode {
+  readonly code: string;
+  readonly numericCode: number;
+  readonly aliases: readonly string[];
+  readonly title: string;
+  readonly explanation: string;
+  readonly examples?: readonly string[];
+}
+
+export const tsonicCoreDiagnosticCodes: readonly TsonicCoreDiagnosticCode[] = Object.freeze([
+  coreCode(
+    "TSONIC_SOURCE_CORE_MODULE_UNOWNED",
+    9200001,
+    "Module is not owned by the source-core provider",
+    "The source-core declaration provider was asked to resolve a module specifier it does not publish. Only the @tsonic/core modules listed by source-core are virtual; anything else must come from an installed package.",
+  ),
+  coreCode(
+    "TSONIC_SOURCE_CORE_DECLARATION_MISSING",
+    9200002,
+    "Source-core declaration model is missing",
+    "A module resolved to the source-core provider but the provider has no declaration model for it. This indicates a mismatch between the resolved module and the source-core module list.",
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_MODULE_UNOWNED",
+    9200190,
+    "Module is not owned by the source-semantics provider",
+    "A source-semantics virtual module provider was asked to resolve a specifier outside its module list.",
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_DECLARATION_MISSING",
+    9200191,
+    "Source-semantics declaration model is missing",
+    "A module resolved to a source-semantics virtual module provider that has no declaration model for it.",
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_MISSING_FIELD_TYPE_EVIDENCE",
+    9901102,
+    "field<T>() is missing its type",
+    "field<T>() declares a static field, so the field type must be written as an explicit type argument. It cannot be inferred from the initializer.",
+    ["const Point = struct({ x: field() });", "const Point = struct({ x: field<int32>() });"],
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_MISSING_ATTRIBUTE_TARGET_EVIDENCE",
+    9901105,
+    "attribute<T>() is missing its target type",
+    "attribute<T>() names the declaration its attributes apply to, so the target type must be written as an explicit type argument.",
+    ["attribute<User>().add(RouteAttribute, \"user\");"],
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_MISSING_DEFAULT_TYPE_EVIDENCE",
+    9901106,
+    "defaultValue<T>() is missing its type",
+    "defaultValue<T>() produces the default value of one exact type, so the type must be written as an explicit type argument.",
+    ["const zero = defaultValue<int32>();"],
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_STRUCT_DUPLICATE_FIELD",
+    9901107,
+    "struct(...) declares a field twice",
+    "A struct(...) field shape contains the same static field name more than once. Each field name must be unique.",
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_FIELD_CONTEXT_NOT_PROVEN",
+    9901108,
+    "field<T>() is used outside a field shape",
+    "field<T>() is only meaningful as a static member of a field-containing shape such as struct(...). Move the call into such a shape.",
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_STRUCT_FIELD_NOT_PROVEN",
+    9901109,
+    "struct(...) member is not a field",
+    "Every member of a struct(...) field shape must be a finalized field<T>() declaration.",
+  ),
+  coreCode(
+    "SOURCE_SEMANTICS_CORE_REEXPORT_UNSUPPORTED",
+    9901110,
+    "@tsonic/core intrinsic re-exported through a barrel",
+    "Source-core intrinsics are recognised by their exact provider module. Re-exporting them through a local barrel hides that ownership, so import them from @tsonic/core directly.",
+  ),
+  coreCode(
+    "SOURCE_CORE_ATTRIBUTE_PARAMETER_NAME_NOT_PROVEN",
+    9901114,
+    "Attribute parameter name is not a string literal",
+    "The attribute parameter operation names its parameter with an authored string literal. Computed names cannot be proven.",
+  ),
+  coreCode(
+    "SOURCE_CORE_ATTRIBUTE_TARGET_SPECIFIER_NOT_PROVEN",
+    9901115,
+    "Attribute target is not a string literal",
+    "The attribute target operation selects its target with an authored string literal. Computed targets cannot be proven.",
+  ),
+  coreCode(
+    "SOURCE_CORE_ATTRIBUTE_TYPE_NOT_PROVEN",
+    9901116,
+    "Attribute type is not exact",
+    "The attribute application requires one exact checked attribute type argument.",
+  ),
+  coreCode(
+    "SOURCE_CORE_ATTRIBUTE_SELECTOR_NOT_PROVEN",
+    9901117,
+    "Attribute member selector has the wrong shape",
+    "An attribute member selector must be a callback with one parameter that returns one property access.",
+  ),
+  coreCode(
+    "SOURCE_CORE_ATTRIBUTE_SELECTOR_RECEIVER_NOT_PROVEN",
+    9901118,
+    "Attribute member selector reads another receiver",
+    "The property access returned by an attribute member selector must read from the callback's own parameter.",
+  ),
+  coreCode(
+    "SOURCE_CORE_ATTRIBUTE_SELECTOR_MEMBER_NOT_PROVEN",
+    9901119,
+    "Attribute member selector has no exact member",
+    "The member read by an attribute member selector must resolve to one exact declaration.",
+  ),
+  coreCode(
+    "SOURCE_CORE_ATTRIBUTE_FACT_WRITE_FAILED",
+    9901120,
+    "Attribute fact could not be recorded",
+    "The attribute builder fact conflicts with a fact already recorded for the same call. This indicates two analyses disagree about the call.",
+  ),
+  coreCode(
+    "SOURCE_CORE_UNSAFE_CONTEXT_BLOCK_POSITION_INVALID",
+    9901131,
+    "unsafeContext() marker is not the first statement of its block",
+    "The no-argument unsafe-context marker applies to the block it opens, so it must be the first direct expression statement of that block.",
+    ["function copy(): void {\n  unsafeContext();\n  ...\n}"],
+  ),
+  coreCode(
+    "SOURCE_CORE_UNSAFE_CONTEXT_FACT_WRITE_FAILED",
+    9901132,
+    "Unsafe-context fact could not be recorded",
+    "The unsafe-context fact conflicts with a fact already recorded for the same node.",
+  ),
+  coreCode(
+    "SOURCE_CORE_SAFETY_ROOT_TARGET_NOT_PROVEN",
+    9901140,
+    "Safety builder root has no exact target",
+    "A safety builder chain must start from one exact value declaration or an authored type argument target.",
+  ),
+  coreCode(
+    "SOURCE_CORE_SAFETY_SELECTOR_NOT_PROVEN",
+    9901141,
+    "Safety member selector is not exact",
+    "A safety member operation selects its member with an inline callback that reads one member from its own parameter. The emitted code names the failing part: the callback shape, its receiver or the selected member's evidence.",
+    ["safety(value).property((self) => self.count)"],
+    [
+      "SOURCE_CORE_SAFETY_SELECTOR_FUNCTION_SHAPE",
+      "SOURCE_CORE_SAFETY_SELECTOR_RECEIVER",
+      "SOURCE_CORE_SAFETY_SELECTOR_MEMBER_EVIDENCE",
+    ],
+  ),
+  coreCode(
+    "SOURCE_CORE_SAFETY_SELECTOR_MEMBER_KIND_INVALID",
+    9901142,
+    "Safety operation selected the wrong member kind",
+    "A safety property, method or indexer operation must select a declaration of that kind.",
+  ),
+  coreCode(
+    "SOURCE_CORE_SAFETY_ACCESSOR_REQUIRES_PROPERTY",
+    9901143,
+    "Safety accessor operation has no property",
+    "A safety getter or setter operation must follow an exact property or indexer selection in the same chain.",
+  ),
+  coreCode(
+    "SOURCE_CORE_SAFETY_FACT_WRITE_FAILED",
+    9901144,
+    "Safety fact could not be recorded",
+    "The safety builder fact conflicts with a fact already recorded for the same call.",
+  ),
+  coreCode(
+    "SOURCE_CORE_NATIVE_POINTER_SELECTED_EVIDENCE_MISSING",
+    9901150,
+    "Native-pointer operation has no pointer evidence",
+    "A native-pointer operation needs exact evidence for its pointer or pointee type. Give the operand an explicit pointer type.",
+  ),
+  coreCode(
+    "SOURCE_CORE_NATIVE_POINTER_OPERAND_EVIDENCE_MISSING",
+    9901151,
+    "Native-pointer operation is missing an operand",
+    "The native-pointer operation requires one exact operand and none could be selected.",
+  ),
+  coreCode(
+    "SOURCE_CORE_NATIVE_POINTER_FACT_WRITE_FAILED",
+    9901152,
+    "Native-pointer fact could not be recorded",
+    "The native-pointer operation fact conflicts with a fact already recorded for the same call.",
+  ),
+  coreCode(
+    "SOURCE_CORE_FIXED_ARRAY_LENGTH_NOT_LITERAL",
+    9901160,
+    "FixedArray length is not a literal",
+    "FixedArray<T, N> requires N to be one exact non-negative safe integer literal type, so the length is known when the target lays out the array.",
+    ["let buffer: FixedArray<int32, number>;", "let buffer: FixedArray<int32, 16>;"],
+  ),
+]);
+
+function coreCode(
+  code: string,
+  numericCode: number,
+  title: string,
+  explanation: string,
+  examples?: readonly string[],
+  aliases: readonly string[] = [],
+): TsonicCoreDiagnosticCode {
+  return Object.freeze({
+    code,
+    numericCode,
+    aliases: Object.freeze([...aliases, `TSONIC_SOURCE_CORE_${numericCode}`]),
+    title,
+    explanation,
+    ...(examples === undefined ? {} : { examples: Object.freeze([...examples]) }),
+  });
+}
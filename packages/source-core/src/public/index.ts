@@ -1,2 +1,4 @@
 export { createTsonicCoreSourceExtension } from "../extension/source-extension.js";
 export { tsonicCoreSourceSemanticsModules } from "../extension/source-modules.js";
+export { tsonicCoreDiagnosticCodes } from "../extension/diagnostic-codes.js";
+export type { TsonicCoreDiagnosticCode } from "../extension/diagnostic-codes.js";
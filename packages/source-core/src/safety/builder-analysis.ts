@@ -1,4 +1,5 @@
 import type {
+  ExtensionEvidence,
   ExtensionFactKey,
   ExtensionFactSubject,
   Node,
@@ -28,6 +29,9 @@ import {
   readSourceFact,
   selectedProviderCallMatches,
 } from "../analysis/source-call.js";
+import {
+  unsafeContextExpressionFix,
+} from "./unsafe-context-fix.js";
 
 export interface SafetyBuilderAnalysisContract {
   readonly providerId: string;
@@ -141,6 +145,7 @@ function analyzeRoot(
       "ROOT_TARGET_NOT_PROVEN",
       0,
       "The selected safety root requires one exact value declaration or authored type argument target.",
+      unsafeContextFix(selected, context, contract),
     );
     return;
   }
@@ -185,6 +190,7 @@ function analyzeMemberSelector(
       `SELECTOR_${selection.reason.toUpperCase().replace("-", "_")}`,
       1,
       "The selected safety member operation requires one exact inline member selection from its callback parameter.",
+      unsafeContextFix(selected, context, contract),
     );
     return;
   }
@@ -196,6 +202,7 @@ function analyzeMemberSelector(
       "SELECTOR_MEMBER_KIND_INVALID",
       2,
       `The selected safety ${memberKind} operation did not select a ${memberKind} declaration.`,
+      unsafeContextFix(selected, context, contract),
     );
     return;
   }
@@ -265,6 +272,7 @@ function changePropertyAccessorPlacement(
       "ACCESSOR_REQUIRES_PROPERTY",
       3,
       `The selected safety ${placement} operation requires a preceding exact property or indexer selection.`,
+      unsafeContextFix(selected, context, contract),
     );
     return;
   }
@@ -335,6 +343,7 @@ function appendDiagnostic(
   suffix: string,
   numberOffset: number,
   message: string,
+  evidence: readonly ExtensionEvidence[] = [],
 ): void {
   const extensionCode = `${contract.diagnosticPrefix}_${suffix}`;
   context.diagnostics.append({
@@ -344,6 +353,20 @@ function appendDiagnostic(
     category: "error",
     message,
     nodeOrSpan: selected.call,
+    ...(evidence.length === 0 ? {} : { evidence }),
     identity: `safety-builder:${extensionCode}:${context.ast.getPath(context.ast.getSourceFile(selected.call))}:${context.ast.pos(selected.call)}:${context.ast.end(selected.call)}`,
   });
 }
+
+function unsafeContextFix(
+  selected: SelectedProviderSourceCall,
+  context: TsonicSourceFileAnalysisContext,
+  contract: SafetyBuilderAnalysisContract,
+): readonly ExtensionEvidence[] {
+  return unsafeContextExpressionFix(
+    selected.call,
+    context,
+    contract.providerModuleId,
+    contract.names.unsafeContextExport,
+  );
+}
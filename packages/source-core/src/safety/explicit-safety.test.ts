@@ -285,6 +285,35 @@ test("safety facts are shadow-safe and reject unproven selector chains", () => {
   assert.equal(fact(checked, propertyCall(checked.ast, sourceFile, "requiresUnsafe", 2), tsonicSafetyBuilderFactKey), undefined);
 });
 
+test("safety diagnostics offer an unsafeContext() wrap fix under the file's import binding", () => {
+  const { checked } = createSession(`import * as core from "@tsonic/core/lang.js";
+class Box { value = 1; }
+core.safety<Box>().method(box => box.value).requiresUnsafe();
+`);
+  const { checked: unimported } = createSession(`import { safety } from "@tsonic/core/lang.js";
+class Box { value = 1; }
+safety<Box>().method(box => box.value).requiresUnsafe();
+`);
+
+  assert.deepEqual(checked.extensionDiagnostics.map((diagnostic) => JSON.parse(JSON.stringify(diagnostic.evidence))), [[{
+    message: "Wrap in unsafeContext()",
+    details: {
+      annotation: "fix",
+      edits: [{ start: 71, end: 114, newText: "core.unsafeContext(core.safety<Box>().method(box => box.value))" }],
+    },
+  }]]);
+  assert.deepEqual(unimported.extensionDiagnostics.map((diagnostic) => JSON.parse(JSON.stringify(diagnostic.evidence))), [[{
+    message: "Wrap in unsafeContext()",
+    details: {
+      annotation: "fix",
+      edits: [
+        { start: 0, end: 0, newText: "import { unsafeContext } from \"@tsonic/core/lang.js\";\n" },
+        { start: 72, end: 110, newText: "unsafeContext(safety<Box>().method(box => box.value))" },
+      ],
+    },
+  }]]);
+});
+
 function createSession(source: string, extraFiles: Readonly<Record<string, string>> = {}): {
   readonly checked: CheckedSourceProgram;
   readonly sourceFile: SourceFile;
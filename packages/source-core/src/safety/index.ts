@@ -2,3 +2,4 @@ export * from "./builder-analysis.js";
 export * from "./declarations.js";
 export * from "./facts.js";
 export * from "./unsafe-context-analysis.js";
+export * from "./unsafe-context-fix.js";
@@ -1,4 +1,5 @@
 import type {
+  ExtensionEvidence,
   ExtensionFactKey,
   Node,
   SourceAnalysisContext,
@@ -15,6 +16,9 @@ import {
   forEachSelectedProviderSourceCall,
   selectedProviderCallMatches,
 } from "../analysis/source-call.js";
+import {
+  unsafeContextBlockFix,
+} from "./unsafe-context-fix.js";
 
 export interface UnsafeContextAnalysisContract {
   readonly blockSelector: ProviderSourceCallSelector;
@@ -67,6 +71,7 @@ export function analyzeUnsafeContextCalls(
         contract.invalidPositionCode,
         contract.invalidPositionNumber,
         "The no-argument unsafe-context marker must be the first direct expression statement of its source block.",
+        unsafeContextBlockFix(selected.call, sourceContext, contract.blockSelector.exportId),
       );
       return;
     }
@@ -141,6 +146,7 @@ function appendDiagnostic(
   extensionCode: string,
   numericCode: number,
   message: string,
+  evidence: readonly ExtensionEvidence[] = [],
 ): void {
   context.diagnostics.append({
     extensionId,
@@ -149,6 +155,7 @@ function appendDiagnostic(
     category: "error",
     message,
     nodeOrSpan: selected.call,
+    ...(evidence.length === 0 ? {} : { evidence }),
     identity: `unsafe-context:${extensionCode}:${context.ast.getPath(context.ast.getSourceFile(selected.call))}:${context.ast.pos(selected.call)}:${context.ast.end(selected.call)}`,
   });
 }
@@ -0,0 +1,107 @@
+import type {
+  ExtensionEvidence,
+  Node,
+} from "@tsonic/tsts";
+import type {
+  TsonicSourceFileAnalysisContext,
+} from "../analysis/context.js";
+
+interface UnsafeContextFixEdit {
+  readonly start: number;
+  readonly end: number;
+  readonly newText: string;
+}
+
+export function unsafeContextExpressionFix(
+  expression: Node,
+  context: TsonicSourceFileAnalysisContext,
+  moduleSpecifier: string,
+  exportName: string,
+): readonly ExtensionEvidence[] {
+  const range = context.ast.authoredRange(expression);
+  if (range.kind !== "authored") {
+    return [];
+  }
+  const text = context.ast.getSourceText(context.sourceFile);
+  const importedName = importedUnsafeContextName(context, moduleSpecifier, exportName);
+  return [fixEvidence(`Wrap in ${exportName}()`, [
+    ...(importedName === undefined
+      ? [{ start: 0, end: 0, newText: `import { ${exportName} } from "${moduleSpecifier}";\n` }]
+      : []),
+    {
+      start: range.start,
+      end: range.end,
+      newText: `${importedName ?? exportName}(${text.slice(range.start, range.end)})`,
+    },
+  ])];
+}
+
+export function unsafeContextBlockFix(
+  call: Node,
+  context: TsonicSourceFileAnalysisContext,
+  exportName: string,
+): readonly ExtensionEvidence[] {
+  let statement = context.ast.parent(call);
+  while (statement !== undefined && context.ast.is.IsParenthesizedExpression(statement)) {
+    statement = context.ast.parent(statement);
+  }
+  if (statement === undefined || !context.ast.is.IsExpressionStatement(statement)) {
+    return [];
+  }
+  const owner = context.ast.parent(statement);
+  const statements = owner === undefined
+    ? []
+    : context.ast.statements(owner).filter((candidate): candidate is Node => candidate !== undefined);
+  const lastStatement = statements[statements.length - 1];
+  const first = context.ast.authoredRange(statement);
+  const last = lastStatement === undefined ? undefined : context.ast.authoredRange(lastStatement);
+  if (first.kind !== "authored" || last?.kind !== "authored") {
+    return [];
+  }
+  return [fixEvidence(`Wrap the remaining statements in a block that starts with ${exportName}()`, [
+    { start: first.start, end: first.start, newText: "{ " },
+    { start: last.end, end: last.end, newText: " }" },
+  ])];
+}
+
+function importedUnsafeContextName(
+  context: TsonicSourceFileAnalysisContext,
+  moduleSpecifier: string,
+  exportName: string,
+): string | undefined {
+  for (const statement of context.ast.statements(context.sourceFile)) {
+    if (
+      statement === undefined ||
+      !context.ast.is.IsImportDeclaration(statement) ||
+      context.ast.isTypeOnlyImportDeclaration(statement)
+    ) {
+      continue;
+    }
+    const declaration = context.ast.as.AsImportDeclaration(statement);
+    if (declaration?.ModuleSpecifier === undefined || context.ast.text(declaration.ModuleSpecifier) !== moduleSpecifier) {
+      continue;
+    }
+    const bindings = context.ast.as.AsImportClause(declaration.ImportClause)?.NamedBindings;
+    if (bindings === undefined) {
+      continue;
+    }
+    if (context.ast.is.IsNamespaceImport(bindings)) {
+      return `${context.ast.text(context.ast.name(bindings))}.${exportName}`;
+    }
+    for (const specifier of context.ast.elements(bindings)) {
+      if (specifier === undefined || !context.ast.is.IsImportSpecifier(specifier)) {
+        continue;
+      }
+      const importSpecifier = context.ast.as.AsImportSpecifier(specifier);
+      const importedName = importSpecifier?.PropertyName ?? context.ast.name(specifier);
+      if (importSpecifier?.IsTypeOnly !== true && importedName !== undefined && context.ast.text(importedName) === exportName) {
+        return context.ast.text(context.ast.name(specifier));
+      }
+    }
+  }
+  return undefined;
+}
+
+function fixEvidence(title: string, edits: readonly UnsafeContextFixEdit[]): ExtensionEvidence {
+  return { message: title, details: { annotation: "fix", edits } };
+}
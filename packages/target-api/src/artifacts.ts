@@ -1,4 +1,9 @@
 import type { Node } from "@tsonic/tsts";
+import {
+  describeTargetCompilationInterruption,
+  targetCompilationInterruptionCodes,
+} from "./target/cancellation.js";
+import type { TargetCancellationToken } from "./target/cancellation.js";
 
 export type TargetArtifactKind =
   | "source"
@@ -6,13 +11,31 @@ export type TargetArtifactKind =
   | "configuration"
   | "asset";
 
-export interface TargetArtifact {
+export type TargetArtifact =
+  | TargetTextArtifact
+  | TargetBinaryArtifact
+  | TargetCopiedArtifact;
+
+export interface TargetTextArtifact {
   readonly kind: TargetArtifactKind;
   readonly path: string;
   readonly text: string;
 }
 
-export interface TargetSourceFile extends TargetArtifact {
+export interface TargetBinaryArtifact {
+  readonly kind: TargetArtifactKind;
+  readonly path: string;
+  readonly bytes: Uint8Array;
+}
+
+export interface TargetCopiedArtifact {
+  readonly kind: TargetArtifactKind;
+  readonly path: string;
+  readonly sourcePath: string;
+  readonly sha256: string;
+}
+
+export interface TargetSourceFile extends TargetTextArtifact {
   readonly kind: "source";
   readonly language: string;
 }
@@ -25,6 +48,32 @@ export interface TargetDiagnostic {
   readonly sourceNode?: Node;
   readonly sourceSpan?: TargetDiagnosticSourceSpan;
   readonly evidence?: readonly string[];
+  readonly jsonPath?: string;
+  readonly related?: readonly TargetDiagnosticRelatedLocation[];
+  readonly notes?: readonly TargetDiagnosticNote[];
+  readonly fixes?: readonly TargetDiagnosticFix[];
+}
+
+export interface TargetDiagnosticRelatedLocation {
+  readonly message: string;
+  readonly sourceNode?: Node;
+  readonly sourceSpan?: TargetDiagnosticSourceSpan;
+}
+
+export interface TargetDiagnosticNote {
+  readonly label: string;
+  readonly message: string;
+}
+
+export interface TargetDiagnosticFix {
+  readonly title: string;
+  readonly edits: readonly TargetDiagnosticTextEdit[];
+}
+
+export interface TargetDiagnosticTextEdit {
+  readonly sourceNode?: Node;
+  readonly sourceSpan?: TargetDiagnosticSourceSpan;
+  readonly newText: string;
 }
 
 export interface TargetDiagnosticSourceSpan {
@@ -56,6 +105,23 @@ export interface TargetCompilationStages<Program, Plan> {
   readonly analyze: () => TargetStageResult<Program>;
   readonly plan: (program: Program) => TargetStageResult<Plan>;
   readonly materialize: (plan: Plan) => TargetCompileOutput;
+  readonly cancellation?: TargetCancellationToken;
+}
+
+export interface TargetCompilationProfiler {
+  span<T>(name: string, run: () => T): T;
+}
+
+export function targetArtifactContentEquals(left: TargetArtifact, right: TargetArtifact): boolean {
+  if ("text" in left || "text" in right) {
+    return "text" in left && "text" in right && left.text === right.text;
+  }
+  if ("bytes" in left || "bytes" in right) {
+    return "bytes" in left && "bytes" in right &&
+      left.bytes.length === right.bytes.length &&
+      left.bytes.every((byte, index) => byte === right.bytes[index]);
+  }
+  return left.sha256 === right.sha256;
 }
 
 export function resolvedTargetStage<T>(
@@ -86,12 +152,35 @@ export function rejectedTargetStage<T>(
 
 export function runTargetCompilationStages<Program, Plan>(
   stages: TargetCompilationStages<Program, Plan>,
+  profiler?: TargetCompilationProfiler,
 ): TargetCompileResult {
-  const analysis = stages.analyze();
+  const span = <T>(name: string, run: () => T): T => profiler === undefined ? run() : profiler.span(name, run);
+  const interrupted = (diagnostics: readonly TargetDiagnostic[]): TargetCompileResult | undefined => {
+    const interruption = stages.cancellation?.interruption();
+    return interruption === undefined
+      ? undefined
+      : rejectedTargetStage([
+          ...diagnostics,
+          {
+            code: targetCompilationInterruptionCodes[interruption],
+            category: "error",
+            message: describeTargetCompilationInterruption(interruption),
+          },
+        ]);
+  };
+  const beforeAnalysis = interrupted([]);
+  if (beforeAnalysis !== undefined) {
+    return beforeAnalysis;
+  }
+  const analysis = span("analyze", () => stages.analyze());
   if (analysis.kind === "rejected") {
     return rejectedTargetStage(analysis.diagnostics);
   }
-  const planning = stages.plan(analysis.value);
+  const beforePlanning = interrupted(analysis.diagnostics);
+  if (beforePlanning !== undefined) {
+    return beforePlanning;
+  }
+  const planning = span("plan", () => stages.plan(analysis.value));
   const diagnostics = Object.freeze([
     ...analysis.diagnostics,
     ...planning.diagnostics,
@@ -99,7 +188,12 @@ export function runTargetCompilationStages<Program, Plan>(
   if (planning.kind === "rejected") {
     return rejectedTargetStage(diagnostics);
   }
-  return resolvedTargetStage(stages.materialize(planning.value), diagnostics);
+  const beforeMaterialization = interrupted(diagnostics);
+  if (beforeMaterialization !== undefined) {
+    return beforeMaterialization;
+  }
+  const output = span("materialize", () => stages.materialize(planning.value));
+  return interrupted(diagnostics) ?? resolvedTargetStage(output, diagnostics);
 }
 
 export interface TargetRuntimeContributions {
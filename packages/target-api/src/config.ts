@@ -10,12 +10,21 @@ export interface TargetSelection {
   readonly options?: TargetSelectionOptions;
 }
 
+export type TsonicDiagnosticSeverity = "error" | "warning" | "suggestion" | "off";
+
+export interface TsonicDiagnosticsConfig {
+  readonly warningsAsErrors?: boolean;
+  readonly severity?: Readonly<Record<string, TsonicDiagnosticSeverity>>;
+  readonly baseline?: string;
+}
+
 export interface TsonicProjectConfig {
   readonly entryPoint: string;
   readonly rootFiles?: readonly string[];
   readonly rootDir?: string;
   readonly outDir?: string;
   readonly targets: readonly TargetSelection[];
+  readonly diagnostics?: TsonicDiagnosticsConfig;
 }
 
 const targetIdPattern = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/u;
@@ -28,6 +37,10 @@ export function isValidTargetSurfaceId(value: string): value is TargetSurfaceId
   return targetIdPattern.test(value);
 }
 
+export function getTargetIdPattern(): string {
+  return targetIdPattern.source;
+}
+
 export function getTargetIdValidationMessage(subject: string): string {
   return `${subject} must match ${targetIdPattern.source}; use lowercase ASCII letters, digits, and single hyphen-separated segments.`;
 }
@@ -1,24 +1,44 @@
 export type {
   TargetArtifact,
   TargetArtifactKind,
+  TargetBinaryArtifact,
+  TargetCopiedArtifact,
   TargetCompileOutput,
   TargetCompileResult,
+  TargetCompilationProfiler,
   TargetCompilationStages,
   TargetDiagnostic,
+  TargetDiagnosticFix,
+  TargetDiagnosticNote,
+  TargetDiagnosticRelatedLocation,
   TargetDiagnosticSourceSpan,
+  TargetDiagnosticTextEdit,
   TargetRuntimeContributions,
   TargetRuntimeReference,
   TargetStageResult,
   TargetSourceFile,
+  TargetTextArtifact,
 } from "../artifacts.js";
 export {
   rejectedTargetStage,
   resolvedTargetStage,
   runTargetCompilationStages,
+  targetArtifactContentEquals,
 } from "../artifacts.js";
+export type {
+  TargetCancellationToken,
+  TargetCompilationBudget,
+  TargetCompilationInterruption,
+} from "../target/cancellation.js";
+export {
+  describeTargetCompilationInterruption,
+  targetCompilationInterruptionCodes,
+  validateTargetCompilationBudget,
+} from "../target/cancellation.js";
 export {
   createTargetArtifactContractGraph,
   reconstructTargetArtifacts,
+  targetArtifactDiagnosticCodes,
 } from "../target-artifacts/index.js";
 export type {
   TargetArtifactContract,
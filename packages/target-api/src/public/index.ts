@@ -3,9 +3,12 @@ export type {
   TargetSelection,
   TargetSelectionOptions,
   TargetSurfaceId,
+  TsonicDiagnosticSeverity,
+  TsonicDiagnosticsConfig,
   TsonicProjectConfig,
 } from "../config.js";
 export {
+  getTargetIdPattern,
   getTargetIdValidationMessage,
   isValidTargetId,
   isValidTargetSurfaceId,
@@ -28,6 +31,21 @@ export type {
   TargetSourceCompilerContributions,
   TargetSurfaceImplementation,
 } from "../target/composition.js";
+export type {
+  TargetDiagnosticCodeDescriptor,
+  TargetDiagnosticCodeRegistry,
+} from "../target/diagnostic-codes.js";
+export {
+  createTargetDiagnosticCodeRegistry,
+  validateTargetDiagnosticCodeDescriptors,
+} from "../target/diagnostic-codes.js";
+export type { TargetOptionDescriptor, TargetOptionType } from "../target/options.js";
+export {
+  getTargetOptionTypeLabel,
+  isTargetOptionValue,
+  targetOptionTypes,
+  validateTargetOptionDescriptors,
+} from "../target/options.js";
 export type {
   TargetSourceProfileContributions,
 } from "../source-profile.js";
@@ -35,6 +53,9 @@ export type {
   TargetToolchain,
   TargetToolchainContext,
   TargetToolchainInput,
+  TargetToolchainInvocationInput,
+  TargetToolchainInvocationResult,
+  TargetToolchainOutput,
   TargetToolchainResult,
 } from "../target/toolchain.js";
 export type {
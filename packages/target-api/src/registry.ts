@@ -1,5 +1,7 @@
 import { getTargetIdValidationMessage, isValidTargetId, isValidTargetSurfaceId } from "./config.js";
 import type { TargetId } from "./config.js";
+import { validateTargetDiagnosticCodeDescriptors } from "./target/diagnostic-codes.js";
+import { validateTargetOptionDescriptors } from "./target/options.js";
 import type { TargetPack } from "./target/pack.js";
 
 export interface TargetRegistry {
@@ -24,6 +26,9 @@ export function createTargetRegistry(packs: readonly TargetPack[]): TargetRegist
       if (!isValidTargetSurfaceId(surface.id)) {
         throw new Error(getTargetIdValidationMessage(`Target pack '${pack.id}' surface id '${surface.id}'`));
       }
+      if (surface.options !== undefined) {
+        validateTargetOptionDescriptors(`Target pack '${pack.id}' surface '${surface.id}'`, surface.options);
+      }
       for (const requiredSurfaceId of surface.requiredSurfaces ?? []) {
         if (!isValidTargetSurfaceId(requiredSurfaceId)) {
           throw new Error(getTargetIdValidationMessage(`Target pack '${pack.id}' surface '${surface.id}' required surface id '${requiredSurfaceId}'`));
@@ -53,6 +58,12 @@ function validateTargetPackContract(pack: TargetPack): void {
   if (!Array.isArray(pack.surfaces)) {
     throw new Error(`Target pack '${pack.id}' must declare its surface list.`);
   }
+  if (pack.options !== undefined) {
+    validateTargetOptionDescriptors(`Target pack '${pack.id}'`, pack.options);
+  }
+  if (pack.diagnosticCodes !== undefined) {
+    validateTargetDiagnosticCodeDescriptors(`Target pack '${pack.id}'`, pack.diagnosticCodes);
+  }
   if (typeof pack.createCompilationSession !== "function") {
     throw new Error(`Target pack '${pack.id}' must declare one compilation-session factory.`);
   }
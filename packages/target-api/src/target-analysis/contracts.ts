@@ -1,3 +1,11 @@
+import {
+  describeTargetCompilationInterruption,
+} from "../target/cancellation.js";
+import type {
+  TargetCancellationToken,
+  TargetCompilationInterruption,
+} from "../target/cancellation.js";
+
 export interface TargetContractRevision<Contract> {
   readonly contract: Contract;
   readonly dependencies: readonly string[];
@@ -33,6 +41,7 @@ export interface TargetContractFixedPointRequest<Contract> {
   readonly maximumContracts?: number;
   readonly maximumRevisionsPerContract?: number;
   readonly maximumEvaluations?: number;
+  readonly cancellation?: TargetCancellationToken;
 }
 
 export interface TargetContractProgram<Contract> {
@@ -52,6 +61,7 @@ export type TargetContractFixedPointResult<Contract> =
       readonly kind: "rejected";
       readonly contractId?: string;
       readonly reason: string;
+      readonly interruption?: TargetCompilationInterruption;
     };
 
 interface ContractRevisionState<Contract> {
@@ -143,6 +153,15 @@ export function resolveTargetContractFixedPoint<Contract>(
   while (queueHead < queue.length) {
     const id = queue[queueHead++]!;
     queued.delete(id);
+    const interruption = request.cancellation?.interruption();
+    if (interruption !== undefined) {
+      return {
+        kind: "rejected",
+        contractId: id,
+        reason: describeTargetCompilationInterruption(interruption),
+        interruption,
+      };
+    }
     evaluations += 1;
     if (evaluations > maximumEvaluations) {
       return {
@@ -0,0 +1,65 @@
+import type { TargetDiagnosticCodeDescriptor } from "../target/diagnostic-codes.js";
+
+export const targetArtifactDiagnosticCodes: readonly TargetDiagnosticCodeDescriptor[] = Object.freeze([
+  {
+    code: "TARGET_ARTIFACT_CONTRACT_OPEN",
+    title: "Target artifact depends on an unpublished contract",
+    explanation:
+      "A target artifact declared a dependency on another artifact's facet that was never published. The contract graph cannot close until every consumed facet has exactly one provider.",
+    examples: ["Target artifact 'Program' depends on unpublished artifact 'Runtime' facet 'members'."],
+  },
+  {
+    code: "TARGET_ARTIFACT_CONTRACT_OSCILLATION",
+    title: "Target artifact contract oscillated",
+    explanation:
+      "Reconstructing an artifact produced an observable contract it had already published earlier. Reconstruction would never reach a fixed point, so the target pack must make its contracts monotone.",
+  },
+  {
+    code: "TARGET_ARTIFACT_CONTRACT_INVALID",
+    title: "Target artifact contract is malformed",
+    explanation:
+      "A target pack published an artifact contract update that does not name one owner, one encoded contract per facet, or exact dependency facets.",
+  },
+  {
+    code: "TARGET_ARTIFACT_CONTRACT_BUDGET_EXCEEDED",
+    title: "Target artifact contract budget exceeded",
+    explanation:
+      "An artifact changed its observable contract more often than the contract graph allows. The budget bounds reconstruction so a misbehaving target pack fails instead of looping.",
+  },
+  {
+    code: "TARGET_ARTIFACT_BLOCKED_WITHOUT_PROGRESS",
+    title: "Target artifact remains blocked",
+    explanation:
+      "Every remaining artifact reported itself blocked on prerequisite facets and no reconstruction could publish them. The message names the first blocked owner and the facets it is waiting for.",
+  },
+  {
+    code: "TARGET_ARTIFACT_DIRTY_QUEUE_INCONSISTENT",
+    title: "Target artifact graph queue is inconsistent",
+    explanation:
+      "The contract graph reported pending reconstruction work without one exact dirty owner. This is an internal invariant failure in the artifact graph.",
+  },
+  {
+    code: "TARGET_ARTIFACT_RECONSTRUCTION_BUDGET_EXCEEDED",
+    title: "Target artifact reconstruction budget exceeded",
+    explanation:
+      "Artifact reconstruction ran more attempts than its finite budget. Raise the budget only when the target pack legitimately needs more passes; otherwise look for artifacts that keep invalidating each other.",
+  },
+  {
+    code: "TARGET_ARTIFACT_BLOCKED_DEPENDENCY_INVALID",
+    title: "Target artifact reported an invalid blocking dependency",
+    explanation:
+      "A reconstruction reported itself blocked but named a dependency that is not one exact owner and facet.",
+  },
+  {
+    code: "TARGET_ARTIFACT_BLOCKED_WITHOUT_UNPUBLISHED_DEPENDENCY",
+    title: "Target artifact blocked on published facets",
+    explanation:
+      "A reconstruction reported itself blocked even though every prerequisite facet it named is already published, so waiting can never unblock it.",
+  },
+  {
+    code: "TARGET_ARTIFACT_RETRY_WITHOUT_PROGRESS",
+    title: "Target artifact retried without progress",
+    explanation:
+      "A reconstruction asked to be retried although no prerequisite contract changed since its last attempt, so the retry would observe the same inputs.",
+  },
+]);
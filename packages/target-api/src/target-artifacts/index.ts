@@ -22,3 +22,4 @@ export type {
   TargetArtifactOwnerFailure,
   TargetArtifactReconstructionRunResult,
 } from "./reconstruction.js";
+export { targetArtifactDiagnosticCodes } from "./diagnostic-codes.js";
@@ -1,3 +1,8 @@
+import {
+  describeTargetCompilationInterruption,
+  targetCompilationInterruptionCodes,
+} from "../target/cancellation.js";
+import type { TargetCancellationToken } from "../target/cancellation.js";
 import type {
   TargetArtifactContract,
   TargetArtifactContractGraph,
@@ -28,6 +33,7 @@ export type TargetArtifactReconstruction<Facet extends string, Artifact> =
 
 export interface TargetArtifactReconstructionOptions {
   readonly maximumReconstructionCount: number;
+  readonly cancellation?: TargetCancellationToken;
 }
 
 export interface TargetArtifactOwnerFailure {
@@ -135,6 +141,16 @@ export function reconstructTargetArtifacts<Facet extends string, Artifact>(
       graph.discardDirty(owner);
       continue;
     }
+    const interruption = options.cancellation?.interruption();
+    if (interruption !== undefined) {
+      return {
+        kind: "rejected",
+        owner,
+        code: targetCompilationInterruptionCodes[interruption],
+        reason: describeTargetCompilationInterruption(interruption),
+        reconstructionCount,
+      };
+    }
     reconstructionCount += 1;
     if (reconstructionCount > maximumReconstructionCount) {
       return {
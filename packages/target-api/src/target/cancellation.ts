@@ -0,0 +1,32 @@
+export type TargetCompilationInterruption = "cancelled" | "budget-exceeded";
+
+export interface TargetCancellationToken {
+  interruption(): TargetCompilationInterruption | undefined;
+}
+
+export interface TargetCompilationBudget {
+  readonly wallClockMilliseconds?: number;
+  readonly heapBytes?: number;
+}
+
+export const targetCompilationInterruptionCodes: Readonly<Record<TargetCompilationInterruption, string>> = Object.freeze({
+  cancelled: "TARGET_COMPILATION_CANCELLED",
+  "budget-exceeded": "TARGET_BUDGET_EXCEEDED",
+});
+
+export function describeTargetCompilationInterruption(interruption: TargetCompilationInterruption): string {
+  return interruption === "cancelled"
+    ? "Target compilation was cancelled."
+    : "Target compilation exceeded its budget.";
+}
+
+export function validateTargetCompilationBudget(budget: TargetCompilationBudget): void {
+  for (const [name, value] of [
+    ["wallClockMilliseconds", budget.wallClockMilliseconds],
+    ["heapBytes", budget.heapBytes],
+  ] as const) {
+    if (value !== undefined && (!Number.isSafeInteger(value) || value <= 0)) {
+      throw new Error(`Target compilation budget ${name} must be a positive safe integer.`);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import type {
+  TargetCompilationProfiler,
   TargetCompileResult,
   TargetRuntimeContributions,
   TargetRuntimeReference,
@@ -15,6 +16,7 @@ import type {
   TargetSourceProgram,
 } from "../source-semantics/index.js";
 import type { TargetSourcePackageGraph } from "../source-packages/model.js";
+import type { TargetCancellationToken, TargetCompilationBudget } from "./cancellation.js";
 import type {
   SelectedTargetCapabilityContributions,
   TargetSourceCompilerContributions,
@@ -34,6 +36,9 @@ export interface TargetCompileInput {
   readonly target: TargetSelection;
   readonly runtimeReferences: readonly TargetRuntimeReference[];
   readonly paths: TargetCompilationPaths;
+  readonly profiler?: TargetCompilationProfiler;
+  readonly cancellation?: TargetCancellationToken;
+  readonly budget?: TargetCompilationBudget;
 }
 
 export interface TargetCompilationSessionContext {
@@ -16,6 +16,8 @@ import type {
 import type {
   TargetCompilationPaths,
 } from "./compilation.js";
+import type { TargetDiagnosticCodeDescriptor } from "./diagnostic-codes.js";
+import type { TargetOptionDescriptor } from "./options.js";
 
 export interface TargetCompositionContext {
   readonly project: TsonicProjectConfig;
@@ -60,6 +62,8 @@ export interface TargetSurfaceImplementation {
   readonly id: TargetSurfaceId;
   readonly displayName: string;
   readonly requiredSurfaces?: readonly TargetSurfaceId[];
+  readonly options?: readonly TargetOptionDescriptor[];
+  readonly diagnosticCodes?: readonly TargetDiagnosticCodeDescriptor[];
   sourceProfileContributions?(
     context: TargetSurfaceCompositionContext,
   ): TargetSourceProfileContributions;
@@ -87,6 +91,8 @@ export interface TsonicTargetCapabilityPlugin {
   readonly requiredSurfaces?: readonly string[];
   readonly requiredCapabilities?: readonly string[];
   readonly moduleOwnership: readonly TargetProviderModuleOwnership[];
+  readonly options?: readonly TargetOptionDescriptor[];
+  readonly diagnosticCodes?: readonly TargetDiagnosticCodeDescriptor[];
   sourceProfileContributions?(
     context: TargetCapabilityContext,
   ): TargetSourceProfileContributions;
@@ -0,0 +1,83 @@
+export interface TargetDiagnosticCodeDescriptor {
+  readonly code: string;
+  readonly numericCode?: number;
+  readonly aliases?: readonly string[];
+  readonly title: string;
+  readonly explanation: string;
+  readonly examples?: readonly string[];
+}
+
+export interface TargetDiagnosticCodeRegistry {
+  readonly codes: readonly TargetDiagnosticCodeDescriptor[];
+  get(code: string): TargetDiagnosticCodeDescriptor | undefined;
+}
+
+const diagnosticCodePattern = /^[A-Z][A-Z0-9_]*$/u;
+
+const numericDiagnosticCodePattern = /^(?:TS)?(\d+)$/u;
+
+export function validateTargetDiagnosticCodeDescriptors(subject: string, codes: unknown): void {
+  if (!Array.isArray(codes)) {
+    throw new Error(`${subject} diagnostic codes must be a list of diagnostic code descriptors.`);
+  }
+  for (const descriptor of codes as readonly Partial<TargetDiagnosticCodeDescriptor>[]) {
+    if (typeof descriptor.code !== "string" || !diagnosticCodePattern.test(descriptor.code)) {
+      throw new Error(`${subject} diagnostic code '${String(descriptor.code)}' must be an upper-case identifier such as 'TARGET_EXAMPLE'.`);
+    }
+    if (
+      typeof descriptor.title !== "string" ||
+      descriptor.title.length === 0 ||
+      typeof descriptor.explanation !== "string" ||
+      descriptor.explanation.length === 0
+    ) {
+      throw new Error(`${subject} diagnostic code '${descriptor.code}' must declare a non-empty title and explanation.`);
+    }
+    if (descriptor.numericCode !== undefined && (!Number.isSafeInteger(descriptor.numericCode) || descriptor.numericCode <= 0)) {
+      throw new Error(`${subject} diagnostic code '${descriptor.code}' numeric code must be a positive integer.`);
+    }
+    if (
+      descriptor.aliases !== undefined &&
+      (!Array.isArray(descriptor.aliases) || !descriptor.aliases.every((alias) => typeof alias === "string" && diagnosticCodePattern.test(alias)))
+    ) {
+      throw new Error(`${subject} diagnostic code '${descriptor.code}' aliases must be upper-case identifiers.`);
+    }
+    if (
+      descriptor.examples !== undefined &&
+      (!Array.isArray(descriptor.examples) || !descriptor.examples.every((example) => typeof example === "string" && example.length > 0))
+    ) {
+      throw new Error(`${subject} diagnostic code '${descriptor.code}' examples must be non-empty strings.`);
+    }
+  }
+}
+
+export function createTargetDiagnosticCodeRegistry(
+  codes: readonly TargetDiagnosticCodeDescriptor[],
+): TargetDiagnosticCodeRegistry {
+  const byKey = new Map<string, TargetDiagnosticCodeDescriptor>();
+  const register = (key: string, descriptor: TargetDiagnosticCodeDescriptor): void => {
+    const previous = byKey.get(key);
+    if (previous !== undefined && previous !== descriptor) {
+      throw new Error(previous.code === descriptor.code
+        ? `Diagnostic code '${key}' is registered more than once.`
+        : `Diagnostic code '${key}' is registered by both '${previous.code}' and '${descriptor.code}'.`);
+    }
+    byKey.set(key, descriptor);
+  };
+  for (const descriptor of codes) {
+    register(descriptor.code, descriptor);
+    for (const alias of descriptor.aliases ?? []) {
+      register(alias, descriptor);
+    }
+    if (descriptor.numericCode !== undefined) {
+      register(String(descriptor.numericCode), descriptor);
+    }
+  }
+  const sorted = [...codes].sort((left, right) => left.code.localeCompare(right.code));
+  return Object.freeze({
+    codes: Object.freeze(sorted),
+    get(code: string): TargetDiagnosticCodeDescriptor | undefined {
+      const key = code.trim().toUpperCase();
+      return byKey.get(key) ?? byKey.get(numericDiagnosticCodePattern.exec(key)?.[1] ?? "");
+    },
+  });
+}
@@ -0,0 +1,65 @@
+export const targetOptionTypes = Object.freeze(["string", "number", "boolean", "string-list", "string-map"] as const);
+
+export type TargetOptionType = typeof targetOptionTypes[number];
+
+export interface TargetOptionDescriptor {
+  readonly name: string;
+  readonly description: string;
+  readonly type?: TargetOptionType;
+  readonly required?: boolean;
+  readonly default?: unknown;
+  readonly deprecated?: string;
+}
+
+const targetOptionTypeLabels: Readonly<Record<TargetOptionType, string>> = Object.freeze({
+  "string": "a string",
+  "number": "a finite number",
+  "boolean": "a boolean",
+  "string-list": "an array of strings",
+  "string-map": "an object with string values",
+});
+
+export function isTargetOptionValue(type: TargetOptionType, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "string-list":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+    case "string-map":
+      return typeof value === "object" && value !== null && !Array.isArray(value) &&
+        Object.values(value).every((item) => typeof item === "string");
+  }
+}
+
+export function getTargetOptionTypeLabel(type: TargetOptionType): string {
+  return targetOptionTypeLabels[type];
+}
+
+export function validateTargetOptionDescriptors(subject: string, options: unknown): void {
+  if (!Array.isArray(options)) {
+    throw new Error(`${subject} options must be a list of option descriptors.`);
+  }
+  const names = new Set<string>();
+  for (const option of options as readonly Partial<TargetOptionDescriptor>[]) {
+    if (typeof option.name !== "string" || option.name.length === 0 || typeof option.description !== "string") {
+      throw new Error(`${subject} option descriptors must declare a non-empty name and a description.`);
+    }
+    if (option.type !== undefined && !targetOptionTypes.includes(option.type)) {
+      throw new Error(`${subject} option '${option.name}' type must be one of ${targetOptionTypes.join(", ")}.`);
+    }
+    if (option.default !== undefined && option.type !== undefined && !isTargetOptionValue(option.type, option.default)) {
+      throw new Error(`${subject} option '${option.name}' default must be ${getTargetOptionTypeLabel(option.type)}.`);
+    }
+    if (option.deprecated !== undefined && (typeof option.deprecated !== "string" || option.deprecated.length === 0)) {
+      throw new Error(`${subject} option '${option.name}' deprecation must be a non-empty message.`);
+    }
+    if (names.has(option.name)) {
+      throw new Error(`${subject} declares option '${option.name}' more than once.`);
+    }
+    names.add(option.name);
+  }
+}
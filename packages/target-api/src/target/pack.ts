@@ -7,6 +7,8 @@ import type {
   TargetSurfaceImplementation,
   TsonicTargetCapabilityPlugin,
 } from "./composition.js";
+import type { TargetDiagnosticCodeDescriptor } from "./diagnostic-codes.js";
+import type { TargetOptionDescriptor } from "./options.js";
 import type {
   TargetToolchain,
   TargetToolchainContext,
@@ -28,6 +30,8 @@ export interface TargetPack {
   readonly displayName: string;
   readonly provider: TargetProviderDescriptor;
   readonly surfaces: readonly TargetSurfaceImplementation[];
+  readonly options?: readonly TargetOptionDescriptor[];
+  readonly diagnosticCodes?: readonly TargetDiagnosticCodeDescriptor[];
   createCompilationSession(
     context: TargetCompilationSessionContext,
   ): TargetCompilationSession;
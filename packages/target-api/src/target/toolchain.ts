@@ -1,5 +1,6 @@
 import type {
   TargetCompileOutput,
+  TargetDiagnostic,
 } from "../artifacts.js";
 import type {
   TargetSelection,
@@ -14,12 +15,28 @@ export interface TargetToolchainInput {
 }
 
 export interface TargetToolchainResult {
-  readonly diagnostics: readonly string[];
+  readonly diagnostics: readonly TargetDiagnostic[];
   readonly producedArtifacts: readonly string[];
 }
 
+export interface TargetToolchainInvocationInput {
+  readonly artifactsRoot: string;
+  readonly project: TsonicProjectConfig;
+  readonly target: TargetSelection;
+  readonly output: TargetToolchainOutput;
+}
+
+export interface TargetToolchainOutput {
+  write(stream: "stdout" | "stderr", text: string): void;
+}
+
+export interface TargetToolchainInvocationResult {
+  readonly diagnostics: readonly TargetDiagnostic[];
+}
+
 export interface TargetToolchain {
   prepare(input: TargetToolchainInput): TargetToolchainResult;
+  invoke?(input: TargetToolchainInvocationInput): Promise<TargetToolchainInvocationResult>;
 }
 
 export interface TargetToolchainContext {
@@ -21,6 +21,7 @@ PACKAGES=(
   "packages/target-api"
   "packages/host"
   "packages/cli"
+  "packages/lsp"
 )
 
 for pkg in "${PACKAGES[@]}"; do
@@ -10,6 +10,7 @@ const repoRoot = new URL("../..", import.meta.url).pathname;
 const productSourceRoots = Object.freeze([
   "packages/cli/src",
   "packages/host/src",
+  "packages/lsp/src",
   "packages/source-core/src",
   "packages/target-api/src",
 ]);
@@ -18,6 +19,7 @@ const packageManifestPaths = Object.freeze([
   "package.json",
   "packages/cli/package.json",
   "packages/host/package.json",
+  "packages/lsp/package.json",
   "packages/source-core/package.json",
   "packages/target-api/package.json",
 ]);
@@ -418,6 +420,7 @@ test("architecture scan scope covers every first-party product source root", asy
   const expectedRoots = Object.freeze([
     "packages/cli/src",
     "packages/host/src",
+    "packages/lsp/src",
     "packages/source-core/src",
     "packages/target-api/src",
   ]);
@@ -501,7 +504,10 @@ test("target pack API exposes one required provider surface session and toolchai
 });
 
 test("CLI publishes only complete successful builds through the staged output boundary", async () => {
-  const cliText = await readFile(join(repoRoot, "packages/cli/src/index.ts"), "utf8");
+  const cliText = [
+    await readFile(join(repoRoot, "packages/cli/src/index.ts"), "utf8"),
+    await readFile(join(repoRoot, "packages/cli/src/commands/build.ts"), "utf8"),
+  ].join("\n");
   const publicationText = await readFile(join(repoRoot, "packages/cli/src/output-publication.ts"), "utf8");
 
   assert.match(
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { readdir, readFile } from "node:fs/promises";
+import { basename, dirname, join, relative, resolve } from "node:path";
+import test from "node:test";
+import { createTsonicDiagnosticCodeRegistry } from "../../packages/host/dist/index.js";
+
+const repoRoot = new URL("../..", import.meta.url).pathname;
+
+const productSourceRoots = Object.freeze([
+  "packages/cli/src",
+  "packages/host/src",
+  "packages/lsp/src",
+  "packages/source-core/src",
+  "packages/target-api/src",
+]);
+
+const emittedCodePattern = /(?<!diagnosticPrefix: )"((?:TARGET|TSONIC|TSTS|SOURCE)_[A-Z0-9_]*[A-Z])"/gu;
+const numericCodePattern = /\b((?:92|99)\d{5})\b/gu;
+const extensionCodePairPattern = /extensionCode: "([A-Z0-9_]+)",\s*numericCode: (\d+)/gu;
+const prefixContractPattern = /(\w+)\(context, \{(?:(?!\w+\(context, \{)[^])*?diagnosticPrefix: "([A-Z0-9_]+)",\s*diagnosticNumberBase: (\d+)/gu;
+const prefixedDiagnosticPattern = /appendDiagnostic\(\s*\w+,\s*\w+,\s*contract,\s*(?:"([A-Z0-9_]+)"|`[^`]*`),\s*(\d+),/gu;
+
+test("every diagnostic code emitted by product sources is registered with long-form help", async () => {
+  const registry = createTsonicDiagnosticCodeRegistry();
+  const files = await readProductSources();
+  const unregistered = [];
+  const mismatched = [];
+  const expectCode = (file, code, numericCode) => {
+    const descriptor = registry.get(code);
+    if (descriptor === undefined) {
+      unregistered.push(`${file}: ${code}`);
+    } else if (numericCode !== undefined && descriptor.numericCode !== numericCode) {
+      mismatched.push(`${file}: ${code} is emitted as ${numericCode} but registered as ${descriptor.numericCode}`);
+    }
+  };
+  for (const [file, text] of files) {
+    for (const [, code] of text.matchAll(emittedCodePattern)) {
+      expectCode(file, code);
+    }
+    for (const [, code, numericCode] of text.matchAll(extensionCodePairPattern)) {
+      expectCode(file, code, Number(numericCode));
+    }
+    if (file.startsWith("packages/source-core/")) {
+      for (const [, numericCode] of text.matchAll(numericCodePattern)) {
+        expectCode(file, numericCode);
+      }
+    }
+    for (const [, analyzer, prefix, base] of text.matchAll(prefixContractPattern)) {
+      const analyzerFile = importedModuleFile(files, file, text, analyzer);
+      const analyzerText = files.get(analyzerFile) ?? "";
+      assert.match(analyzerText, /diagnosticNumberBase \+ numberOffset/u, `${file}: ${analyzer} must number its diagnostics from the contract base.`);
+      for (const [, suffix, offset] of analyzerText.matchAll(prefixedDiagnosticPattern)) {
+        const numericCode = Number(base) + Number(offset);
+        expectCode(analyzerFile, suffix === undefined ? String(numericCode) : `${prefix}_${suffix}`, numericCode);
+      }
+    }
+  }
+
+  assert.deepEqual(unregistered, []);
+  assert.deepEqual(mismatched, []);
+});
+
+test("registered diagnostic codes carry a title and explanation", () => {
+  for (const descriptor of createTsonicDiagnosticCodeRegistry().codes) {
+    assert.ok(descriptor.title.length > 0 && !descriptor.title.endsWith("."), descriptor.code);
+    assert.ok(descriptor.explanation.endsWith("."), descriptor.code);
+  }
+});
+
+async function readProductSources() {
+  const files = new Map();
+  for (const root of productSourceRoots) {
+    for (const path of await listSourceFiles(join(repoRoot, root))) {
+      files.set(relative(repoRoot, path), await readFile(path, "utf8"));
+    }
+  }
+  return files;
+}
+
+async function listSourceFiles(directory) {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files = [];
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listSourceFiles(path));
+    } else if (
+      entry.name.endsWith(".ts") &&
+      !entry.name.endsWith(".test.ts") &&
+      !entry.name.endsWith(".fixtures.ts") &&
+      basename(path) !== "diagnostic-codes.ts" &&
+      basename(path) !== "host-codes.ts"
+    ) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function importedModuleFile(files, file, text, name) {
+  const match = new RegExp(`import \\{[^}]*\\b${name}\\b[^}]*\\} from "(\\.[^"]+)\\.js"`, "u").exec(text);
+  assert.ok(match, `${file}: ${name} must be imported from a relative product module.`);
+  const imported = relative(repoRoot, resolve(repoRoot, dirname(file), `${match[1]}.ts`));
+  assert.ok(files.has(imported), `${file}: ${imported} must be a product source file.`);
+  return imported;
+}
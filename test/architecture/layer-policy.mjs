@@ -3,6 +3,7 @@ export const sharedLayerRules = Object.freeze([
   prefix("packages/source-core/src/", "source-core"),
   prefix("packages/host/src/", "host"),
   prefix("packages/cli/src/", "cli"),
+  prefix("packages/lsp/src/", "lsp"),
 ]);
 
 export const sharedLayerPolicies = Object.freeze([
@@ -10,6 +11,7 @@ export const sharedLayerPolicies = Object.freeze([
   policy("source-core", ["target-api"], "ARCH-SHARED-001", "Portable source-core semantics may depend on the shared target API only."),
   policy("host", ["target-api", "source-core"], "ARCH-SHARED-001", "Host orchestration may consume shared contracts and source-core, not the CLI."),
   policy("cli", ["target-api", "source-core", "host"], "ARCH-SHARED-001", "The CLI composes host services but cannot become a lower-layer dependency."),
+  policy("lsp", ["target-api", "source-core", "host"], "ARCH-SHARED-001", "The language server composes host services but cannot become a lower-layer dependency."),
 ]);
 
 export const sharedPackageLayers = Object.freeze([
@@ -17,6 +19,7 @@ export const sharedPackageLayers = Object.freeze([
   Object.freeze({ prefix: "@tsonic/source-core", layer: "source-core" }),
   Object.freeze({ prefix: "@tsonic/host", layer: "host" }),
   Object.freeze({ prefix: "@tsonic/cli", layer: "cli" }),
+  Object.freeze({ prefix: "@tsonic/lsp", layer: "lsp" }),
 ]);
 
 export const sharedForbiddenPackages = Object.freeze([
@@ -54,6 +57,9 @@ export const sharedRootPolicies = Object.freeze([
     "packages/host/src/project-paths.ts",
     "packages/host/src/source-package-inputs.ts",
   ]),
+  root("packages/lsp/src/", [
+    "packages/lsp/src/index.ts",
+  ]),
   root("packages/source-core/src/", [
     "packages/source-core/src/identity.ts",
   ]),
@@ -69,6 +75,7 @@ export const sharedRootPolicies = Object.freeze([
 
 export const sharedAllowedImplementationIndexes = new Set([
   "packages/cli/src/index.ts",
+  "packages/lsp/src/index.ts",
 ]);
 
 export const sharedForbiddenDirectories = Object.freeze([
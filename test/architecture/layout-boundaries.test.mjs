@@ -29,6 +29,7 @@ const repositoryRoot = resolve(new URL("../..", import.meta.url).pathname);
 const productPrefixes = Object.freeze([
   "packages/cli/src/",
   "packages/host/src/",
+  "packages/lsp/src/",
   "packages/source-core/src/",
   "packages/target-api/src/",
 ]);
@@ -2,7 +2,7 @@ import assert from "node:assert/strict";
 import { existsSync } from "node:fs";
 import { mkdir, readFile, readdir, symlink, writeFile } from "node:fs/promises";
 import { dirname, join, resolve } from "node:path";
-import { spawnSync } from "node:child_process";
+import { spawn, spawnSync } from "node:child_process";
 import test from "node:test";
 
 const repoRoot = process.cwd();
@@ -23,12 +23,16 @@ const bannedGeneratedRuntimeSemantics = [
 
 async function writeProject(projectDirectory, files) {
   const projectFiles = withDefaultPackage(projectDirectory, files);
-  for (const [relativePath, text] of Object.entries(projectFiles)) {
-    const outputPath = resolve(projectDirectory, relativePath);
+  await writeFiles(projectDirectory, projectFiles);
+  await linkInstalledTsonicPackages(projectDirectory, projectFiles);
+}
+
+async function writeFiles(root, files) {
+  for (const [relativePath, text] of Object.entries(files)) {
+    const outputPath = resolve(root, relativePath);
     await mkdir(dirname(outputPath), { recursive: true });
     await writeFile(outputPath, text, "utf8");
   }
-  await linkInstalledTsonicPackages(projectDirectory, projectFiles);
 }
 
 function runNode(args) {
@@ -228,6 +232,244 @@ function installedPackageRepositoryPath(packageName) {
   return undefined;
 }
 
+async function writePluginProject(projectDirectory, {
+  config,
+  files = {},
+  plugins = [fakeTargetPlugin("@fixture/demo-target", "demo")],
+}) {
+  const dependencies = Object.fromEntries(plugins.map((plugin) => [plugin.packageName, "1.0.0"]));
+  const projectFiles = {
+    "package.json": `${JSON.stringify({ name: "fixture-project", private: true, type: "module", dependencies }, null, 2)}\n`,
+    ...(config === undefined ? {} : { "tsonic.json": `${JSON.stringify(config, null, 2)}\n` }),
+    ...files,
+  };
+  for (const plugin of plugins) {
+    const packageRoot = `node_modules/${plugin.packageName}`;
+    projectFiles[`${packageRoot}/package.json`] = `${JSON.stringify({
+      name: plugin.packageName,
+      version: plugin.version ?? "1.0.0",
+      type: "module",
+      exports: { ".": "./index.js" },
+      tsonic: { kind: "plugin", contractVersion: plugin.contractVersion ?? 1, entry: "." },
+    }, null, 2)}\n`;
+    projectFiles[`${packageRoot}/index.js`] = plugin.source;
+  }
+  await writeFiles(projectDirectory, projectFiles);
+}
+
+function demoProjectConfig(targets = [{ id: "demo" }]) {
+  return {
+    entryPoint: "index.ts",
+    rootDir: "src",
+    outDir: "out",
+    targets,
+  };
+}
+
+function runCli(args, cwd = repoRoot, input = undefined) {
+  const result = spawnSync(process.execPath, [cliPath, ...args], {
+    cwd,
+    encoding: "utf8",
+    input,
+  });
+  return {
+    status: result.status,
+    stdout: result.stdout,
+    stderr: result.stderr,
+  };
+}
+
+function spawnCli(args, cwd = repoRoot) {
+  const child = spawn(process.execPath, [cliPath, ...args], {
+    cwd,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  let stdout = "";
+  let stderr = "";
+  const waiters = [];
+  const notify = () => {
+    for (const waiter of [...waiters]) {
+      if (waiter.pattern.test(stdout.slice(waiter.offset))) {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        clearTimeout(waiter.timer);
+        waiter.resolve(stdout);
+      }
+    }
+  };
+  child.stdout.setEncoding("utf8");
+  child.stderr.setEncoding("utf8");
+  child.stdout.on("data", (chunk) => {
+    stdout += chunk;
+    notify();
+  });
+  child.stderr.on("data", (chunk) => {
+    stderr += chunk;
+  });
+  const exited = new Promise((resolveExit) => {
+    child.on("exit", (code, signal) => resolveExit({ code, signal }));
+  });
+  return {
+    child,
+    exited,
+    get stdout() {
+      return stdout;
+    },
+    get stderr() {
+      return stderr;
+    },
+    waitForOutput(pattern, { after = 0, timeoutMilliseconds = 30_000 } = {}) {
+      return new Promise((resolveWait, rejectWait) => {
+        const waiter = {
+          pattern,
+          offset: after,
+          resolve: resolveWait,
+          timer: setTimeout(() => {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            rejectWait(new Error(`Timed out waiting for ${pattern}.\nstdout:\n${stdout}\nstderr:\n${stderr}`));
+          }, timeoutMilliseconds),
+        };
+        waiters.push(waiter);
+        notify();
+      });
+    },
+    async stop() {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill("SIGINT");
+      }
+      return exited;
+    },
+  };
+}
+
+function fakeTargetPlugin(packageName, targetId, options = {}) {
+  return {
+    packageName,
+    version: options.version,
+    contractVersion: options.contractVersion,
+    source: options.source ?? fakeTargetPluginSource(packageName, targetId, options),
+  };
+}
+
+function fakeTargetPluginSource(packageName, targetId, options = {}) {
+  const globals = [
+    "interface Array<T> {}",
+    "interface Boolean {}",
+    "interface CallableFunction extends Function {}",
+    "interface Function {}",
+    "interface IArguments {}",
+    "interface NewableFunction extends Function {}",
+    "interface Number {}",
+    "interface Object {}",
+    "interface RegExp {}",
+    "interface String {}",
+    "",
+  ].join("\n");
+  return `const globals = ${JSON.stringify(globals)};
+const packOptions = ${JSON.stringify(options.pack ?? {})};
+const prepareError = ${JSON.stringify(options.prepareError ?? null)};
+const compileDiagnostics = ${JSON.stringify(options.compileDiagnostics ?? [])};
+const prepareDiagnostics = ${JSON.stringify(options.prepareDiagnostics ?? [])};
+const toolchainInvocation = ${JSON.stringify(options.toolchainInvocation ?? null)};
+const compileDelayMilliseconds = ${JSON.stringify(options.compileDelayMilliseconds ?? 0)};
+const compileRetainedMegabytes = ${JSON.stringify(options.compileRetainedMegabytes ?? 0)};
+
+export function createTsonicPlugin() {
+  return {
+    kind: "target",
+    id: ${JSON.stringify(packageName)},
+    targetId: ${JSON.stringify(targetId)},
+    createTargetPack() {
+      return {
+        id: ${JSON.stringify(targetId)},
+        displayName: ${JSON.stringify(`${targetId} fixture target`)},
+        provider: {
+          id: ${JSON.stringify(`${targetId}-provider`)},
+          displayName: ${JSON.stringify(`${targetId} fixture provider`)},
+          moduleOwnership: [],
+        },
+        surfaces: [],
+        ...packOptions,
+        createCompilationSession(context) {
+          return {
+            sourceProfileContributions() {
+              return { declarations: [{ fileName: "globals.d.ts", text: globals }] };
+            },
+            sourceCompilerContributions() {
+              return {};
+            },
+            runtimeContributions() {
+              return {};
+            },
+            compile(input) {
+              const busyUntil = Date.now() + compileDelayMilliseconds;
+              while (Date.now() < busyUntil) {}
+              const retained = [];
+              for (let megabyte = 0; megabyte < compileRetainedMegabytes; megabyte += 1) {
+                retained.push(new Array(131072).fill(megabyte));
+              }
+              const root = input.paths.projectRoot.split("\\\\").join("/");
+              const span = (name, run) => input.profiler === undefined ? run() : input.profiler.span(name, run);
+              const artifacts = span("materialize", () => input.source.documents.all
+                .filter((document) => document.fileName.startsWith(root + "/") && !document.fileName.endsWith(".d.ts"))
+                .map((document) => ({
+                  kind: "source",
+                  language: "text",
+                  path: document.fileName.slice(root.length + 1).replace(/\\.ts$/u, ".txt"),
+                  text: document.text,
+                })));
+              const failing = artifacts.find((artifact) => artifact.text.includes("FIXTURE_REJECT"));
+              if (failing !== undefined) {
+                return {
+                  kind: "rejected",
+                  diagnostics: [{
+                    code: "FIXTURE_REJECTED",
+                    category: "error",
+                    message: "fixture target rejected " + failing.path,
+                    source: ${JSON.stringify(targetId)},
+                  }],
+                };
+              }
+              return {
+                kind: "resolved",
+                value: {
+                  artifacts: [
+                    ...artifacts,
+                    { kind: "configuration", path: "target.json", text: JSON.stringify(context.target) + "\\n" },
+                  ],
+                },
+                diagnostics: compileDiagnostics,
+              };
+            },
+            close() {},
+          };
+        },
+        createToolchain() {
+          return {
+            prepare() {
+              if (prepareError !== null) {
+                throw new Error(prepareError);
+              }
+              return { diagnostics: prepareDiagnostics, producedArtifacts: [] };
+            },
+            ...(toolchainInvocation === null ? {} : {
+              async invoke(input) {
+                const { readdirSync } = await import("node:fs");
+                input.output.write("stdout", "toolchain " + input.target.id + " saw " + readdirSync(input.artifactsRoot).sort().join(",") + "\\n");
+                for (const [stream, text] of toolchainInvocation.output ?? []) {
+                  input.output.write(stream, text);
+                }
+                return { diagnostics: toolchainInvocation.diagnostics ?? [] };
+              },
+            }),
+          };
+        },
+      };
+    },
+  };
+}
+`;
+}
+
 function escapeRegExp(value) {
   return value.replace(/[\\^$.*+?()[\]{}|]/gu, "\\$&");
 }
@@ -238,21 +480,28 @@ export {
   assertInstalledAssemblyReference,
   assertNoInstalledAssemblyReference,
   assertNoRuntimeProjectReference,
+  cliPath,
   csharpProjectPath,
+  demoProjectConfig,
   dotnetOutputAssemblyPath,
-  cliPath,
   existsSync,
+  fakeTargetPlugin,
+  fakeTargetPluginSource,
   readFile,
   repoRoot,
   resolve,
   run,
+  runCli,
   runGeneratedCsharpRunner,
-  runNodeInDirectory,
   runGeneratedProject,
   runNode,
+  runNodeInDirectory,
+  spawnCli,
   targetCsharpNodejsPackageJson,
   targetCsharpOnlyPackageJson,
   tempRoot,
   test,
+  writeFiles,
+  writePluginProject,
   writeProject,
 };
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import {
+  demoProjectConfig,
+  fakeTargetPlugin,
+  fakeTargetPluginSource,
+  repoRoot,
+  runCli,
+  writePluginProject,
+} from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-build-cache", `${Date.now()}-${process.pid}`);
+
+test("build reuses the cached result until the plugin package changes", async () => {
+  const projectDirectory = resolve(tempRoot, "plugin-version");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  const publishedPath = resolve(projectDirectory, "out/demo/index.txt");
+
+  const first = runCli(["build", "--project", projectPath]);
+  assert.equal(first.status, 0, first.stdout + first.stderr);
+  assert.match(first.stdout, /^Cache: miss$/mu);
+  assert.equal(existsSync(resolve(projectDirectory, ".tsonic/cache/build.json")), true);
+
+  const second = runCli(["build", "--project", projectPath]);
+  assert.equal(second.status, 0, second.stdout + second.stderr);
+  assert.match(second.stdout, /^Cache: up to date$/mu);
+  assert.match(second.stdout, /^Artifacts: 2$/mu);
+
+  await rm(resolve(projectDirectory, "out"), { recursive: true, force: true });
+  const republished = runCli(["build", "--project", projectPath]);
+  assert.equal(republished.status, 0, republished.stdout + republished.stderr);
+  assert.match(republished.stdout, /^Cache: republished$/mu);
+  assert.equal(await readFile(publishedPath, "utf8"), "export const value = 1;\n");
+
+  const pluginRoot = resolve(projectDirectory, "node_modules/@fixture/demo-target");
+  const pluginEntryPath = resolve(pluginRoot, "index.js");
+  const pluginSource = await readFile(pluginEntryPath, "utf8");
+  await writeFile(
+    pluginEntryPath,
+    pluginSource.replace("compile(input) {", "compile(input) {\n              throw new Error(\"fixture compile ran\");"),
+    "utf8",
+  );
+  const edited = runCli(["build", "--project", projectPath]);
+  assert.equal(edited.status, 1, edited.stdout + edited.stderr);
+  assert.match(edited.stdout, /^Cache: miss$/mu);
+  assert.match(edited.stderr, /fixture compile ran/u);
+  assert.equal(await readFile(publishedPath, "utf8"), "export const value = 1;\n");
+
+  await writeFile(pluginEntryPath, pluginSource, "utf8");
+  const restored = runCli(["build", "--project", projectPath]);
+  assert.equal(restored.status, 0, restored.stdout + restored.stderr);
+  assert.match(restored.stdout, /^Cache: up to date$/mu);
+
+  const manifestPath = resolve(pluginRoot, "package.json");
+  const manifest = JSON.parse(await readFile(manifestPath, "utf8"));
+  await writeFile(manifestPath, `${JSON.stringify({ ...manifest, version: "1.0.1" }, null, 2)}\n`, "utf8");
+  const bumped = runCli(["build", "--project", projectPath]);
+  assert.equal(bumped.status, 0, bumped.stdout + bumped.stderr);
+  assert.match(bumped.stdout, /^Cache: miss$/mu);
+});
+
+test("build recompiles after source edits and skips the cache with --no-cache", async () => {
+  const projectDirectory = resolve(tempRoot, "source-edit");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo")],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  assert.equal(runCli(["build", "--project", projectPath]).status, 0);
+  await writeFile(resolve(projectDirectory, "src/index.ts"), "export const value = 2;\n", "utf8");
+
+  const edited = runCli(["build", "--project", projectPath]);
+  assert.equal(edited.status, 0, edited.stdout + edited.stderr);
+  assert.match(edited.stdout, /^Cache: miss$/mu);
+  assert.equal(await readFile(resolve(projectDirectory, "out/demo/index.txt"), "utf8"), "export const value = 2;\n");
+
+  const uncached = runCli(["build", "--project", projectPath, "--no-cache"]);
+  assert.equal(uncached.status, 0, uncached.stdout + uncached.stderr);
+  assert.match(uncached.stdout, /^Cache: disabled$/mu);
+});
+
+test("build cache round-trips binary artifacts and republishes their bytes", async () => {
+  const projectDirectory = resolve(tempRoot, "binary-artifact");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      source: fakeTargetPluginSource("@fixture/demo-target", "demo").replace(
+        "{ kind: \"configuration\", path: \"target.json\", text: JSON.stringify(context.target) + \"\\n\" }",
+        "{ kind: \"asset\", path: \"data.bin\", bytes: new Uint8Array([0, 1, 128, 255]) }",
+      ),
+    })],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  const publishedPath = resolve(projectDirectory, "out/demo/data.bin");
+
+  const first = runCli(["build", "--project", projectPath]);
+  assert.equal(first.status, 0, first.stdout + first.stderr);
+  assert.deepEqual([...await readFile(publishedPath)], [0, 1, 128, 255]);
+
+  const second = runCli(["build", "--project", projectPath]);
+  assert.equal(second.status, 0, second.stdout + second.stderr);
+  assert.match(second.stdout, /^Cache: up to date$/mu);
+
+  await writeFile(publishedPath, new Uint8Array([0, 1, 128, 254]));
+  const republished = runCli(["build", "--project", projectPath]);
+  assert.equal(republished.status, 0, republished.stdout + republished.stderr);
+  assert.match(republished.stdout, /^Cache: republished$/mu);
+  assert.deepEqual([...await readFile(publishedPath)], [0, 1, 128, 255]);
+});
+
+test("build cache misses when a copied artifact source changes", async () => {
+  const projectDirectory = resolve(tempRoot, "copied-artifact");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n", "src/logo.txt": "first logo\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      source: [
+        "import { createHash } from \"node:crypto\";",
+        "import { readFileSync } from \"node:fs\";",
+        fakeTargetPluginSource("@fixture/demo-target", "demo").replace(
+          "{ kind: \"configuration\", path: \"target.json\", text: JSON.stringify(context.target) + \"\\n\" }",
+          "{ kind: \"asset\", path: \"logo.txt\", sourcePath: root + \"/logo.txt\", " +
+            "sha256: createHash(\"sha256\").update(readFileSync(root + \"/logo.txt\")).digest(\"hex\") }",
+        ),
+      ].join("\n"),
+    })],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  const publishedPath = resolve(projectDirectory, "out/demo/logo.txt");
+
+  const first = runCli(["build", "--project", projectPath]);
+  assert.equal(first.status, 0, first.stdout + first.stderr);
+  assert.equal(await readFile(publishedPath, "utf8"), "first logo\n");
+
+  await writeFile(resolve(projectDirectory, "src/logo.txt"), "second logo\n", "utf8");
+  const edited = runCli(["build", "--project", projectPath]);
+  assert.equal(edited.status, 0, edited.stdout + edited.stderr);
+  assert.match(edited.stdout, /^Cache: miss$/mu);
+  assert.equal(await readFile(publishedPath, "utf8"), "second logo\n");
+
+  await writeFile(resolve(projectDirectory, "src/logo.txt"), "third logo\n", "utf8");
+  await rm(resolve(projectDirectory, "out"), { recursive: true, force: true });
+  const rebuilt = runCli(["build", "--project", projectPath]);
+  assert.equal(rebuilt.status, 0, rebuilt.stdout + rebuilt.stderr);
+  assert.match(rebuilt.stdout, /^Cache: miss$/mu);
+  assert.equal(await readFile(publishedPath, "utf8"), "third logo\n");
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-build-profile", `${Date.now()}-${process.pid}`);
+
+test("build --profile reports stage timing, heap and counts after the summary", async () => {
+  const projectDirectory = resolve(tempRoot, "summary");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo")],
+  });
+
+  const result = runCli(["build", "--project", projectPath, "--profile"]);
+  assert.equal(result.status, 0, result.stdout + result.stderr);
+  assert.match(result.stdout, /^Cache: miss\nProfile:\n {2}build +\d+\.\d ms {2}heap [+-]\d+\.\d MB$/mu);
+  assert.match(result.stdout, /^ {4}plan +\d+\.\d ms {2}heap [+-]\d+\.\d MB {2}targets=1$/mu);
+  assert.match(result.stdout, /^ {4}target demo +\d+\.\d ms {2}heap [+-]\d+\.\d MB {2}diagnostics=0 artifacts=2$/mu);
+  assert.match(result.stdout, /^ {6}program-options .* declarationFiles=\d+ declarationBytes=\d+$/mu);
+  assert.match(result.stdout, /^ {6}check .* sourceFiles=1$/mu);
+  assert.match(result.stdout, /^ {6}compile .* diagnostics=0 artifacts=2$/mu);
+  assert.match(result.stdout, /^ {8}materialize +\d+\.\d ms/mu);
+  assert.match(result.stdout, /^ {6}toolchain-prepare /mu);
+  assert.match(result.stdout, /^ {4}publish /mu);
+  assert.match(result.stdout, /^Heap: \d+\.\d MB used, \d+\.\d MB rss$/mu);
+
+  const json = runCli(["build", "--project", projectPath, "--profile", "--no-cache", "--diagnostics-format", "json"]);
+  assert.equal(json.status, 0, json.stdout + json.stderr);
+  assert.equal(JSON.parse(json.stdout).command, "build");
+  assert.match(json.stderr, /^Profile:$/mu);
+});
+
+test("build --profile=<file> writes a Chrome trace including parallel worker spans", async () => {
+  const projectDirectory = resolve(tempRoot, "trace");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo")],
+  });
+
+  const result = runCli(["build", "--project", projectPath, "--parallel", "--profile=profile/trace.json"], projectDirectory);
+  assert.equal(result.status, 0, result.stdout + result.stderr);
+  assert.match(result.stdout, /^Trace: profile\/trace\.json$/mu);
+  const trace = JSON.parse(readFileSync(resolve(projectDirectory, "profile/trace.json"), "utf8"));
+  assert.equal(trace.displayTimeUnit, "ms");
+  const complete = trace.traceEvents.filter((event) => event.ph === "X");
+  const build = complete.find((event) => event.name === "build");
+  const target = complete.find((event) => event.name === "target demo");
+  const materialize = complete.find((event) => event.name === "materialize");
+  assert.equal(build?.tid, 0);
+  assert.notEqual(target?.tid, 0);
+  assert.equal(target?.args.target, "demo");
+  assert.equal(target?.args.artifacts, 2);
+  assert.equal(materialize?.tid, target?.tid);
+  assert.ok(materialize.ts >= target.ts && materialize.ts + materialize.dur <= target.ts + target.dur + 1);
+  assert.deepEqual(
+    trace.traceEvents.filter((event) => event.ph === "M").map((event) => event.args.name),
+    ["main", `worker ${target.tid}`],
+  );
+});
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-check", `${Date.now()}-${process.pid}`);
+const checkPlugins = [
+  fakeTargetPlugin("@fixture/alpha-target", "alpha", { prepareError: "toolchain prepare must not run during check" }),
+  fakeTargetPlugin("@fixture/beta-target", "beta", { prepareError: "toolchain prepare must not run during check" }),
+];
+
+test("check compiles every target without preparing toolchains or touching outDir", async () => {
+  const projectDirectory = resolve(tempRoot, "all-targets");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig([{ id: "alpha" }, { id: "beta" }]),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: checkPlugins,
+  });
+
+  const check = runCli(["check", "--project", resolve(projectDirectory, "tsonic.json")]);
+
+  assert.equal(check.status, 0, check.stdout + check.stderr);
+  assert.match(check.stdout, /^Targets: alpha, beta$/mu);
+  assert.match(check.stdout, /^Errors: 0$/mu);
+  assert.equal(existsSync(resolve(projectDirectory, "out")), false);
+  assert.deepEqual((await readdir(projectDirectory)).filter((entry) => entry.startsWith(".tsonic-output-")), []);
+});
+
+test("check compiles only selected targets and reports their errors with the build exit code", async () => {
+  const projectDirectory = resolve(tempRoot, "selected-targets");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig([{ id: "alpha" }, { id: "beta" }]),
+    files: { "src/index.ts": "export const value = \"FIXTURE_REJECT\";\n" },
+    plugins: checkPlugins,
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  const selected = runCli(["check", "--project", projectPath, "--target", "beta"]);
+  assert.equal(selected.status, 1, selected.stdout + selected.stderr);
+  assert.match(selected.stdout, /^Targets: beta$/mu);
+  assert.match(selected.stderr, /^ERROR beta:FIXTURE_REJECTED: fixture target rejected index\.txt$/mu);
+  assert.doesNotMatch(selected.stderr, /alpha/u);
+
+  const unknown = runCli(["check", "--project", projectPath, "--target", "gamma"]);
+  assert.equal(unknown.status, 1, unknown.stdout + unknown.stderr);
+  assert.match(unknown.stderr, /^ERROR tsonic-host:TARGET_SELECTION: Target 'gamma' is not declared in the project config\.$/mu);
+  assert.equal(existsSync(resolve(projectDirectory, "out")), false);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, repoRoot, runCli, writeFiles, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-clean-status", `${Date.now()}-${process.pid}`);
+
+test("status reports publication scratch leftovers and clean recovers them under the lock", async () => {
+  const projectDirectory = resolve(tempRoot, "leftovers");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  const clean = runCli(["status", "--project", projectPath], projectDirectory);
+  assert.equal(clean.status, 0, clean.stdout + clean.stderr);
+  assert.equal(clean.stdout, "Output: out\nPublished: never\nLock: none\nBackup: none\nLeftovers: none\n");
+
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  const prefix = `.tsonic-output-${createHash("sha256").update(resolve(projectDirectory, "out")).digest("hex").slice(0, 24)}`;
+  const exitedPid = spawnSync(process.execPath, ["-e", ""]).pid;
+  await writeFiles(projectDirectory, {
+    [`${prefix}.backup/demo/index.txt`]: "previous\n",
+    [`${prefix}.stage-abc123/demo/index.txt`]: "partial\n",
+    [`${prefix}.lock/owner.json`]: `${JSON.stringify({ token: "stale", pid: exitedPid, createdAt: Date.parse("2026-01-02T03:04:05Z") })}\n`,
+  });
+
+  const inspected = runCli(["status", "--project", projectPath], projectDirectory);
+  assert.equal(inspected.status, 0, inspected.stdout + inspected.stderr);
+  assert.match(inspected.stdout, /^Published: \d{4}-\d{2}-\d{2}T[\d:.]+Z$/mu);
+  assert.match(
+    inspected.stdout,
+    new RegExp(`^Lock: stale, held by pid ${exitedPid} \\(not running\\) since 2026-01-02T03:04:05\\.000Z$`, "mu"),
+  );
+  assert.match(inspected.stdout, new RegExp(`^Backup: ${prefix}\\.backup\\nLeftovers: 1\\n {2}${prefix}\\.stage-abc123$`, "mu"));
+
+  const cleaned = runCli(["clean", "--project", projectPath], projectDirectory);
+  assert.equal(cleaned.status, 0, cleaned.stdout + cleaned.stderr);
+  assert.equal(cleaned.stdout, `Removed out\nRemoved ${prefix}.backup\nRemoved ${prefix}.stage-abc123\n`);
+  assert.equal(existsSync(resolve(projectDirectory, "out")), false);
+  assert.deepEqual((await readdir(projectDirectory)).filter((entry) => entry.startsWith(prefix)), []);
+  assert.equal(existsSync(resolve(projectDirectory, ".tsonic/cache/build.json")), true);
+
+  const all = runCli(["clean", "--project", projectPath, "--all"], projectDirectory);
+  assert.equal(all.status, 0, all.stdout + all.stderr);
+  assert.equal(all.stdout, "Removed .tsonic/cache\n");
+  assert.equal(runCli(["clean", "--project", projectPath, "--all"], projectDirectory).stdout, "Nothing to clean.\n");
+});
+
+test("clean refuses to remove output while a live process holds the publication lock", async () => {
+  const projectDirectory = resolve(tempRoot, "locked");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  const prefix = `.tsonic-output-${createHash("sha256").update(resolve(projectDirectory, "out")).digest("hex").slice(0, 24)}`;
+  await writeFiles(projectDirectory, {
+    [`${prefix}.lock/owner.json`]: `${JSON.stringify({ token: "live", pid: process.pid, createdAt: Date.now() })}\n`,
+  });
+
+  const inspected = runCli(["status", "--project", projectPath], projectDirectory);
+  assert.match(inspected.stdout, new RegExp(`^Lock: active, held by pid ${process.pid} \\(running\\) since `, "mu"));
+
+  const rejected = runCli(["clean", "--project", projectPath], projectDirectory);
+  assert.equal(rejected.status, 1);
+  assert.match(rejected.stderr, /^Another Tsonic process is publishing target output '.+'\.$/mu);
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), true);
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import test from "node:test";
+import { compileProject, discoverInstalledTsonicPlugins, parseTsonicProjectConfig } from "../../../packages/host/dist/index.js";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-compilation-budget", `${Date.now()}-${process.pid}`);
+
+async function writeSlowProject(name, compileDelayMilliseconds) {
+  const projectDirectory = resolve(tempRoot, name);
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { compileDelayMilliseconds })],
+  });
+  return { projectDirectory, projectPath: resolve(projectDirectory, "tsonic.json") };
+}
+
+test("a target that outruns its wall-clock budget is rejected with TARGET_BUDGET_EXCEEDED", async () => {
+  const { projectDirectory, projectPath } = await writeSlowProject("sequential", 400);
+
+  const result = runCli(["build", "--project", projectPath, "--time-budget", "100"]);
+  assert.equal(result.status, 1, result.stdout + result.stderr);
+  assert.equal(
+    result.stderr,
+    "ERROR tsonic-host:TARGET_BUDGET_EXCEEDED: Target 'demo' compilation exceeded its 100 ms wall-clock budget.\n",
+  );
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), false);
+
+  const invalid = runCli(["check", "--project", projectPath, "--time-budget", "soon"]);
+  assert.equal(invalid.status, 1);
+  assert.equal(invalid.stderr, "Expected a positive integer after --time-budget.\n");
+});
+
+test("budgeted builds and checks terminate a runaway target without --parallel", async () => {
+  const { projectPath } = await writeSlowProject("runaway-sequential", 60_000);
+  for (const command of ["build", "check"]) {
+    const startedAt = Date.now();
+    const result = runCli([command, "--project", projectPath, "--time-budget=200"]);
+    assert.equal(result.status, 1, result.stdout + result.stderr);
+    assert.ok(Date.now() - startedAt < 30_000);
+    assert.equal(
+      result.stderr,
+      "ERROR tsonic-host:TARGET_BUDGET_EXCEEDED: Target 'demo' compilation exceeded its 200 ms wall-clock budget.\n",
+    );
+  }
+});
+
+test("the heap budget caps the target worker heap", async () => {
+  const projectDirectory = resolve(tempRoot, "heap");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { compileRetainedMegabytes: 4096 })],
+  });
+  const result = runCli(["build", "--project", projectPath, "--heap-budget", "256"]);
+  assert.equal(result.status, 1, result.stdout + result.stderr);
+  assert.equal(
+    result.stderr,
+    "ERROR tsonic-host:TARGET_BUDGET_EXCEEDED: Target 'demo' compilation exceeded its 268435456-byte heap budget.\n",
+  );
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), false);
+});
+
+test("parallel builds terminate a runaway target worker at its budget", async () => {
+  const { projectPath } = await writeSlowProject("runaway", 60_000);
+  const startedAt = Date.now();
+  const result = runCli(["build", "--project", projectPath, "--parallel", "--time-budget=200"]);
+  assert.equal(result.status, 1, result.stdout + result.stderr);
+  assert.ok(Date.now() - startedAt < 30_000);
+  assert.equal(
+    result.stderr,
+    "ERROR tsonic-host:TARGET_BUDGET_EXCEEDED: Target 'demo' compilation exceeded its 200 ms wall-clock budget.\n",
+  );
+});
+
+test("an aborted signal cancels target compilation deterministically", async () => {
+  const { projectPath } = await writeSlowProject("cancelled", 0);
+  const plugins = await discoverInstalledTsonicPlugins(projectPath);
+  const controller = new AbortController();
+  controller.abort();
+  const result = compileProject({
+    project: parseTsonicProjectConfig(demoProjectConfig()),
+    projectFilePath: projectPath,
+    registry: plugins.createTargetRegistry(),
+    signal: controller.signal,
+  });
+  assert.deepEqual(result.diagnostics, [{
+    code: "TARGET_COMPILATION_CANCELLED",
+    category: "error",
+    message: "Target 'demo' compilation was cancelled.",
+    source: "tsonic-host",
+  }]);
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-diagnostic-baseline", `${Date.now()}-${process.pid}`);
+
+const styleWarning = { code: "DEMO_STYLE", category: "warning", source: "demo", message: "prefer const enums" };
+const legacyError = {
+  code: "DEMO_LEGACY",
+  category: "error",
+  source: "demo",
+  message: "legacy API is not supported",
+  sourceSpan: { fileName: "src/index.ts", line: 1, column: 14, endLine: 1, endColumn: 19 },
+};
+
+test("project diagnostics promote warnings, override severities and gate publication", async () => {
+  const projectDirectory = resolve(tempRoot, "severity");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  const writeProject = (diagnostics) => writePluginProject(projectDirectory, {
+    config: { ...demoProjectConfig(), diagnostics },
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { compileDiagnostics: [styleWarning, legacyError] })],
+  });
+
+  await writeProject({ warningsAsErrors: true, severity: { DEMO_LEGACY: "warning" } });
+  const promoted = runCli(["build", "--project", projectPath]);
+  assert.equal(promoted.status, 1, promoted.stdout + promoted.stderr);
+  assert.match(promoted.stderr, /^ERROR demo:DEMO_STYLE: prefer const enums$/mu);
+  assert.match(promoted.stderr, /^WARNING demo:DEMO_LEGACY src\/index\.ts:1:14: legacy API is not supported$/mu);
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), false);
+
+  const json = runCli(["check", "--project", projectPath, "--diagnostics-format", "json"]);
+  assert.equal(json.status, 1);
+
+  await writeProject({ warningsAsErrors: true, severity: { DEMO_LEGACY: "warning", DEMO_STYLE: "off" } });
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  assert.doesNotMatch(built.stderr, /DEMO_STYLE/u);
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), true);
+
+  await writeProject({ severity: { DEMO_LEGACY: "fatal" } });
+  const invalid = runCli(["build", "--project", projectPath]);
+  assert.equal(invalid.status, 1);
+  assert.match(invalid.stderr, /Project config diagnostics\.severity 'DEMO_LEGACY' must be one of error, warning, suggestion, off\./u);
+});
+
+test("baseline update records accepted diagnostics by code, file and message", async () => {
+  const projectDirectory = resolve(tempRoot, "baseline");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  const baselinePath = resolve(projectDirectory, "tsonic-baseline.json");
+  const writeProject = (error) => writePluginProject(projectDirectory, {
+    config: { ...demoProjectConfig(), diagnostics: { baseline: "tsonic-baseline.json" } },
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { compileDiagnostics: [styleWarning, error] })],
+  });
+
+  await writeProject(legacyError);
+  const rejected = runCli(["build", "--project", projectPath]);
+  assert.equal(rejected.status, 1, rejected.stdout + rejected.stderr);
+
+  const updated = runCli(["baseline", "update", "--project", projectPath], projectDirectory);
+  assert.equal(updated.status, 0, updated.stdout + updated.stderr);
+  assert.equal(updated.stdout, "Wrote tsonic-baseline.json\nAccepted: 1\n");
+  assert.deepEqual(JSON.parse(readFileSync(baselinePath, "utf8")), {
+    schemaVersion: 1,
+    diagnostics: [{ code: "DEMO_LEGACY", file: "src/index.ts", message: "legacy API is not supported" }],
+  });
+
+  const accepted = runCli(["build", "--project", projectPath]);
+  assert.equal(accepted.status, 0, accepted.stdout + accepted.stderr);
+  assert.doesNotMatch(accepted.stderr, /DEMO_LEGACY/u);
+  assert.match(accepted.stderr, /^WARNING demo:DEMO_STYLE: prefer const enums$/mu);
+
+  await writeProject({ ...legacyError, message: "legacy API is still not supported" });
+  const changed = runCli(["build", "--project", projectPath, "--no-cache"]);
+  assert.equal(changed.status, 1, changed.stdout + changed.stderr);
+  assert.match(changed.stderr, /^ERROR demo:DEMO_LEGACY src\/index\.ts:1:14: legacy API is still not supported$/mu);
+
+  const typeError = resolve(tempRoot, "type-error");
+  await writePluginProject(typeError, {
+    config: { ...demoProjectConfig(), diagnostics: { baseline: "tsonic-baseline.json" } },
+    files: { "src/index.ts": "export const value: number = \"text\";\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo")],
+  });
+  const blocked = runCli(["baseline", "update", "--project", resolve(typeError, "tsonic.json")], typeError);
+  assert.equal(blocked.status, 1);
+  assert.match(blocked.stdout, /^Accepted: 0\nNot accepted: 1 TypeScript error\(s\) always block the build\.$/mu);
+  assert.match(blocked.stderr, /TSTS_DIAGNOSTIC/u);
+
+  await writePluginProject(resolve(tempRoot, "no-baseline"), {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo")],
+  });
+  const missing = runCli(["baseline", "update", "--project", resolve(tempRoot, "no-baseline/tsonic.json")]);
+  assert.equal(missing.status, 1);
+  assert.equal(missing.stderr, "Project config diagnostics.baseline must name the baseline file before running 'tsonic baseline update'.\n");
+});
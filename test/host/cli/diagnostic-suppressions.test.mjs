@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-diagnostic-suppressions", `${Date.now()}-${process.pid}`);
+
+const legacyError = {
+  code: "DEMO_LEGACY",
+  category: "error",
+  source: "demo",
+  message: "legacy API is not supported",
+  sourceSpan: { fileName: "index.ts", line: 2, column: 14, endLine: 2, endColumn: 19 },
+};
+
+test("tsonic-ignore-next-line suppresses matching target diagnostics and reports unused suppressions", async () => {
+  const projectDirectory = resolve(tempRoot, "suppressed");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: {
+      "src/index.ts": [
+        "// tsonic-ignore-next-line DEMO_LEGACY: migrated in the next release",
+        "export const value = 1;",
+        "// tsonic-ignore-next-line DEMO_STYLE, DEMO_LEGACY: kept for compatibility",
+        "export const other = 2;",
+        "",
+      ].join("\n"),
+    },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { compileDiagnostics: [legacyError] })],
+  });
+
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  assert.doesNotMatch(built.stderr, /^ERROR demo:DEMO_LEGACY/mu);
+  assert.match(
+    built.stderr,
+    /^WARNING tsonic-host:TSONIC_SUPPRESSION_UNUSED index\.ts:3:1: Suppression for 'DEMO_STYLE' did not match any diagnostic on the next line\.$/mu,
+  );
+  assert.match(
+    built.stderr,
+    /^WARNING tsonic-host:TSONIC_SUPPRESSION_UNUSED index\.ts:3:1: Suppression for 'DEMO_LEGACY' did not match any diagnostic on the next line\.$/mu,
+  );
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), true);
+});
+
+test("suppression comments require a reason and never cover TypeScript diagnostics", async () => {
+  const projectDirectory = resolve(tempRoot, "invalid");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: {
+      "src/index.ts": [
+        "// tsonic-ignore-next-line DEMO_LEGACY",
+        "export const value = 1;",
+        "// tsonic-ignore-next-line TSTS_DIAGNOSTIC: checked elsewhere",
+        "export const other: number = \"text\";",
+        "",
+      ].join("\n"),
+    },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { compileDiagnostics: [legacyError] })],
+  });
+
+  const rejected = runCli(["build", "--project", projectPath]);
+  assert.equal(rejected.status, 1, rejected.stdout + rejected.stderr);
+  assert.match(
+    rejected.stderr,
+    /^ERROR tsonic-host:TSONIC_SUPPRESSION_INVALID index\.ts:1:1: tsonic-ignore-next-line must name one or more diagnostic codes followed by ': <reason>'\.$/mu,
+  );
+  assert.match(
+    rejected.stderr,
+    /^ERROR tsonic-host:TSONIC_SUPPRESSION_INVALID index\.ts:3:1: TypeScript diagnostics cannot be suppressed; fix the type error instead\.$/mu,
+  );
+  assert.match(rejected.stderr, /^ERROR tsts:TSTS_DIAGNOSTIC index\.ts:4:/mu);
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), false);
+});
+
+test("suppressions and severity overrides canonicalize plugin diagnostic aliases and numeric codes", async () => {
+  const projectDirectory = resolve(tempRoot, "aliases");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  const styleWarning = { code: "DEMO_STYLE", category: "warning", source: "demo", message: "prefer const enums" };
+  await writePluginProject(projectDirectory, {
+    config: { ...demoProjectConfig(), diagnostics: { warningsAsErrors: true, severity: { DEMO_PREFERENCE: "off" } } },
+    files: {
+      "src/index.ts": [
+        "// tsonic-ignore-next-line TS9001: migrated in the next release",
+        "export const value = 1;",
+        "",
+      ].join("\n"),
+    },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      compileDiagnostics: [legacyError, styleWarning],
+      pack: {
+        diagnosticCodes: [
+          { code: "DEMO_LEGACY", numericCode: 9001, title: "Legacy API", explanation: "The legacy API is not supported." },
+          { code: "DEMO_STYLE", aliases: ["DEMO_PREFERENCE"], title: "Style", explanation: "Prefer const enums." },
+        ],
+      },
+    })],
+  });
+
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  assert.equal(built.stderr, "");
+});
+
+test("suppression markers inside strings, templates and block comments are not suppressions", async () => {
+  const projectDirectory = resolve(tempRoot, "not-comments");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: {
+      "src/index.ts": [
+        "export const template = `",
+        "// tsonic-ignore-next-line DEMO_LEGACY: inside a template",
+        "`;",
+        "/*",
+        "// tsonic-ignore-next-line DEMO_LEGACY",
+        "*/",
+        "export const value = 1;",
+        "",
+      ].join("\n"),
+    },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      compileDiagnostics: [{ ...legacyError, sourceSpan: { ...legacyError.sourceSpan, line: 3, endLine: 3 } }],
+    })],
+  });
+
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 1, built.stdout + built.stderr);
+  assert.match(built.stderr, /^ERROR demo:DEMO_LEGACY index\.ts:3:14: legacy API is not supported$/mu);
+  assert.doesNotMatch(built.stderr, /TSONIC_SUPPRESSION/u);
+});
+
+test("a suppression used by any target is not reported as unused by the others", async () => {
+  const projectDirectory = resolve(tempRoot, "multi-target");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig([{ id: "demo" }, { id: "lab" }]),
+    files: {
+      "src/index.ts": [
+        "// tsonic-ignore-next-line DEMO_LEGACY: only the demo target reports this",
+        "export const value = 1;",
+        "// tsonic-ignore-next-line DEMO_STYLE: never reported",
+        "export const other = 2;",
+        "",
+      ].join("\n"),
+    },
+    plugins: [
+      fakeTargetPlugin("@fixture/demo-target", "demo", { compileDiagnostics: [legacyError] }),
+      fakeTargetPlugin("@fixture/lab-target", "lab"),
+    ],
+  });
+
+  for (const parallel of [[], ["--parallel"]]) {
+    const built = runCli(["build", "--project", projectPath, "--no-cache", ...parallel]);
+    assert.equal(built.status, 0, built.stdout + built.stderr);
+    assert.equal(
+      built.stderr,
+      "WARNING tsonic-host:TSONIC_SUPPRESSION_UNUSED index.ts:3:1: Suppression for 'DEMO_STYLE' did not match any diagnostic on the next line.\n",
+    );
+  }
+});
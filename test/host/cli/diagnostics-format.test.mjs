@@ -0,0 +1,376 @@
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-diagnostics-format", `${Date.now()}-${process.pid}`);
+
+async function writeFailingProject(name) {
+  const projectDirectory = resolve(tempRoot, name);
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value: number = \"text\";\n" },
+  });
+  return projectDirectory;
+}
+
+test("build writes versioned JSON diagnostics with full spans and evidence", async () => {
+  const projectDirectory = await writeFailingProject("json");
+
+  const build = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diagnostics-format", "json"]);
+
+  assert.equal(build.status, 1, build.stdout + build.stderr);
+  assert.equal(build.stderr, "");
+  const document = JSON.parse(build.stdout);
+  assert.equal(document.schemaVersion, 1);
+  assert.equal(document.command, "build");
+  assert.equal(document.exitCode, 1);
+  assert.equal(document.sourceRoot, resolve(projectDirectory, "src"));
+  assert.deepEqual(document.diagnostics.map(({ message: _message, ...diagnostic }) => diagnostic), [{
+    code: "TSTS_DIAGNOSTIC",
+    category: "error",
+    source: "tsts",
+    sourceSpan: { fileName: "index.ts", line: 1, column: 14, endLine: 1, endColumn: 19 },
+    evidence: ["tsts.code=TS2322"],
+  }]);
+});
+
+test("build maps diagnostic sources to SARIF tool components and codes to rule ids", async () => {
+  const projectDirectory = await writeFailingProject("sarif");
+
+  const build = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diagnostics-format=sarif"]);
+
+  assert.equal(build.status, 1, build.stdout + build.stderr);
+  const log = JSON.parse(build.stdout);
+  assert.equal(log.version, "2.1.0");
+  const [run] = log.runs;
+  assert.equal(run.tool.driver.name, "tsonic");
+  assert.deepEqual(run.tool.extensions, [{ name: "tsts", rules: [{ id: "TSTS_DIAGNOSTIC" }] }]);
+  assert.equal(run.originalUriBaseIds.SRCROOT.uri.endsWith("/sarif/src/"), true);
+  assert.equal(run.results.length, 1);
+  const [result] = run.results;
+  assert.equal(result.ruleId, "TSTS_DIAGNOSTIC");
+  assert.deepEqual(result.rule, { id: "TSTS_DIAGNOSTIC", index: 0, toolComponent: { index: 0 } });
+  assert.equal(result.level, "error");
+  assert.deepEqual(result.locations[0].physicalLocation, {
+    artifactLocation: { uri: "index.ts", uriBaseId: "SRCROOT" },
+    region: { startLine: 1, startColumn: 14, endLine: 1, endColumn: 19 },
+  });
+  assert.deepEqual(result.properties.evidence, ["tsts.code=TS2322"]);
+});
+
+test("SARIF artifact locations keep nested source directories as URI path segments", async () => {
+  const projectDirectory = resolve(tempRoot, "sarif-nested");
+  const helper = { fileName: "lib/nested helper.ts", line: 1, column: 14, endLine: 1, endColumn: 19 };
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: {
+      "src/index.ts": "export { value } from \"./lib/nested helper.js\";\n",
+      "src/lib/nested helper.ts": "export const value = 1;\n",
+    },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      compileDiagnostics: [{
+        code: "DEMO_NESTED",
+        category: "warning",
+        message: "nested diagnostic",
+        source: "demo",
+        sourceSpan: helper,
+        related: [{ message: "nested declaration", sourceSpan: helper }],
+        fixes: [{ title: "Rename value", edits: [{ sourceSpan: helper, newText: "other" }] }],
+      }],
+    })],
+  });
+
+  const build = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diagnostics-format=sarif"]);
+
+  assert.equal(build.status, 0, build.stdout + build.stderr);
+  const [result] = JSON.parse(build.stdout).runs[0].results;
+  const nestedLocation = { uri: "lib/nested%20helper.ts", uriBaseId: "SRCROOT" };
+  assert.deepEqual(result.locations[0].physicalLocation.artifactLocation, nestedLocation);
+  assert.deepEqual(result.relatedLocations[0].physicalLocation.artifactLocation, nestedLocation);
+  assert.deepEqual(result.fixes[0].artifactChanges[0].artifactLocation, nestedLocation);
+});
+
+test("target option diagnostics report their tsonic.json path in text, JSON, and SARIF", async () => {
+  const projectDirectory = resolve(tempRoot, "options");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig([{ id: "demo", options: { namespace: 1 } }]),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      pack: { options: [{ name: "namespace", description: "Root namespace", type: "string" }] },
+    })],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  const text = runCli(["build", "--project", projectPath]);
+  assert.equal(text.status, 1, text.stdout + text.stderr);
+  assert.equal(
+    text.stderr,
+    "ERROR demo:TARGET_OPTIONS_INVALID $.targets[0].options.namespace: Target 'demo' option 'namespace' must be a string.\n",
+  );
+
+  const json = runCli(["build", "--project", projectPath, "--diagnostics-format", "json"]);
+  assert.deepEqual(JSON.parse(json.stdout).diagnostics.map((diagnostic) => diagnostic.jsonPath), ["$.targets[0].options.namespace"]);
+
+  const sarif = runCli(["build", "--project", projectPath, "--diagnostics-format", "sarif"]);
+  assert.deepEqual(JSON.parse(sarif.stdout).runs[0].results[0].logicalLocations, [{
+    fullyQualifiedName: "$.targets[0].options.namespace",
+    kind: "member",
+  }]);
+});
+
+test("failures before diagnostics exist are reported in the selected diagnostics format", async () => {
+  const projectDirectory = resolve(tempRoot, "invalid-config");
+  await writePluginProject(projectDirectory, { files: { "tsonic.json": "{ not json" } });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  const json = runCli(["build", "--project", projectPath, "--diagnostics-format", "json"]);
+  assert.equal(json.status, 1, json.stdout + json.stderr);
+  assert.equal(json.stderr, "");
+  const document = JSON.parse(json.stdout);
+  assert.equal(document.command, "build");
+  assert.deepEqual(document.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.category, diagnostic.source]), [
+    ["TSONIC_COMMAND_FAILED", "error", "tsonic-cli"],
+  ]);
+  assert.match(document.diagnostics[0].message, /JSON/u);
+
+  const sarif = runCli(["verify-output", "--project", projectPath, "--diagnostics-format=sarif"]);
+  assert.equal(sarif.status, 1, sarif.stdout + sarif.stderr);
+  assert.deepEqual(JSON.parse(sarif.stdout).runs[0].results.map((result) => result.ruleId), ["TSONIC_COMMAND_FAILED"]);
+
+  const text = runCli(["build", "--project", projectPath]);
+  assert.equal(text.status, 1);
+  assert.equal(text.stdout, "");
+  assert.match(text.stderr, /JSON/u);
+});
+
+test("related locations, notes, and fixes render in text, JSON, and SARIF", async () => {
+  const projectDirectory = resolve(tempRoot, "related");
+  const declaration = { fileName: "index.ts", line: 1, column: 10, endLine: 1, endColumn: 14 };
+  const application = { fileName: "index.ts", line: 3, column: 1, endLine: 3, endColumn: 9 };
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "function read(value: number) {}\nexport {};\nread(1);\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      compileDiagnostics: [{
+        code: "DEMO_UNSAFE",
+        category: "warning",
+        message: "call requires an unsafe context",
+        source: "demo",
+        sourceSpan: application,
+        related: [{ message: "unsafe declaration", sourceSpan: declaration }],
+        notes: [{ label: "help", message: "wrap the call in unsafeContext()" }],
+        fixes: [{
+          title: "Wrap in unsafeContext()",
+          edits: [{ sourceSpan: application, newText: "unsafeContext(() => read(1))" }],
+        }],
+      }],
+    })],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  const text = runCli(["build", "--project", projectPath]);
+  assert.equal(text.status, 0, text.stdout + text.stderr);
+  assert.equal(text.stderr, [
+    "WARNING demo:DEMO_UNSAFE index.ts:3:1: call requires an unsafe context",
+    "  related: index.ts:1:10 unsafe declaration",
+    "  help: wrap the call in unsafeContext()",
+    "  fix: Wrap in unsafeContext()",
+    "    index.ts:3:1-3:9: replace with \"unsafeContext(() => read(1))\"",
+    "",
+  ].join("\n"));
+
+  const json = runCli(["build", "--project", projectPath, "--no-cache", "--diagnostics-format", "json"]);
+  const [entry] = JSON.parse(json.stdout).diagnostics;
+  assert.deepEqual(entry.related, [{ message: "unsafe declaration", sourceSpan: declaration }]);
+  assert.deepEqual(entry.notes, [{ label: "help", message: "wrap the call in unsafeContext()" }]);
+  assert.deepEqual(entry.fixes, [{
+    title: "Wrap in unsafeContext()",
+    edits: [{ sourceSpan: application, newText: "unsafeContext(() => read(1))" }],
+  }]);
+
+  const sarif = runCli(["build", "--project", projectPath, "--no-cache", "--diagnostics-format", "sarif"]);
+  const [result] = JSON.parse(sarif.stdout).runs[0].results;
+  assert.deepEqual(result.relatedLocations, [{
+    id: 0,
+    message: { text: "unsafe declaration" },
+    physicalLocation: {
+      artifactLocation: { uri: "index.ts", uriBaseId: "SRCROOT" },
+      region: { startLine: 1, startColumn: 10, endLine: 1, endColumn: 14 },
+    },
+  }]);
+  assert.deepEqual(result.fixes[0].artifactChanges[0].replacements, [{
+    deletedRegion: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 9 },
+    insertedContent: { text: "unsafeContext(() => read(1))" },
+  }]);
+  assert.deepEqual(result.properties.notes, [{ label: "help", message: "wrap the call in unsafeContext()" }]);
+});
+
+test("fixes with an unlocatable edit are reported instead of silently dropped", async () => {
+  const projectDirectory = resolve(tempRoot, "unresolved-fix");
+  const application = { fileName: "index.ts", line: 1, column: 1, endLine: 1, endColumn: 7 };
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export {};\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      compileDiagnostics: [{
+        code: "DEMO_UNSAFE",
+        category: "warning",
+        message: "call requires an unsafe context",
+        source: "demo",
+        sourceSpan: application,
+        fixes: [
+          { title: "Located", edits: [{ sourceSpan: application, newText: "export" }] },
+          { title: "Unlocated", edits: [{ newText: "unsafeContext()" }] },
+        ],
+      }],
+    })],
+  });
+
+  const json = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diagnostics-format", "json"]);
+  assert.equal(json.status, 0, json.stdout + json.stderr);
+  const diagnostics = JSON.parse(json.stdout).diagnostics;
+  assert.deepEqual(diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.category]), [
+    ["DEMO_UNSAFE", "warning"],
+    ["TARGET_DIAGNOSTIC_FIX_UNRESOLVED", "warning"],
+  ]);
+  assert.deepEqual(diagnostics[0].fixes.map((fix) => fix.title), ["Located"]);
+  assert.equal(
+    diagnostics[1].message,
+    "Fix 'Unlocated' for DEMO_UNSAFE was dropped because one of its edits has no source location.",
+  );
+  assert.deepEqual(diagnostics[1].sourceSpan, application);
+});
+
+test("TSTS related information is kept as related locations", async () => {
+  const projectDirectory = resolve(tempRoot, "tsts-related");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "function read(value: number) {}\nread();\nexport {};\n" },
+  });
+
+  const build = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diagnostics-format", "json"]);
+
+  assert.equal(build.status, 1, build.stdout + build.stderr);
+  const [diagnostic] = JSON.parse(build.stdout).diagnostics;
+  assert.deepEqual(diagnostic.related, [{
+    message: "An argument for 'value' was not provided.",
+    sourceSpan: { fileName: "index.ts", line: 1, column: 15, endLine: 1, endColumn: 28 },
+  }]);
+});
+
+test("source-core safety diagnostics carry unsafeContext() fixes in JSON output", async () => {
+  const projectDirectory = resolve(tempRoot, "source-core-fixes");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: {
+      "src/index.ts": [
+        "import { safety, unsafeContext } from \"@tsonic/core/lang.js\";",
+        "class Box { value = 1; }",
+        "safety<Box>().method((box) => box.value).requiresUnsafe();",
+        "export function copy(): number {",
+        "  const before = 1;",
+        "  unsafeContext();",
+        "  return before;",
+        "}",
+        "",
+      ].join("\n"),
+    },
+  });
+
+  const build = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diagnostics-format", "json"]);
+
+  assert.equal(build.status, 1, build.stdout + build.stderr);
+  const diagnostics = JSON.parse(build.stdout).diagnostics;
+  const span = (line, column, endLine, endColumn) => ({ fileName: "index.ts", line, column, endLine, endColumn });
+  assert.deepEqual(
+    diagnostics.map(({ code, sourceSpan, fixes }) => ({ code, sourceSpan, fixes })),
+    [
+      {
+        code: "TS9901131",
+        sourceSpan: span(6, 3, 6, 18),
+        fixes: [{
+          title: "Wrap the remaining statements in a block that starts with unsafeContext()",
+          edits: [
+            { sourceSpan: span(6, 3, 6, 3), newText: "{ " },
+            { sourceSpan: span(7, 17, 7, 17), newText: " }" },
+          ],
+        }],
+      },
+      {
+        code: "TS9901142",
+        sourceSpan: span(3, 1, 3, 41),
+        fixes: [{
+          title: "Wrap in unsafeContext()",
+          edits: [{ sourceSpan: span(3, 1, 3, 41), newText: "unsafeContext(safety<Box>().method((box) => box.value))" }],
+        }],
+      },
+    ],
+  );
+});
+
+test("module ownership conflicts point at both owners' imports in JSON output", async () => {
+  const projectDirectory = resolve(tempRoot, "module-ownership");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    plugins: [
+      fakeTargetPlugin("@fixture/demo-target", "demo", {
+        pack: {
+          provider: {
+            id: "demo-provider",
+            displayName: "demo provider",
+            moduleOwnership: [{ specifierPrefix: "@demo/dom" }],
+          },
+        },
+      }),
+      {
+        packageName: "@fixture/dom-events-capability",
+        source: `export function createTsonicPlugin() {
+  return ${JSON.stringify({
+    kind: "target-capability",
+    id: "@fixture/dom-events-capability",
+    targetId: "demo",
+    displayName: "DOM events capability",
+    moduleOwnership: [{ specifierPrefix: "@demo/dom/events" }],
+  })};
+}
+`,
+      },
+    ],
+    files: {
+      "src/index.ts": "import { onClick } from \"@demo/dom/events\";\nimport { view } from \"./view.js\";\nexport { onClick, view };\n",
+      "src/view.ts": "import { document } from \"@demo/dom\";\nexport const view = document;\n",
+    },
+  });
+
+  const build = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diagnostics-format", "json"]);
+
+  assert.equal(build.status, 1, build.stdout + build.stderr);
+  const [diagnostic] = JSON.parse(build.stdout).diagnostics;
+  assert.equal(diagnostic.code, "TARGET_MODULE_OWNERSHIP");
+  assert.deepEqual(diagnostic.sourceSpan, { fileName: "index.ts", line: 1, column: 26, endLine: 1, endColumn: 42 });
+  assert.deepEqual(diagnostic.related, [{
+    message: "Module prefix '@demo/dom' is owned by target provider 'demo-provider'.",
+    sourceSpan: { fileName: "view.ts", line: 1, column: 27, endLine: 1, endColumn: 36 },
+  }]);
+  assert.deepEqual(diagnostic.notes, [
+    { label: "target provider", message: "'demo-provider' owns module prefix '@demo/dom'." },
+    { label: "target capability", message: "'@fixture/dom-events-capability' owns module prefix '@demo/dom/events'." },
+  ]);
+});
+
+test("targets reports installed targets in JSON and rejects unknown diagnostics formats", async () => {
+  const projectDirectory = resolve(tempRoot, "targets");
+  await writePluginProject(projectDirectory, { config: demoProjectConfig() });
+
+  const targets = runCli(["targets", "--diagnostics-format", "json"], projectDirectory);
+  assert.equal(targets.status, 0, targets.stdout + targets.stderr);
+  const document = JSON.parse(targets.stdout);
+  assert.equal(document.command, "targets");
+  assert.deepEqual(document.diagnostics, []);
+  assert.deepEqual(document.targets, [{ targetId: "demo", plugin: "@fixture/demo-target" }]);
+
+  const invalid = runCli(["targets", "--diagnostics-format", "xml"], projectDirectory);
+  assert.equal(invalid.status, 1);
+  assert.match(invalid.stderr, /Expected one of text, json, sarif after --diagnostics-format\./u);
+});
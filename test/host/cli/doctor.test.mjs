@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { diagnoseTsonicProject } from "../../../packages/host/dist/index.js";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writeFiles, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-doctor", `${Date.now()}-${process.pid}`);
+
+function capabilityPlugin(packageName, options) {
+  return {
+    packageName,
+    source: `export function createTsonicPlugin() {
+  return ${JSON.stringify({
+    kind: "target-capability",
+    id: packageName,
+    targetId: "demo",
+    displayName: `${packageName} capability`,
+    ...options,
+  })};
+}
+`,
+  };
+}
+
+test("doctor lists direct dependencies with their Tsonic manifest status", async () => {
+  const projectDirectory = resolve(tempRoot, "healthy");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { version: "2.1.0" })],
+  });
+
+  const result = runCli(["doctor"], projectDirectory);
+  assert.equal(result.status, 0, result.stdout + result.stderr);
+  const engines = JSON.parse(await readFile(resolve(repoRoot, "package.json"), "utf8")).engines.node;
+  assert.match(result.stdout, new RegExp(`^Node\\.js: \\d+\\.\\d+\\.\\d+ \\(requires ${engines.replaceAll(".", "\\.")}\\)$`, "mu"));
+  assert.match(result.stdout, /^Package: package\.json$/mu);
+  assert.match(result.stdout, /^ {2}@fixture\/demo-target@2\.1\.0\ttarget plugin for 'demo'$/mu);
+  assert.match(result.stdout, /^No problems found\.$/mu);
+  assert.equal(result.stderr, "");
+});
+
+test("doctor keeps checking plugins after one fails and reports all problems in one pass", async () => {
+  const projectDirectory = resolve(tempRoot, "broken");
+  const plugins = [
+    fakeTargetPlugin("@fixture/demo-target", "demo"),
+    fakeTargetPlugin("@fixture/other-demo-target", "demo"),
+    fakeTargetPlugin("@fixture/future-target", "future", { contractVersion: 2 }),
+    fakeTargetPlugin("@fixture/throwing-target", "throwing", {
+      source: "export function createTsonicPlugin() { throw new Error(\"factory exploded\"); }\n",
+    }),
+    capabilityPlugin("@fixture/dom-capability", {
+      requiredSurfaces: ["dom"],
+      requiredCapabilities: ["@fixture/missing-capability"],
+      moduleOwnership: [{ specifierPrefix: "@demo/dom" }],
+    }),
+    capabilityPlugin("@fixture/dom-events-capability", {
+      moduleOwnership: [{ specifierPrefix: "@demo/dom/events" }],
+    }),
+  ];
+  await writePluginProject(projectDirectory, { config: demoProjectConfig(), plugins });
+  await writeFiles(projectDirectory, {
+    "package.json": `${JSON.stringify({
+      name: "fixture-project",
+      private: true,
+      type: "module",
+      dependencies: {
+        ...Object.fromEntries(plugins.map((plugin) => [plugin.packageName, "1.0.0"])),
+        "@fixture/not-installed": "1.0.0",
+        "plain-library": "1.0.0",
+      },
+    }, null, 2)}\n`,
+    "node_modules/plain-library/package.json": `${JSON.stringify({ name: "plain-library", version: "3.0.0" })}\n`,
+  });
+
+  const result = runCli(["doctor", "--project", resolve(projectDirectory, "tsonic.json")]);
+  assert.equal(result.status, 1, result.stdout + result.stderr);
+  assert.match(result.stdout, /^ {2}@fixture\/future-target@1\.0\.0\tinvalid Tsonic plugin$/mu);
+  assert.match(result.stdout, /^ {2}@fixture\/throwing-target@1\.0\.0\tinvalid Tsonic plugin$/mu);
+  assert.match(result.stdout, /^ {2}@fixture\/not-installed\tnot installed$/mu);
+  assert.match(result.stdout, /^ {2}plain-library@3\.0\.0\tno Tsonic manifest$/mu);
+  assert.match(result.stdout, /^ {2}@fixture\/dom-capability@1\.0\.0\tcapability plugin for 'demo'$/mu);
+  assert.match(result.stdout, /^7 problems found\.$/mu);
+  for (const expected of [
+    /^ERROR tsonic-host:TSONIC_DEPENDENCY_NOT_INSTALLED: Project dependency '@fixture\/not-installed' is not installed\.$/mu,
+    /^ERROR tsonic-host:TSONIC_PLUGIN_INVALID: Tsonic plugin '@fixture\/future-target' uses unsupported contract version 2\.$/mu,
+    /^ERROR tsonic-host:TSONIC_PLUGIN_INVALID: Tsonic plugin '@fixture\/throwing-target' failed during createTsonicPlugin\(\): factory exploded$/mu,
+    /^ERROR tsonic-host:TSONIC_PLUGIN_DUPLICATE_TARGET: Target id 'demo' is provided by multiple installed Tsonic target plugins: @fixture\/demo-target, @fixture\/other-demo-target\.$/mu,
+    /^ERROR tsonic-host:TARGET_CAPABILITY_SELECTION: Installed capability '@fixture\/dom-capability' for target 'demo' requires surface 'dom', which target 'demo' does not implement\.$/mu,
+    /^ERROR tsonic-host:TARGET_CAPABILITY_SELECTION: Installed capability '@fixture\/dom-capability' for target 'demo' requires capability '@fixture\/missing-capability', which no installed plugin provides\.$/mu,
+    /^ERROR tsonic-host:TARGET_MODULE_OWNERSHIP: Module prefixes '@demo\/dom' \(@fixture\/dom-capability\) and '@demo\/dom\/events' \(@fixture\/dom-events-capability\) overlap for target 'demo'\.$/mu,
+  ]) {
+    assert.match(result.stderr, expected);
+  }
+});
+
+test("doctor loads each plugin in isolation and reports hangs, exits and global pollution per dependency", async () => {
+  const projectDirectory = resolve(tempRoot, "isolated");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    plugins: [
+      fakeTargetPlugin("@fixture/demo-target", "demo"),
+      fakeTargetPlugin("@fixture/hanging-target", "hanging", {
+        source: "export function createTsonicPlugin() { for (;;) {} }\n",
+      }),
+      fakeTargetPlugin("@fixture/exiting-target", "exiting", {
+        source: "process.exit(7);\nexport function createTsonicPlugin() { return {}; }\n",
+      }),
+      fakeTargetPlugin("@fixture/polluting-target", "polluting", {
+        source: "globalThis.tsonicFixtureState = {};\nglobalThis.JSON = { parse() { return {}; } };\nexport function createTsonicPlugin() { return {}; }\n",
+      }),
+    ],
+  });
+
+  const report = await diagnoseTsonicProject({
+    projectFilePath: resolve(projectDirectory, "tsonic.json"),
+    pluginTimeoutMilliseconds: 2_000,
+  });
+  assert.equal(globalThis.tsonicFixtureState, undefined);
+  assert.deepEqual(
+    report.dependencies.map((dependency) => [dependency.name, dependency.status]),
+    [
+      ["@fixture/demo-target", "target-plugin"],
+      ["@fixture/exiting-target", "invalid"],
+      ["@fixture/hanging-target", "invalid"],
+      ["@fixture/polluting-target", "invalid"],
+    ],
+  );
+  assert.deepEqual(report.diagnostics.map((diagnostic) => diagnostic.message), [
+    "Tsonic plugin '@fixture/exiting-target' exited with code 7 while loading.",
+    "Tsonic plugin '@fixture/hanging-target' did not finish loading within 2000 ms.",
+    "Tsonic plugin '@fixture/polluting-target' modified globals while loading: JSON, tsonicFixtureState.",
+  ]);
+  assert.ok(report.diagnostics.every((diagnostic) => diagnostic.code === "TSONIC_PLUGIN_INVALID"));
+});
+
+test("doctor reports a missing project package.json", async () => {
+  const projectDirectory = resolve(tempRoot, "without-package");
+  await writeFiles(projectDirectory, { "tsonic.json": `${JSON.stringify(demoProjectConfig(), null, 2)}\n` });
+
+  const result = runCli(["doctor"], projectDirectory);
+  assert.equal(result.status, 1, result.stdout + result.stderr);
+  assert.match(result.stdout, /^Package: not found$/mu);
+  assert.match(result.stderr, /^ERROR tsonic-host:TSONIC_PROJECT_PACKAGE_JSON: Project package\.json '.*package\.json' could not be read: /mu);
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-dry-run", `${Date.now()}-${process.pid}`);
+
+test("build --dry-run compares the compiled artifacts with outDir without publishing", async () => {
+  const projectDirectory = resolve(tempRoot, "diff");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const first = 1;\nexport const second = 2;\n" },
+  });
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+
+  const clean = runCli(["build", "--project", projectPath, "--dry-run", "--check-clean"]);
+  assert.equal(clean.status, 0, clean.stdout + clean.stderr);
+  assert.match(clean.stdout, /^Dry run: 0 added, 0 removed, 0 changed$/mu);
+
+  await writeFile(resolve(projectDirectory, "src/index.ts"), "export const first = 1;\nexport const second = 3;\n", "utf8");
+  await rm(resolve(projectDirectory, "out/demo/target.json"));
+  await writeFile(resolve(projectDirectory, "out/demo/stale.txt"), "stale\n", "utf8");
+
+  const diffed = runCli(["build", "--project", projectPath, "--dry-run", "--diff"]);
+  assert.equal(diffed.status, 0, diffed.stdout + diffed.stderr);
+  assert.match(diffed.stdout, /^Cache: skipped$/mu);
+  assert.match(diffed.stdout, /^Dry run: 1 added, 1 removed, 1 changed$/mu);
+  assert.match(diffed.stdout, /^ {2}M demo\/index\.txt\n {2}D demo\/stale\.txt\n {2}A demo\/target\.json$/mu);
+  assert.ok(diffed.stdout.includes([
+    "--- a/demo/index.txt",
+    "+++ b/demo/index.txt",
+    "@@ -1,2 +1,2 @@",
+    " export const first = 1;",
+    "-export const second = 2;",
+    "+export const second = 3;",
+  ].join("\n")), diffed.stdout);
+  assert.match(diffed.stdout, /^--- a\/demo\/stale\.txt\n\+\+\+ \/dev\/null\n@@ -1,1 \+0,0 @@\n-stale$/mu);
+  assert.match(diffed.stdout, /^--- \/dev\/null\n\+\+\+ b\/demo\/target\.json\n@@ -0,0 \+1,1 @@\n\+\{/mu);
+  assert.equal(await readFile(resolve(projectDirectory, "out/demo/index.txt"), "utf8"), "export const first = 1;\nexport const second = 2;\n");
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/target.json")), false);
+  assert.deepEqual((await readdir(projectDirectory)).filter((entry) => entry.startsWith(".tsonic-output-")), []);
+
+  const dirty = runCli(["build", "--project", projectPath, "--dry-run", "--check-clean", "--diagnostics-format", "json"]);
+  assert.equal(dirty.status, 1, dirty.stdout + dirty.stderr);
+  const document = JSON.parse(dirty.stdout);
+  assert.deepEqual(document.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.message]), [
+    ["TSONIC_OUTPUT_NOT_CLEAN", "Published output differs from the build in 3 files."],
+  ]);
+});
+
+test("build --dry-run --diff replaces the whole file when a rewrite exceeds the edit distance limit", async () => {
+  const projectDirectory = resolve(tempRoot, "rewrite");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  const lines = (prefix) => Array.from({ length: 1500 }, (_, index) => `export const ${prefix}${index} = ${index};\n`).join("");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": lines("before") },
+  });
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+
+  await writeFile(resolve(projectDirectory, "src/index.ts"), lines("after"), "utf8");
+  const diffed = runCli(["build", "--project", projectPath, "--dry-run", "--diff"]);
+  assert.equal(diffed.status, 0, diffed.stdout + diffed.stderr);
+  assert.match(diffed.stdout, /^--- a\/demo\/index\.txt\n\+\+\+ b\/demo\/index\.txt\n@@ -1,1500 \+1,1500 @@\n-export const before0 = 0;$/mu);
+  assert.equal(diffed.stdout.match(/^@@ /gmu)?.length, 1);
+});
+
+test("build --diff and --check-clean require --dry-run", async () => {
+  const projectDirectory = resolve(tempRoot, "options");
+  await writePluginProject(projectDirectory, { config: demoProjectConfig(), files: { "src/index.ts": "export {};\n" } });
+
+  const rejected = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--diff"]);
+  assert.equal(rejected.status, 1);
+  assert.equal(rejected.stderr, "--diff requires --dry-run.\n");
+  assert.equal(existsSync(resolve(projectDirectory, "out")), false);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-explain", `${Date.now()}-${process.pid}`);
+
+test("explain prints long-form help for host, target-api and source-core codes", async () => {
+  const listed = runCli(["explain", "--project", resolve(tempRoot, "missing/tsonic.json")]);
+  assert.equal(listed.status, 0, listed.stdout + listed.stderr);
+  assert.match(listed.stdout, /^TARGET_MODULE_OWNERSHIP\tModule ownership conflict$/mu);
+  assert.match(listed.stdout, /^TARGET_ARTIFACT_CONTRACT_OPEN\t/mu);
+  assert.match(listed.stdout, /^TSONIC_SOURCE_CORE_MODULE_UNOWNED\t/mu);
+
+  const hostCode = runCli(["explain", "TSONIC_PLUGIN_INVALID"]);
+  assert.equal(hostCode.status, 0, hostCode.stdout + hostCode.stderr);
+  assert.match(hostCode.stdout, /^TSONIC_PLUGIN_INVALID: Installed Tsonic plugin is invalid\n\nA direct dependency/u);
+
+  const numeric = runCli(["explain", "9200001"]);
+  assert.equal(numeric.status, 0, numeric.stdout + numeric.stderr);
+  assert.match(numeric.stdout, /^TSONIC_SOURCE_CORE_MODULE_UNOWNED: /u);
+  assert.match(numeric.stdout, /^Also reported as: TS9200001, TSONIC_SOURCE_CORE_9200001$/mu);
+
+  assert.match(runCli(["explain", "TS9901150"]).stdout, /^SOURCE_CORE_NATIVE_POINTER_SELECTED_EVIDENCE_MISSING: /u);
+  assert.match(runCli(["explain", "source_core_safety_selector_receiver"]).stdout, /^SOURCE_CORE_SAFETY_SELECTOR_NOT_PROVEN: /u);
+  assert.match(
+    runCli(["explain", "SOURCE_CORE_UNSAFE_CONTEXT_BLOCK_POSITION_INVALID"]).stdout,
+    /\nExamples:\n  function copy\(\): void \{\n    unsafeContext\(\);\n/u,
+  );
+
+  const unknown = runCli(["explain", "TARGET_NOT_A_CODE"]);
+  assert.equal(unknown.status, 1);
+  assert.equal(unknown.stderr, "Unknown diagnostic code 'TARGET_NOT_A_CODE'. Run 'tsonic explain' to list the registered codes.\n");
+});
+
+test("explain includes diagnostic codes contributed by installed target plugins", async () => {
+  const projectDirectory = resolve(tempRoot, "plugin");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      pack: {
+        diagnosticCodes: [{
+          code: "DEMO_NATIVE",
+          title: "Native build failed",
+          explanation: "The demo native compiler rejected the generated sources.",
+          examples: ["demo build --strict"],
+        }],
+      },
+    })],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  const explained = runCli(["explain", "DEMO_NATIVE", "--project", projectPath]);
+  assert.equal(explained.status, 0, explained.stdout + explained.stderr);
+  assert.equal(explained.stdout, [
+    "DEMO_NATIVE: Native build failed",
+    "",
+    "The demo native compiler rejected the generated sources.",
+    "",
+    "Examples:",
+    "  demo build --strict",
+    "",
+  ].join("\n"));
+
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      pack: { diagnosticCodes: [{ code: "TARGET_SELECTION", title: "Shadowed", explanation: "Shadows a host code." }] },
+    })],
+  });
+  const duplicate = runCli(["explain", "--project", projectPath]);
+  assert.equal(duplicate.status, 1);
+  assert.match(duplicate.stderr, /^Diagnostic code 'TARGET_SELECTION' is registered more than once\.$/mu);
+});
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-init", `${Date.now()}-${process.pid}`);
+
+const optionPlugin = fakeTargetPlugin("@fixture/alpha-target", "alpha", {
+  pack: {
+    options: [
+      { name: "namespace", description: "Root namespace", type: "string", required: true },
+      { name: "publishAot", description: "Publish ahead of time", type: "boolean", required: true },
+      { name: "assemblyName", description: "Assembly name" },
+    ],
+  },
+});
+
+const surfaceTarget = fakeTargetPlugin("@fixture/gamma-target", "gamma", {
+  pack: { options: [{ name: "namespace", description: "Root namespace", type: "string", required: true }] },
+});
+const surfacePlugin = {
+  ...surfaceTarget,
+  source: surfaceTarget.source.replace("surfaces: [],", `surfaces: [
+          {
+            id: "dom",
+            displayName: "DOM",
+            options: [{ name: "shell", description: "Host page", type: "string", required: true }],
+            runtimeContributions() { return {}; },
+          },
+          {
+            id: "node",
+            displayName: "Node",
+            options: [{ name: "engine", description: "Node engine", type: "string", required: true }],
+            runtimeContributions() { return {}; },
+          },
+        ],`),
+};
+const capabilityPlugin = {
+  packageName: "@fixture/gamma-storage",
+  source: `export function createTsonicPlugin() {
+  return ${JSON.stringify({
+    kind: "target-capability",
+    id: "@fixture/gamma-storage",
+    targetId: "gamma",
+    displayName: "Gamma storage",
+    moduleOwnership: [{ specifierPrefix: "@gamma/storage" }],
+    options: [{ name: "storageKeys", description: "Storage keys", type: "string-list", required: true }],
+  })};
+}
+`,
+};
+
+test("init writes a buildable project and asks for required target options", async () => {
+  const projectDirectory = resolve(tempRoot, "options");
+  await writePluginProject(projectDirectory, {
+    plugins: [optionPlugin, fakeTargetPlugin("@fixture/beta-target", "beta")],
+  });
+  const packageJson = await readFile(resolve(projectDirectory, "package.json"), "utf8");
+
+  const init = runCli(["init", "--target", "alpha"], projectDirectory, "Example.App\ntrue\n");
+
+  assert.equal(init.status, 0, init.stdout + init.stderr);
+  assert.match(init.stdout, /^alpha namespace \(Root namespace\): alpha publishAot \(Publish ahead of time\): Installed targets:$/mu);
+  assert.match(init.stdout, /^ {2}beta\t@fixture\/beta-target$/mu);
+  assert.match(init.stdout, /^Created tsonic\.json$/mu);
+  assert.match(init.stdout, /^Created src\/index\.ts$/mu);
+  assert.doesNotMatch(init.stdout, /Created package\.json/u);
+  assert.deepEqual(JSON.parse(await readFile(resolve(projectDirectory, "tsonic.json"), "utf8")), {
+    entryPoint: "index.ts",
+    rootDir: "src",
+    outDir: "out",
+    targets: [{ id: "alpha", options: { namespace: "Example.App", publishAot: true } }],
+  });
+  assert.equal(await readFile(resolve(projectDirectory, "package.json"), "utf8"), packageJson);
+
+  const build = runCli(["build", "--no-cache"], projectDirectory);
+  assert.equal(build.status, 0, build.stdout + build.stderr);
+  assert.equal(
+    await readFile(resolve(projectDirectory, "out/alpha/target.json"), "utf8"),
+    "{\"id\":\"alpha\",\"options\":{\"namespace\":\"Example.App\",\"publishAot\":true}}\n",
+  );
+
+  const again = runCli(["init", "--target", "beta"], projectDirectory);
+  assert.equal(again.status, 1);
+  assert.match(again.stderr, /will not overwrite existing files: tsonic\.json, src\/index\.ts\./u);
+  assert.equal(JSON.parse(await readFile(resolve(projectDirectory, "tsonic.json"), "utf8")).targets[0].id, "alpha");
+});
+
+test("init selects a target and writes package.json for a nested project", async () => {
+  const workspace = resolve(tempRoot, "nested");
+  await writePluginProject(workspace, {
+    plugins: [optionPlugin, fakeTargetPlugin("@fixture/beta-target", "beta")],
+  });
+  const projectDirectory = resolve(workspace, "apps/demo");
+
+  const init = runCli(["init", "--project", "apps/demo/tsonic.json"], workspace, "beta\n");
+
+  assert.equal(init.status, 0, init.stdout + init.stderr);
+  assert.match(init.stdout, /^Target \(alpha, beta\): /u);
+  assert.deepEqual(JSON.parse(await readFile(resolve(projectDirectory, "package.json"), "utf8")), {
+    name: "demo",
+    private: true,
+    type: "module",
+    devDependencies: { "@fixture/beta-target": "^1.0.0" },
+  });
+  assert.deepEqual(JSON.parse(await readFile(resolve(projectDirectory, "tsonic.json"), "utf8")).targets, [{ id: "beta" }]);
+
+  const build = runCli(["build", "--project", "apps/demo/tsonic.json", "--no-cache"], workspace);
+  assert.equal(build.status, 0, build.stdout + build.stderr);
+
+  const missing = runCli(["init", "--project", "apps/other/tsonic.json", "--target", "alpha"], workspace, "");
+  assert.equal(missing.status, 1);
+  assert.match(missing.stderr, /Target 'alpha' requires option 'namespace'\./u);
+});
+
+test("init asks for required options of selected surfaces and installed capabilities", async () => {
+  const projectDirectory = resolve(tempRoot, "contributors");
+  await writePluginProject(projectDirectory, { plugins: [surfacePlugin, capabilityPlugin] });
+
+  const init = runCli(["init", "--target", "gamma"], projectDirectory, "dom\nExample.App\nindex.html\nusers, sessions\n");
+
+  assert.equal(init.status, 0, init.stdout + init.stderr);
+  assert.match(
+    init.stdout,
+    /^gamma surfaces \(dom, node; comma-separated, empty for none\): gamma namespace \(Root namespace\): gamma shell \(Host page\): gamma storageKeys \(Storage keys\): Installed targets:$/mu,
+  );
+  assert.deepEqual(JSON.parse(await readFile(resolve(projectDirectory, "tsonic.json"), "utf8")).targets, [{
+    id: "gamma",
+    surfaces: ["dom"],
+    options: { namespace: "Example.App", shell: "index.html", storageKeys: ["users", "sessions"] },
+  }]);
+
+  const build = runCli(["build", "--no-cache"], projectDirectory);
+  assert.equal(build.status, 0, build.stdout + build.stderr);
+
+  const missing = runCli(["init", "--project", "other/tsonic.json", "--target", "gamma"], projectDirectory, "node\nExample.App\n");
+  assert.equal(missing.status, 1);
+  assert.match(missing.stderr, /Target 'gamma' requires option 'engine'\./u);
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import {
+  demoProjectConfig,
+  fakeTargetPlugin,
+  fakeTargetPluginSource,
+  repoRoot,
+  runCli,
+  writeFiles,
+  writePluginProject,
+} from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-output-manifest", `${Date.now()}-${process.pid}`);
+
+test("build publishes a manifest with artifact hashes and plugin provenance", async () => {
+  const projectDirectory = resolve(tempRoot, "manifest");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", { version: "1.2.3" })],
+  });
+
+  const built = runCli(["build", "--project", projectPath, "--no-cache"]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  const manifest = JSON.parse(await readFile(resolve(projectDirectory, "out/tsonic-manifest.json"), "utf8"));
+  assert.equal(manifest.schemaVersion, 1);
+  assert.equal(manifest.tool, "tsonic");
+  assert.equal(manifest.targets.length, 1);
+  const [target] = manifest.targets;
+  assert.equal(target.targetId, "demo");
+  assert.deepEqual(target.plugins, [{ name: "@fixture/demo-target", version: "1.2.3" }]);
+  assert.match(target.sourceDeclarationFingerprint, /^[0-9a-f]{64}$/u);
+  assert.match(target.sourcePackageGraphFingerprint, /^[0-9a-f]{64}$/u);
+  assert.deepEqual(target.artifacts, [
+    {
+      path: "index.txt",
+      kind: "source",
+      language: "text",
+      sha256: createHash("sha256").update("export const value = 1;\n").digest("hex"),
+    },
+    {
+      path: "target.json",
+      kind: "configuration",
+      sha256: createHash("sha256").update(await readFile(resolve(projectDirectory, "out/demo/target.json"))).digest("hex"),
+    },
+  ]);
+
+  const verified = runCli(["verify-output", "--project", projectPath]);
+  assert.equal(verified.status, 0, verified.stdout + verified.stderr);
+  assert.match(verified.stdout, /^Artifacts: 2$/mu);
+  assert.match(verified.stdout, /^Output matches tsonic-manifest\.json\.$/mu);
+});
+
+test("verify-output reports hand edits, unlisted files and stale plugin versions", async () => {
+  const projectDirectory = resolve(tempRoot, "verify");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  const built = runCli(["build", "--project", projectPath]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+
+  await writeFile(resolve(projectDirectory, "out/demo/index.txt"), "export const value = 2;\n", "utf8");
+  await writeFile(resolve(projectDirectory, "out/demo/notes.txt"), "hand written\n", "utf8");
+  const pluginManifestPath = resolve(projectDirectory, "node_modules/@fixture/demo-target/package.json");
+  const pluginManifest = JSON.parse(await readFile(pluginManifestPath, "utf8"));
+  await writeFile(pluginManifestPath, `${JSON.stringify({ ...pluginManifest, version: "2.0.0" }, null, 2)}\n`, "utf8");
+
+  const rejected = runCli(["verify-output", "--project", projectPath]);
+  assert.equal(rejected.status, 1, rejected.stdout + rejected.stderr);
+  assert.match(rejected.stdout, /^Output does not match tsonic-manifest\.json\.$/mu);
+  assert.match(
+    rejected.stderr,
+    /^ERROR tsonic-cli:TSONIC_OUTPUT_MISMATCH: Published file 'demo\/index\.txt' has sha256 [0-9a-f]{64}, but the manifest records [0-9a-f]{64}\.$/mu,
+  );
+  assert.match(
+    rejected.stderr,
+    /^ERROR tsonic-cli:TSONIC_OUTPUT_MISMATCH: Published file 'demo\/notes\.txt' is not listed in the manifest\.$/mu,
+  );
+  assert.match(
+    rejected.stderr,
+    /^ERROR tsonic-cli:TSONIC_OUTPUT_STALE: Target 'demo' was built with '@fixture\/demo-target' 1\.0\.0, but 2\.0\.0 is installed\.$/mu,
+  );
+
+  await rm(resolve(projectDirectory, "out/tsonic-manifest.json"));
+  const missing = runCli(["verify-output", "--project", projectPath, "--diagnostics-format", "json"]);
+  assert.equal(missing.status, 1, missing.stdout + missing.stderr);
+  assert.deepEqual(JSON.parse(missing.stdout).diagnostics.map((diagnostic) => diagnostic.code), ["TSONIC_OUTPUT_MANIFEST"]);
+});
+
+test("verify-output reports output built against different source inputs", async () => {
+  const projectDirectory = resolve(tempRoot, "sources");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [{
+      packageName: "@fixture/demo-target",
+      source: fakeTargetPluginSource("@fixture/demo-target", "demo")
+        .replace("return { declarations:", 'return { declarationPolicy: { installedDeclarations: "package-contract" }, declarations:'),
+    }],
+  });
+  const built = runCli(["build", "--project", projectPath, "--no-cache"]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  assert.equal(runCli(["verify-output", "--project", projectPath]).status, 0);
+
+  await writeFiles(projectDirectory, {
+    "node_modules/extra-types/package.json": `${JSON.stringify({ name: "extra-types", version: "1.0.0", types: "index.d.ts" })}\n`,
+    "node_modules/extra-types/index.d.ts": "export declare const extra: number;\n",
+    "src/extra.ts": "export const extra = 2;\n",
+  });
+  const packageJsonPath = resolve(projectDirectory, "package.json");
+  const packageJson = JSON.parse(await readFile(packageJsonPath, "utf8"));
+  await writeFile(
+    packageJsonPath,
+    `${JSON.stringify({ ...packageJson, dependencies: { ...packageJson.dependencies, "extra-types": "1.0.0" } }, null, 2)}\n`,
+    "utf8",
+  );
+
+  const stale = runCli(["verify-output", "--project", projectPath, "--diagnostics-format", "json"]);
+  assert.equal(stale.status, 1, stale.stdout + stale.stderr);
+  assert.deepEqual(JSON.parse(stale.stdout).diagnostics.map((diagnostic) => diagnostic.message), [
+    "Target 'demo' was built against declaration inputs that no longer match the project.",
+    "Target 'demo' was built against a source package graph that no longer matches the project.",
+  ]);
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { compileProject, compileProjectInParallel, discoverInstalledTsonicPlugins } from "../../../packages/host/dist/index.js";
+import {
+  demoProjectConfig,
+  fakeTargetPlugin,
+  fakeTargetPluginSource,
+  repoRoot,
+  runCli,
+  writePluginProject,
+} from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-parallel-build", `${Date.now()}-${process.pid}`);
+
+test("parallel compilation matches the sequential target order and diagnostics", async () => {
+  const projectDirectory = resolve(tempRoot, "matching");
+  const config = demoProjectConfig([{ id: "alpha" }, { id: "beta" }, { id: "gamma" }]);
+  await writePluginProject(projectDirectory, {
+    config,
+    files: { "src/index.ts": "export const value: number = \"text\";\n" },
+    plugins: [
+      fakeTargetPlugin("@fixture/alpha-target", "alpha"),
+      fakeTargetPlugin("@fixture/beta-target", "beta"),
+      fakeTargetPlugin("@fixture/gamma-target", "gamma"),
+    ],
+  });
+  const projectFilePath = resolve(projectDirectory, "tsonic.json");
+  const plugins = await discoverInstalledTsonicPlugins(projectFilePath);
+  const sequential = compileProject({
+    project: config,
+    projectFilePath,
+    registry: plugins.createTargetRegistry(),
+    installedCapabilities: plugins.capabilities,
+    targetIds: ["gamma", "alpha", "delta"],
+  });
+  const streamed = [];
+
+  const parallel = await compileProjectInParallel({
+    project: config,
+    projectFilePath,
+    targetIds: ["gamma", "alpha", "delta"],
+    maxWorkers: 2,
+    onTargetResult: (result) => streamed.push(result.target.id),
+  });
+
+  assert.deepEqual(parallel.targets.map((target) => target.target.id), ["alpha", "gamma", "delta"]);
+  assert.deepEqual(streamed, ["alpha", "gamma", "delta"]);
+  assert.equal(parallel.targets[0].target, config.targets[0]);
+  assert.deepEqual(parallel.diagnostics, sequential.diagnostics.map(({ sourceNode: _sourceNode, ...diagnostic }) => diagnostic));
+  assert.deepEqual(
+    parallel.targets.map((target) => target.compileResult.kind),
+    sequential.targets.map((target) => target.compileResult.kind),
+  );
+  assert.ok(parallel.diagnostics.some((diagnostic) => diagnostic.code === "TARGET_SELECTION"));
+});
+
+test("a crashed target worker becomes a TARGET_COMPILATION diagnostic", async () => {
+  const projectDirectory = resolve(tempRoot, "crash");
+  const config = demoProjectConfig([{ id: "alpha" }, { id: "beta" }]);
+  await writePluginProject(projectDirectory, {
+    config,
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [
+      fakeTargetPlugin("@fixture/alpha-target", "alpha"),
+      fakeTargetPlugin("@fixture/beta-target", "beta", {
+        source: fakeTargetPluginSource("@fixture/beta-target", "beta")
+          .replace("compile(input) {", "compile(input) {\n              process.exit(7);"),
+      }),
+    ],
+  });
+  const projectFilePath = resolve(projectDirectory, "tsonic.json");
+
+  const result = await compileProjectInParallel({ project: config, projectFilePath, prepareToolchain: false });
+
+  assert.deepEqual(result.targets.map((target) => target.compileResult.kind), ["resolved", "rejected"]);
+  assert.deepEqual(result.diagnostics, [{
+    code: "TARGET_COMPILATION",
+    category: "error",
+    message: "Target 'beta' worker exited with code 7 before reporting a result.",
+    source: "tsonic-host",
+  }]);
+
+  const build = runCli(["build", "--project", projectFilePath, "--parallel"]);
+  assert.equal(build.status, 1, build.stdout + build.stderr);
+  assert.match(build.stderr, /TARGET_COMPILATION: Target 'beta' worker exited with code 7/u);
+});
+
+test("build --parallel publishes the same output as a sequential build", async () => {
+  const projectDirectory = resolve(tempRoot, "publish");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig([{ id: "alpha" }, { id: "beta" }]),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/alpha-target", "alpha"), fakeTargetPlugin("@fixture/beta-target", "beta")],
+  });
+
+  const build = runCli(["build", "--project", resolve(projectDirectory, "tsonic.json"), "--parallel", "--no-cache"]);
+
+  assert.equal(build.status, 0, build.stdout + build.stderr);
+  assert.match(build.stdout, /^Targets: alpha, beta$/mu);
+  assert.equal(await readFile(resolve(projectDirectory, "out/alpha/index.txt"), "utf8"), "export const value = 1;\n");
+  assert.equal(await readFile(resolve(projectDirectory, "out/beta/target.json"), "utf8"), "{\"id\":\"beta\"}\n");
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { readTextDiagnosticsStyle } from "../../../packages/cli/dist/src/commands/arguments.js";
+import { formatDiagnostics } from "../../../packages/cli/dist/src/diagnostics/text-format.js";
+import { repoRoot } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-pretty-diagnostics", `${Date.now()}-${process.pid}`);
+
+test("pretty diagnostics group by file and underline the full source span", async () => {
+  const sourceRoot = resolve(tempRoot, "excerpt");
+  await mkdir(sourceRoot, { recursive: true });
+  await writeFile(resolve(sourceRoot, "index.ts"), "const first = 1;\nconst value: number =\n\t\"text\";\n", "utf8");
+  const diagnostics = [
+    {
+      code: "TSTS_DIAGNOSTIC",
+      category: "error",
+      source: "tsts",
+      message: "Type 'string' is not assignable to type 'number'.",
+      sourceSpan: { fileName: "index.ts", line: 2, column: 7, endLine: 3, endColumn: 8 },
+      evidence: ["tsts.code=TS2322"],
+      related: [{ message: "declared here", sourceSpan: { fileName: "index.ts", line: 1, column: 7, endLine: 1, endColumn: 12 } }],
+    },
+    {
+      code: "DEMO_HINT",
+      category: "suggestion",
+      source: "demo",
+      message: "first line\nsecond line",
+      sourceSpan: { fileName: "index.ts", line: 1, column: 7, endLine: 1, endColumn: 12 },
+    },
+    { code: "TARGET_SELECTION", category: "error", source: "tsonic-host", message: "Unknown target 'web'." },
+  ];
+
+  assert.equal(formatDiagnostics(diagnostics, { pretty: true, color: false }, sourceRoot), [
+    "index.ts",
+    "  error tsts:TSTS_DIAGNOSTIC: Type 'string' is not assignable to type 'number'.",
+    "    --> index.ts:2:7",
+    "    |",
+    "  2 | const value: number =",
+    "    |       ^^^^^^^^^^^^^^^",
+    "  3 | \t\"text\";",
+    "    | \t^^^^^^",
+    "    = evidence: tsts.code=TS2322",
+    "    = related: index.ts:1:7 declared here",
+    "  suggestion demo:DEMO_HINT: first line",
+    "    second line",
+    "    --> index.ts:1:7",
+    "    |",
+    "  1 | const first = 1;",
+    "    |       ^^^^^",
+    "",
+    "  error tsonic-host:TARGET_SELECTION: Unknown target 'web'.",
+    "",
+  ].join("\n"));
+
+  const colored = formatDiagnostics(diagnostics.slice(0, 1), { pretty: true, color: true }, sourceRoot);
+  assert.match(colored, /\u001b\[1;31merror\u001b\[0m/u);
+  assert.match(colored, /\u001b\[1;31m\^{15}\u001b\[0m/u);
+});
+
+test("text diagnostics stay plain off a terminal or with --plain, and drop colour with --no-color", () => {
+  const terminal = { isTTY: true, hasColors: () => true };
+
+  assert.deepEqual(readTextDiagnosticsStyle([], terminal), { pretty: true, color: true });
+  assert.deepEqual(readTextDiagnosticsStyle(["--no-color"], terminal), { pretty: true, color: false });
+  assert.deepEqual(readTextDiagnosticsStyle(["--plain"], terminal), { pretty: false, color: false });
+  assert.deepEqual(readTextDiagnosticsStyle([], { isTTY: false, hasColors: () => true }), { pretty: false, color: false });
+  assert.deepEqual(readTextDiagnosticsStyle([], { isTTY: true, hasColors: () => false }), { pretty: true, color: false });
+});
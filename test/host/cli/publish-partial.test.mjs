@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import {
+  demoProjectConfig,
+  fakeTargetPlugin,
+  fakeTargetPluginSource,
+  repoRoot,
+  runCli,
+  writeFiles,
+  writePluginProject,
+} from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-publish-partial", `${Date.now()}-${process.pid}`);
+
+test("build --publish-partial publishes successful targets and keeps the last good output of failed ones", async () => {
+  const projectDirectory = resolve(tempRoot, "partial");
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig([{ id: "demo" }, { id: "lab" }]),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo"), fakeTargetPlugin("@fixture/lab-target", "lab")],
+  });
+  const built = runCli(["build", "--project", projectPath, "--no-cache"]);
+  assert.equal(built.status, 0, built.stdout + built.stderr);
+  const labBefore = await stat(resolve(projectDirectory, "out/lab/index.txt"));
+
+  await writeFiles(projectDirectory, {
+    "node_modules/@fixture/lab-target/index.js": fakeTargetPluginSource("@fixture/lab-target", "lab")
+      .replace('"FIXTURE_REJECT"', '"value = 2"'),
+  });
+  await writeFile(resolve(projectDirectory, "src/index.ts"), "export const value = 2;\n", "utf8");
+
+  const blocked = runCli(["build", "--project", projectPath, "--no-cache"]);
+  assert.equal(blocked.status, 1, blocked.stdout + blocked.stderr);
+  assert.equal(await readFile(resolve(projectDirectory, "out/demo/index.txt"), "utf8"), "export const value = 1;\n");
+
+  const partial = runCli(["build", "--project", projectPath, "--no-cache", "--publish-partial"]);
+  assert.equal(partial.status, 3, partial.stdout + partial.stderr);
+  assert.match(partial.stdout, /^Published: demo\nRetained: lab$/mu);
+  assert.match(partial.stderr, /^ERROR lab:FIXTURE_REJECTED: fixture target rejected index\.txt$/mu);
+  assert.equal(await readFile(resolve(projectDirectory, "out/demo/index.txt"), "utf8"), "export const value = 2;\n");
+  assert.equal(await readFile(resolve(projectDirectory, "out/lab/index.txt"), "utf8"), "export const value = 1;\n");
+  assert.equal((await stat(resolve(projectDirectory, "out/lab/index.txt"))).ino, labBefore.ino);
+  const manifest = JSON.parse(await readFile(resolve(projectDirectory, "out/tsonic-manifest.json"), "utf8"));
+  assert.equal(manifest.complete, false);
+  assert.deepEqual(manifest.targets.map((target) => [target.targetId, target.status]), [
+    ["demo", "published"],
+    ["lab", "retained"],
+  ]);
+  assert.deepEqual(manifest.targets[1].plugins, [{ name: "@fixture/lab-target", version: "1.0.0" }]);
+
+  const verified = runCli(["verify-output", "--project", projectPath, "--diagnostics-format", "json"]);
+  assert.equal(verified.status, 1, verified.stdout + verified.stderr);
+  assert.deepEqual(JSON.parse(verified.stdout).diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.message]), [
+    ["TSONIC_OUTPUT_STALE", "Target 'lab' failed its last build and keeps the output of an earlier build."],
+  ]);
+
+  const rejected = runCli(["build", "--project", projectPath, "--publish-partial", "--dry-run"]);
+  assert.equal(rejected.status, 1);
+  assert.equal(rejected.stderr, "--publish-partial cannot be combined with --dry-run.\n");
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { parseTsonicProjectConfig } from "../../../packages/host/dist/index.js";
+import { fakeTargetPlugin, repoRoot, runCli, writeFiles, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-schema", `${Date.now()}-${process.pid}`);
+
+test("schema combines the project config contract with installed target option schemas", async () => {
+  const projectDirectory = resolve(tempRoot, "packs");
+  await writePluginProject(projectDirectory, {
+    plugins: [
+      fakeTargetPlugin("@fixture/alpha-target", "alpha", {
+        pack: {
+          surfaces: [{ id: "web" }],
+          options: [
+            { name: "namespace", description: "Root namespace", type: "string", required: true },
+            { name: "publishAot", description: "Publish ahead of time", type: "boolean" },
+            { name: "properties", description: "Extra properties", type: "string-map" },
+            { name: "notes", description: "Untyped notes" },
+          ],
+        },
+      }),
+      fakeTargetPlugin("@fixture/beta-target", "beta"),
+    ],
+  });
+
+  const result = runCli(["schema", "--output", ".tsonic/schema.json"], projectDirectory);
+
+  assert.equal(result.status, 0, result.stdout + result.stderr);
+  assert.equal(result.stdout, "Wrote .tsonic/schema.json\n");
+  const schema = JSON.parse(await readFile(resolve(projectDirectory, ".tsonic/schema.json"), "utf8"));
+  const targetSchema = schema.properties.targets.items;
+  assert.deepEqual(targetSchema.properties.id.examples, ["alpha", "beta"]);
+  assert.deepEqual(targetSchema.allOf, [
+    {
+      if: { properties: { id: { const: "alpha" } }, required: ["id"] },
+      then: {
+        properties: {
+          surfaces: { type: "array", items: { enum: ["web"] } },
+          options: {
+            type: "object",
+            description: "alpha fixture target options.",
+            additionalProperties: false,
+            properties: {
+              namespace: { type: "string", description: "Root namespace" },
+              publishAot: { type: "boolean", description: "Publish ahead of time" },
+              properties: { type: "object", additionalProperties: { type: "string" }, description: "Extra properties" },
+              notes: { description: "Untyped notes" },
+            },
+            required: ["namespace"],
+          },
+        },
+      },
+    },
+    {
+      if: { properties: { id: { const: "beta" } }, required: ["id"] },
+      then: { properties: { surfaces: { type: "array", items: { enum: [] } } } },
+    },
+  ]);
+});
+
+test("schema properties match the keys the project config parser accepts", async () => {
+  const projectDirectory = resolve(tempRoot, "host-only");
+  await writeFiles(projectDirectory, { "README.md": "no package.json\n" });
+
+  const result = runCli(["schema", "--project", resolve(projectDirectory, "tsonic.json")]);
+
+  assert.equal(result.status, 0, result.stderr);
+  const schema = JSON.parse(result.stdout);
+  assert.equal(schema.additionalProperties, false);
+  assert.deepEqual(schema.required, ["entryPoint", "targets"]);
+  assert.equal(schema.properties.targets.items.allOf, undefined);
+  const sample = {
+    $schema: "./schema.json",
+    entryPoint: "index.ts",
+    rootFiles: ["index.ts"],
+    rootDir: "src",
+    outDir: "out",
+    targets: [{ id: "demo", surfaces: ["web"], options: {} }],
+    diagnostics: { warningsAsErrors: true, severity: { DEMO_STYLE: "off" }, baseline: "tsonic-baseline.json" },
+  };
+  assert.deepEqual(Object.keys(schema.properties), Object.keys(sample));
+  assert.deepEqual(Object.keys(schema.properties.targets.items.properties), Object.keys(sample.targets[0]));
+  assert.deepEqual(Object.keys(schema.properties.diagnostics.properties), Object.keys(sample.diagnostics));
+  assert.deepEqual(schema.properties.diagnostics.properties.severity.additionalProperties.enum, ["error", "warning", "suggestion", "off"]);
+  assert.doesNotThrow(() => parseTsonicProjectConfig(sample));
+  assert.throws(() => parseTsonicProjectConfig({ ...sample, extra: true }), /unsupported field 'extra'/u);
+  assert.throws(
+    () => parseTsonicProjectConfig({ ...sample, targets: [{ id: "demo", extra: true }] }),
+    /unsupported field 'extra'/u,
+  );
+  assert.throws(
+    () => parseTsonicProjectConfig({ ...sample, diagnostics: { warningsAsErrors: "yes" } }),
+    /diagnostics\.warningsAsErrors must be a boolean/u,
+  );
+  const entryPattern = new RegExp(schema.properties.entryPoint.pattern, "u");
+  const declarationPattern = new RegExp(schema.properties.entryPoint.not.pattern, "u");
+  assert.ok(entryPattern.test("main.mts") && !declarationPattern.test("main.mts"));
+  assert.ok(declarationPattern.test("types.d.ts"));
+});
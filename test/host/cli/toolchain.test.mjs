@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, runCli, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-toolchain", `${Date.now()}-${process.pid}`);
+
+test("build --toolchain invokes target toolchains after publication and streams their output", async () => {
+  const projectDirectory = resolve(tempRoot, "invoke");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig([{ id: "alpha" }, { id: "beta" }]),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [
+      fakeTargetPlugin("@fixture/alpha-target", "alpha", {
+        toolchainInvocation: {
+          output: [["stdout", "alpha native build\n"], ["stderr", "alpha native warning\n"]],
+          diagnostics: [{ code: "ALPHA_NATIVE", category: "warning", message: "native build reported a warning" }],
+        },
+      }),
+      fakeTargetPlugin("@fixture/beta-target", "beta"),
+    ],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  const plain = runCli(["build", "--project", projectPath]);
+  assert.equal(plain.status, 0, plain.stdout + plain.stderr);
+  assert.doesNotMatch(plain.stdout, /toolchain alpha/u);
+  assert.doesNotMatch(plain.stdout, /^Toolchain:/mu);
+
+  const invoked = runCli(["build", "--project", projectPath, "--toolchain"]);
+  assert.equal(invoked.status, 0, invoked.stdout + invoked.stderr);
+  assert.match(invoked.stdout, /^toolchain alpha saw index\.txt,target\.json\nalpha native build\n[\s\S]*^Cache: up to date$/mu);
+  assert.match(invoked.stdout, /^Toolchain: alpha$/mu);
+  assert.match(invoked.stderr, /^alpha native warning$/mu);
+  assert.match(invoked.stderr, /^WARNING alpha:ALPHA_NATIVE: native build reported a warning$/mu);
+
+  const json = runCli(["build", "--project", projectPath, "--toolchain", "--diagnostics-format", "json"]);
+  assert.equal(json.status, 0, json.stdout + json.stderr);
+  assert.equal(JSON.parse(json.stdout).diagnostics[0].code, "ALPHA_NATIVE");
+  assert.match(json.stderr, /^toolchain alpha saw index\.txt,target\.json$/mu);
+});
+
+test("toolchain prepare and invoke report structured diagnostics that decide the build exit code", async () => {
+  const projectDirectory = resolve(tempRoot, "structured");
+  const span = { fileName: "src/index.ts", line: 1, column: 14, endLine: 1, endColumn: 19 };
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      prepareDiagnostics: [{ code: "DEMO_PREPARE", category: "error", message: "native project cannot be prepared", sourceSpan: span }],
+    })],
+  });
+  const projectPath = resolve(projectDirectory, "tsonic.json");
+
+  const rejected = runCli(["build", "--project", projectPath, "--toolchain"]);
+  assert.equal(rejected.status, 1, rejected.stdout + rejected.stderr);
+  assert.match(rejected.stderr, /^ERROR demo:DEMO_PREPARE src\/index\.ts:1:14: native project cannot be prepared$/mu);
+  assert.doesNotMatch(rejected.stdout, /^Toolchain:/mu);
+  assert.equal(existsSync(resolve(projectDirectory, "out")), false);
+
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [fakeTargetPlugin("@fixture/demo-target", "demo", {
+      prepareDiagnostics: [{ code: "DEMO_PREPARE", category: "warning", message: "native SDK is older than recommended" }],
+      toolchainInvocation: {
+        diagnostics: [{ code: "DEMO_NATIVE", category: "error", message: "native build failed" }],
+      },
+    })],
+  });
+  const failed = runCli(["build", "--project", projectPath, "--toolchain"]);
+  assert.equal(failed.status, 1, failed.stdout + failed.stderr);
+  assert.match(failed.stderr, /^WARNING demo:DEMO_PREPARE: native SDK is older than recommended$/mu);
+  assert.match(failed.stderr, /^ERROR demo:DEMO_NATIVE: native build failed$/mu);
+  assert.match(failed.stdout, /^Toolchain: demo$/mu);
+  assert.equal(existsSync(resolve(projectDirectory, "out/demo/index.txt")), true);
+});
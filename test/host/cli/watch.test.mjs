@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import test from "node:test";
+import { demoProjectConfig, fakeTargetPlugin, repoRoot, spawnCli, writeFiles, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const tempRoot = resolve(repoRoot, ".temp/test-runs/cli-watch", `${Date.now()}-${process.pid}`);
+
+test("watch republishes changed sources and keeps the last good output on failure", async () => {
+  const projectDirectory = resolve(tempRoot, "republish");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  const watch = spawnCli(["watch", "--project", resolve(projectDirectory, "tsonic.json")]);
+  try {
+    await watch.waitForOutput(/Waiting for changes/u);
+    assert.equal(await readFile(resolve(projectDirectory, "out/demo/index.txt"), "utf8"), "export const value = 1;\n");
+
+    let offset = watch.stdout.length;
+    await writeFiles(projectDirectory, { "src/index.ts": "export const value = 2;\n" });
+    await watch.waitForOutput(/Published 2 artifacts[^]*Waiting for changes/u, { after: offset });
+    assert.equal(await readFile(resolve(projectDirectory, "out/demo/index.txt"), "utf8"), "export const value = 2;\n");
+
+    offset = watch.stdout.length;
+    await writeFiles(projectDirectory, { "src/index.ts": "export const value = \"FIXTURE_REJECT\";\n" });
+    await watch.waitForOutput(/Build failed for demo; kept the last published output\.[^]*Waiting for changes/u, { after: offset });
+    assert.match(watch.stderr, /ERROR demo:FIXTURE_REJECTED/u);
+    assert.equal(await readFile(resolve(projectDirectory, "out/demo/index.txt"), "utf8"), "export const value = 2;\n");
+  } finally {
+    const exit = await watch.stop();
+    assert.equal(exit.code, 0, watch.stdout + watch.stderr);
+  }
+});
+
+test("watch rebuilds only the targets affected by a target config change", async () => {
+  const projectDirectory = resolve(tempRoot, "affected-targets");
+  const config = demoProjectConfig([{ id: "alpha" }, { id: "beta" }]);
+  await writePluginProject(projectDirectory, {
+    config,
+    files: { "src/index.ts": "export const value = 1;\n" },
+    plugins: [
+      fakeTargetPlugin("@fixture/alpha-target", "alpha"),
+      fakeTargetPlugin("@fixture/beta-target", "beta"),
+    ],
+  });
+  const watch = spawnCli(["watch", "--project", resolve(projectDirectory, "tsonic.json")]);
+  try {
+    await watch.waitForOutput(/Building alpha, beta \(initial build\)[^]*Waiting for changes/u);
+
+    const offset = watch.stdout.length;
+    await writeFiles(projectDirectory, {
+      "tsonic.json": `${JSON.stringify({ ...config, targets: [{ id: "alpha" }, { id: "beta", options: { flavor: "spicy" } }] }, null, 2)}\n`,
+    });
+    const output = await watch.waitForOutput(/Published [^]*Waiting for changes/u, { after: offset });
+    assert.match(output.slice(offset), /Building beta \(changed: tsonic\.json\)/u);
+    assert.deepEqual(JSON.parse(await readFile(resolve(projectDirectory, "out/beta/target.json"), "utf8")), {
+      id: "beta",
+      options: { flavor: "spicy" },
+    });
+    assert.deepEqual(JSON.parse(await readFile(resolve(projectDirectory, "out/alpha/target.json"), "utf8")), { id: "alpha" });
+  } finally {
+    const exit = await watch.stop();
+    assert.equal(exit.code, 0, watch.stdout + watch.stderr);
+  }
+});
+
+test("watch follows plugin packages and the declaration packages the build reads", async () => {
+  const projectDirectory = resolve(tempRoot, "dependency-inputs");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  await writeFiles(projectDirectory, {
+    "package.json": `${JSON.stringify({
+      name: "fixture-project",
+      private: true,
+      type: "module",
+      dependencies: { "@fixture/demo-target": "1.0.0", "plain-library": "1.0.0", "typed-library": "1.0.0" },
+    }, null, 2)}\n`,
+    "node_modules/plain-library/package.json": `${JSON.stringify({ name: "plain-library", version: "1.0.0" })}\n`,
+    "node_modules/plain-library/index.js": "export const plain = 1;\n",
+    "node_modules/typed-library/package.json": `${JSON.stringify({ name: "typed-library", version: "1.0.0", types: "./index.d.ts" })}\n`,
+    "node_modules/typed-library/index.d.ts": "export declare const typed: number;\n",
+    "node_modules/typed-library/notes.md": "notes\n",
+  });
+  const watch = spawnCli(["watch", "--project", resolve(projectDirectory, "tsonic.json")]);
+  try {
+    await watch.waitForOutput(/Waiting for changes/u);
+
+    let offset = watch.stdout.length;
+    await writeFiles(projectDirectory, {
+      "node_modules/plain-library/index.js": "export const plain = 2;\n",
+      "node_modules/typed-library/notes.md": "changed notes\n",
+    });
+    await new Promise((resolveDelay) => setTimeout(resolveDelay, 500));
+    await writeFiles(projectDirectory, { "node_modules/typed-library/index.d.ts": "export declare const typed: string;\n" });
+    let output = await watch.waitForOutput(/Published [^]*Waiting for changes/u, { after: offset });
+    assert.match(output.slice(offset), /Building demo \(changed: node_modules\/typed-library\/index\.d\.ts\)/u);
+    assert.doesNotMatch(output.slice(offset), /plain-library|notes\.md/u);
+
+    offset = watch.stdout.length;
+    await writeFiles(projectDirectory, {
+      "node_modules/@fixture/demo-target/index.js": await readFile(
+        resolve(projectDirectory, "node_modules/@fixture/demo-target/index.js"),
+        "utf8",
+      ),
+    });
+    output = await watch.waitForOutput(/Published [^]*Waiting for changes/u, { after: offset });
+    assert.match(output.slice(offset), /Building demo \(changed: node_modules\/@fixture\/demo-target\/index\.js\)/u);
+  } finally {
+    const exit = await watch.stop();
+    assert.equal(exit.code, 0, watch.stdout + watch.stderr);
+  }
+});
@@ -0,0 +1,107 @@
+import { createProjectDiagnosticSession } from "../../../packages/host/dist/index.js";
+import {
+  assert,
+  createFakeTargetPack,
+  createRegistry,
+  parseTsonicProjectConfig,
+  resolve,
+  tempRoot,
+  test,
+  writeProject,
+} from "./surface-composition.helpers.mjs";
+
+test("diagnostic sessions honor source overlays and reuse results for unchanged sources", async () => {
+  const events = [];
+  const pack = createFakeTargetPack(events, { traceLifecycle: true });
+  const projectDirectory = resolve(tempRoot, "diagnostic-session-warm");
+  const projectConfig = {
+    entryPoint: "index.ts",
+    rootDir: "src",
+    outDir: "out",
+    targets: [{ id: "demo" }],
+  };
+  await writeProject(projectDirectory, {
+    "tsonic.json": JSON.stringify(projectConfig, null, 2),
+    "src/index.ts": "export const value = 1;\n",
+  });
+  const session = createProjectDiagnosticSession({
+    project: parseTsonicProjectConfig(projectConfig),
+    projectFilePath: resolve(projectDirectory, "tsonic.json"),
+    registry: createRegistry(pack),
+    installedCapabilities: [],
+  });
+
+  const clean = await session.check();
+  assert.deepEqual(clean.diagnostics, []);
+  assert.equal(await session.check(), clean);
+  const overlaid = await session.check(new Map([
+    [resolve(projectDirectory, "src/index.ts"), "export const value: number = \"text\";\n"],
+  ]));
+  assert.equal(overlaid.targets[0].compileResult.kind, "rejected");
+  assert.deepEqual(overlaid.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.sourceSpan?.fileName]), [
+    ["TSTS_DIAGNOSTIC", "index.ts"],
+  ]);
+  assert.deepEqual((await session.check()).diagnostics, []);
+  assert.equal(events.filter((event) => event === "session:create").length, 3);
+  assert.equal(events.some((event) => event.startsWith("toolchain:")), false);
+
+  session.invalidate();
+  await session.check();
+  assert.equal(events.filter((event) => event === "session:create").length, 4);
+
+  const controller = new AbortController();
+  const cancelled = session.check(new Map([[resolve(projectDirectory, "src/index.ts"), "export const value = 2;\n"]]), controller.signal);
+  controller.abort();
+  assert.deepEqual((await cancelled).diagnostics.map((diagnostic) => diagnostic.code), ["TARGET_COMPILATION_CANCELLED"]);
+  assert.equal(events.filter((event) => event === "session:create").length, 4);
+  session.close();
+  await assert.rejects(session.check(), /Project diagnostic session is closed\./u);
+});
+
+test("diagnostic sessions reuse parsed source files across edits and re-parse only changed files", async () => {
+  const projectDirectory = resolve(tempRoot, "diagnostic-session-compiler");
+  const checkedSourceFiles = [];
+  const pack = createFakeTargetPack([], {
+    onCompile(input) {
+      checkedSourceFiles.push(new Map(input.source.sourceFiles
+        .filter((sourceFile) => sourceFile !== undefined)
+        .map((sourceFile) => [input.source.ast.getFileName(sourceFile), sourceFile])));
+    },
+  });
+  const projectConfig = {
+    entryPoint: "index.ts",
+    rootDir: "src",
+    outDir: "out",
+    targets: [{ id: "demo" }],
+  };
+  await writeProject(projectDirectory, {
+    "tsonic.json": JSON.stringify(projectConfig, null, 2),
+    "src/index.ts": "import { helper } from \"./helper.js\";\nexport const value = helper;\n",
+    "src/helper.ts": "export const helper = 1;\n",
+  });
+  const session = createProjectDiagnosticSession({
+    project: parseTsonicProjectConfig(projectConfig),
+    projectFilePath: resolve(projectDirectory, "tsonic.json"),
+    registry: createRegistry(pack),
+    installedCapabilities: [],
+  });
+  const indexPath = resolve(projectDirectory, "src/index.ts");
+  const helperPath = resolve(projectDirectory, "src/helper.ts");
+
+  assert.deepEqual((await session.check()).diagnostics, []);
+  assert.deepEqual((await session.check(new Map([
+    [indexPath, "import { helper } from \"./helper.js\";\nexport const value = helper + 1;\n"],
+  ]))).diagnostics, []);
+
+  const [first, second] = checkedSourceFiles;
+  assert.equal(checkedSourceFiles.length, 2);
+  assert.notEqual(first.get(helperPath), undefined);
+  assert.notEqual(second.get(indexPath), first.get(indexPath));
+  assert.equal(second.get(helperPath), first.get(helperPath));
+  const libraries = [...first.keys()].filter((fileName) => fileName.endsWith(".d.ts"));
+  assert.ok(libraries.length > 0);
+  for (const fileName of libraries) {
+    assert.equal(second.get(fileName), first.get(fileName), fileName);
+  }
+  session.close();
+});
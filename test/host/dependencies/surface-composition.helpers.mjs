@@ -117,6 +117,7 @@ export async function compileFakeProject(name, targetPack, targetSelection, opti
   await writeProject(projectDirectory, {
     "tsonic.json": JSON.stringify(projectConfig, null, 2),
     "src/index.ts": options.source ?? "export const value = 1;\n",
+    ...options.files,
   });
   return compileProject({
     project: parseTsonicProjectConfig(projectConfig),
@@ -1,4 +1,10 @@
 import { assert, access, mkdir, readFile, writeFile, dirname, resolve, test, collectTstsDiagnostics, compileProject, createProgramOptionsForProject, composeFakeTargetSourceCompiler, parseTsonicProjectConfig, createTargetRegistry, rejectedTargetStage, targetSourceProfileDeclaration, providerVirtualDeclarationFactKey, repoRoot, tempRoot, createPortableOperationFactsExtension, portableOperationFactKey, compileFakeProject, createSemanticSession, writeProject, findVariableInitializer, findBinaryExpression, createRegistry, extensionIds, createFakeCompilerExtension, createFakeTargetPack, createFakeTargetCapability, createFakeVirtualTargetCapability, createFakeVirtualBindingProvider, formatImportSliceExports, createFakeSurface, createFakeArtifact, createFakeReference, targetArtifacts } from "./surface-composition.helpers.mjs";
+import { invokeProjectToolchains } from "../../../packages/host/dist/index.js";
+import { collectImportActivatedTargetCapabilities } from "../../../packages/host/dist/target/capability-activation.js";
+import { collectSourceModuleGraph } from "../../../packages/host/dist/target/source-module-graph.js";
+import { getStaticModuleReference } from "../../../packages/target-api/dist/public/provider.js";
+import { sourceProjectFiles } from "../../../packages/target-api/dist/public/source.js";
+import { createCompilerSession } from "@tsonic/tsts";
 
 test("vendored TSTS is a package artifact, not a checked-in source project", async () => {
   await assert.rejects(
@@ -688,6 +694,272 @@ test("host activates target capability source profiles only for imported owned m
   assert.equal(events.includes("capability-extension:unused:target=demo:capabilities=unused"), false);
 });
 
+test("host activates capabilities from the parsed module graph without an extra semantic check", async () => {
+  const events = [];
+  const capabilities = ["direct", "relative", "typeonly", "reexport", "package", "packagerel", "unreached"]
+    .map((id) => createFakeVirtualTargetCapability(id, { events }));
+  const targetPack = createFakeTargetPack(events);
+
+  const result = await compileFakeProject("target-capability-module-graph-activation", targetPack, { id: "demo" }, {
+    installedCapabilities: capabilities,
+    source: [
+      "import { named } from \"@direct/native/named.js\";",
+      "import type { named as typeOnly } from \"@typeonly/native/named.js\";",
+      "import { helper } from \"./helper.js\";",
+      "import { fromPackage } from \"fixture-source\";",
+      "export { named as reexported } from \"@reexport/native/named.js\";",
+      "export const value = [named, helper, fromPackage];",
+      "",
+    ].join("\n"),
+    files: {
+      "package.json": JSON.stringify({ name: "fixture-project", dependencies: { "fixture-source": "1.0.0" } }),
+      "src/helper.ts": "import { named } from \"@relative/native/named.js\";\nexport const helper = named;\n",
+      "src/unused.ts": "import { named } from \"@unreached/native/named.js\";\nexport const unused = named;\n",
+      "node_modules/fixture-source/package.json": JSON.stringify({
+        name: "fixture-source",
+        version: "1.0.0",
+        type: "module",
+        exports: { ".": "./index.ts" },
+      }),
+      "node_modules/fixture-source/index.ts": [
+        "import { named } from \"@package/native/named.js\";",
+        "import { inner } from \"./inner.js\";",
+        "export const fromPackage = [named, inner];",
+        "",
+      ].join("\n"),
+      "node_modules/fixture-source/inner.ts": "import { named } from \"@packagerel/native/named.js\";\nexport const inner = named;\n",
+      "node_modules/fixture-source/unused.ts": "import { named } from \"@unreached/native/named.js\";\nexport const unused = named;\n",
+    },
+  });
+
+  assert.deepEqual(result.targets[0].compileResult.kind, "resolved", JSON.stringify(result.diagnostics));
+  assert.deepEqual(
+    [...new Set(events
+      .filter((event) => event.startsWith("capability-extension:"))
+      .map((event) => event.slice(event.indexOf(":capabilities=") + ":capabilities=".length)))],
+    ["direct,relative,typeonly,reexport,package,packagerel"],
+  );
+
+  const projectDirectory = resolve(tempRoot, "target-capability-module-graph-activation");
+  const created = createProgramOptionsForProject({
+    project: parseTsonicProjectConfig(JSON.parse(await readFile(resolve(projectDirectory, "tsonic.json"), "utf8"))),
+    projectFilePath: resolve(projectDirectory, "tsonic.json"),
+  });
+  const checked = createCompilerSession({ programOptions: created.programOptions }).checkSource();
+  const checkedSpecifiers = [...new Set(sourceProjectFiles(checked).flatMap((sourceFile) =>
+    checked.ast.statements(sourceFile).flatMap((statement) => {
+      const reference = statement === undefined ? undefined : getStaticModuleReference(checked.ast, statement);
+      return reference?.moduleSpecifier === undefined ? [] : [checked.ast.text(reference.moduleSpecifier)];
+    })))].sort();
+  const moduleGraphSpecifiers = collectSourceModuleGraph(created).specifiers;
+  assert.deepEqual(moduleGraphSpecifiers, checkedSpecifiers);
+  assert.deepEqual(
+    collectImportActivatedTargetCapabilities(moduleGraphSpecifiers, capabilities, { id: "demo" })
+      .map((capability) => capability.id),
+    collectImportActivatedTargetCapabilities(checkedSpecifiers, capabilities, { id: "demo" })
+      .map((capability) => capability.id),
+  );
+});
+
+function createOptionContractTargetPack(events, contexts) {
+  return {
+    ...createFakeTargetPack(events, {
+      surfaces: [{
+        ...createFakeSurface("web"),
+        options: [{ name: "port", description: "Port", type: "number" }],
+      }],
+      onSessionContext: (context) => contexts.push(context),
+    }),
+    options: [
+      { name: "namespace", description: "Root namespace", type: "string", required: true },
+      { name: "publishAot", description: "Publish ahead of time", type: "boolean", default: false },
+      { name: "legacyMode", description: "Legacy mode", type: "boolean", deprecated: "Use mode instead." },
+    ],
+  };
+}
+
+function createOptionContractCapability(events) {
+  return {
+    ...createFakeVirtualTargetCapability("acme", { events }),
+    options: [{ name: "acmeLevel", description: "Acme level", type: "string" }],
+  };
+}
+
+test("host rejects invalid target options with JSON paths before creating a target session", async () => {
+  const events = [];
+  const contexts = [];
+
+  const result = await compileFakeProject("target-options-invalid", createOptionContractTargetPack(events, contexts), {
+    id: "demo",
+    surfaces: ["web"],
+    options: { namespace: 1, nmespace: "App", port: "80", legacyMode: true, acmeLevel: "high", "bad key": true },
+  }, {
+    installedCapabilities: [createOptionContractCapability(events)],
+    source: "import { named } from \"@acme/native/named.js\";\nexport const value = named;\n",
+  });
+
+  assert.equal(result.targets[0].compileResult.kind, "rejected");
+  assert.deepEqual(contexts, []);
+  assert.deepEqual(result.diagnostics.map(({ code, category, jsonPath, message }) => ({ code, category, jsonPath, message })), [
+    {
+      code: "TARGET_OPTIONS_INVALID",
+      category: "error",
+      jsonPath: "$.targets[0].options.nmespace",
+      message: "Target 'demo' does not accept option 'nmespace'. Accepted options: acmeLevel, legacyMode, namespace, port, publishAot.",
+    },
+    {
+      code: "TARGET_OPTIONS_INVALID",
+      category: "error",
+      jsonPath: "$.targets[0].options[\"bad key\"]",
+      message: "Target 'demo' does not accept option 'bad key'. Accepted options: acmeLevel, legacyMode, namespace, port, publishAot.",
+    },
+    {
+      code: "TARGET_OPTIONS_INVALID",
+      category: "error",
+      jsonPath: "$.targets[0].options.namespace",
+      message: "Target 'demo' option 'namespace' must be a string.",
+    },
+    {
+      code: "TARGET_OPTIONS_DEPRECATED",
+      category: "warning",
+      jsonPath: "$.targets[0].options.legacyMode",
+      message: "Target 'demo' option 'legacyMode' is deprecated: Use mode instead.",
+    },
+    {
+      code: "TARGET_OPTIONS_INVALID",
+      category: "error",
+      jsonPath: "$.targets[0].options.port",
+      message: "Target 'demo' option 'port' must be a finite number.",
+    },
+  ]);
+});
+
+test("host applies target option defaults and reports missing required options", async () => {
+  const events = [];
+  const contexts = [];
+  const selection = { id: "demo", options: { namespace: "App" } };
+
+  const result = await compileFakeProject("target-options-defaults", createOptionContractTargetPack(events, contexts), selection);
+
+  assert.equal(result.targets[0].compileResult.kind, "resolved", JSON.stringify(result.diagnostics));
+  assert.deepEqual(result.targets[0].target, selection);
+  assert.deepEqual(contexts.map((context) => context.target.options), [{ publishAot: false, namespace: "App" }]);
+
+  const missing = await compileFakeProject("target-options-missing", createOptionContractTargetPack(events, []), { id: "demo" });
+
+  assert.deepEqual(missing.diagnostics.map(({ code, jsonPath, message }) => ({ code, jsonPath, message })), [{
+    code: "TARGET_OPTIONS_INVALID",
+    jsonPath: "$.targets[0].options.namespace",
+    message: "Target 'demo' requires option 'namespace': Root namespace",
+  }]);
+});
+
+test("host rejects conflicting option descriptors and validates keys whenever any contributor declares options", async () => {
+  const events = [];
+  const contexts = [];
+  const conflictingPack = {
+    ...createOptionContractTargetPack(events, contexts),
+    surfaces: [{
+      ...createFakeSurface("web"),
+      options: [{ name: "namespace", description: "Numeric namespace", type: "number" }],
+    }],
+  };
+
+  const conflict = await compileFakeProject("target-options-conflict", conflictingPack, {
+    id: "demo",
+    surfaces: ["web"],
+    options: { namespace: "App" },
+  });
+
+  assert.equal(conflict.targets[0].compileResult.kind, "rejected");
+  assert.deepEqual(contexts, []);
+  assert.deepEqual(conflict.diagnostics.map(({ code, category, jsonPath, message }) => ({ code, category, jsonPath, message })), [{
+    code: "TARGET_OPTIONS_INVALID",
+    category: "error",
+    jsonPath: "$.targets[0].options.namespace",
+    message: "Target 'demo' option 'namespace' is declared differently by target pack 'demo' and surface 'web'.",
+  }]);
+
+  const surfaceOnlyPack = createFakeTargetPack(events, {
+    surfaces: [{ ...createFakeSurface("web"), options: [{ name: "port", description: "Port", type: "number" }] }],
+    onSessionContext: (context) => contexts.push(context),
+  });
+
+  const unknown = await compileFakeProject("target-options-surface-only", surfaceOnlyPack, {
+    id: "demo",
+    surfaces: ["web"],
+    options: { port: 80, prot: 81, acmeLevel: "high" },
+  }, {
+    installedCapabilities: [createOptionContractCapability(events)],
+  });
+
+  assert.equal(unknown.targets[0].compileResult.kind, "rejected");
+  assert.deepEqual(contexts, []);
+  assert.deepEqual(unknown.diagnostics.map(({ code, jsonPath, message }) => ({ code, jsonPath, message })), [{
+    code: "TARGET_OPTIONS_INVALID",
+    jsonPath: "$.targets[0].options.prot",
+    message: "Target 'demo' does not accept option 'prot'. Accepted options: acmeLevel, port.",
+  }]);
+});
+
+test("toolchain invocation resolves the build plan's capability options and validates returned diagnostics", async () => {
+  const events = [];
+  const invocations = [];
+  const targetPack = {
+    ...createOptionContractTargetPack(events, []),
+    createToolchain() {
+      return {
+        prepare() {
+          return { diagnostics: [], producedArtifacts: [] };
+        },
+        invoke(input) {
+          invocations.push(input.target.options);
+          return { diagnostics: ["legacy native failure", { code: "DEMO_NATIVE", category: "warning", message: "native warning" }, { bogus: true }] };
+        },
+      };
+    },
+  };
+  const capability = {
+    ...createFakeVirtualTargetCapability("acme", { events }),
+    options: [{ name: "acmeLevel", description: "Acme level", type: "string", default: "standard" }],
+  };
+  const source = "import { named } from \"@acme/native/named.js\";\nexport const value = named;\n";
+  const invoke = (name, selection) => invokeProjectToolchains({
+    project: parseTsonicProjectConfig({ entryPoint: "index.ts", rootDir: "src", outDir: "out", targets: [selection] }),
+    projectFilePath: resolve(tempRoot, name, "tsonic.json"),
+    registry: createRegistry(targetPack),
+    installedCapabilities: [capability],
+    output: { write() {} },
+  });
+
+  const built = await compileFakeProject("toolchain-invocation-options", targetPack, { id: "demo", options: { namespace: "App" } }, {
+    installedCapabilities: [capability],
+    source,
+  });
+  assert.equal(built.targets[0].compileResult.kind, "resolved", JSON.stringify(built.diagnostics));
+  const invoked = await invoke("toolchain-invocation-options", { id: "demo", options: { namespace: "App" } });
+  assert.deepEqual(invocations, [{ publishAot: false, acmeLevel: "standard", namespace: "App" }]);
+  assert.deepEqual(invoked.invokedTargetIds, ["demo"]);
+  assert.deepEqual(invoked.diagnostics.map(({ code, category, message, source }) => ({ code, category, message, source })), [
+    { code: "TARGET_TOOLCHAIN", category: "error", message: "legacy native failure", source: "demo" },
+    { code: "DEMO_NATIVE", category: "warning", message: "native warning", source: "demo" },
+    {
+      code: "TARGET_TOOLCHAIN",
+      category: "error",
+      message: "Target toolchain returned a diagnostic without a string code, a category of error, warning or suggestion, and a string message.",
+      source: "demo",
+    },
+  ]);
+
+  const rejected = await invoke("toolchain-invocation-options", { id: "demo" });
+  assert.equal(invocations.length, 1);
+  assert.deepEqual(rejected.invokedTargetIds, []);
+  assert.deepEqual(rejected.diagnostics.map(({ code, message }) => ({ code, message })), [{
+    code: "TARGET_OPTIONS_INVALID",
+    message: "Target 'demo' requires option 'namespace': Root namespace",
+  }]);
+});
+
 test("host activates and validates transitive installed capability dependencies", async () => {
   const events = [];
   const dependency = createFakeVirtualTargetCapability("dependency", {
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { resolve } from "node:path";
+import test from "node:test";
+import { pathToFileURL } from "node:url";
+import { demoProjectConfig, repoRoot, writePluginProject } from "../../cli-build/helpers/harness.mjs";
+
+const serverPath = resolve(repoRoot, "packages/lsp/dist/src/index.js");
+const tempRoot = resolve(repoRoot, ".temp/test-runs/lsp", `${Date.now()}-${process.pid}`);
+
+function startServer() {
+  const child = spawn(process.execPath, [serverPath], { stdio: ["pipe", "pipe", "pipe"] });
+  const messages = [];
+  const waiters = [];
+  let buffer = Buffer.alloc(0);
+  let stderr = "";
+  let nextId = 1;
+  child.stderr.setEncoding("utf8");
+  child.stderr.on("data", (chunk) => {
+    stderr += chunk;
+  });
+  child.stdout.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) {
+        break;
+      }
+      const length = Number(/Content-Length: (\d+)/u.exec(buffer.subarray(0, headerEnd).toString("ascii"))[1]);
+      if (buffer.length < headerEnd + 4 + length) {
+        break;
+      }
+      messages.push(JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString("utf8")));
+      buffer = buffer.subarray(headerEnd + 4 + length);
+    }
+    for (const waiter of [...waiters]) {
+      const index = messages.findIndex((message, position) => position >= waiter.after && waiter.predicate(message));
+      if (index >= 0) {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        clearTimeout(waiter.timer);
+        waiter.resolve(messages[index]);
+      }
+    }
+  });
+  const exited = new Promise((resolveExit) => child.on("exit", (code) => resolveExit(code)));
+  const send = (message) => {
+    const body = Buffer.from(JSON.stringify({ jsonrpc: "2.0", ...message }), "utf8");
+    child.stdin.write(`Content-Length: ${body.length}\r\n\r\n`);
+    child.stdin.write(body);
+  };
+  return {
+    exited,
+    get messageCount() {
+      return messages.length;
+    },
+    request(method, params) {
+      const id = nextId++;
+      send({ id, method, params });
+      return this.waitFor((message) => message.id === id);
+    },
+    notify(method, params) {
+      send({ method, params });
+    },
+    waitFor(predicate, after = 0) {
+      return new Promise((resolveWait, rejectWait) => {
+        const waiter = {
+          predicate,
+          after,
+          resolve: resolveWait,
+          timer: setTimeout(() => {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            rejectWait(new Error(`Timed out waiting for an LSP message.\n${JSON.stringify(messages, null, 2)}\n${stderr}`));
+          }, 30_000),
+        };
+        waiters.push(waiter);
+        const existing = messages.find((message, position) => position >= after && predicate(message));
+        if (existing !== undefined) {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          clearTimeout(waiter.timer);
+          resolveWait(existing);
+        }
+      });
+    },
+    kill() {
+      if (child.exitCode === null) {
+        child.kill();
+      }
+    },
+  };
+}
+
+const publishedFor = (uri) => (message) =>
+  message.method === "textDocument/publishDiagnostics" && message.params.uri === uri;
+
+test("language server publishes source and target diagnostics for open documents", async () => {
+  const projectDirectory = resolve(tempRoot, "diagnostics");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  const documentUri = pathToFileURL(resolve(projectDirectory, "src/index.ts")).href;
+  const projectUri = pathToFileURL(resolve(projectDirectory, "tsonic.json")).href;
+  const server = startServer();
+  try {
+    const initialize = await server.request("initialize", {
+      processId: process.pid,
+      rootUri: pathToFileURL(projectDirectory).href,
+      capabilities: {},
+    });
+    assert.equal(initialize.result.capabilities.textDocumentSync.change, 1);
+    server.notify("initialized", {});
+
+    let after = server.messageCount;
+    server.notify("textDocument/didOpen", {
+      textDocument: { uri: documentUri, languageId: "typescript", version: 1, text: "export const value: number = \"text\";\n" },
+    });
+    const typeError = await server.waitFor(publishedFor(documentUri), after);
+    assert.deepEqual(typeError.params.diagnostics.map(({ message: _message, ...diagnostic }) => diagnostic), [{
+      range: { start: { line: 0, character: 13 }, end: { line: 0, character: 18 } },
+      severity: 1,
+      code: "TSTS_DIAGNOSTIC",
+      source: "tsts",
+      data: { evidence: ["tsts.code=TS2322"] },
+    }]);
+
+    after = server.messageCount;
+    server.notify("textDocument/didChange", {
+      textDocument: { uri: documentUri, version: 2 },
+      contentChanges: [{ text: "export const value = \"FIXTURE_REJECT\";\n" }],
+    });
+    const rejected = await server.waitFor(publishedFor(projectUri), after);
+    assert.deepEqual(rejected.params.diagnostics.map((diagnostic) => [diagnostic.source, diagnostic.code]), [
+      ["demo", "FIXTURE_REJECTED"],
+    ]);
+    const cleared = await server.waitFor(publishedFor(documentUri), after);
+    assert.deepEqual(cleared.params.diagnostics, []);
+
+    after = server.messageCount;
+    server.notify("textDocument/didClose", { textDocument: { uri: documentUri } });
+    const closed = await server.waitFor(publishedFor(projectUri), after);
+    assert.deepEqual(closed.params.diagnostics, []);
+
+    const shutdown = await server.request("shutdown", null);
+    assert.equal(shutdown.result, null);
+    server.notify("exit", null);
+    assert.equal(await server.exited, 0);
+  } finally {
+    server.kill();
+  }
+});
+
+test("language server reports diagnostic ranges in UTF-16 code units", async () => {
+  const projectDirectory = resolve(tempRoot, "utf16");
+  await writePluginProject(projectDirectory, {
+    config: demoProjectConfig(),
+    files: { "src/index.ts": "export const value = 1;\n" },
+  });
+  const documentUri = pathToFileURL(resolve(projectDirectory, "src/index.ts")).href;
+  const text = "const face = \"😀\"; export const value: number = face;\n";
+  const server = startServer();
+  try {
+    await server.request("initialize", {
+      processId: process.pid,
+      rootUri: pathToFileURL(projectDirectory).href,
+      capabilities: {},
+    });
+    server.notify("initialized", {});
+
+    const after = server.messageCount;
+    server.notify("textDocument/didOpen", {
+      textDocument: { uri: documentUri, languageId: "typescript", version: 1, text },
+    });
+    const published = await server.waitFor(publishedFor(documentUri), after);
+    const start = text.indexOf("value");
+    assert.deepEqual(published.params.diagnostics.map((diagnostic) => diagnostic.range), [{
+      start: { line: 0, character: start },
+      end: { line: 0, character: start + "value".length },
+    }]);
+
+    await server.request("shutdown", null);
+    server.notify("exit", null);
+    assert.equal(await server.exited, 0);
+  } finally {
+    server.kill();
+  }
+});
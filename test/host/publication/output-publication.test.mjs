@@ -1,7 +1,7 @@
 import assert from "node:assert/strict";
 import { createHash } from "node:crypto";
 import { existsSync } from "node:fs";
-import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import { mkdir, readFile, readdir, rename, stat, utimes, writeFile } from "node:fs/promises";
 import { dirname, resolve } from "node:path";
 import test from "node:test";
 import {
@@ -39,7 +39,7 @@ test("output publication atomically replaces the complete configured target set"
 
   assert.equal(await readFile(resolve(outputRoot, "csharp/src/Index.cs"), "utf8"), "current csharp\n");
   assert.equal(await readFile(resolve(outputRoot, "demo/src/index.txt"), "utf8"), "current demo\n");
-  assert.deepEqual((await readdir(outputRoot)).sort(), ["csharp", "demo"]);
+  assert.deepEqual((await readdir(outputRoot)).sort(), ["csharp", "demo", "tsonic-manifest.json"]);
   assert.equal(await readFile(resolve(projectDirectory, "user-owned.txt"), "utf8"), "preserve\n");
   assert.deepEqual(await outputScratchEntries(projectDirectory, outputRoot), []);
 });
@@ -52,6 +52,13 @@ test("output publication rejects incomplete and unsafe artifact sets before touc
       targets: [{ targetId: "csharp", artifacts: [artifact("Index.cs", "new\n")] }],
       message: /Missing: demo/u,
     },
+    {
+      name: "published and retained target",
+      expectedTargetIds: ["csharp", "demo"],
+      targets: [{ targetId: "csharp", artifacts: [artifact("Index.cs", "new\n")] }],
+      retainedTargetIds: ["csharp", "demo"],
+      message: /cannot both publish and retain target 'csharp'/u,
+    },
     {
       name: "escaping artifact",
       expectedTargetIds: ["csharp"],
@@ -94,6 +101,7 @@ test("output publication rejects incomplete and unsafe artifact sets before touc
         protectedPaths: [projectDirectory],
         expectedTargetIds: testCase.expectedTargetIds,
         targets: testCase.targets,
+        retainedTargetIds: testCase.retainedTargetIds,
       }),
       testCase.message,
       testCase.name,
@@ -103,6 +111,100 @@ test("output publication rejects incomplete and unsafe artifact sets before touc
   }
 });
 
+test("output publication writes binary and hash-verified copied artifacts", async () => {
+  const projectDirectory = resolve(testRoot, "binary-and-copied");
+  const outputRoot = resolve(projectDirectory, "out");
+  const sourcePath = resolve(projectDirectory, "assets/logo.png");
+  const logo = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+  await mkdir(dirname(sourcePath), { recursive: true });
+  await writeFile(sourcePath, logo);
+
+  await publishBuildOutput({
+    outputRoot,
+    protectedPaths: [projectDirectory],
+    expectedTargetIds: ["demo"],
+    targets: [{
+      targetId: "demo",
+      artifacts: [
+        artifact("index.txt", "text\n"),
+        { kind: "asset", path: "data.bin", bytes: new Uint8Array([0, 1, 2, 255]) },
+        { kind: "asset", path: "assets/logo.png", sourcePath, sha256: sha256(logo) },
+      ],
+    }],
+  });
+
+  assert.equal(await readFile(resolve(outputRoot, "demo/index.txt"), "utf8"), "text\n");
+  assert.deepEqual([...await readFile(resolve(outputRoot, "demo/data.bin"))], [0, 1, 2, 255]);
+  assert.deepEqual([...await readFile(resolve(outputRoot, "demo/assets/logo.png"))], [...logo]);
+  assert.deepEqual(await outputScratchEntries(projectDirectory, outputRoot), []);
+});
+
+test("output publication rejects invalid binary and copied artifacts before touching prior output", async () => {
+  const sourceRoot = resolve(testRoot, "copied-sources");
+  const sourcePath = resolve(sourceRoot, "asset.bin");
+  await mkdir(sourceRoot, { recursive: true });
+  await writeFile(sourcePath, "asset\n");
+  const cases = [
+    {
+      name: "ambiguous content",
+      artifact: { kind: "asset", path: "asset.bin", text: "text\n", bytes: new Uint8Array([1]) },
+      message: /exactly one of text, bytes, or sourcePath/u,
+    },
+    {
+      name: "non byte content",
+      artifact: { kind: "asset", path: "asset.bin", bytes: [1, 2, 3] },
+      message: /bytes content must be a Uint8Array/u,
+    },
+    {
+      name: "relative copy source",
+      artifact: { kind: "asset", path: "asset.bin", sourcePath: "asset.bin", sha256: sha256("asset\n") },
+      message: /sourcePath must be an absolute file path/u,
+    },
+    {
+      name: "missing copy hash",
+      artifact: { kind: "asset", path: "asset.bin", sourcePath },
+      message: /lowercase hex sha256/u,
+    },
+    {
+      name: "copy hash mismatch",
+      artifact: { kind: "asset", path: "asset.bin", sourcePath, sha256: sha256("other\n") },
+      message: /has sha256 [0-9a-f]{64}, expected/u,
+    },
+    {
+      name: "copy from output root",
+      artifact: (outputRoot) => ({
+        kind: "asset",
+        path: "asset.bin",
+        sourcePath: resolve(outputRoot, "csharp/Previous.txt"),
+        sha256: sha256("previous\n"),
+      }),
+      message: /inside the output root/u,
+    },
+  ];
+
+  for (const testCase of cases) {
+    const projectDirectory = resolve(testRoot, "invalid-content", testCase.name.replaceAll(" ", "-"));
+    const outputRoot = resolve(projectDirectory, "out");
+    await writeFiles(projectDirectory, { "out/csharp/Previous.txt": "previous\n" });
+    await assert.rejects(
+      publishBuildOutput({
+        outputRoot,
+        protectedPaths: [projectDirectory],
+        expectedTargetIds: ["csharp"],
+        targets: [{
+          targetId: "csharp",
+          artifacts: [typeof testCase.artifact === "function" ? testCase.artifact(outputRoot) : testCase.artifact],
+        }],
+      }),
+      testCase.message,
+      testCase.name,
+    );
+    assert.equal(await readFile(resolve(outputRoot, "csharp/Previous.txt"), "utf8"), "previous\n");
+    assert.equal(existsSync(resolve(outputRoot, "csharp/asset.bin")), false);
+    assert.deepEqual(await outputScratchEntries(projectDirectory, outputRoot), [], testCase.name);
+  }
+});
+
 test("output recovery restores the prior tree after a crash before publication", async () => {
   const projectDirectory = resolve(testRoot, "recover-prior");
   const outputRoot = resolve(projectDirectory, "out");
@@ -185,10 +287,106 @@ test("output publication fails closed while a live process owns the output lock"
   assert.equal(existsSync(resolve(outputRoot, "csharp/Current.txt")), false);
 });
 
+test("incremental output publication reuses unchanged files and rewrites only changed ones", async () => {
+  const projectDirectory = resolve(testRoot, "incremental");
+  const outputRoot = resolve(projectDirectory, "out");
+  const publish = (changed, mode = "incremental") => publishBuildOutput({
+    outputRoot,
+    protectedPaths: [projectDirectory],
+    expectedTargetIds: ["demo"],
+    targets: [{
+      targetId: "demo",
+      artifacts: [
+        artifact("src/Unchanged.cs", "unchanged\n"),
+        artifact("src/Changed.cs", changed),
+        artifact("src/Edited.cs", "generated\n"),
+      ],
+    }],
+    mode,
+  });
+
+  assert.deepEqual(await publish("first\n"), { written: 3, reused: 0 });
+  const past = new Date("2020-01-01T00:00:00Z");
+  for (const name of ["Unchanged.cs", "Changed.cs", "Edited.cs"]) {
+    await utimes(resolve(outputRoot, "demo/src", name), past, past);
+  }
+  await writeFile(resolve(outputRoot, "demo/src/Edited.cs"), "hand-edit\n", "utf8");
+  await utimes(resolve(outputRoot, "demo/src/Edited.cs"), past, past);
+  const before = await stat(resolve(outputRoot, "demo/src/Unchanged.cs"));
+  const changedBefore = await stat(resolve(outputRoot, "demo/src/Changed.cs"));
+
+  assert.deepEqual(await publish("second\n"), { written: 2, reused: 1 });
+  const unchanged = await stat(resolve(outputRoot, "demo/src/Unchanged.cs"));
+  const changed = await stat(resolve(outputRoot, "demo/src/Changed.cs"));
+  const edited = await stat(resolve(outputRoot, "demo/src/Edited.cs"));
+  assert.equal(unchanged.ino, before.ino);
+  assert.equal(unchanged.mtimeMs, past.getTime());
+  assert.notEqual(changed.ino, changedBefore.ino);
+  assert.ok(changed.mtimeMs > past.getTime());
+  assert.ok(edited.mtimeMs > past.getTime());
+  assert.equal(await readFile(resolve(outputRoot, "demo/src/Changed.cs"), "utf8"), "second\n");
+  assert.equal(await readFile(resolve(outputRoot, "demo/src/Edited.cs"), "utf8"), "generated\n");
+  assert.deepEqual(await outputScratchEntries(projectDirectory, outputRoot), []);
+
+  assert.deepEqual(await publish("second\n", "replace"), { written: 3, reused: 0 });
+  assert.notEqual((await stat(resolve(outputRoot, "demo/src/Unchanged.cs"))).ino, before.ino);
+});
+
+test("partial output publication replaces published targets and keeps retained subtrees", async () => {
+  const projectDirectory = resolve(testRoot, "partial");
+  const outputRoot = resolve(projectDirectory, "out");
+  await publishBuildOutput({
+    outputRoot,
+    protectedPaths: [projectDirectory],
+    expectedTargetIds: ["csharp", "demo"],
+    targets: [
+      { targetId: "csharp", artifacts: [artifact("src/Index.cs", "first csharp\n")] },
+      { targetId: "demo", artifacts: [artifact("src/index.txt", "first demo\n")] },
+    ],
+  });
+  const retainedBefore = await stat(resolve(outputRoot, "demo/src/index.txt"));
+  const previousManifest = JSON.parse(await readFile(resolve(outputRoot, "tsonic-manifest.json"), "utf8"));
+
+  assert.deepEqual(await publishBuildOutput({
+    outputRoot,
+    protectedPaths: [projectDirectory],
+    expectedTargetIds: ["csharp", "demo"],
+    targets: [{ targetId: "csharp", artifacts: [artifact("src/Index.cs", "second csharp\n")] }],
+    retainedTargetIds: ["demo"],
+    mode: "incremental",
+  }), { written: 1, reused: 1 });
+
+  assert.equal(await readFile(resolve(outputRoot, "csharp/src/Index.cs"), "utf8"), "second csharp\n");
+  assert.equal((await stat(resolve(outputRoot, "demo/src/index.txt"))).ino, retainedBefore.ino);
+  const manifest = JSON.parse(await readFile(resolve(outputRoot, "tsonic-manifest.json"), "utf8"));
+  assert.equal(manifest.complete, false);
+  assert.deepEqual(manifest.targets.map((target) => [target.targetId, target.status]), [
+    ["csharp", "published"],
+    ["demo", "retained"],
+  ]);
+  assert.deepEqual(manifest.targets[1].artifacts, previousManifest.targets[1].artifacts);
+  assert.deepEqual(await outputScratchEntries(projectDirectory, outputRoot), []);
+
+  await publishBuildOutput({
+    outputRoot,
+    protectedPaths: [projectDirectory],
+    expectedTargetIds: ["csharp", "fresh"],
+    targets: [{ targetId: "csharp", artifacts: [artifact("src/Index.cs", "third csharp\n")] }],
+    retainedTargetIds: ["fresh"],
+  });
+  assert.deepEqual((await readdir(outputRoot)).sort(), ["csharp", "tsonic-manifest.json"]);
+  const freshManifest = JSON.parse(await readFile(resolve(outputRoot, "tsonic-manifest.json"), "utf8"));
+  assert.deepEqual(freshManifest.targets[1], { targetId: "fresh", status: "retained", artifacts: [] });
+});
+
 function artifact(path, text) {
   return { kind: "source", path, text };
 }
 
+function sha256(content) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
 async function writeFiles(root, files) {
   for (const [relativePath, text] of Object.entries(files)) {
     const path = resolve(root, relativePath);
@@ -66,6 +66,7 @@ export function createParallelSuiteDefinition(repos) {
       nodeSuite(repos.tsonic, "tsonic", "host-cli-config", "test/host/dependencies"),
       nodeSuite(repos.tsonic, "tsonic", "host-cli-config", "test/host/publication"),
       nodeSuite(repos.tsonic, "tsonic", "host-cli-config", "test/host/cli"),
+      nodeSuite(repos.tsonic, "tsonic", "host-cli-config", "test/host/lsp"),
       nodeSuite(repos.tsonic, "tsonic", "host-source-core", "test/source-core"),
       nodeSuite(repos.tsonic, "tsonic", "host-target-api", "test/target-api"),
       nodeSuite(repos.tsonic, "tsonic", "host-cli-build-core", "test/cli-build/core"),
@@ -538,6 +538,31 @@ test("target artifact reconstruction requires exact dependencies for blocked own
   assert.equal(result.code, "TARGET_ARTIFACT_BLOCKED_DEPENDENCY_INVALID");
 });
 
+test("target artifact reconstruction stops before the next owner once its budget is exceeded", () => {
+  const graph = createTargetArtifactContractGraph();
+  const attempted = [];
+  let interruption;
+  const result = reconstructTargetArtifacts(graph, ["first", "second"], (owner) => {
+    attempted.push(owner);
+    interruption = "budget-exceeded";
+    return {
+      kind: "resolved",
+      contract: contract([signature, owner]),
+      dependencies: [],
+      artifact: { owner },
+    };
+  }, { maximumReconstructionCount: 8, cancellation: { interruption: () => interruption } });
+
+  assert.deepEqual(attempted, ["first"]);
+  assert.deepEqual(result, {
+    kind: "rejected",
+    owner: "second",
+    code: "TARGET_BUDGET_EXCEEDED",
+    reason: "Target compilation exceeded its budget.",
+    reconstructionCount: 1,
+  });
+});
+
 test("target artifact reconstruction requires an explicit finite caller budget", () => {
   const graph = createTargetArtifactContractGraph();
   assert.throws(
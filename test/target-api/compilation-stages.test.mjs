@@ -81,6 +81,74 @@ test("target stages short-circuit rejected analysis and planning without partial
   assert.deepEqual(planningEvents, ["analyze", "plan"]);
 });
 
+test("target stages report analyze, plan and materialize spans to the compilation profiler", () => {
+  const spans = [];
+  const profiler = {
+    span(name, run) {
+      spans.push(`start:${name}`);
+      const result = run();
+      spans.push(`end:${name}`);
+      return result;
+    },
+  };
+  const result = runTargetCompilationStages({
+    analyze: () => resolvedTargetStage({}),
+    plan: () => resolvedTargetStage({}),
+    materialize: () => ({ artifacts: [] }),
+  }, profiler);
+  assert.equal(result.kind, "resolved");
+  assert.deepEqual(spans, ["start:analyze", "end:analyze", "start:plan", "end:plan", "start:materialize", "end:materialize"]);
+
+  spans.length = 0;
+  runTargetCompilationStages({
+    analyze: () => rejectedTargetStage([error]),
+    plan: () => resolvedTargetStage({}),
+    materialize: () => ({ artifacts: [] }),
+  }, profiler);
+  assert.deepEqual(spans, ["start:analyze", "end:analyze"]);
+});
+
+test("target stages stop at the next stage boundary once cancellation fires", () => {
+  const events = [];
+  let interruption;
+  const result = runTargetCompilationStages({
+    analyze() {
+      events.push("analyze");
+      interruption = "budget-exceeded";
+      return resolvedTargetStage({}, [warning]);
+    },
+    plan() {
+      events.push("plan");
+      return resolvedTargetStage({});
+    },
+    materialize() {
+      events.push("materialize");
+      return { artifacts: [] };
+    },
+    cancellation: { interruption: () => interruption },
+  });
+  assert.equal(result.kind, "rejected");
+  assert.deepEqual(events, ["analyze"]);
+  assert.deepEqual(result.diagnostics.map((diagnostic) => diagnostic.code), ["TARGET_WARNING", "TARGET_BUDGET_EXCEEDED"]);
+
+  interruption = undefined;
+  const cancelled = runTargetCompilationStages({
+    analyze: () => resolvedTargetStage({}),
+    plan: () => resolvedTargetStage({}),
+    materialize() {
+      interruption = "cancelled";
+      return { artifacts: [] };
+    },
+    cancellation: { interruption: () => interruption },
+  });
+  assert.equal(cancelled.kind, "rejected");
+  assert.deepEqual(cancelled.diagnostics, [{
+    code: "TARGET_COMPILATION_CANCELLED",
+    category: "error",
+    message: "Target compilation was cancelled.",
+  }]);
+});
+
 test("target stage constructors reject contradictory diagnostic categories", () => {
   assert.throws(
     () => resolvedTargetStage({}, [error]),
@@ -254,6 +254,27 @@ test("public contract revisions transitively reclassify users without touching u
   assert.equal(evaluations.get("unrelated"), 1);
 });
 
+test("contract closure stops before the next evaluation once cancellation fires", () => {
+  const evaluated = [];
+  let interruption;
+  const result = resolveTargetContractFixedPoint({
+    roots: ["A"],
+    evaluate(id) {
+      evaluated.push(id);
+      interruption = "cancelled";
+      return { kind: "deferred", dependencies: ["B"], reason: "B is open" };
+    },
+    cancellation: { interruption: () => interruption },
+  });
+  assert.deepEqual(evaluated, ["A"]);
+  assert.deepEqual(result, {
+    kind: "rejected",
+    contractId: "B",
+    reason: "Target compilation was cancelled.",
+    interruption: "cancelled",
+  });
+});
+
 test("contract closure rejects unresolved, oscillating, invalid, and over-budget graphs", () => {
   const unresolved = resolveTargetContractFixedPoint({
     roots: ["A"],